@@ -0,0 +1,570 @@
+/**
+ * ```ts
+ * interface CancellableTask<A> {
+ *   (signal: Signal): Promise<A>
+ * }
+ * ```
+ *
+ * `CancellableTask<A>` represents an asynchronous computation that yields a value of type `A`, **never fails** and can be
+ * cancelled through the `Signal` it receives when it is run. Any `AbortSignal` can be used as a `Signal`.
+ *
+ * A cancelled computation never settles: `chain` stops scheduling the next steps, `delay` clears its timer and
+ * `getRaceMonoid` aborts the losing branch as soon as the race is settled.
+ *
+ * @since 2.10.0
+ */
+import { Applicative1 } from './Applicative'
+import { bindTo_, bind_, flow, identity, pipe } from './function'
+import { Either, isLeft } from './Either'
+import { Functor1 } from './Functor'
+import { IO } from './IO'
+import { Monad1 } from './Monad'
+import { Monoid } from './Monoid'
+import { none, Option, some } from './Option'
+import { Task } from './Task'
+import { TaskEither } from './TaskEither'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * The subset of `AbortSignal` used by `CancellableTask`.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface Signal {
+  readonly aborted: boolean
+  addEventListener(type: 'abort', listener: () => void): void
+  removeEventListener(type: 'abort', listener: () => void): void
+}
+
+/**
+ * The subset of `AbortController` used by `CancellableTask`.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface Controller {
+  readonly signal: Signal
+  readonly abort: IO<void>
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface CancellableTask<A> {
+  (signal: Signal): Promise<A>
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Lifts a `Task` into a `CancellableTask` which ignores the signal.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromTask: <A>(ma: Task<A>) => CancellableTask<A> = (ma) => () => ma()
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromTaskEither: <E, A>(ma: TaskEither<E, A>) => CancellableTask<Either<E, A>> = fromTask
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromIO: <A>(ma: IO<A>) => CancellableTask<A> = (ma) => () => Promise.resolve(ma())
+
+/**
+ * Creates a new `Controller`, `abort` notifies the listeners of its signal only the first time it is called.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const newController: IO<Controller> = () => {
+  let aborted = false
+  // tslint:disable-next-line: readonly-array
+  let listeners: Array<() => void> = []
+  return {
+    signal: {
+      get aborted() {
+        return aborted
+      },
+      addEventListener: (_, listener) => {
+        listeners.push(listener)
+      },
+      removeEventListener: (_, listener) => {
+        listeners = listeners.filter((l) => l !== listener)
+      }
+    },
+    abort: () => {
+      if (!aborted) {
+        aborted = true
+        const ls = listeners
+        listeners = []
+        ls.forEach((l) => l())
+      }
+    }
+  }
+}
+
+const neverAborted: Signal = {
+  aborted: false,
+  addEventListener: () => undefined,
+  removeEventListener: () => undefined
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Lowers a `CancellableTask` into a `Task` which runs it with a signal that is never aborted.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toTask = <A>(ma: CancellableTask<A>): Task<A> => () => ma(neverAborted)
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toTaskEither: <E, A>(ma: CancellableTask<Either<E, A>>) => TaskEither<E, A> = toTask
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Creates a task that will complete after a time delay, the timer is cleared if the task is cancelled in the meantime.
+ *
+ * @example
+ * import * as CT from 'fp-ts/CancellableTask'
+ *
+ * async function test() {
+ *   const controller = CT.newController()
+ *   const log: Array<string> = []
+ *   const fa = CT.delay(10)(CT.fromIO(() => log.push('a')))
+ *   // tslint:disable-next-line: no-floating-promises
+ *   fa(controller.signal)
+ *   controller.abort()
+ *   await CT.toTask(CT.delay(20)(CT.of(undefined)))()
+ *   assert.deepStrictEqual(log, [])
+ * }
+ *
+ * test()
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const delay = (millis: number) => <A>(ma: CancellableTask<A>): CancellableTask<A> => (signal) =>
+  new Promise((resolve) => {
+    if (signal.aborted) {
+      return
+    }
+    const onAbort = () => clearTimeout(timer)
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      // tslint:disable-next-line: no-floating-promises
+      ma(signal).then(resolve)
+    }, millis)
+    signal.addEventListener('abort', onAbort)
+  })
+
+/**
+ * Runs a task with a signal that is never aborted, so that it can't be cancelled once started.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const uncancellable = <A>(ma: CancellableTask<A>): CancellableTask<A> => () => ma(neverAborted)
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromIOK<A extends ReadonlyArray<unknown>, B>(f: (...a: A) => IO<B>): (...a: A) => CancellableTask<B> {
+  return (...a) => fromIO(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainIOK = <A, B>(f: (a: A) => IO<B>): ((ma: CancellableTask<A>) => CancellableTask<B>) =>
+  chain(fromIOK(f))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromTaskK<A extends ReadonlyArray<unknown>, B>(
+  f: (...a: A) => Task<B>
+): (...a: A) => CancellableTask<B> {
+  return (...a) => fromTask(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainTaskK = <A, B>(f: (a: A) => Task<B>): ((ma: CancellableTask<A>) => CancellableTask<B>) =>
+  chain(fromTaskK(f))
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Monad1<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const apPar_: Monad1<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
+const apSeq_: Monad1<URI>['ap'] = (fab, fa) =>
+  pipe(
+    fab,
+    chain((f) => pipe(fa, map(f)))
+  )
+const chain_: Monad1<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => (fa: CancellableTask<A>) => CancellableTask<B> = (f) => (fa) => (signal) =>
+  fa(signal).then(f)
+
+/**
+ * Apply a function to an argument under a type constructor.
+ *
+ * Both tasks run in parallel and receive the same signal.
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const ap: <A>(fa: CancellableTask<A>) => <B>(fab: CancellableTask<(a: A) => B>) => CancellableTask<B> = (fa) => (
+  fab
+) => (signal) => Promise.all([fab(signal), fa(signal)]).then(([f, a]) => f(a))
+
+/**
+ * Combine two effectful actions, keeping only the result of the first.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apFirst: <B>(fb: CancellableTask<B>) => <A>(fa: CancellableTask<A>) => CancellableTask<A> = (fb) =>
+  flow(
+    map((a) => () => a),
+    ap(fb)
+  )
+
+/**
+ * Combine two effectful actions, keeping only the result of the second.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apSecond = <B>(fb: CancellableTask<B>): (<A>(fa: CancellableTask<A>) => CancellableTask<B>) =>
+  flow(
+    map(() => (b: B) => b),
+    ap(fb)
+  )
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative1<URI>['of'] = (a) => () => Promise.resolve(a)
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * The next computation is not started if the signal has been aborted in the meantime.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <A, B>(f: (a: A) => CancellableTask<B>) => (ma: CancellableTask<A>) => CancellableTask<B> = (f) => (
+  ma
+) => (signal) => ma(signal).then((a) => (signal.aborted ? never(signal) : f(a)(signal)))
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainFirst: <A, B>(f: (a: A) => CancellableTask<B>) => (ma: CancellableTask<A>) => CancellableTask<A> = (
+  f
+) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map(() => a)
+    )
+  )
+
+/**
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const flatten: <A>(mma: CancellableTask<CancellableTask<A>>) => CancellableTask<A> =
+  /*#__PURE__*/
+  chain(identity)
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'CancellableTask'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind<A> {
+    readonly [URI]: CancellableTask<A>
+  }
+}
+
+/**
+ * Monoid returning the first completed task, the other one is cancelled.
+ *
+ * @example
+ * import * as CT from 'fp-ts/CancellableTask'
+ *
+ * async function test() {
+ *   const log: Array<string> = []
+ *   const M = CT.getRaceMonoid<string>()
+ *   const fa = CT.delay(20)(CT.fromIO(() => log.push('a')))
+ *   const fb = CT.delay(10)(CT.of('b'))
+ *   assert.deepStrictEqual(await CT.toTask(M.concat(CT.map(String)(fa), fb))(), 'b')
+ *   await CT.toTask(CT.delay(20)(CT.of(undefined)))()
+ *   assert.deepStrictEqual(log, [])
+ * }
+ *
+ * test()
+ *
+ * @category instances
+ * @since 2.10.0
+ */
+export function getRaceMonoid<A = never>(): Monoid<CancellableTask<A>> {
+  return {
+    concat: (x, y) => (signal) => {
+      const cx = newController()
+      const cy = newController()
+      const onAbort = () => {
+        cx.abort()
+        cy.abort()
+      }
+      if (signal.aborted) {
+        onAbort()
+      } else {
+        signal.addEventListener('abort', onAbort)
+      }
+      const settle = (loser: Controller) => (a: A): A => {
+        signal.removeEventListener('abort', onAbort)
+        loser.abort()
+        return a
+      }
+      return Promise.race([x(cx.signal).then(settle(cy)), y(cy.signal).then(settle(cx))])
+    },
+    empty: never
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor1<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ApplicativePar: Applicative1<URI> = {
+  URI,
+  map: map_,
+  ap: apPar_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ApplicativeSeq: Applicative1<URI> = {
+  URI,
+  map: map_,
+  ap: apSeq_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Monad: Monad1<URI> = {
+  URI,
+  map: map_,
+  of,
+  ap: apPar_,
+  chain: chain_
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * A `CancellableTask` that never completes.
+ *
+ * @since 2.10.0
+ */
+export const never: CancellableTask<never> = () => new Promise((_) => undefined)
+
+/**
+ * Cancellable version of `TaskEither.bracket`.
+ *
+ * `acquire` and `release` can't be cancelled. If the signal is aborted while `use` is running, the returned task never
+ * settles and `release` is called with `none` instead of the result of `use`.
+ *
+ * @example
+ * import * as CT from 'fp-ts/CancellableTask'
+ * import * as E from 'fp-ts/Either'
+ * import * as O from 'fp-ts/Option'
+ *
+ * async function test() {
+ *   const log: Array<string> = []
+ *   const controller = CT.newController()
+ *   const task = CT.bracket(
+ *     CT.of(E.right('resource')),
+ *     () => CT.delay(10)(CT.of(E.right(1))),
+ *     (r, e: O.Option<E.Either<never, number>>) =>
+ *       CT.fromIO(() => {
+ *         log.push(`release ${r} (${O.isNone(e) ? 'cancelled' : 'completed'})`)
+ *         return E.right(undefined)
+ *       })
+ *   )
+ *   // tslint:disable-next-line: no-floating-promises
+ *   task(controller.signal)
+ *   await CT.toTask(CT.delay(1)(CT.of(undefined)))()
+ *   controller.abort()
+ *   assert.deepStrictEqual(log, ['release resource (cancelled)'])
+ * }
+ *
+ * test()
+ *
+ * @since 2.10.0
+ */
+export const bracket = <E, A, B>(
+  acquire: CancellableTask<Either<E, A>>,
+  use: (a: A) => CancellableTask<Either<E, B>>,
+  release: (a: A, e: Option<Either<E, B>>) => CancellableTask<Either<E, void>>
+): CancellableTask<Either<E, B>> => (signal) =>
+  uncancellable(acquire)(signal).then((ea) => {
+    if (isLeft(ea)) {
+      return ea
+    }
+    const a = ea.right
+    return new Promise<Either<E, B>>((resolve) => {
+      const onAbort = () => {
+        // tslint:disable-next-line: no-floating-promises
+        uncancellable(release(a, none))(signal)
+      }
+      if (signal.aborted) {
+        return onAbort()
+      }
+      signal.addEventListener('abort', onAbort)
+      // tslint:disable-next-line: no-floating-promises
+      use(a)(signal).then((eb) => {
+        if (signal.aborted) {
+          return
+        }
+        signal.removeEventListener('abort', onAbort)
+        return uncancellable(release(a, some(eb)))(signal).then((e) => resolve(isLeft(e) ? e : eb))
+      })
+    })
+  })
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const Do: CancellableTask<{}> =
+  /*#__PURE__*/
+  of({})
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(name: N): (<A>(fa: CancellableTask<A>) => CancellableTask<{ [K in N]: A }>) =>
+  map(bindTo_(name))
+
+/**
+ * @since 2.10.0
+ */
+export const bind = <N extends string, A, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => CancellableTask<B>
+): ((fa: CancellableTask<A>) => CancellableTask<{ [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map((b) => bind_(a, name, b))
+    )
+  )
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const apS = <A, N extends string, B>(
+  name: Exclude<N, keyof A>,
+  fb: CancellableTask<B>
+): ((fa: CancellableTask<A>) => CancellableTask<{ [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  flow(
+    map((a) => (b: B) => bind_(a, name, b)),
+    ap(fb)
+  )
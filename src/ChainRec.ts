@@ -1,9 +1,9 @@
 /**
  * @since 2.0.0
  */
-import { Chain, Chain1, Chain2, Chain2C, Chain3 } from './Chain'
+import { Chain, Chain1, Chain2, Chain2C, Chain3, Chain4 } from './Chain'
 import { Either } from './Either'
-import { HKT, Kind, Kind2, Kind3, URIS, URIS2, URIS3 } from './HKT'
+import { HKT, Kind, Kind2, Kind3, Kind4, URIS, URIS2, URIS3, URIS4 } from './HKT'
 
 // TODO: remove module in v3
 
@@ -47,6 +47,14 @@ export interface ChainRec3<F extends URIS3> extends Chain3<F> {
   readonly chainRec: <R, E, A, B>(a: A, f: (a: A) => Kind3<F, R, E, Either<A, B>>) => Kind3<F, R, E, B>
 }
 
+/**
+ * @category type classes
+ * @since 2.10.0
+ */
+export interface ChainRec4<F extends URIS4> extends Chain4<F> {
+  readonly chainRec: <S, R, E, A, B>(a: A, f: (a: A) => Kind4<F, S, R, E, Either<A, B>>) => Kind4<F, S, R, E, B>
+}
+
 /**
  * @since 2.0.0
  */
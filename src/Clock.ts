@@ -0,0 +1,125 @@
+/**
+ * A `Clock` is a service which tells the current time. Programs should read the time from a `Clock` provided by their
+ * environment (e.g. with `Reader` or `ReaderTaskEither`) instead of calling `Date.now`, so that tests can provide a
+ * `TestClock` and control time.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/function'
+ * import * as C from 'fp-ts/Clock'
+ * import * as E from 'fp-ts/Either'
+ * import * as RTE from 'fp-ts/ReaderTaskEither'
+ *
+ * interface Env {
+ *   readonly clock: C.Clock
+ * }
+ *
+ * const isExpired = (expiresAt: number): RTE.ReaderTaskEither<Env, never, boolean> =>
+ *   pipe(
+ *     RTE.asks((env: Env) => env.clock),
+ *     RTE.chain((clock) => RTE.rightIO(C.now(clock))),
+ *     RTE.map((now) => now >= expiresAt)
+ *   )
+ *
+ * async function test() {
+ *   const clock = C.newTestClock(0)()
+ *   assert.deepStrictEqual(await isExpired(1000)({ clock })(), E.right(false))
+ *   clock.advance(1000)()
+ *   assert.deepStrictEqual(await isExpired(1000)({ clock })(), E.right(true))
+ * }
+ *
+ * test()
+ *
+ * @since 2.10.0
+ */
+import * as D from './Date'
+import { IO } from './IO'
+import { Reader } from './Reader'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Clock {
+  /**
+   * Returns the number of milliseconds elapsed since January 1, 1970, 00:00:00 UTC
+   */
+  readonly now: IO<number>
+}
+
+/**
+ * A `Clock` whose time only changes when it is set or advanced.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export class TestClock implements Clock {
+  /**
+   * @since 2.10.0
+   */
+  readonly now: IO<number>
+  constructor(private millis: number) {
+    this.now = () => this.millis
+    this.set = this.set.bind(this)
+    this.advance = this.advance.bind(this)
+  }
+  /**
+   * @since 2.10.0
+   */
+  set(millis: number): IO<void> {
+    return () => {
+      this.millis = millis
+    }
+  }
+  /**
+   * @since 2.10.0
+   */
+  advance(millis: number): IO<void> {
+    return () => {
+      this.millis += millis
+    }
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `Clock` backed by the system time.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const systemClock: Clock = {
+  now: D.now
+}
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export function newTestClock(millis: number): IO<TestClock> {
+  return () => new TestClock(millis)
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * Returns the number of milliseconds elapsed since January 1, 1970, 00:00:00 UTC
+ *
+ * @since 2.10.0
+ */
+export const now: Reader<Clock, IO<number>> = (clock) => clock.now
+
+/**
+ * Returns the current `Date`
+ *
+ * @since 2.10.0
+ */
+export const currentDate: Reader<Clock, IO<Date>> = (clock) => () => new Date(clock.now())
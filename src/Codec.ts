@@ -0,0 +1,340 @@
+/**
+ * A `Codec<I, O, A>` pairs a `Decoder<I, A>` with an `Encoder<O, A>`.
+ *
+ * Besides the usual combinators this module provides codecs for the data types of this library, such that
+ * `decode(encode(a))` returns `a`. The encoded values only contain `Json` values whenever the codecs of the contained
+ * values do.
+ *
+ * @example
+ * import * as C from 'fp-ts/Codec'
+ * import * as E from 'fp-ts/Either'
+ * import * as O from 'fp-ts/Option'
+ *
+ * const User = C.struct({
+ *   name: C.string,
+ *   email: C.option(C.string),
+ *   createdAt: C.date
+ * })
+ *
+ * const user = { name: 'Giulio', email: O.some('giulio@example.com'), createdAt: new Date(0) }
+ * const json = User.encode(user)
+ *
+ * assert.deepStrictEqual(json, {
+ *   name: 'Giulio',
+ *   email: { _tag: 'Some', value: 'giulio@example.com' },
+ *   createdAt: '1970-01-01T00:00:00.000Z'
+ * })
+ * assert.deepStrictEqual(User.decode(JSON.parse(JSON.stringify(json))), E.right(user))
+ *
+ * @since 2.10.0
+ */
+import { parseISO } from './Date'
+import * as D from './Decoder'
+import * as E from './Either'
+import * as En from './Encoder'
+import { pipe, Refinement } from './function'
+import { Invariant3 } from './Invariant'
+import * as NEA from './NonEmptyArray'
+import * as O from './Option'
+import { Ord } from './Ord'
+import * as RA from './ReadonlyArray'
+import * as RM from './ReadonlyMap'
+import { ReadonlyRecord } from './ReadonlyRecord'
+import { getLastSemigroup } from './Semigroup'
+import * as TH from './These'
+
+import Decoder = D.Decoder
+import Either = E.Either
+import Encoder = En.Encoder
+import NonEmptyArray = NEA.NonEmptyArray
+import Option = O.Option
+import These = TH.These
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Codec<I, O, A> extends Decoder<I, A>, Encoder<O, A> {}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const make = <I, O, A>(decoder: Decoder<I, A>, encoder: Encoder<O, A>): Codec<I, O, A> => ({
+  decode: decoder.decode,
+  encode: encoder.encode
+})
+
+/**
+ * Builds a `Codec` which encodes values as they are.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromDecoder = <I, A>(decoder: Decoder<I, A>): Codec<I, A, A> => make(decoder, En.id<A>())
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const literal = <A extends readonly [D.Literal, ...ReadonlyArray<D.Literal>]>(
+  ...values: A
+): Codec<unknown, A[number], A[number]> => fromDecoder(D.literal(...values))
+
+// -------------------------------------------------------------------------------------
+// primitives
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category primitives
+ * @since 2.10.0
+ */
+export const string: Codec<unknown, string, string> = fromDecoder(D.string)
+
+/**
+ * @category primitives
+ * @since 2.10.0
+ */
+export const number: Codec<unknown, number, number> = fromDecoder(D.number)
+
+/**
+ * @category primitives
+ * @since 2.10.0
+ */
+export const boolean: Codec<unknown, boolean, boolean> = fromDecoder(D.boolean)
+
+/**
+ * Encodes a `Date` as an ISO 8601 string (see `Date.parseISO`).
+ *
+ * An invalid `Date` (e.g. `new Date(NaN)`) has no ISO 8601 representation: it's encoded as `'Invalid Date'`, which
+ * doesn't decode.
+ *
+ * @category primitives
+ * @since 2.10.0
+ */
+export const date: Codec<unknown, string, Date> = make(
+  pipe(
+    D.string,
+    D.parse((s) =>
+      pipe(
+        parseISO(s),
+        O.fold(() => D.failure(s, 'ISODateString'), D.success)
+      )
+    )
+  ),
+  { encode: (d) => (isNaN(d.getTime()) ? 'Invalid Date' : d.toISOString()) }
+)
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const struct = <P extends ReadonlyRecord<string, Codec<unknown, any, any>>>(
+  properties: P
+): Codec<unknown, { [K in keyof P]: OutputOf<P[K]> }, { [K in keyof P]: TypeOf<P[K]> }> =>
+  make(D.struct(properties) as Decoder<unknown, { [K in keyof P]: TypeOf<P[K]> }>, En.struct(properties))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const partial = <P extends ReadonlyRecord<string, Codec<unknown, any, any>>>(
+  properties: P
+): Codec<unknown, Partial<{ [K in keyof P]: OutputOf<P[K]> }>, Partial<{ [K in keyof P]: TypeOf<P[K]> }>> =>
+  make(D.partial(properties) as Decoder<unknown, Partial<{ [K in keyof P]: TypeOf<P[K]> }>>, En.partial(properties))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const array = <O, A>(item: Codec<unknown, O, A>): Codec<unknown, ReadonlyArray<O>, ReadonlyArray<A>> =>
+  make(D.array(item), En.array(item))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const tuple = <C extends ReadonlyArray<Codec<unknown, any, any>>>(
+  ...components: C
+): Codec<unknown, { [K in keyof C]: OutputOf<C[K]> }, { [K in keyof C]: TypeOf<C[K]> }> => {
+  const decoder: Decoder<unknown, ReadonlyArray<unknown>> = D.tuple<ReadonlyArray<unknown>>(...components)
+  return make(decoder as Decoder<unknown, { [K in keyof C]: TypeOf<C[K]> }>, En.tuple<C>(...components))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const record = <O, A>(
+  codomain: Codec<unknown, O, A>
+): Codec<unknown, ReadonlyRecord<string, O>, ReadonlyRecord<string, A>> => make(D.record(codomain), En.record(codomain))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const nullable = <O, A>(or: Codec<unknown, O, A>): Codec<unknown, null | O, null | A> =>
+  make(D.nullable(or), En.nullable(or))
+
+/**
+ * Defines a recursive codec, `id` is used to label the decoding errors.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const lazy = <I, O, A>(id: string, f: () => Codec<I, O, A>): Codec<I, O, A> => make(D.lazy(id, f), En.lazy(f))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const refine = <A, B extends A>(refinement: Refinement<A, B>, id: string) => <I, O>(
+  from: Codec<I, O, A>
+): Codec<I, O, B> => make(pipe(from, D.refine(refinement, id)), from)
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const option = <O, A>(value: Codec<unknown, O, A>): Codec<unknown, Option<O>, Option<A>> =>
+  make(D.union(D.struct({ _tag: D.literal('None') }), D.struct({ _tag: D.literal('Some'), value })), {
+    encode: O.map(value.encode)
+  })
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const either = <OE, E, OA, A>(
+  left: Codec<unknown, OE, E>,
+  right: Codec<unknown, OA, A>
+): Codec<unknown, Either<OE, OA>, Either<E, A>> =>
+  make(D.union(D.struct({ _tag: D.literal('Left'), left }), D.struct({ _tag: D.literal('Right'), right })), {
+    encode: E.bimap(left.encode, right.encode)
+  })
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const these = <OE, E, OA, A>(
+  left: Codec<unknown, OE, E>,
+  right: Codec<unknown, OA, A>
+): Codec<unknown, These<OE, OA>, These<E, A>> =>
+  make(
+    D.union(
+      D.struct({ _tag: D.literal('Left'), left }),
+      D.struct({ _tag: D.literal('Right'), right }),
+      D.struct({ _tag: D.literal('Both'), left, right })
+    ),
+    { encode: TH.bimap(left.encode, right.encode) }
+  )
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const nonEmptyArray = <O, A>(item: Codec<unknown, O, A>): Codec<unknown, NonEmptyArray<O>, NonEmptyArray<A>> =>
+  make(
+    pipe(
+      D.array(item),
+      D.refine((as): as is NonEmptyArray<A> => as.length > 0, 'NonEmptyArray')
+    ),
+    { encode: NEA.map(item.encode) }
+  )
+
+/**
+ * Encodes a `ReadonlyMap` as an array of entries sorted by key. When decoding, the last entry of a duplicated key wins.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const readonlyMap = <KO, K, VO, V>(
+  O: Ord<K>,
+  key: Codec<unknown, KO, K>,
+  value: Codec<unknown, VO, V>
+): Codec<unknown, ReadonlyArray<readonly [KO, VO]>, ReadonlyMap<K, V>> => {
+  const toReadonlyArray = RM.toReadonlyArray(O)
+  return make(pipe(D.array(D.tuple(key, value)), D.map(RM.fromFoldable(O, getLastSemigroup<V>(), RA.Foldable))), {
+    encode: (m) => toReadonlyArray(m).map(([k, v]) => [key.encode(k), value.encode(v)] as const)
+  })
+}
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const imap_: Invariant3<URI>['imap'] = (fa, f, g) => pipe(fa, imap(f, g))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category Invariant
+ * @since 2.10.0
+ */
+export const imap = <A, B>(f: (a: A) => B, g: (b: B) => A) => <I, O>(fa: Codec<I, O, A>): Codec<I, O, B> =>
+  make(pipe(fa, D.map(f)), pipe(fa, En.contramap(g)))
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'Codec'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind3<R, E, A> {
+    readonly [URI]: Codec<R, E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Invariant: Invariant3<URI> = {
+  URI,
+  imap: imap_
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export type InputOf<C> = D.InputOf<C>
+
+/**
+ * @since 2.10.0
+ */
+export type OutputOf<C> = En.OutputOf<C>
+
+/**
+ * @since 2.10.0
+ */
+export type TypeOf<C> = En.TypeOf<C>
@@ -1,7 +1,32 @@
 /**
+ * The `log`, `warn`, `error` and `info` functions are thin wrappers around `console`.
+ *
+ * A `Logger` emits structured `LogRecord`s, with a level and context fields, to a pluggable `Sink`. Logging functions
+ * return a `Reader<Logger, IO<void>>` so that the logger (and its sink) can be injected by the caller, e.g. a console
+ * sink in production and an in-memory sink in tests.
+ *
+ * @example
+ * import * as C from 'fp-ts/Console'
+ *
+ * const memory = C.newMemorySink()
+ * const logger = C.makeLogger(memory.sink, 'info')
+ *
+ * C.logDebug('not emitted')(logger)()
+ * C.logInfo('request', { path: '/users' })(C.withFields({ requestId: 1 })(logger))()
+ *
+ * assert.deepStrictEqual(memory.records(), [
+ *   { level: 'info', message: 'request', fields: { requestId: 1, path: '/users' } }
+ * ])
+ *
  * @since 2.0.0
  */
+import { pipe } from './function'
 import { IO } from './IO'
+import { newIORef } from './IORef'
+import { Monoid } from './Monoid'
+import { contramap, Ord, ordNumber } from './Ord'
+import { Reader } from './Reader'
+import { ReadonlyRecord } from './ReadonlyRecord'
 
 /**
  * @since 2.0.0
@@ -30,3 +55,216 @@ export function error(s: unknown): IO<void> {
 export function info(s: unknown): IO<void> {
   return () => console.info(s) // tslint:disable-line:no-console
 }
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Structured context attached to a `LogRecord`.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export type Fields = ReadonlyRecord<string, unknown>
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface LogRecord {
+  readonly level: LogLevel
+  readonly message: string
+  readonly fields: Fields
+}
+
+/**
+ * The destination of the records emitted by a `Logger`.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface Sink {
+  (record: LogRecord): IO<void>
+}
+
+/**
+ * - `sink`: where the records are emitted
+ * - `level`: the minimum level of the emitted records
+ * - `fields`: context fields added to every emitted record
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface Logger {
+  readonly sink: Sink
+  readonly level: LogLevel
+  readonly fields: Fields
+}
+
+/**
+ * An in-memory `Sink` along with the records it received, meant to be used in tests.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface MemorySink {
+  readonly sink: Sink
+  readonly records: IO<ReadonlyArray<LogRecord>>
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const makeLogger = (sink: Sink, level: LogLevel = 'debug'): Logger => ({ sink, level, fields: {} })
+
+/**
+ * Emits each record with the `console` method matching its level, followed by its fields (if any).
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const consoleSink: Sink = ({ level, message, fields }) => () =>
+  Object.keys(fields).length > 0 ? console[level](message, fields) : console[level](message) // tslint:disable-line:no-console
+
+const stringifyRecord = ({ level, message, fields }: LogRecord): string => {
+  try {
+    return JSON.stringify({ ...fields, level, message })
+  } catch (e) {
+    return JSON.stringify({ level, message, error: `unserializable fields: ${String(e)}` })
+  }
+}
+
+/**
+ * Serializes each record as a line of JSON and hands it to `write` (`log` by default).
+ *
+ * Fields which `JSON.stringify` can't handle (e.g. cyclic values or `BigInt`s) don't make the sink throw: the record is
+ * written without its fields and with an `error` describing the failure instead.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const jsonSink = (write: (line: string) => IO<void> = log): Sink => (record) => write(stringifyRecord(record))
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const newMemorySink: IO<MemorySink> = () => {
+  const ref = newIORef<ReadonlyArray<LogRecord>>([])()
+  return {
+    sink: (record) => ref.modify((records) => [...records, record]),
+    records: ref.read
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Adds context fields to every record emitted by a `Logger`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const withFields = (fields: Fields) => (logger: Logger): Logger => ({
+  ...logger,
+  fields: { ...logger.fields, ...fields }
+})
+
+/**
+ * Changes the minimum level of the records emitted by a `Logger`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const withLevel = (level: LogLevel) => (logger: Logger): Logger => ({ ...logger, level })
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+const levels: ReadonlyArray<LogLevel> = ['debug', 'info', 'warn', 'error']
+
+/**
+ * Orders levels by severity, from `debug` to `error`.
+ *
+ * @category instances
+ * @since 2.10.0
+ */
+export const ordLogLevel: Ord<LogLevel> =
+  /*#__PURE__*/
+  pipe(
+    ordNumber,
+    contramap((level: LogLevel) => levels.indexOf(level))
+  )
+
+/**
+ * Emits each record to both sinks.
+ *
+ * @category instances
+ * @since 2.10.0
+ */
+export const monoidSink: Monoid<Sink> = {
+  concat: (x, y) => (record) => () => {
+    x(record)()
+    y(record)()
+  },
+  empty: () => () => undefined
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * Emits a record if `level` is at least the level of the `Logger`.
+ *
+ * @since 2.10.0
+ */
+export const logAt = (level: LogLevel) => (message: string, fields: Fields = {}): Reader<Logger, IO<void>> => (
+  logger
+) =>
+  ordLogLevel.compare(level, logger.level) < 0
+    ? () => undefined
+    : logger.sink({ level, message, fields: { ...logger.fields, ...fields } })
+
+/**
+ * @since 2.10.0
+ */
+export const logDebug =
+  /*#__PURE__*/
+  logAt('debug')
+
+/**
+ * @since 2.10.0
+ */
+export const logInfo =
+  /*#__PURE__*/
+  logAt('info')
+
+/**
+ * @since 2.10.0
+ */
+export const logWarn =
+  /*#__PURE__*/
+  logAt('warn')
+
+/**
+ * @since 2.10.0
+ */
+export const logError =
+  /*#__PURE__*/
+  logAt('error')
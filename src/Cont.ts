@@ -0,0 +1,296 @@
+/**
+ * `Cont<R, A>` represents a computation in continuation passing style: instead of returning a value of type `A` it
+ * passes it to the rest of the computation (the continuation `(a: A) => R`), which produces the final result `R`.
+ *
+ * Since a computation decides if and when its continuation runs, `Cont` can express early exit (see `callCC`) and
+ * computations suspended until a callback fires (see `fromCallback` and `toTask`).
+ *
+ * @example
+ * import * as C from 'fp-ts/Cont'
+ * import { pipe } from 'fp-ts/function'
+ *
+ * const safeDivide = (a: number, b: number): C.Cont<string, number> =>
+ *   C.callCC((exit) => (b === 0 ? pipe(exit(NaN), C.map(() => 0)) : C.of(a / b)))
+ *
+ * const program = (b: number) =>
+ *   pipe(
+ *     safeDivide(10, b),
+ *     C.map((n) => (isNaN(n) ? 'division by zero' : `result: ${n}`)),
+ *     C.evaluate
+ *   )
+ *
+ * assert.deepStrictEqual(program(2), 'result: 5')
+ * assert.deepStrictEqual(program(0), 'division by zero')
+ *
+ * @since 2.10.0
+ */
+import { Applicative2 } from './Applicative'
+import { bindTo_, bind_, flow, identity, pipe } from './function'
+import { Functor2 } from './Functor'
+import { Monad2 } from './Monad'
+import { Task } from './Task'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Cont<R, A> {
+  (k: (a: A) => R): R
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Calls `f` with the current continuation, reified as a function which, when called, aborts the rest of the
+ * computation built inside `f` and passes its argument to the continuation instead.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const callCC = <R, A, B>(f: (k: (a: A) => Cont<R, B>) => Cont<R, A>): Cont<R, A> => (k) =>
+  f((a) => () => k(a))(k)
+
+/**
+ * Lifts a callback-style API: the value passed to `callback` is passed to the continuation.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromCallback: <A>(f: (callback: (a: A) => void) => void) => Cont<void, A> = identity
+
+/**
+ * Passes the result of the `Task` to the continuation once it resolves.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromTask = <A>(ma: Task<A>): Cont<void, A> => (k) => ma().then(k)
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Runs the computation using the identity function as continuation.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const evaluate = <A>(fa: Cont<A, A>): A => fa(identity)
+
+/**
+ * Runs the computation, resolving the returned `Task` with the value passed to the continuation.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toTask = <A>(fa: Cont<void, A>): Task<A> => () => new Promise((resolve) => fa(resolve))
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Monad2<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const ap_: Monad2<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
+const chain_: Monad2<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => <R>(fa: Cont<R, A>) => Cont<R, B> = (f) => (fa) => (k) => fa((a) => k(f(a)))
+
+/**
+ * Apply a function to an argument under a type constructor.
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const ap: <R, A>(fa: Cont<R, A>) => <B>(fab: Cont<R, (a: A) => B>) => Cont<R, B> = (fa) => (fab) => (k) =>
+  fab((f) => fa((a) => k(f(a))))
+
+/**
+ * Combine two effectful actions, keeping only the result of the first.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apFirst: <R, B>(fb: Cont<R, B>) => <A>(fa: Cont<R, A>) => Cont<R, A> = (fb) =>
+  flow(
+    map((a) => () => a),
+    ap(fb)
+  )
+
+/**
+ * Combine two effectful actions, keeping only the result of the second.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apSecond = <R, B>(fb: Cont<R, B>): (<A>(fa: Cont<R, A>) => Cont<R, B>) =>
+  flow(
+    map(() => (b: B) => b),
+    ap(fb)
+  )
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative2<URI>['of'] = (a) => (k) => k(a)
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <A, R, B>(f: (a: A) => Cont<R, B>) => (ma: Cont<R, A>) => Cont<R, B> = (f) => (ma) => (k) =>
+  ma((a) => f(a)(k))
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainFirst: <A, R, B>(f: (a: A) => Cont<R, B>) => (ma: Cont<R, A>) => Cont<R, A> = (f) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map(() => a)
+    )
+  )
+
+/**
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const flatten: <R, A>(mma: Cont<R, Cont<R, A>>) => Cont<R, A> =
+  /*#__PURE__*/
+  chain(identity)
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'Cont'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind2<E, A> {
+    readonly [URI]: Cont<E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor2<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Applicative: Applicative2<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Monad: Monad2<URI> = {
+  URI,
+  map: map_,
+  of,
+  ap: ap_,
+  chain: chain_
+}
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(name: N): (<R, A>(fa: Cont<R, A>) => Cont<R, { [K in N]: A }>) =>
+  map(bindTo_(name))
+
+/**
+ * @since 2.10.0
+ */
+export const bind = <N extends string, A, R, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => Cont<R, B>
+): ((fa: Cont<R, A>) => Cont<R, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map((b) => bind_(a, name, b))
+    )
+  )
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * `Cont` is invariant in `R`, so `Do` is generic in it.
+ *
+ * @since 2.10.0
+ */
+export const Do: <R>(k: (a: {}) => R) => R = (k) => k({})
+
+/**
+ * @since 2.10.0
+ */
+export const apS = <A, N extends string, R, B>(
+  name: Exclude<N, keyof A>,
+  fb: Cont<R, B>
+): ((fa: Cont<R, A>) => Cont<R, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  flow(
+    map((a) => (b: B) => bind_(a, name, b)),
+    ap(fb)
+  )
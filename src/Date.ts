@@ -3,6 +3,11 @@
  */
 import { IO } from './IO'
 import { Eq } from './Eq'
+import { pipe } from './function'
+import * as O from './Option'
+import { contramap, Ord, ordNumber } from './Ord'
+
+import Option = O.Option
 
 /**
  * Returns the current `Date`
@@ -42,3 +47,208 @@ export const eqMonth: Eq<Date> = {
 export const eqYear: Eq<Date> = {
   equals: (x, y) => x.getFullYear() === y.getFullYear()
 }
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export type TimeUnit = 'millisecond' | 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year'
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+
+const ISO_8601 = /^(\d{4})-(\d{2})-(\d{2})(T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})?)?$/
+
+/**
+ * Parses a date (`YYYY-MM-DD`) or a date time (`YYYY-MM-DDTHH:mm:ss.sssZ`, where seconds, milliseconds and offset are
+ * optional) in ISO 8601 format. As with `Date.parse`, a date is interpreted as UTC and a date time without offset as
+ * local time.
+ *
+ * @example
+ * import { parseISO } from 'fp-ts/Date'
+ * import * as O from 'fp-ts/Option'
+ *
+ * assert.deepStrictEqual(parseISO('2020-02-29T10:00:00Z'), O.some(new Date(Date.UTC(2020, 1, 29, 10))))
+ * assert.deepStrictEqual(parseISO('2021-02-29'), O.none)
+ * assert.deepStrictEqual(parseISO('29/02/2020'), O.none)
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const parseISO = (s: string): Option<Date> => {
+  const match = ISO_8601.exec(s)
+  if (match === null) {
+    return O.none
+  }
+  const month = Number(match[2]) - 1
+  const day = Number(match[3])
+  if (month > 11 || day < 1 || day > daysInMonth(Number(match[1]), month)) {
+    return O.none
+  }
+  const d = new Date(s)
+  return isNaN(d.getTime()) ? O.none : O.some(d)
+}
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+const millisPerUnit = {
+  millisecond: 1,
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+}
+
+const addDays = (d: Date, n: number): Date => {
+  const r = new Date(d.getTime())
+  r.setDate(r.getDate() + n)
+  return r
+}
+
+const addMonths = (d: Date, n: number): Date => {
+  const r = new Date(d.getTime())
+  r.setDate(1)
+  r.setMonth(r.getMonth() + n)
+  r.setDate(Math.min(d.getDate(), daysInMonth(r.getFullYear(), r.getMonth())))
+  return r
+}
+
+/**
+ * Adds an amount of time to a date. Days, weeks, months and years are calendar units (in local time): adding a day
+ * keeps the time of the day across daylight saving time changes, and adding a month to the 31st of January returns the
+ * last day of February.
+ *
+ * @example
+ * import { add } from 'fp-ts/Date'
+ *
+ * assert.deepStrictEqual(add(1, 'month')(new Date(2020, 0, 31)), new Date(2020, 1, 29))
+ * assert.deepStrictEqual(add(-2, 'hour')(new Date(2020, 0, 1)), new Date(2019, 11, 31, 22))
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const add = (amount: number, unit: TimeUnit) => (d: Date): Date => {
+  switch (unit) {
+    case 'day':
+      return addDays(d, amount)
+    case 'week':
+      return addDays(d, 7 * amount)
+    case 'month':
+      return addMonths(d, amount)
+    case 'year':
+      return addMonths(d, 12 * amount)
+    default:
+      return new Date(d.getTime() + amount * millisPerUnit[unit])
+  }
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const startOfDay = (d: Date): Date => {
+  const r = new Date(d.getTime())
+  r.setHours(0, 0, 0, 0)
+  return r
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const endOfDay = (d: Date): Date => {
+  const r = new Date(d.getTime())
+  r.setHours(23, 59, 59, 999)
+  return r
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const startOfMonth = (d: Date): Date => {
+  const r = startOfDay(d)
+  r.setDate(1)
+  return r
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const endOfMonth = (d: Date): Date => {
+  const r = endOfDay(d)
+  r.setDate(1)
+  r.setMonth(r.getMonth() + 1, 0)
+  return r
+}
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * Compares dates by calendar day (in local time), ignoring the time of the day.
+ *
+ * @category instances
+ * @since 2.10.0
+ */
+export const ordDay: Ord<Date> =
+  /*#__PURE__*/
+  pipe(
+    ordNumber,
+    contramap((d: Date) => startOfDay(d).getTime())
+  )
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+// `n` is either the exact difference or overshoots it by one unit
+const adjust = (x: Date, y: Date, n: number, unit: TimeUnit): number => {
+  const z = add(n, unit)(y).getTime()
+  return x >= y ? (z > x.getTime() ? n - 1 : n) : z < x.getTime() ? n + 1 : n
+}
+
+/**
+ * Returns the number of whole units between `y` and `x` (negative if `x` is before `y`). Days, weeks, months and years
+ * are calendar units, see `add`.
+ *
+ * @example
+ * import { diff } from 'fp-ts/Date'
+ *
+ * assert.deepStrictEqual(diff('month')(new Date(2020, 2, 30), new Date(2020, 0, 31)), 1)
+ * assert.deepStrictEqual(diff('day')(new Date(2020, 0, 1, 12), new Date(2020, 0, 3)), -1)
+ *
+ * @since 2.10.0
+ */
+export const diff = (unit: TimeUnit) => (x: Date, y: Date): number => {
+  switch (unit) {
+    case 'day':
+    case 'week': {
+      const days = adjust(
+        x,
+        y,
+        Math.round((startOfDay(x).getTime() - startOfDay(y).getTime()) / millisPerUnit.day),
+        'day'
+      )
+      return unit === 'day' ? days : Math.trunc(days / 7)
+    }
+    case 'month':
+    case 'year': {
+      const months = adjust(x, y, (x.getFullYear() - y.getFullYear()) * 12 + x.getMonth() - y.getMonth(), 'month')
+      return unit === 'month' ? months : Math.trunc(months / 12)
+    }
+    default:
+      return Math.trunc((x.getTime() - y.getTime()) / millisPerUnit[unit])
+  }
+}
@@ -0,0 +1,497 @@
+/**
+ * A `Decoder<I, A>` validates an input of type `I` and turns it into a value of type `A`.
+ *
+ * Decoding errors are accumulated (see `Either.getValidation`), so a malformed input reports every problem at once as
+ * a forest of messages which can be rendered with `draw`.
+ *
+ * @example
+ * import * as D from 'fp-ts/Decoder'
+ * import * as E from 'fp-ts/Either'
+ * import { pipe } from 'fp-ts/function'
+ *
+ * const Person = D.struct({
+ *   name: D.string,
+ *   age: D.number
+ * })
+ *
+ * assert.deepStrictEqual(Person.decode({ name: 'Giulio', age: 45 }), E.right({ name: 'Giulio', age: 45 }))
+ * assert.deepStrictEqual(
+ *   pipe(Person.decode({ age: '45' }), E.mapLeft(D.draw)),
+ *   E.left(
+ *     [
+ *       'required property "name"',
+ *       '└─ cannot decode undefined, should be string',
+ *       'required property "age"',
+ *       '└─ cannot decode "45", should be number'
+ *     ].join('\n')
+ *   )
+ * )
+ *
+ * @since 2.10.0
+ */
+import { Alt2 } from './Alt'
+import * as E from './Either'
+import { identity, Lazy, pipe, Refinement } from './function'
+import { Functor2 } from './Functor'
+import { getSemigroup, NonEmptyArray } from './NonEmptyArray'
+import * as O from './Option'
+import * as RA from './ReadonlyArray'
+import { ReadonlyRecord } from './ReadonlyRecord'
+import { Semigroup } from './Semigroup'
+import { drawTree, make, Tree } from './Tree'
+
+import Either = E.Either
+import Option = O.Option
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export type DecodeError = NonEmptyArray<Tree<string>>
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Decoder<I, A> {
+  readonly decode: (i: I) => Either<DecodeError, A>
+}
+
+// -------------------------------------------------------------------------------------
+// DecodeError
+// -------------------------------------------------------------------------------------
+
+// `JSON.stringify` renders `NaN` and `Infinity` as `null`
+const show = (u: unknown): string =>
+  // tslint:disable-next-line: strict-type-predicates (the rule wrongly reports `typeof` checks on `unknown`)
+  typeof u === 'number'
+    ? String(u)
+    : pipe(
+        E.stringifyJSON(u, identity),
+        E.getOrElse(() => String(u))
+      )
+
+/**
+ * Returns a failed decoding of `actual`.
+ *
+ * @category DecodeError
+ * @since 2.10.0
+ */
+export const failure = <A = never>(actual: unknown, expected: string): Either<DecodeError, A> =>
+  E.left([make(`cannot decode ${show(actual)}, should be ${expected}`)])
+
+/**
+ * Returns a successful decoding.
+ *
+ * @category DecodeError
+ * @since 2.10.0
+ */
+export const success: <A>(a: A) => Either<DecodeError, A> = E.right
+
+/**
+ * Nests a `DecodeError` under a new `message`.
+ *
+ * @category DecodeError
+ * @since 2.10.0
+ */
+export const wrap = (message: string) => (e: DecodeError): DecodeError => [make(message, e)]
+
+/**
+ * Renders a `DecodeError` using `Tree.drawTree`.
+ *
+ * @category DecodeError
+ * @since 2.10.0
+ */
+export const draw = (e: DecodeError): string => e.map(drawTree).join('\n')
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromRefinement = <I, A extends I>(refinement: Refinement<I, A>, expected: string): Decoder<I, A> => ({
+  decode: (i) => (refinement(i) ? success(i) : failure(i, expected))
+})
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const literal = <A extends readonly [Literal, ...ReadonlyArray<Literal>]>(
+  ...values: A
+): Decoder<unknown, A[number]> =>
+  fromRefinement(
+    (u): u is A[number] => values.indexOf(u as Literal) !== -1,
+    values.map((value) => JSON.stringify(value)).join(' | ')
+  )
+
+// -------------------------------------------------------------------------------------
+// primitives
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category primitives
+ * @since 2.10.0
+ */
+export const string: Decoder<unknown, string> = fromRefinement(
+  // tslint:disable-next-line: strict-type-predicates
+  (u: unknown): u is string => typeof u === 'string',
+  'string'
+)
+
+/**
+ * Decodes a `number` which is not `NaN`.
+ *
+ * @category primitives
+ * @since 2.10.0
+ */
+export const number: Decoder<unknown, number> = fromRefinement(
+  // tslint:disable-next-line: strict-type-predicates
+  (u: unknown): u is number => typeof u === 'number' && !isNaN(u),
+  'number'
+)
+
+/**
+ * @category primitives
+ * @since 2.10.0
+ */
+export const boolean: Decoder<unknown, boolean> = fromRefinement(
+  // tslint:disable-next-line: strict-type-predicates
+  (u: unknown): u is boolean => typeof u === 'boolean',
+  'boolean'
+)
+
+/**
+ * @category primitives
+ * @since 2.10.0
+ */
+export const UnknownArray: Decoder<unknown, ReadonlyArray<unknown>> = fromRefinement(
+  (u: unknown): u is ReadonlyArray<unknown> => Array.isArray(u),
+  'Array<unknown>'
+)
+
+/**
+ * @category primitives
+ * @since 2.10.0
+ */
+export const UnknownRecord: Decoder<unknown, ReadonlyRecord<string, unknown>> = fromRefinement(
+  (u: unknown): u is ReadonlyRecord<string, unknown> => Object.prototype.toString.call(u) === '[object Object]',
+  'Record<string, unknown>'
+)
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const semigroupDecodeError: Semigroup<DecodeError> = getSemigroup<Tree<string>>()
+
+const V = E.getValidation(semigroupDecodeError)
+
+const traverseKeys = (
+  keys: ReadonlyArray<string>,
+  f: (k: string) => Either<DecodeError, Option<unknown>>
+): Either<DecodeError, Record<string, unknown>> =>
+  pipe(
+    keys,
+    RA.traverse(V)(f),
+    E.map((results) => {
+      const out: Record<string, unknown> = {}
+      results.forEach((result, i) => {
+        if (O.isSome(result)) {
+          out[keys[i]] = result.value
+        }
+      })
+      return out
+    })
+  )
+
+/**
+ * Decodes an object with the given required properties, reporting every invalid property.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const struct = <A>(
+  properties: { [K in keyof A]: Decoder<unknown, A[K]> }
+): Decoder<unknown, { [K in keyof A]: A[K] }> => ({
+  decode: (u) =>
+    pipe(
+      UnknownRecord.decode(u),
+      E.chain((r) =>
+        traverseKeys(Object.keys(properties), (k) =>
+          pipe(
+            (properties as Record<string, Decoder<unknown, unknown>>)[k].decode(r[k]),
+            E.bimap(wrap(`required property ${JSON.stringify(k)}`), O.some)
+          )
+        )
+      )
+    ) as Either<DecodeError, { [K in keyof A]: A[K] }>
+})
+
+/**
+ * Decodes an object with the given optional properties. Missing (or `undefined`) properties are omitted from the
+ * result.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const partial = <A>(
+  properties: { [K in keyof A]: Decoder<unknown, A[K]> }
+): Decoder<unknown, Partial<{ [K in keyof A]: A[K] }>> => ({
+  decode: (u) =>
+    pipe(
+      UnknownRecord.decode(u),
+      E.chain((r) =>
+        traverseKeys(Object.keys(properties), (k) =>
+          // tslint:disable-next-line: strict-type-predicates
+          r[k] === undefined
+            ? success(O.none)
+            : pipe(
+                (properties as Record<string, Decoder<unknown, unknown>>)[k].decode(r[k]),
+                E.bimap(wrap(`optional property ${JSON.stringify(k)}`), O.some)
+              )
+        )
+      )
+    ) as Either<DecodeError, Partial<{ [K in keyof A]: A[K] }>>
+})
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const array = <A>(item: Decoder<unknown, A>): Decoder<unknown, ReadonlyArray<A>> => ({
+  decode: (u) =>
+    pipe(
+      UnknownArray.decode(u),
+      E.chain(RA.traverseWithIndex(V)((i, a) => pipe(item.decode(a), E.mapLeft(wrap(`optional index ${i}`)))))
+    )
+})
+
+/**
+ * Decodes a tuple, extra components are stripped.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const tuple = <A extends ReadonlyArray<unknown>>(
+  ...components: { [K in keyof A]: Decoder<unknown, A[K]> }
+): Decoder<unknown, A> => ({
+  decode: (u) =>
+    pipe(
+      UnknownArray.decode(u),
+      E.chain((us) =>
+        pipe(
+          components as ReadonlyArray<Decoder<unknown, unknown>>,
+          RA.traverseWithIndex(V)((i, component) =>
+            pipe(component.decode(us[i]), E.mapLeft(wrap(`required component ${i}`)))
+          )
+        )
+      )
+    ) as Either<DecodeError, A>
+})
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const record = <A>(codomain: Decoder<unknown, A>): Decoder<unknown, ReadonlyRecord<string, A>> => ({
+  decode: (u) =>
+    pipe(
+      UnknownRecord.decode(u),
+      E.chain((r) =>
+        traverseKeys(Object.keys(r), (k) =>
+          pipe(codomain.decode(r[k]), E.bimap(wrap(`optional key ${JSON.stringify(k)}`), O.some))
+        )
+      )
+    ) as Either<DecodeError, ReadonlyRecord<string, A>>
+})
+
+/**
+ * Tries each member in order, returning the first success or the errors of all the members.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const union = <MS extends readonly [Decoder<unknown, any>, ...ReadonlyArray<Decoder<unknown, any>>]>(
+  ...members: MS
+): Decoder<unknown, TypeOf<MS[number]>> => ({
+  decode: (u) =>
+    members.slice(1).reduce(
+      (result, member, i) =>
+        E.isRight(result)
+          ? result
+          : pipe(
+              member.decode(u),
+              E.mapLeft((e) => semigroupDecodeError.concat(result.left, wrap(`member ${i + 1}`)(e)))
+            ),
+      pipe(members[0].decode(u), E.mapLeft(wrap('member 0')))
+    )
+})
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const nullable = <A>(or: Decoder<unknown, A>): Decoder<unknown, null | A> => union(literal(null), or)
+
+/**
+ * Defines a recursive decoder, `id` is used to label the errors.
+ *
+ * @example
+ * import * as D from 'fp-ts/Decoder'
+ * import * as E from 'fp-ts/Either'
+ *
+ * interface Category {
+ *   readonly name: string
+ *   readonly subcategories: ReadonlyArray<Category>
+ * }
+ *
+ * const Category: D.Decoder<unknown, Category> = D.lazy('Category', () =>
+ *   D.struct({
+ *     name: D.string,
+ *     subcategories: D.array(Category)
+ *   })
+ * )
+ *
+ * const input = { name: 'a', subcategories: [{ name: 'b', subcategories: [] }] }
+ * assert.deepStrictEqual(Category.decode(input), E.right(input))
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const lazy = <I, A>(id: string, f: Lazy<Decoder<I, A>>): Decoder<I, A> => {
+  let memo: Decoder<I, A> | undefined
+  const get = (): Decoder<I, A> => {
+    if (memo === undefined) {
+      memo = f()
+    }
+    return memo
+  }
+  return {
+    decode: (i) => pipe(get().decode(i), E.mapLeft(wrap(`lazy type ${id}`)))
+  }
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const refine = <A, B extends A>(refinement: Refinement<A, B>, id: string) => <I>(
+  from: Decoder<I, A>
+): Decoder<I, B> => ({
+  decode: (i) =>
+    pipe(
+      from.decode(i),
+      E.chain((a) => (refinement(a) ? success(a) : failure(a, id)))
+    )
+})
+
+/**
+ * Further validates the output of a decoder with a function which may fail.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const parse = <A, B>(parser: (a: A) => Either<DecodeError, B>) => <I>(from: Decoder<I, A>): Decoder<I, B> => ({
+  decode: (i) => pipe(from.decode(i), E.chain(parser))
+})
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Functor2<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const alt_: Alt2<URI>['alt'] = (fx, fy) => pipe(fx, alt(fy))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map = <A, B>(f: (a: A) => B) => <I>(fa: Decoder<I, A>): Decoder<I, B> => ({
+  decode: (i) => pipe(fa.decode(i), E.map(f))
+})
+
+/**
+ * Tries `that` when the first decoder fails, accumulating the errors of both.
+ *
+ * @category Alt
+ * @since 2.10.0
+ */
+export const alt = <I, A>(that: Lazy<Decoder<I, A>>) => (fa: Decoder<I, A>): Decoder<I, A> => ({
+  decode: (i) => V.alt(fa.decode(i), () => that().decode(i))
+})
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'Decoder'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind2<E, A> {
+    readonly [URI]: Decoder<E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor2<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Alt: Alt2<URI> = {
+  URI,
+  map: map_,
+  alt: alt_
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export type Literal = string | number | boolean | null
+
+/**
+ * @since 2.10.0
+ */
+export type InputOf<D> = D extends Decoder<infer I, any> ? I : never
+
+/**
+ * @since 2.10.0
+ */
+export type TypeOf<D> = D extends Decoder<any, infer A> ? A : never
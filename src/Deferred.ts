@@ -0,0 +1,74 @@
+/**
+ * A `Deferred<A>` is a one-shot variable which can be completed only once and whose value can be awaited by any number
+ * of `Task`s.
+ *
+ * @since 2.10.0
+ */
+import { IO } from './IO'
+import { isSome, none, Option, some } from './Option'
+import { Task } from './Task'
+
+/**
+ * @example
+ * import { newDeferred } from 'fp-ts/Deferred'
+ * import * as O from 'fp-ts/Option'
+ *
+ * async function test() {
+ *   const deferred = newDeferred<number>()()
+ *   assert.deepStrictEqual(deferred.tryGet(), O.none)
+ *   setTimeout(() => deferred.complete(1)(), 10)
+ *   assert.deepStrictEqual(await deferred.await(), 1)
+ *   assert.deepStrictEqual(deferred.complete(2)(), false)
+ *   assert.deepStrictEqual(deferred.tryGet(), O.some(1))
+ * }
+ *
+ * test()
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export class Deferred<A> {
+  /**
+   * Waits until the `Deferred` is completed and yields its value.
+   *
+   * @since 2.10.0
+   */
+  readonly await: Task<A>
+  /**
+   * @since 2.10.0
+   */
+  readonly tryGet: IO<Option<A>>
+  // tslint:disable-next-line: readonly-keyword
+  private value: Option<A> = none
+  // tslint:disable-next-line: readonly-array
+  private readonly waiters: Array<(a: A) => void> = []
+  constructor() {
+    this.await = () =>
+      isSome(this.value) ? Promise.resolve(this.value.value) : new Promise((resolve) => this.waiters.push(resolve))
+    this.tryGet = () => this.value
+    this.complete = this.complete.bind(this)
+  }
+  /**
+   * Completes the `Deferred` with the given value, returns `false` if it was already completed.
+   *
+   * @since 2.10.0
+   */
+  complete(a: A): IO<boolean> {
+    return () => {
+      if (isSome(this.value)) {
+        return false
+      }
+      this.value = some(a)
+      this.waiters.splice(0).forEach((resume) => resume(a))
+      return true
+    }
+  }
+}
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export function newDeferred<A>(): IO<Deferred<A>> {
+  return () => new Deferred<A>()
+}
@@ -0,0 +1,232 @@
+/**
+ * An `Encoder<O, A>` turns a value of type `A` into a value of type `O` (usually a `Json` value).
+ *
+ * @example
+ * import * as En from 'fp-ts/Encoder'
+ * import { pipe } from 'fp-ts/function'
+ *
+ * const DateFromISOString: En.Encoder<string, Date> = { encode: (d) => d.toISOString() }
+ *
+ * const Event = En.struct({
+ *   name: En.id<string>(),
+ *   at: DateFromISOString
+ * })
+ *
+ * assert.deepStrictEqual(Event.encode({ name: 'start', at: new Date(0) }), {
+ *   name: 'start',
+ *   at: '1970-01-01T00:00:00.000Z'
+ * })
+ *
+ * const Seconds = pipe(
+ *   En.id<number>(),
+ *   En.contramap((d: Date) => d.getTime() / 1000)
+ * )
+ *
+ * assert.deepStrictEqual(Seconds.encode(new Date(1000)), 1)
+ *
+ * @since 2.10.0
+ */
+import { Contravariant2 } from './Contravariant'
+import { identity, Lazy, pipe } from './function'
+import { ReadonlyRecord } from './ReadonlyRecord'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Encoder<O, A> {
+  readonly encode: (a: A) => O
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `Encoder` which leaves values unchanged.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const id = <A>(): Encoder<A, A> => ({
+  encode: identity
+})
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const nullable = <O, A>(or: Encoder<O, A>): Encoder<null | O, null | A> => ({
+  encode: (a) => (a === null ? null : or.encode(a))
+})
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const struct = <P extends ReadonlyRecord<string, Encoder<any, any>>>(
+  properties: P
+): Encoder<{ [K in keyof P]: OutputOf<P[K]> }, { [K in keyof P]: TypeOf<P[K]> }> => ({
+  encode: (a) => {
+    const o: Record<string, unknown> = {}
+    Object.keys(properties).forEach((k) => {
+      o[k] = properties[k].encode(a[k])
+    })
+    return o as { [K in keyof P]: OutputOf<P[K]> }
+  }
+})
+
+/**
+ * Missing (or `undefined`) properties are omitted from the output.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const partial = <P extends ReadonlyRecord<string, Encoder<any, any>>>(
+  properties: P
+): Encoder<Partial<{ [K in keyof P]: OutputOf<P[K]> }>, Partial<{ [K in keyof P]: TypeOf<P[K]> }>> => ({
+  encode: (a: Record<string, any>) => {
+    const o: Record<string, unknown> = {}
+    Object.keys(properties).forEach((k) => {
+      if (a[k] !== undefined) {
+        o[k] = properties[k].encode(a[k])
+      }
+    })
+    return o as Partial<{ [K in keyof P]: OutputOf<P[K]> }>
+  }
+})
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const array = <O, A>(item: Encoder<O, A>): Encoder<ReadonlyArray<O>, ReadonlyArray<A>> => ({
+  encode: (as) => as.map(item.encode)
+})
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const tuple = <C extends ReadonlyArray<Encoder<any, any>>>(
+  ...components: C
+): Encoder<{ [K in keyof C]: OutputOf<C[K]> }, { [K in keyof C]: TypeOf<C[K]> }> => ({
+  encode: (as) => {
+    const os: ReadonlyArray<unknown> = components.map((component, i) => component.encode(as[i]))
+    return os as { [K in keyof C]: OutputOf<C[K]> }
+  }
+})
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const record = <O, A>(
+  codomain: Encoder<O, A>
+): Encoder<ReadonlyRecord<string, O>, ReadonlyRecord<string, A>> => ({
+  encode: (r) => {
+    const o: Record<string, O> = {}
+    Object.keys(r).forEach((k) => {
+      o[k] = codomain.encode(r[k])
+    })
+    return o
+  }
+})
+
+/**
+ * Defines a recursive encoder.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const lazy = <O, A>(f: Lazy<Encoder<O, A>>): Encoder<O, A> => {
+  let memo: Encoder<O, A> | undefined
+  const get = (): Encoder<O, A> => {
+    if (memo === undefined) {
+      memo = f()
+    }
+    return memo
+  }
+  return {
+    encode: (a) => get().encode(a)
+  }
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const compose = <A, B>(ab: Encoder<A, B>) => <O>(oa: Encoder<O, A>): Encoder<O, B> => ({
+  encode: (b) => oa.encode(ab.encode(b))
+})
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const contramap_: Contravariant2<URI>['contramap'] = (fa, f) => pipe(fa, contramap(f))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category Contravariant
+ * @since 2.10.0
+ */
+export const contramap = <A, B>(f: (b: B) => A) => <O>(fa: Encoder<O, A>): Encoder<O, B> => ({
+  encode: (b) => fa.encode(f(b))
+})
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'Encoder'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind2<E, A> {
+    readonly [URI]: Encoder<E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Contravariant: Contravariant2<URI> = {
+  URI,
+  contramap: contramap_
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export type OutputOf<E> = E extends Encoder<infer O, any> ? O : never
+
+/**
+ * @since 2.10.0
+ */
+export type TypeOf<E> = E extends Encoder<any, infer A> ? A : never
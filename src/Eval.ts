@@ -0,0 +1,366 @@
+/**
+ * `Eval<A>` is a description of a synchronous computation which yields a value of type `A` and **never fails**.
+ *
+ * Unlike `IO`, `Eval` computations are run by `evaluate` with a trampoline, so that `chain` (and recursion through
+ * `defer`) doesn't grow the JS stack no matter how deep it goes.
+ *
+ * There are three ways to compute a value:
+ *
+ * - `now` the value is already computed
+ * - `later` the value is computed on the first evaluation, and then cached
+ * - `always` the value is computed on every evaluation
+ *
+ * @example
+ * import * as EV from 'fp-ts/Eval'
+ * import { pipe } from 'fp-ts/function'
+ *
+ * const even = (n: number): EV.Eval<boolean> => (n === 0 ? EV.now(true) : EV.defer(() => odd(n - 1)))
+ * const odd = (n: number): EV.Eval<boolean> => (n === 0 ? EV.now(false) : EV.defer(() => even(n - 1)))
+ *
+ * assert.deepStrictEqual(EV.evaluate(even(100000)), true)
+ *
+ * const sum = (n: number): EV.Eval<number> =>
+ *   n === 0
+ *     ? EV.now(0)
+ *     : pipe(
+ *         EV.defer(() => sum(n - 1)),
+ *         EV.map((s) => s + n)
+ *       )
+ *
+ * assert.deepStrictEqual(EV.evaluate(sum(100000)), 5000050000)
+ *
+ * @since 2.10.0
+ */
+import { Applicative1 } from './Applicative'
+import { ChainRec1 } from './ChainRec'
+import { Either } from './Either'
+import { identity, Lazy, pipe } from './function'
+import { Functor1 } from './Functor'
+import { Monad1 } from './Monad'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Now<A> {
+  readonly _tag: 'Now'
+  readonly value: A
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Later<A> {
+  readonly _tag: 'Later'
+  readonly thunk: Lazy<A>
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Always<A> {
+  readonly _tag: 'Always'
+  readonly thunk: Lazy<A>
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Defer<A> {
+  readonly _tag: 'Defer'
+  readonly thunk: Lazy<Eval<A>>
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Chain<A> {
+  readonly _tag: 'Chain'
+  readonly fa: Eval<unknown>
+  readonly f: (a: unknown) => Eval<A>
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export type Eval<A> = Now<A> | Later<A> | Always<A> | Defer<A> | Chain<A>
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Lifts an already computed value.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const now = <A>(a: A): Eval<A> => ({ _tag: 'Now', value: a })
+
+/**
+ * Computes the value on the first evaluation and caches it.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const later = <A>(f: Lazy<A>): Eval<A> => {
+  let evaluated = false
+  let a: A
+  return {
+    _tag: 'Later',
+    thunk: () => {
+      if (!evaluated) {
+        a = f()
+        evaluated = true
+      }
+      return a
+    }
+  }
+}
+
+/**
+ * Computes the value on every evaluation.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const always = <A>(f: Lazy<A>): Eval<A> => ({ _tag: 'Always', thunk: f })
+
+/**
+ * Delays the construction of an `Eval`, this is how recursive computations are made stack safe.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const defer = <A>(f: Lazy<Eval<A>>): Eval<A> => ({ _tag: 'Defer', thunk: f })
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Runs the computation in constant stack space.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const evaluate = <A>(fa: Eval<A>): A => {
+  let current: Eval<unknown> = fa
+  // tslint:disable-next-line: readonly-array
+  const stack: Array<(a: unknown) => Eval<unknown>> = []
+  while (true) {
+    switch (current._tag) {
+      case 'Chain':
+        stack.push(current.f)
+        current = current.fa
+        break
+      case 'Defer':
+        current = current.thunk()
+        break
+      default:
+        const a = current._tag === 'Now' ? current.value : current.thunk()
+        const f = stack.pop()
+        if (f === undefined) {
+          return a as A
+        }
+        current = f(a)
+    }
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const chain_: Monad1<URI>['chain'] = (ma, f) => ({ _tag: 'Chain', fa: ma, f: f as (a: unknown) => Eval<any> })
+const map_: Monad1<URI>['map'] = (fa, f) => chain_(fa, (a) => now(f(a)))
+const ap_: Monad1<URI>['ap'] = (fab, fa) => chain_(fab, (f) => map_(fa, f))
+const chainRec_: ChainRec1<URI>['chainRec'] = <A, B>(a: A, f: (a: A) => Eval<Either<A, B>>): Eval<B> =>
+  chain_(f(a), (e) => (e._tag === 'Left' ? chainRec_(e.left, f) : now(e.right)))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => (fa: Eval<A>) => Eval<B> = (f) => (fa) => map_(fa, f)
+
+/**
+ * Apply a function to an argument under a type constructor.
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const ap: <A>(fa: Eval<A>) => <B>(fab: Eval<(a: A) => B>) => Eval<B> = (fa) => (fab) => ap_(fab, fa)
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative1<URI>['of'] = now
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <A, B>(f: (a: A) => Eval<B>) => (ma: Eval<A>) => Eval<B> = (f) => (ma) => chain_(ma, f)
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainFirst: <A, B>(f: (a: A) => Eval<B>) => (ma: Eval<A>) => Eval<A> = (f) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map(() => a)
+    )
+  )
+
+/**
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const flatten: <A>(mma: Eval<Eval<A>>) => Eval<A> =
+  /*#__PURE__*/
+  chain(identity)
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'Eval'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind<A> {
+    readonly [URI]: Eval<A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor1<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Applicative: Applicative1<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Monad: Monad1<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of,
+  chain: chain_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ChainRec: ChainRec1<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  chain: chain_,
+  chainRec: chainRec_
+}
+
+// -------------------------------------------------------------------------------------
+// array utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndex = <A, B>(f: (index: number, a: A) => Eval<B>) => (
+  arr: ReadonlyArray<A>
+): Eval<ReadonlyArray<B>> =>
+  arr.reduce(
+    (acc, a, i) =>
+      chain_(acc, (bs) =>
+        map_(f(i, a), (b) => {
+          bs.push(b)
+          return bs
+        })
+      ),
+    // tslint:disable-next-line: readonly-array
+    always((): Array<B> => [])
+  )
+
+/**
+ * Runs a computation for every element of the array and accumulates the results.
+ *
+ * This function has the same behavior of `A.traverse(EV.Applicative)` but it's stack safe
+ *
+ * @example
+ * import * as EV from 'fp-ts/Eval'
+ * import { pipe } from 'fp-ts/function'
+ * import * as RA from 'fp-ts/ReadonlyArray'
+ *
+ * assert.deepStrictEqual(pipe(RA.range(1, 100000), EV.traverseArray(EV.now), EV.evaluate), RA.range(1, 100000))
+ *
+ * @since 2.10.0
+ */
+export const traverseArray: <A, B>(f: (a: A) => Eval<B>) => (arr: ReadonlyArray<A>) => Eval<ReadonlyArray<B>> = (f) =>
+  traverseArrayWithIndex((_, a) => f(a))
+
+/**
+ * This function has the same behavior of `A.sequence(EV.Applicative)` but it's stack safe
+ *
+ * @since 2.10.0
+ */
+export const sequenceArray: <A>(arr: ReadonlyArray<Eval<A>>) => Eval<ReadonlyArray<A>> =
+  /*#__PURE__*/
+  traverseArray(identity)
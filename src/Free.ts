@@ -0,0 +1,321 @@
+/**
+ * `Free<F, A>` describes a program built from the instructions of `F` (a type with an URI, see `HKT`) which returns a
+ * value of type `A`.
+ *
+ * Programs are interpreted with `foldFree` into any monad with a `ChainRec` instance, by translating each instruction.
+ * Since interpretation goes through `chainRec`, programs with long (or infinite) sequences of instructions don't grow
+ * the JS stack.
+ *
+ * @example
+ * import * as E from 'fp-ts/Either'
+ * import * as Fr from 'fp-ts/Free'
+ * import { pipe } from 'fp-ts/function'
+ * import * as I from 'fp-ts/Identity'
+ * import * as IO from 'fp-ts/IO'
+ * import * as R from 'fp-ts/Reader'
+ *
+ * // instructions are `IO` actions returning the next step
+ * const program = Fr.ChainRec.chainRec(0, (n) =>
+ *   Fr.liftF<IO.URI, E.Either<number, string>>(() => (n < 100000 ? E.left(n + 1) : E.right(`done after ${n} steps`)))
+ * )
+ *
+ * // run the instructions directly
+ * assert.deepStrictEqual(
+ *   Fr.foldFree({ ...I.Monad, ...I.ChainRec })((io) => io(), program),
+ *   'done after 100000 steps'
+ * )
+ *
+ * // or translate them into another monad
+ * assert.deepStrictEqual(
+ *   pipe(
+ *     Fr.foldFree({ ...R.Monad, ...R.ChainRec })((io) => R.of(io()), program),
+ *     R.map((s) => s.toUpperCase())
+ *   )(undefined),
+ *   'DONE AFTER 100000 STEPS'
+ * )
+ *
+ * @since 2.10.0
+ */
+import { Applicative2 } from './Applicative'
+import { ChainRec as ChainRecHKT, ChainRec1, ChainRec2, ChainRec2C, ChainRec3 } from './ChainRec'
+import * as E from './Either'
+import { identity, pipe } from './function'
+import { Functor2 } from './Functor'
+import { HKT, Kind, Kind2, Kind3, URIS, URIS2, URIS3 } from './HKT'
+import { Monad as MonadHKT, Monad1, Monad2, Monad2C, Monad3 } from './Monad'
+
+import Either = E.Either
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Pure<A> {
+  readonly _tag: 'Pure'
+  readonly value: A
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Suspend<F, A> {
+  readonly _tag: 'Suspend'
+  readonly fa: HKT<F, A>
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Chain<F, A> {
+  readonly _tag: 'Chain'
+  readonly fx: Free<F, unknown>
+  readonly f: (x: unknown) => Free<F, A>
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export type Free<F, A> = Pure<A> | Suspend<F, A> | Chain<F, A>
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Lifts an instruction into a program.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export function liftF<F extends URIS, A>(fa: Kind<F, A>): Free<F, A>
+export function liftF<F, A>(fa: HKT<F, A>): Free<F, A>
+export function liftF<F, A>(fa: HKT<F, A>): Free<F, A> {
+  return { _tag: 'Suspend', fa }
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Returns the next instruction of the program together with its continuation, or the result of the program.
+ *
+ * Left associated `chain`s are re-associated to the right in a loop, so that this function runs in constant stack space.
+ */
+const step = <F, A>(
+  free: Free<F, A>
+): Either<A, { readonly fx: HKT<F, unknown>; readonly f: (x: unknown) => Free<F, A> }> => {
+  let current = free
+  while (current._tag === 'Chain') {
+    const { fx, f } = current
+    switch (fx._tag) {
+      case 'Pure':
+        current = f(fx.value)
+        break
+      case 'Suspend':
+        return E.right({ fx: fx.fa, f })
+      case 'Chain':
+        const g = fx.f
+        current = { _tag: 'Chain', fx: fx.fx, f: (x) => chain_(g(x), f) }
+    }
+  }
+  return current._tag === 'Pure' ? E.left(current.value) : E.right({ fx: current.fa, f: (x) => of(x as A) })
+}
+
+/**
+ * Interprets a program into the monad `M`, given a translation of each instruction of `F` into `M`.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export function foldFree<M extends URIS3>(
+  M: Monad3<M> & ChainRec3<M>
+): {
+  <F extends URIS, R, E, A>(nt: <X>(fx: Kind<F, X>) => Kind3<M, R, E, X>, fa: Free<F, A>): Kind3<M, R, E, A>
+  <F, R, E, A>(nt: <X>(fx: HKT<F, X>) => Kind3<M, R, E, X>, fa: Free<F, A>): Kind3<M, R, E, A>
+}
+export function foldFree<M extends URIS2>(
+  M: Monad2<M> & ChainRec2<M>
+): {
+  <F extends URIS, E, A>(nt: <X>(fx: Kind<F, X>) => Kind2<M, E, X>, fa: Free<F, A>): Kind2<M, E, A>
+  <F, E, A>(nt: <X>(fx: HKT<F, X>) => Kind2<M, E, X>, fa: Free<F, A>): Kind2<M, E, A>
+}
+export function foldFree<M extends URIS2, E>(
+  M: Monad2C<M, E> & ChainRec2C<M, E>
+): {
+  <F extends URIS, A>(nt: <X>(fx: Kind<F, X>) => Kind2<M, E, X>, fa: Free<F, A>): Kind2<M, E, A>
+  <F, A>(nt: <X>(fx: HKT<F, X>) => Kind2<M, E, X>, fa: Free<F, A>): Kind2<M, E, A>
+}
+export function foldFree<M extends URIS>(
+  M: Monad1<M> & ChainRec1<M>
+): {
+  <F extends URIS, A>(nt: <X>(fx: Kind<F, X>) => Kind<M, X>, fa: Free<F, A>): Kind<M, A>
+  <F, A>(nt: <X>(fx: HKT<F, X>) => Kind<M, X>, fa: Free<F, A>): Kind<M, A>
+}
+export function foldFree<M>(
+  M: MonadHKT<M> & ChainRecHKT<M>
+): <F, A>(nt: <X>(fx: HKT<F, X>) => HKT<M, X>, fa: Free<F, A>) => HKT<M, A>
+export function foldFree<M>(
+  M: MonadHKT<M> & ChainRecHKT<M>
+): <F, A>(nt: <X>(fx: HKT<F, X>) => HKT<M, X>, fa: Free<F, A>) => HKT<M, A> {
+  return (nt, fa) =>
+    M.chainRec(fa, (free) =>
+      pipe(
+        step(free),
+        E.fold(
+          (a) => M.of(E.right(a)),
+          ({ fx, f }) => M.map(nt(fx), (x) => E.left(f(x)))
+        )
+      )
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Translates the instructions of a program from `F` to `G`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function hoistFree<F, G>(nt: <X>(fx: HKT<F, X>) => HKT<G, X>): <A>(fa: Free<F, A>) => Free<G, A>
+export function hoistFree<F, G extends URIS>(nt: <X>(fx: HKT<F, X>) => Kind<G, X>): <A>(fa: Free<F, A>) => Free<G, A>
+export function hoistFree<F extends URIS, G>(nt: <X>(fx: Kind<F, X>) => HKT<G, X>): <A>(fa: Free<F, A>) => Free<G, A>
+export function hoistFree<F extends URIS, G extends URIS>(
+  nt: <X>(fx: Kind<F, X>) => Kind<G, X>
+): <A>(fa: Free<F, A>) => Free<G, A>
+export function hoistFree<F, G>(nt: <X>(fx: HKT<F, X>) => HKT<G, X>): <A>(fa: Free<F, A>) => Free<G, A> {
+  return (fa) => foldFree({ ...Monad, ...ChainRec })(<X>(fx: HKT<F, X>) => liftF(nt(fx)), fa)
+}
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const chain_: Monad2<URI>['chain'] = (ma, f) => ({ _tag: 'Chain', fx: ma, f: f as (x: unknown) => Free<any, any> })
+const map_: Monad2<URI>['map'] = (fa, f) => chain_(fa, (a) => of(f(a)))
+const ap_: Monad2<URI>['ap'] = (fab, fa) => chain_(fab, (f) => map_(fa, f))
+const chainRec_: ChainRec2<URI>['chainRec'] = <F, A, B>(a: A, f: (a: A) => Free<F, Either<A, B>>): Free<F, B> =>
+  chain_(f(a), (e) => (e._tag === 'Left' ? chainRec_(e.left, f) : of(e.right)))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => <F>(fa: Free<F, A>) => Free<F, B> = (f) => (fa) => map_(fa, f)
+
+/**
+ * Apply a function to an argument under a type constructor.
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const ap: <F, A>(fa: Free<F, A>) => <B>(fab: Free<F, (a: A) => B>) => Free<F, B> = (fa) => (fab) => ap_(fab, fa)
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of = <A>(a: A): Free<never, A> => ({ _tag: 'Pure', value: a })
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <F, A, B>(f: (a: A) => Free<F, B>) => (ma: Free<F, A>) => Free<F, B> = (f) => (ma) => chain_(ma, f)
+
+/**
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const flatten: <F, A>(mma: Free<F, Free<F, A>>) => Free<F, A> =
+  /*#__PURE__*/
+  chain(identity)
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'Free'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind2<E, A> {
+    readonly [URI]: Free<E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor2<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Applicative: Applicative2<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Monad: Monad2<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of,
+  chain: chain_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ChainRec: ChainRec2<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  chain: chain_,
+  chainRec: chainRec_
+}
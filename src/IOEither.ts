@@ -16,7 +16,8 @@ import { Monad2, Monad2C } from './Monad'
 import { MonadIO2, MonadIO2C } from './MonadIO'
 import { MonadThrow2, MonadThrow2C } from './MonadThrow'
 import { Monoid } from './Monoid'
-import { Option } from './Option'
+import { isNone, Option } from './Option'
+import { applyPolicy, defaultRetryStatus, RetryPolicy, RetryStatus } from './RetryPolicy'
 import { Semigroup } from './Semigroup'
 
 // -------------------------------------------------------------------------------------
@@ -689,6 +690,43 @@ export const bracket = <E, A, B>(
     )
   )
 
+/**
+ * Runs `action` and retries it according to `policy` as long as `check` returns `true` for its result. Each attempt,
+ * as well as `check`, receives the current `RetryStatus`.
+ *
+ * Note: since `IO` is synchronous the delays directed by `policy` are not waited for, they only contribute to
+ * `cumulativeDelay`. Use `TaskEither.retrying` if the delays must be honoured.
+ *
+ * @since 2.10.0
+ */
+export const retrying = <E, A>(
+  policy: RetryPolicy,
+  action: (status: RetryStatus) => IOEither<E, A>,
+  check: (status: RetryStatus, e: Either<E, A>) => boolean
+): IOEither<E, A> => () => {
+  let status = defaultRetryStatus
+  let e = action(status)()
+  while (check(status, e)) {
+    status = applyPolicy(policy, status)
+    if (isNone(status.previousDelay)) {
+      break
+    }
+    e = action(status)()
+  }
+  return e
+}
+
+/**
+ * Retries a failing `action` according to `policy` as long as `shouldRecover` returns `true` for its error.
+ *
+ * @since 2.10.0
+ */
+export const recovering = <E, A>(
+  policy: RetryPolicy,
+  action: (status: RetryStatus) => IOEither<E, A>,
+  shouldRecover: (status: RetryStatus, e: E) => boolean
+): IOEither<E, A> => retrying(policy, action, (status, e) => E.isLeft(e) && shouldRecover(status, e.left))
+
 // -------------------------------------------------------------------------------------
 // do notation
 // -------------------------------------------------------------------------------------
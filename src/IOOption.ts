@@ -0,0 +1,511 @@
+/**
+ * ```ts
+ * interface IOOption<A> extends IO<Option<A>> {}
+ * ```
+ *
+ * `IOOption<A>` represents a synchronous computation that either yields a value of type `A` or yields nothing.
+ *
+ * @since 2.10.0
+ */
+import { Alt1 } from './Alt'
+import { Alternative1 } from './Alternative'
+import { Applicative1 } from './Applicative'
+import { Either } from './Either'
+import { bindTo_, bind_, flow, identity, Lazy, pipe, Predicate, Refinement } from './function'
+import { Functor1 } from './Functor'
+import * as I from './IO'
+import { IOEither } from './IOEither'
+import { Monad1 } from './Monad'
+import { MonadIO1 } from './MonadIO'
+import * as O from './Option'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+import IO = I.IO
+import Option = O.Option
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface IOOption<A> extends IO<Option<A>> {}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const none: IOOption<never> =
+  /*#__PURE__*/
+  I.of(O.none)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const some: <A>(a: A) => IOOption<A> =
+  /*#__PURE__*/
+  flow(O.some, I.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const someIO: <A>(ma: IO<A>) => IOOption<A> =
+  /*#__PURE__*/
+  I.map(O.some)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromOption: <A>(ma: Option<A>) => IOOption<A> = I.of
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromNullable: <A>(a: A) => IOOption<NonNullable<A>> =
+  /*#__PURE__*/
+  flow(O.fromNullable, fromOption)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromPredicate: {
+  <A, B extends A>(refinement: Refinement<A, B>): (a: A) => IOOption<B>
+  <A>(predicate: Predicate<A>): (a: A) => IOOption<A>
+} = <A>(predicate: Predicate<A>) => (a: A) => (predicate(a) ? some(a) : none)
+
+/**
+ * Discards the error of the `Either`.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromEither: <E, A>(ma: Either<E, A>) => IOOption<A> =
+  /*#__PURE__*/
+  flow(O.fromEither, fromOption)
+
+/**
+ * Discards the error of the `IOEither`.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromIOEither: <E, A>(ma: IOEither<E, A>) => IOOption<A> =
+  /*#__PURE__*/
+  I.map(O.fromEither)
+
+/**
+ * Constructs a new `IOOption` from a function that performs a side effect and might throw, yielding nothing if it
+ * throws.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const tryCatch = <A>(f: Lazy<A>): IOOption<A> => () => O.tryCatch(f)
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const fold: <A, B>(onNone: () => IO<B>, onSome: (a: A) => IO<B>) => (ma: IOOption<A>) => IO<B> =
+  /*#__PURE__*/
+  flow(O.fold, I.chain)
+
+/**
+ * Less strict version of [`getOrElse`](#getOrElse).
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const getOrElseW = <B>(onNone: Lazy<IO<B>>) => <A>(ma: IOOption<A>): IO<A | B> =>
+  pipe(ma, I.chain(O.fold<A, IO<A | B>>(onNone, I.of)))
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const getOrElse: <A>(onNone: Lazy<IO<A>>) => (ma: IOOption<A>) => IO<A> = getOrElseW
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toUndefined: <A>(ma: IOOption<A>) => IO<A | undefined> =
+  /*#__PURE__*/
+  I.map(O.toUndefined)
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toNullable: <A>(ma: IOOption<A>) => IO<A | null> =
+  /*#__PURE__*/
+  I.map(O.toNullable)
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function tryCatchK<A extends ReadonlyArray<unknown>, B>(f: (...a: A) => B): (...a: A) => IOOption<B> {
+  return (...a) => tryCatch(() => f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromNullableK<A extends ReadonlyArray<unknown>, B>(
+  f: (...a: A) => B | null | undefined
+): (...a: A) => IOOption<NonNullable<B>> {
+  return (...a) => fromNullable(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainNullableK: <A, B>(
+  f: (a: A) => B | null | undefined
+) => (ma: IOOption<A>) => IOOption<NonNullable<B>> = (f) => chain(fromNullableK(f))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromOptionK<A extends ReadonlyArray<unknown>, B>(f: (...a: A) => Option<B>): (...a: A) => IOOption<B> {
+  return (...a) => fromOption(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainOptionK: <A, B>(f: (a: A) => Option<B>) => (ma: IOOption<A>) => IOOption<B> = (f) =>
+  chain(fromOptionK(f))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainIOK: <A, B>(f: (a: A) => IO<B>) => (ma: IOOption<A>) => IOOption<B> = (f) =>
+  chain((a) => fromIO(f(a)))
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Monad1<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const ap_: Monad1<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
+const chain_: Monad1<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
+const alt_: Alt1<URI>['alt'] = (fa, that) => pipe(fa, alt(that))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => (fa: IOOption<A>) => IOOption<B> = (f) => I.map(O.map(f))
+
+/**
+ * Apply a function to an argument under a type constructor.
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const ap = <A>(fa: IOOption<A>): (<B>(fab: IOOption<(a: A) => B>) => IOOption<B>) =>
+  flow(
+    I.map((gab) => (ga: Option<A>) => O.ap(ga)(gab)),
+    I.ap(fa)
+  )
+
+/**
+ * Combine two effectful actions, keeping only the result of the first.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apFirst: <B>(fb: IOOption<B>) => <A>(fa: IOOption<A>) => IOOption<A> = (fb) =>
+  flow(
+    map((a) => () => a),
+    ap(fb)
+  )
+
+/**
+ * Combine two effectful actions, keeping only the result of the second.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apSecond = <B>(fb: IOOption<B>): (<A>(fa: IOOption<A>) => IOOption<B>) =>
+  flow(
+    map(() => (b: B) => b),
+    ap(fb)
+  )
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * Equivalent to [`some`](#some).
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative1<URI>['of'] = some
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <A, B>(f: (a: A) => IOOption<B>) => (ma: IOOption<A>) => IOOption<B> = (f) =>
+  I.chain(O.fold(() => none, f))
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainFirst: <A, B>(f: (a: A) => IOOption<B>) => (ma: IOOption<A>) => IOOption<A> = (f) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map(() => a)
+    )
+  )
+
+/**
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const flatten: <A>(mma: IOOption<IOOption<A>>) => IOOption<A> =
+  /*#__PURE__*/
+  chain(identity)
+
+/**
+ * Less strict version of [`alt`](#alt).
+ *
+ * @category Alt
+ * @since 2.10.0
+ */
+export const altW = <B>(that: Lazy<IOOption<B>>) => <A>(fa: IOOption<A>): IOOption<A | B> =>
+  pipe(fa, I.chain(O.fold<A, IOOption<A | B>>(that, some)))
+
+/**
+ * Identifies an associative operation on a type constructor. It is similar to `Semigroup`, except that it applies to
+ * types of kind `* -> *`.
+ *
+ * In case of `IOOption` returns `fa` if is a `Some` or the value returned by `that` otherwise.
+ *
+ * @category Alt
+ * @since 2.10.0
+ */
+export const alt: <A>(that: Lazy<IOOption<A>>) => (fa: IOOption<A>) => IOOption<A> = altW
+
+/**
+ * @category Alternative
+ * @since 2.10.0
+ */
+export const zero: Alternative1<URI>['zero'] = () => none
+
+/**
+ * @category MonadIO
+ * @since 2.10.0
+ */
+export const fromIO: MonadIO1<URI>['fromIO'] = someIO
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'IOOption'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind<A> {
+    readonly [URI]: IOOption<A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor1<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Applicative: Applicative1<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Monad: Monad1<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of,
+  chain: chain_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Alt: Alt1<URI> = {
+  URI,
+  map: map_,
+  alt: alt_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Alternative: Alternative1<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of,
+  alt: alt_,
+  zero
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const MonadIO: MonadIO1<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of,
+  chain: chain_,
+  fromIO
+}
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const Do: IOOption<{}> =
+  /*#__PURE__*/
+  of({})
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(name: N): (<A>(fa: IOOption<A>) => IOOption<{ [K in N]: A }>) =>
+  map(bindTo_(name))
+
+/**
+ * @since 2.10.0
+ */
+export const bind = <N extends string, A, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => IOOption<B>
+): ((fa: IOOption<A>) => IOOption<{ [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map((b) => bind_(a, name, b))
+    )
+  )
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const apS = <A, N extends string, B>(
+  name: Exclude<N, keyof A>,
+  fb: IOOption<B>
+): ((fa: IOOption<A>) => IOOption<{ [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  flow(
+    map((a) => (b: B) => bind_(a, name, b)),
+    ap(fb)
+  )
+
+// -------------------------------------------------------------------------------------
+// array utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndex: <A, B>(
+  f: (index: number, a: A) => IOOption<B>
+) => (arr: ReadonlyArray<A>) => IOOption<ReadonlyArray<B>> = (f) =>
+  flow(I.traverseArrayWithIndex(f), I.map(O.sequenceArray))
+
+/**
+ * @since 2.10.0
+ */
+export const traverseArray: <A, B>(
+  f: (a: A) => IOOption<B>
+) => (arr: ReadonlyArray<A>) => IOOption<ReadonlyArray<B>> = (f) => traverseArrayWithIndex((_, a) => f(a))
+
+/**
+ * @since 2.10.0
+ */
+export const sequenceArray: <A>(arr: ReadonlyArray<IOOption<A>>) => IOOption<ReadonlyArray<A>> =
+  /*#__PURE__*/
+  traverseArray(identity)
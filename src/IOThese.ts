@@ -0,0 +1,468 @@
+/**
+ * `IOThese<E, A>` represents a synchronous computation that either yields a value of type `A`, fails yielding an error
+ * of type `E`, or yields a value of type `A` together with some non-fatal warnings of type `E`.
+ *
+ * @since 2.10.0
+ */
+import { Applicative2, Applicative2C } from './Applicative'
+import { Bifunctor2 } from './Bifunctor'
+import { Either } from './Either'
+import { bindTo_, bind_, flow, identity, Lazy, pipe, Predicate, Refinement } from './function'
+import { Functor2 } from './Functor'
+import * as I from './IO'
+import { IOEither } from './IOEither'
+import { Monad2C } from './Monad'
+import { MonadIO2, MonadIO2C } from './MonadIO'
+import { MonadThrow2C } from './MonadThrow'
+import { Option } from './Option'
+import { Semigroup } from './Semigroup'
+import * as TH from './These'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+import These = TH.These
+import IO = I.IO
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface IOThese<E, A> extends IO<These<E, A>> {}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const left: <E = never, A = never>(e: E) => IOThese<E, A> =
+  /*#__PURE__*/
+  flow(TH.left, I.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const right: <E = never, A = never>(a: A) => IOThese<E, A> =
+  /*#__PURE__*/
+  flow(TH.right, I.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const both: <E, A>(e: E, a: A) => IOThese<E, A> =
+  /*#__PURE__*/
+  flow(TH.both, I.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const rightIO: <E = never, A = never>(ma: IO<A>) => IOThese<E, A> =
+  /*#__PURE__*/
+  I.map(TH.right)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const leftIO: <E = never, A = never>(me: IO<E>) => IOThese<E, A> =
+  /*#__PURE__*/
+  I.map(TH.left)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromThese: <E, A>(fa: These<E, A>) => IOThese<E, A> = I.of
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromEither: <E, A>(fa: Either<E, A>) => IOThese<E, A> = I.of
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromIOEither: <E, A>(fa: IOEither<E, A>) => IOThese<E, A> = identity
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromOption: <E>(onNone: Lazy<E>) => <A>(ma: Option<A>) => IOThese<E, A> = (onNone) =>
+  flow(TH.fromOption(onNone), I.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromPredicate: {
+  <E, A, B extends A>(refinement: Refinement<A, B>, onFalse: (a: A) => E): (a: A) => IOThese<E, B>
+  <E, A>(predicate: Predicate<A>, onFalse: (a: A) => E): (a: A) => IOThese<E, A>
+} = <E, A>(predicate: Predicate<A>, onFalse: (a: A) => E) => flow(TH.fromPredicate(predicate, onFalse), I.of)
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const fold: <E, B, A>(
+  onLeft: (e: E) => IO<B>,
+  onRight: (a: A) => IO<B>,
+  onBoth: (e: E, a: A) => IO<B>
+) => (fa: IOThese<E, A>) => IO<B> =
+  /*#__PURE__*/
+  flow(TH.fold, I.chain)
+
+/**
+ * Returns the left and right values as a tuple, calling `e` or `a` only when the corresponding side is missing.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toTuple = <E, A>(e: Lazy<E>, a: Lazy<A>): ((fa: IOThese<E, A>) => IO<readonly [E, A]>) =>
+  I.map(
+    TH.fold(
+      (l): readonly [E, A] => [l, a()],
+      (r) => [e(), r],
+      (l, r) => [l, r]
+    )
+  )
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const swap: <E, A>(fa: IOThese<E, A>) => IOThese<A, E> =
+  /*#__PURE__*/
+  I.map(TH.swap)
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromTheseK<E, A extends ReadonlyArray<unknown>, B>(
+  f: (...a: A) => These<E, B>
+): (...a: A) => IOThese<E, B> {
+  return (...a) => fromThese(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainTheseK = <E>(
+  S: Semigroup<E>
+): (<A, B>(f: (a: A) => These<E, B>) => (ma: IOThese<E, A>) => IOThese<E, B>) => {
+  const chainS = chain(S)
+  return (f) => chainS(fromTheseK(f))
+}
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Functor2<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const bimap_: Bifunctor2<URI>['bimap'] = (fa, f, g) => pipe(fa, bimap(f, g))
+const mapLeft_: Bifunctor2<URI>['mapLeft'] = (fa, f) => pipe(fa, mapLeft(f))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => <E>(fa: IOThese<E, A>) => IOThese<E, B> = (f) => I.map(TH.map(f))
+
+/**
+ * Map a pair of functions over the two type arguments of the bifunctor.
+ *
+ * @category Bifunctor
+ * @since 2.10.0
+ */
+export const bimap: <E, G, A, B>(f: (e: E) => G, g: (a: A) => B) => (fa: IOThese<E, A>) => IOThese<G, B> = (f, g) =>
+  I.map(TH.bimap(f, g))
+
+/**
+ * Map a function over the first type argument of a bifunctor.
+ *
+ * @category Bifunctor
+ * @since 2.10.0
+ */
+export const mapLeft: <E, G>(f: (e: E) => G) => <A>(fa: IOThese<E, A>) => IOThese<G, A> = (f) => I.map(TH.mapLeft(f))
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * Equivalent to [`right`](#right).
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative2<URI>['of'] = right
+
+/**
+ * Less strict version of [`chain`](#chain).
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainW = <E>(S: Semigroup<E>) => {
+  const chainS = TH.chain(S)
+  return <A, E2 extends E, B>(f: (a: A) => IOThese<E2, B>) => <E1 extends E>(ma: IOThese<E1, A>): IOThese<E, B> =>
+    pipe(
+      ma,
+      I.chain(
+        TH.fold(left, f, (e1, a) =>
+          pipe(
+            f(a),
+            I.map((fb) =>
+              pipe(
+                TH.both(e1, a),
+                chainS(() => fb)
+              )
+            )
+          )
+        )
+      )
+    )
+}
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * The `E` values of the two computations are combined using the provided `Semigroup`.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <E>(
+  S: Semigroup<E>
+) => <A, B>(f: (a: A) => IOThese<E, B>) => (ma: IOThese<E, A>) => IOThese<E, B> = chainW
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainFirst = <E>(S: Semigroup<E>) => {
+  const chainS = chain(S)
+  return <A, B>(f: (a: A) => IOThese<E, B>): ((ma: IOThese<E, A>) => IOThese<E, A>) =>
+    chainS((a) =>
+      pipe(
+        f(a),
+        map(() => a)
+      )
+    )
+}
+
+/**
+ * @category MonadIO
+ * @since 2.10.0
+ */
+export const fromIO: MonadIO2<URI>['fromIO'] = rightIO
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'IOThese'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind2<E, A> {
+    readonly [URI]: IOThese<E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getSemigroup<E, A>(SE: Semigroup<E>, SA: Semigroup<A>): Semigroup<IOThese<E, A>> {
+  return I.getSemigroup(TH.getSemigroup(SE, SA))
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getApplicative<E>(SE: Semigroup<E>): Applicative2C<URI, E> {
+  const AV = TH.getApplicative(SE)
+  return {
+    URI,
+    _E: undefined as any,
+    map: map_,
+    ap: (fab, fa) => () => AV.ap(fab(), fa()),
+    of
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getMonad<E>(SE: Semigroup<E>): Monad2C<URI, E> & MonadIO2C<URI, E> & MonadThrow2C<URI, E> {
+  const A = getApplicative(SE)
+  const chainSE = chain(SE)
+  return {
+    URI,
+    _E: undefined as any,
+    map: map_,
+    ap: A.ap,
+    of,
+    chain: (ma, f) => pipe(ma, chainSE(f)),
+    fromIO,
+    throwError: left
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor2<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Bifunctor: Bifunctor2<URI> = {
+  URI,
+  bimap: bimap_,
+  mapLeft: mapLeft_
+}
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const Do: IOThese<never, {}> =
+  /*#__PURE__*/
+  of({})
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(name: N): (<E, A>(fa: IOThese<E, A>) => IOThese<E, { [K in N]: A }>) =>
+  map(bindTo_(name))
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * @since 2.10.0
+ */
+export const bind = <E>(S: Semigroup<E>) => {
+  const chainS = chain(S)
+  return <N extends string, A, B>(
+    name: Exclude<N, keyof A>,
+    f: (a: A) => IOThese<E, B>
+  ): ((fa: IOThese<E, A>) => IOThese<E, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+    chainS((a) =>
+      pipe(
+        f(a),
+        map((b) => bind_(a, name, b))
+      )
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * @since 2.10.0
+ */
+export const apS = <E>(S: Semigroup<E>) => {
+  const A = getApplicative(S)
+  return <A, N extends string, B>(
+    name: Exclude<N, keyof A>,
+    fb: IOThese<E, B>
+  ): ((fa: IOThese<E, A>) => IOThese<E, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+    flow(
+      map((a: A) => (b: B) => bind_(a, name, b)),
+      (fab) => A.ap(fab, fb)
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// array utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function bails out on the first `Left`, the remaining actions are not run*
+ *
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndex = <E>(S: Semigroup<E>) => {
+  const traverseS = TH.traverseArrayWithIndex(S)
+  return <A, B>(f: (index: number, a: A) => IOThese<E, B>) => (
+    arr: ReadonlyArray<A>
+  ): IOThese<E, ReadonlyArray<B>> => () => traverseS((i, a: A) => f(i, a)())(arr)
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function bails out on the first `Left`, the remaining actions are not run*
+ *
+ * @since 2.10.0
+ */
+export const traverseArray = <E>(
+  S: Semigroup<E>
+): (<A, B>(f: (a: A) => IOThese<E, B>) => (arr: ReadonlyArray<A>) => IOThese<E, ReadonlyArray<B>>) => {
+  const traverseS = traverseArrayWithIndex(S)
+  return (f) => traverseS((_, a) => f(a))
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function bails out on the first `Left`, the remaining actions are not run*
+ *
+ * @since 2.10.0
+ */
+export const sequenceArray = <E>(
+  S: Semigroup<E>
+): (<A>(arr: ReadonlyArray<IOThese<E, A>>) => IOThese<E, ReadonlyArray<A>>) => traverseArray(S)(identity)
@@ -0,0 +1,807 @@
+/**
+ * Property based checks for the laws of type class instances.
+ *
+ * A `Law` pairs a name with a property over randomly generated values (see `Random.Gen`). `check` runs each law against
+ * a number of pseudo-random inputs and, when a property does not hold, shrinks the input to a minimal counterexample.
+ *
+ * Laws for higher kinded type classes (`functor`, `apply`, `monad`, `alt`, `foldable`, `traversable`) need a way to
+ * generate values of `F<A>` from values of `A` (`lift`) and a way to compare them (`liftEq`), they take the instance first
+ * so that the remaining type parameters of `F` can be inferred from `lift`.
+ *
+ * @example
+ * import * as E from 'fp-ts/Either'
+ * import * as Eq from 'fp-ts/Eq'
+ * import * as L from 'fp-ts/Laws'
+ * import * as O from 'fp-ts/Option'
+ * import { monoidSum } from 'fp-ts/Monoid'
+ *
+ * assert.deepStrictEqual(L.check(L.monad(O.Monad)(L.option, O.getEq)), E.right(undefined))
+ * assert.deepStrictEqual(L.check(L.monoid(monoidSum, Eq.eqNumber, L.number)), E.right(undefined))
+ *
+ * // subtraction is not associative
+ * const violation = L.check(L.semigroup({ concat: (x: number, y: number) => x - y }, Eq.eqNumber, L.number))
+ * assert.deepStrictEqual(E.isLeft(violation) && violation.left.law, 'Semigroup.associativity')
+ *
+ * @since 2.10.0
+ */
+import { Alt, Alt1, Alt2, Alt2C, Alt3, Alt3C, Alt4 } from './Alt'
+import { Apply, Apply1, Apply2, Apply2C, Apply3, Apply3C, Apply4 } from './Apply'
+import { Either, left, right } from './Either'
+import { Eq, eqBoolean, eqNumber, eqString } from './Eq'
+import { Foldable, Foldable1, Foldable2, Foldable2C, Foldable3, Foldable3C, Foldable4 } from './Foldable'
+import { identity, pipe, Predicate } from './function'
+import { Functor, Functor1, Functor2, Functor2C, Functor3, Functor3C, Functor4 } from './Functor'
+import { HKT, Kind, Kind2, Kind3, Kind4, URIS, URIS2, URIS3, URIS4 } from './HKT'
+import * as I from './Identity'
+import { JoinSemilattice } from './JoinSemilattice'
+import { Lattice } from './Lattice'
+import { MeetSemilattice } from './MeetSemilattice'
+import { Monad, Monad1, Monad2, Monad2C, Monad3, Monad3C, Monad4 } from './Monad'
+import { Monoid } from './Monoid'
+import * as O from './Option'
+import { Ord } from './Ord'
+import { bool, element, frequency, Gen, int, mkSeed, Seed } from './Random'
+import * as RA from './ReadonlyArray'
+import { Semigroup } from './Semigroup'
+import * as S from './State'
+import { Traversable, Traversable1, Traversable2, Traversable2C, Traversable3 } from './Traversable'
+
+import Option = O.Option
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * A generator of values of type `A` along with a way to shrink them, `shrink` returns smaller candidates for a value.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface Arbitrary<A> {
+  readonly gen: Gen<A>
+  readonly shrink: (a: A) => ReadonlyArray<A>
+}
+
+/**
+ * - `seed`: the seed of the first run
+ * - `numRuns`: the number of inputs checked for each law
+ * - `maxShrinks`: the maximum number of shrinking steps performed on a counterexample
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface Parameters {
+  readonly seed: Seed
+  readonly numRuns: number
+  readonly maxShrinks: number
+}
+
+/**
+ * - `law`: the name of the violated law
+ * - `counterexample`: the (shrunk) input for which the law does not hold
+ * - `shrinks`: the number of shrinking steps performed
+ * - `seed`: the seed which generated the original counterexample
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface Violation {
+  readonly law: string
+  readonly counterexample: unknown
+  readonly shrinks: number
+  readonly seed: Seed
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Law {
+  readonly name: string
+  readonly run: (parameters: Parameters) => Option<Violation>
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromGen = <A>(gen: Gen<A>, shrink: (a: A) => ReadonlyArray<A> = () => RA.empty): Arbitrary<A> => ({
+  gen,
+  shrink
+})
+
+const shrinkLoop = <A>(a: A, shrink: (a: A) => ReadonlyArray<A>, predicate: Predicate<A>, maxShrinks: number) => {
+  let counterexample = a
+  let shrinks = 0
+  let candidates = shrink(counterexample)
+  let i = 0
+  while (i < candidates.length && shrinks < maxShrinks) {
+    if (predicate(candidates[i])) {
+      i++
+    } else {
+      counterexample = candidates[i]
+      shrinks++
+      candidates = shrink(counterexample)
+      i = 0
+    }
+  }
+  return { counterexample, shrinks }
+}
+
+/**
+ * Creates a `Law` from a property which must hold for every value generated by `arbitrary`.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const law = <A>(name: string, arbitrary: Arbitrary<A>, predicate: Predicate<A>): Law => ({
+  name,
+  run: ({ seed, numRuns, maxShrinks }) => {
+    let s = seed
+    for (let i = 0; i < numRuns; i++) {
+      const [a, next] = arbitrary.gen(s)
+      if (!predicate(a)) {
+        return O.some({ law: name, ...shrinkLoop(a, arbitrary.shrink, predicate, maxShrinks), seed: s })
+      }
+      s = next
+    }
+    return O.none
+  }
+})
+
+// -------------------------------------------------------------------------------------
+// arbitraries
+// -------------------------------------------------------------------------------------
+
+/**
+ * Integers between `-100` and `100`, shrinking towards `0`.
+ *
+ * @category arbitraries
+ * @since 2.10.0
+ */
+export const number: Arbitrary<number> = fromGen(int(-100, 100), (n) =>
+  n === 0 ? RA.empty : RA.uniq(eqNumber)([0, Math.trunc(n / 2), n - Math.sign(n)])
+)
+
+/**
+ * @category arbitraries
+ * @since 2.10.0
+ */
+export const boolean: Arbitrary<boolean> = fromGen(bool, (b) => (b ? [false] : RA.empty))
+
+const removals = <A>(as: ReadonlyArray<A>): ReadonlyArray<ReadonlyArray<A>> =>
+  RA.makeBy(as.length, (i) => RA.unsafeDeleteAt(i, as))
+
+/**
+ * Strings of at most `5` characters between `a` and `e`, shrinking by removing characters.
+ *
+ * @category arbitraries
+ * @since 2.10.0
+ */
+export const string: Arbitrary<string> = fromGen(
+  pipe(
+    int(0, 5),
+    S.chain((n) => S.sequenceArray(RA.replicate(n, element(['a', 'b', 'c', 'd', 'e'])))),
+    S.map((cs) => cs.join(''))
+  ),
+  (s) => removals(s.split('')).map((cs) => cs.join(''))
+)
+
+/**
+ * Arrays of at most `5` elements, shrinking by removing elements, then by shrinking them.
+ *
+ * @category arbitraries
+ * @since 2.10.0
+ */
+export const array = <A>(arb: Arbitrary<A>): Arbitrary<ReadonlyArray<A>> =>
+  fromGen(
+    pipe(
+      int(0, 5),
+      S.chain((n) => S.sequenceArray(RA.replicate(n, arb.gen)))
+    ),
+    (as) => [
+      ...removals(as),
+      ...pipe(
+        as,
+        RA.chainWithIndex((i, a) => arb.shrink(a).map((b) => RA.unsafeUpdateAt(i, b, as)))
+      )
+    ]
+  )
+
+/**
+ * Generates `some` three times out of four, shrinking `some` to `none`, then by shrinking its value.
+ *
+ * @category arbitraries
+ * @since 2.10.0
+ */
+export const option = <A>(arb: Arbitrary<A>): Arbitrary<Option<A>> =>
+  fromGen(
+    frequency<Option<A>>([
+      [1, S.of(O.none)],
+      [3, pipe(arb.gen, S.map(O.some))]
+    ]),
+    (ma) => (O.isNone(ma) ? RA.empty : RA.cons(O.none, arb.shrink(ma.value).map(O.some)))
+  )
+
+/**
+ * Combines arbitraries into an arbitrary of tuples, shrinking one component at a time.
+ *
+ * @category arbitraries
+ * @since 2.10.0
+ */
+export const tuple = <T extends ReadonlyArray<unknown>>(
+  ...arbs: { readonly [K in keyof T]: Arbitrary<T[K]> }
+): Arbitrary<T> => {
+  const as: ReadonlyArray<Arbitrary<unknown>> = arbs
+  const gen: Gen<ReadonlyArray<unknown>> = S.sequenceArray(as.map((arb) => arb.gen))
+  return fromGen(gen as Gen<T>, (t) =>
+    pipe(
+      as,
+      RA.chainWithIndex((i, arb) => arb.shrink(t[i]).map((b) => RA.unsafeUpdateAt(i, b, t) as T))
+    )
+  )
+}
+
+const eqReadonlyArrayString = RA.getEq(eqString)
+
+const ab: Arbitrary<(s: string) => number> = fromGen(element([(s) => s.length, (s) => s.indexOf('a'), () => 0]))
+
+const bc: Arbitrary<(n: number) => boolean> = fromGen(element([(n) => n > 2, (n) => n % 2 === 0, () => true]))
+
+const afo: Arbitrary<(s: string) => Option<number>> = fromGen(
+  element([(s) => O.some(s.length), (s) => (s.length > 2 ? O.none : O.some(s.length))])
+)
+
+// -------------------------------------------------------------------------------------
+// laws
+// -------------------------------------------------------------------------------------
+
+/**
+ * - Reflexivity: `E.equals(a, a) === true`
+ * - Symmetry: `E.equals(a, b) === E.equals(b, a)`
+ * - Transitivity: if `E.equals(a, b) === true` and `E.equals(b, c) === true`, then `E.equals(a, c) === true`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export const eq = <A>(E: Eq<A>, arb: Arbitrary<A>): ReadonlyArray<Law> => [
+  law('Eq.reflexivity', arb, (a) => E.equals(a, a)),
+  law('Eq.symmetry', tuple(arb, arb), ([a, b]) => E.equals(a, b) === E.equals(b, a)),
+  law('Eq.transitivity', tuple(arb, arb, arb), ([a, b, c]) => !(E.equals(a, b) && E.equals(b, c)) || E.equals(a, c))
+]
+
+/**
+ * The `Eq` laws and
+ *
+ * - Reflexivity: `O.compare(a, a) <= 0`
+ * - Antisymmetry: if `O.compare(a, b) <= 0` and `O.compare(b, a) <= 0` then `O.equals(a, b) === true`
+ * - Transitivity: if `O.compare(a, b) <= 0` and `O.compare(b, c) <= 0` then `O.compare(a, c) <= 0`
+ * - Consistency with `equals`: `O.compare(a, b) === 0` if and only if `O.equals(a, b) === true`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export const ord = <A>(O: Ord<A>, arb: Arbitrary<A>): ReadonlyArray<Law> => [
+  ...eq(O, arb),
+  law('Ord.reflexivity', arb, (a) => O.compare(a, a) <= 0),
+  law(
+    'Ord.antisymmetry',
+    tuple(arb, arb),
+    ([a, b]) => !(O.compare(a, b) <= 0 && O.compare(b, a) <= 0) || O.equals(a, b)
+  ),
+  law(
+    'Ord.transitivity',
+    tuple(arb, arb, arb),
+    ([a, b, c]) => !(O.compare(a, b) <= 0 && O.compare(b, c) <= 0) || O.compare(a, c) <= 0
+  ),
+  law('Ord.consistency', tuple(arb, arb), ([a, b]) => (O.compare(a, b) === 0) === O.equals(a, b))
+]
+
+/**
+ * - Associativity: `S.concat(S.concat(a, b), c) <-> S.concat(a, S.concat(b, c))`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export const semigroup = <A>(S: Semigroup<A>, E: Eq<A>, arb: Arbitrary<A>): ReadonlyArray<Law> => [
+  law('Semigroup.associativity', tuple(arb, arb, arb), ([a, b, c]) =>
+    E.equals(S.concat(S.concat(a, b), c), S.concat(a, S.concat(b, c)))
+  )
+]
+
+/**
+ * The `Semigroup` laws and
+ *
+ * - Right identity: `M.concat(a, M.empty) <-> a`
+ * - Left identity: `M.concat(M.empty, a) <-> a`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export const monoid = <A>(M: Monoid<A>, E: Eq<A>, arb: Arbitrary<A>): ReadonlyArray<Law> => [
+  ...semigroup(M, E, arb),
+  law('Monoid.rightIdentity', arb, (a) => E.equals(M.concat(a, M.empty), a)),
+  law('Monoid.leftIdentity', arb, (a) => E.equals(M.concat(M.empty, a), a))
+]
+
+/**
+ * - Associativity: `J.join(J.join(a, b), c) <-> J.join(a, J.join(b, c))`
+ * - Commutativity: `J.join(a, b) <-> J.join(b, a)`
+ * - Idempotency: `J.join(a, a) <-> a`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export const joinSemilattice = <A>(J: JoinSemilattice<A>, E: Eq<A>, arb: Arbitrary<A>): ReadonlyArray<Law> => [
+  law('JoinSemilattice.associativity', tuple(arb, arb, arb), ([a, b, c]) =>
+    E.equals(J.join(J.join(a, b), c), J.join(a, J.join(b, c)))
+  ),
+  law('JoinSemilattice.commutativity', tuple(arb, arb), ([a, b]) => E.equals(J.join(a, b), J.join(b, a))),
+  law('JoinSemilattice.idempotency', arb, (a) => E.equals(J.join(a, a), a))
+]
+
+/**
+ * - Associativity: `M.meet(M.meet(a, b), c) <-> M.meet(a, M.meet(b, c))`
+ * - Commutativity: `M.meet(a, b) <-> M.meet(b, a)`
+ * - Idempotency: `M.meet(a, a) <-> a`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export const meetSemilattice = <A>(M: MeetSemilattice<A>, E: Eq<A>, arb: Arbitrary<A>): ReadonlyArray<Law> => [
+  law('MeetSemilattice.associativity', tuple(arb, arb, arb), ([a, b, c]) =>
+    E.equals(M.meet(M.meet(a, b), c), M.meet(a, M.meet(b, c)))
+  ),
+  law('MeetSemilattice.commutativity', tuple(arb, arb), ([a, b]) => E.equals(M.meet(a, b), M.meet(b, a))),
+  law('MeetSemilattice.idempotency', arb, (a) => E.equals(M.meet(a, a), a))
+]
+
+/**
+ * The `JoinSemilattice` and `MeetSemilattice` laws and
+ *
+ * - Absorption: `L.join(a, L.meet(a, b)) <-> a` and `L.meet(a, L.join(a, b)) <-> a`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export const lattice = <A>(L: Lattice<A>, E: Eq<A>, arb: Arbitrary<A>): ReadonlyArray<Law> => [
+  ...joinSemilattice(L, E, arb),
+  ...meetSemilattice(L, E, arb),
+  law(
+    'Lattice.absorption',
+    tuple(arb, arb),
+    ([a, b]) => E.equals(L.join(a, L.meet(a, b)), a) && E.equals(L.meet(a, L.join(a, b)), a)
+  )
+]
+
+/**
+ * - Identity: `F.map(fa, a => a) <-> fa`
+ * - Composition: `F.map(fa, a => bc(ab(a))) <-> F.map(F.map(fa, ab), bc)`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export function functor<F extends URIS4>(
+  F: Functor4<F>
+): <S, R, E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind4<F, S, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind4<F, S, R, E, A>>
+) => ReadonlyArray<Law>
+export function functor<F extends URIS3>(
+  F: Functor3<F>
+): <R, E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind3<F, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind3<F, R, E, A>>
+) => ReadonlyArray<Law>
+export function functor<F extends URIS3, E>(
+  F: Functor3C<F, E>
+): <R>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind3<F, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind3<F, R, E, A>>
+) => ReadonlyArray<Law>
+export function functor<F extends URIS2>(
+  F: Functor2<F>
+): <E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind2<F, E, A>>
+) => ReadonlyArray<Law>
+export function functor<F extends URIS2, E>(
+  F: Functor2C<F, E>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind2<F, E, A>>
+) => ReadonlyArray<Law>
+export function functor<F extends URIS>(
+  F: Functor1<F>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind<F, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind<F, A>>
+) => ReadonlyArray<Law>
+export function functor<F>(
+  F: Functor<F>
+): (lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>, liftEq: <A>(eq: Eq<A>) => Eq<HKT<F, A>>) => ReadonlyArray<Law>
+export function functor<F>(
+  F: Functor<F>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<HKT<F, A>>
+) => ReadonlyArray<Law> {
+  return (lift, liftEq) => {
+    const fa = lift(string)
+    return [
+      law('Functor.identity', fa, (x) => liftEq(eqString).equals(F.map(x, identity), x)),
+      law('Functor.composition', tuple(fa, ab, bc), ([x, f, g]) =>
+        liftEq(eqBoolean).equals(
+          F.map(x, (a) => g(f(a))),
+          F.map(F.map(x, f), g)
+        )
+      )
+    ]
+  }
+}
+
+/**
+ * The `Functor` laws and
+ *
+ * - Associative composition: `F.ap(F.ap(F.map(fbc, bc => ab => a => bc(ab(a))), fab), fa) <-> F.ap(fbc, F.ap(fab, fa))`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export function apply<F extends URIS4>(
+  F: Apply4<F>
+): <S, R, E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind4<F, S, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind4<F, S, R, E, A>>
+) => ReadonlyArray<Law>
+export function apply<F extends URIS3>(
+  F: Apply3<F>
+): <R, E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind3<F, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind3<F, R, E, A>>
+) => ReadonlyArray<Law>
+export function apply<F extends URIS3, E>(
+  F: Apply3C<F, E>
+): <R>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind3<F, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind3<F, R, E, A>>
+) => ReadonlyArray<Law>
+export function apply<F extends URIS2>(
+  F: Apply2<F>
+): <E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind2<F, E, A>>
+) => ReadonlyArray<Law>
+export function apply<F extends URIS2, E>(
+  F: Apply2C<F, E>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind2<F, E, A>>
+) => ReadonlyArray<Law>
+export function apply<F extends URIS>(
+  F: Apply1<F>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind<F, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind<F, A>>
+) => ReadonlyArray<Law>
+export function apply<F>(
+  F: Apply<F>
+): (lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>, liftEq: <A>(eq: Eq<A>) => Eq<HKT<F, A>>) => ReadonlyArray<Law>
+export function apply<F>(
+  F: Apply<F>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<HKT<F, A>>
+) => ReadonlyArray<Law> {
+  return (lift, liftEq) => [
+    ...functor(F)(lift, liftEq),
+    law('Apply.associativeComposition', tuple(lift(string), lift(ab), lift(bc)), ([fa, fab, fbc]) =>
+      liftEq(eqBoolean).equals(
+        F.ap(
+          F.ap(
+            F.map(fbc, (g) => (f: (a: string) => number) => (a: string) => g(f(a))),
+            fab
+          ),
+          fa
+        ),
+        F.ap(fbc, F.ap(fab, fa))
+      )
+    )
+  ]
+}
+
+/**
+ * The `Apply` laws and
+ *
+ * - Associativity: `F.chain(F.chain(fa, afb), bfc) <-> F.chain(fa, a => F.chain(afb(a), bfc))`
+ * - Derived `ap`: `F.ap(fab, fa) <-> F.chain(fab, f => F.map(fa, f))`
+ * - Left identity: `F.chain(F.of(a), f) <-> f(a)`
+ * - Right identity: `F.chain(fa, F.of) <-> fa`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export function monad<F extends URIS4>(
+  F: Monad4<F>
+): <S, R, E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind4<F, S, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind4<F, S, R, E, A>>
+) => ReadonlyArray<Law>
+export function monad<F extends URIS3>(
+  F: Monad3<F>
+): <R, E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind3<F, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind3<F, R, E, A>>
+) => ReadonlyArray<Law>
+export function monad<F extends URIS3, E>(
+  F: Monad3C<F, E>
+): <R>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind3<F, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind3<F, R, E, A>>
+) => ReadonlyArray<Law>
+export function monad<F extends URIS2>(
+  F: Monad2<F>
+): <E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind2<F, E, A>>
+) => ReadonlyArray<Law>
+export function monad<F extends URIS2, E>(
+  F: Monad2C<F, E>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind2<F, E, A>>
+) => ReadonlyArray<Law>
+export function monad<F extends URIS>(
+  F: Monad1<F>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind<F, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind<F, A>>
+) => ReadonlyArray<Law>
+export function monad<F>(
+  F: Monad<F>
+): (lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>, liftEq: <A>(eq: Eq<A>) => Eq<HKT<F, A>>) => ReadonlyArray<Law>
+export function monad<F>(
+  F: Monad<F>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<HKT<F, A>>
+) => ReadonlyArray<Law> {
+  return (lift, liftEq) => {
+    const afb = (fb: HKT<F, number>, f: (s: string) => number) => (s: string) => F.map(fb, (n) => n + f(s))
+    const bfc = (fc: HKT<F, boolean>, g: (n: number) => boolean) => (n: number) => F.map(fc, (c) => c === g(n))
+    return [
+      ...apply(F)(lift, liftEq),
+      law('Chain.associativity', tuple(lift(string), lift(number), ab, lift(boolean), bc), ([fa, fb, f, fc, g]) =>
+        liftEq(eqBoolean).equals(
+          F.chain(F.chain(fa, afb(fb, f)), bfc(fc, g)),
+          F.chain(fa, (a) => F.chain(afb(fb, f)(a), bfc(fc, g)))
+        )
+      ),
+      law('Chain.derivedAp', tuple(lift(ab), lift(string)), ([fab, fa]) =>
+        liftEq(eqNumber).equals(
+          F.ap(fab, fa),
+          F.chain(fab, (f) => F.map(fa, f))
+        )
+      ),
+      law('Monad.leftIdentity', tuple(string, lift(number), ab), ([a, fb, f]) =>
+        liftEq(eqNumber).equals(F.chain(F.of(a), afb(fb, f)), afb(fb, f)(a))
+      ),
+      law('Monad.rightIdentity', lift(string), (fa) => liftEq(eqString).equals(F.chain(fa, F.of), fa))
+    ]
+  }
+}
+
+/**
+ * The `Functor` laws and
+ *
+ * - Associativity: `F.alt(F.alt(fa, () => ga), () => ha) <-> F.alt(fa, () => F.alt(ga, () => ha))`
+ * - Distributivity: `F.map(F.alt(fa, () => ga), ab) <-> F.alt(F.map(fa, ab), () => F.map(ga, ab))`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export function alt<F extends URIS4>(
+  F: Alt4<F>
+): <S, R, E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind4<F, S, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind4<F, S, R, E, A>>
+) => ReadonlyArray<Law>
+export function alt<F extends URIS3>(
+  F: Alt3<F>
+): <R, E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind3<F, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind3<F, R, E, A>>
+) => ReadonlyArray<Law>
+export function alt<F extends URIS3, E>(
+  F: Alt3C<F, E>
+): <R>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind3<F, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind3<F, R, E, A>>
+) => ReadonlyArray<Law>
+export function alt<F extends URIS2>(
+  F: Alt2<F>
+): <E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind2<F, E, A>>
+) => ReadonlyArray<Law>
+export function alt<F extends URIS2, E>(
+  F: Alt2C<F, E>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind2<F, E, A>>
+) => ReadonlyArray<Law>
+export function alt<F extends URIS>(
+  F: Alt1<F>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind<F, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind<F, A>>
+) => ReadonlyArray<Law>
+export function alt<F>(
+  F: Alt<F>
+): (lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>, liftEq: <A>(eq: Eq<A>) => Eq<HKT<F, A>>) => ReadonlyArray<Law>
+export function alt<F>(
+  F: Alt<F>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<HKT<F, A>>
+) => ReadonlyArray<Law> {
+  return (lift, liftEq) => {
+    const fa = lift(string)
+    return [
+      ...functor(F)(lift, liftEq),
+      law('Alt.associativity', tuple(fa, fa, fa), ([x, y, z]) =>
+        liftEq(eqString).equals(
+          F.alt(
+            F.alt(x, () => y),
+            () => z
+          ),
+          F.alt(x, () => F.alt(y, () => z))
+        )
+      ),
+      law('Alt.distributivity', tuple(fa, fa, ab), ([x, y, f]) =>
+        liftEq(eqNumber).equals(
+          F.map(
+            F.alt(x, () => y),
+            f
+          ),
+          F.alt(F.map(x, f), () => F.map(y, f))
+        )
+      )
+    ]
+  }
+}
+
+/**
+ * - `foldMap` consistency: `F.foldMap(M)(fa, f) <-> F.reduce(fa, M.empty, (b, a) => M.concat(b, f(a)))`
+ * - `reduceRight` consistency: `F.reduceRight` folds the elements in the same order as `F.reduce`, from the right
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export function foldable<F extends URIS4>(
+  F: Foldable4<F>
+): <S, R, E>(lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind4<F, S, R, E, A>>) => ReadonlyArray<Law>
+export function foldable<F extends URIS3>(
+  F: Foldable3<F>
+): <R, E>(lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind3<F, R, E, A>>) => ReadonlyArray<Law>
+export function foldable<F extends URIS3, E>(
+  F: Foldable3C<F, E>
+): <R>(lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind3<F, R, E, A>>) => ReadonlyArray<Law>
+export function foldable<F extends URIS2>(
+  F: Foldable2<F>
+): <E>(lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>) => ReadonlyArray<Law>
+export function foldable<F extends URIS2, E>(
+  F: Foldable2C<F, E>
+): (lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>) => ReadonlyArray<Law>
+export function foldable<F extends URIS>(
+  F: Foldable1<F>
+): (lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind<F, A>>) => ReadonlyArray<Law>
+export function foldable<F>(
+  F: Foldable<F>
+): (lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>) => ReadonlyArray<Law>
+export function foldable<F>(
+  F: Foldable<F>
+): (lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>) => ReadonlyArray<Law> {
+  return (lift) => {
+    const toArray = (fa: HKT<F, string>) => F.reduce(fa, RA.empty, (as: ReadonlyArray<string>, a) => RA.snoc(as, a))
+    return [
+      law('Foldable.foldMap', lift(string), (fa) =>
+        eqReadonlyArrayString.equals(F.foldMap(RA.getMonoid<string>())(fa, RA.of), toArray(fa))
+      ),
+      law('Foldable.reduceRight', lift(string), (fa) =>
+        eqReadonlyArrayString.equals(
+          F.reduceRight(fa, RA.empty, (a, as: ReadonlyArray<string>) => RA.cons(a, as)),
+          toArray(fa)
+        )
+      )
+    ]
+  }
+}
+
+/**
+ * The `Functor` and `Foldable` laws and
+ *
+ * - Identity: `F.traverse(I.Applicative)(fa, I.of) <-> fa`
+ * - `sequence` consistency: `F.traverse(G)(fa, f) <-> F.sequence(G)(F.map(fa, f))`
+ *
+ * @category laws
+ * @since 2.10.0
+ */
+export function traversable<F extends URIS3>(
+  F: Traversable3<F>
+): <R, E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind3<F, R, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind3<F, R, E, A>>
+) => ReadonlyArray<Law>
+export function traversable<F extends URIS2>(
+  F: Traversable2<F>
+): <E>(
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind2<F, E, A>>
+) => ReadonlyArray<Law>
+export function traversable<F extends URIS2, E>(
+  F: Traversable2C<F, E>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind2<F, E, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind2<F, E, A>>
+) => ReadonlyArray<Law>
+export function traversable<F extends URIS>(
+  F: Traversable1<F>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<Kind<F, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<Kind<F, A>>
+) => ReadonlyArray<Law>
+export function traversable<F>(
+  F: Traversable<F>
+): (lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>, liftEq: <A>(eq: Eq<A>) => Eq<HKT<F, A>>) => ReadonlyArray<Law>
+export function traversable<F>(
+  F: Traversable<F>
+): (
+  lift: <A>(arb: Arbitrary<A>) => Arbitrary<HKT<F, A>>,
+  liftEq: <A>(eq: Eq<A>) => Eq<HKT<F, A>>
+) => ReadonlyArray<Law> {
+  return (lift, liftEq) => [
+    ...functor(F)(lift, liftEq),
+    ...foldable(F)(lift),
+    law('Traversable.identity', lift(string), (fa) => liftEq(eqString).equals(F.traverse(I.Applicative)(fa, I.of), fa)),
+    law('Traversable.sequence', tuple(lift(string), afo), ([fa, f]) =>
+      O.getEq(liftEq(eqNumber)).equals(F.traverse(O.Applicative)(fa, f), F.sequence(O.Applicative)(F.map(fa, f)))
+    )
+  ]
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const defaultParameters: Parameters = {
+  seed: mkSeed(42),
+  numRuns: 100,
+  maxShrinks: 1000
+}
+
+/**
+ * Checks a list of laws, returning the first violation if any.
+ *
+ * @since 2.10.0
+ */
+export const check = (
+  laws: ReadonlyArray<Law>,
+  parameters: Parameters = defaultParameters
+): Either<Violation, void> => {
+  for (const l of laws) {
+    const violation = l.run(parameters)
+    if (O.isSome(violation)) {
+      return left(violation.value)
+    }
+  }
+  return right(undefined)
+}
@@ -0,0 +1,52 @@
+/**
+ * A mutual exclusion lock for `Task`s, built on a `Semaphore` with a single permit.
+ *
+ * @since 2.10.0
+ */
+import { IO } from './IO'
+import { Semaphore } from './Semaphore'
+import { Task } from './Task'
+
+/**
+ * @example
+ * import { newMutex } from 'fp-ts/Mutex'
+ * import * as T from 'fp-ts/Task'
+ *
+ * async function test() {
+ *   const mutex = newMutex()
+ *   const log: Array<string> = []
+ *   const append = (message: string) => T.fromIO(() => log.push(message))
+ *   await T.sequenceArray([mutex.withLock(T.delay(10)(append('a'))), mutex.withLock(append('b'))])()
+ *   assert.deepStrictEqual(log, ['a', 'b'])
+ * }
+ *
+ * test()
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export class Mutex {
+  /**
+   * @since 2.10.0
+   */
+  readonly isLocked: IO<boolean>
+  private readonly semaphore = new Semaphore(1)
+  constructor() {
+    this.isLocked = () => this.semaphore.available() === 0
+    this.withLock = this.withLock.bind(this)
+  }
+  /**
+   * Runs a task (or a `TaskEither`) holding the lock.
+   *
+   * @since 2.10.0
+   */
+  withLock<A>(ma: Task<A>): Task<A> {
+    return this.semaphore.withPermits(1)(ma)
+  }
+}
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const newMutex: IO<Mutex> = () => new Mutex()
@@ -0,0 +1,1252 @@
+/**
+ * A persistent ordered map, implemented as a weight-balanced binary search tree keyed by an `Ord<K>`.
+ *
+ * Unlike `ReadonlyMap`, which relies on the native `Map` and scans its keys with an `Eq` for non primitive keys,
+ * `insertAt`, `lookup` and `deleteAt` run in `O(log n)` and the entries are always iterated in ascending key order.
+ *
+ * The same `Ord` must be used for every operation on a given map.
+ *
+ * @since 2.10.0
+ */
+import { Applicative } from './Applicative'
+import { Compactable2, Separated } from './Compactable'
+import { Either, isLeft } from './Either'
+import { Eq, fromEquals } from './Eq'
+import { Filterable2 } from './Filterable'
+import { FilterableWithIndex2C } from './FilterableWithIndex'
+import { Foldable as FoldableHKT, Foldable1, Foldable2, Foldable3 } from './Foldable'
+import { pipe, Predicate, Refinement } from './function'
+import { Functor2 } from './Functor'
+import { HKT, Kind, Kind2, Kind3, URIS, URIS2, URIS3 } from './HKT'
+import { Magma } from './Magma'
+import { Monoid } from './Monoid'
+import * as O from './Option'
+import { Ord } from './Ord'
+import { Semigroup } from './Semigroup'
+import { Show } from './Show'
+import { PipeableTraverse2, Traversable2 } from './Traversable'
+import { TraversableWithIndex2C } from './TraversableWithIndex'
+import { Unfoldable, Unfoldable1 } from './Unfoldable'
+import { Witherable2 } from './Witherable'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+import Option = O.Option
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Leaf {
+  readonly _tag: 'Leaf'
+}
+
+/**
+ * A node stores its own `size` (the number of entries of the subtree rooted at the node), which is used to keep the
+ * tree balanced.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface Node<K, A> {
+  readonly _tag: 'Node'
+  readonly size: number
+  readonly key: K
+  readonly value: A
+  readonly left: OrdMap<K, A>
+  readonly right: OrdMap<K, A>
+}
+
+/**
+ * Values of type `OrdMap` should only be built with the functions of this module, which keep the tree ordered and
+ * balanced.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export type OrdMap<K, A> = Leaf | Node<K, A>
+
+// -------------------------------------------------------------------------------------
+// internal
+// -------------------------------------------------------------------------------------
+
+const leaf: Leaf = { _tag: 'Leaf' }
+
+// balancing parameters, see "Balancing weight-balanced trees" (Hirai, Yamamoto)
+const DELTA = 3
+const RATIO = 2
+
+const node = <K, A>(key: K, value: A, left: OrdMap<K, A>, right: OrdMap<K, A>): Node<K, A> => ({
+  _tag: 'Node',
+  size: size(left) + size(right) + 1,
+  key,
+  value,
+  left,
+  right
+})
+
+const rotateLeft = <K, A>(key: K, value: A, left: OrdMap<K, A>, right: Node<K, A>): Node<K, A> => {
+  if (size(right.left) < RATIO * size(right.right)) {
+    return node(right.key, right.value, node(key, value, left, right.left), right.right)
+  }
+  const rl = right.left as Node<K, A>
+  return node(rl.key, rl.value, node(key, value, left, rl.left), node(right.key, right.value, rl.right, right.right))
+}
+
+const rotateRight = <K, A>(key: K, value: A, left: Node<K, A>, right: OrdMap<K, A>): Node<K, A> => {
+  if (size(left.right) < RATIO * size(left.left)) {
+    return node(left.key, left.value, left.left, node(key, value, left.right, right))
+  }
+  const lr = left.right as Node<K, A>
+  return node(lr.key, lr.value, node(left.key, left.value, left.left, lr.left), node(key, value, lr.right, right))
+}
+
+// restores the balance of a node whose subtrees were balanced before a single insertion or deletion
+const balance = <K, A>(key: K, value: A, left: OrdMap<K, A>, right: OrdMap<K, A>): Node<K, A> => {
+  const sl = size(left)
+  const sr = size(right)
+  if (sl + sr <= 1) {
+    return node(key, value, left, right)
+  }
+  if (sr > DELTA * sl) {
+    return rotateLeft(key, value, left, right as Node<K, A>)
+  }
+  if (sl > DELTA * sr) {
+    return rotateRight(key, value, left as Node<K, A>, right)
+  }
+  return node(key, value, left, right)
+}
+
+const insertMin = <K, A>(key: K, value: A, m: OrdMap<K, A>): Node<K, A> =>
+  m._tag === 'Leaf' ? node(key, value, leaf, leaf) : balance(m.key, m.value, insertMin(key, value, m.left), m.right)
+
+const insertMax = <K, A>(key: K, value: A, m: OrdMap<K, A>): Node<K, A> =>
+  m._tag === 'Leaf' ? node(key, value, leaf, leaf) : balance(m.key, m.value, m.left, insertMax(key, value, m.right))
+
+// builds a balanced tree from two trees and a key which is greater than the keys of `left` and lower than the keys of
+// `right`
+const link = <K, A>(key: K, value: A, left: OrdMap<K, A>, right: OrdMap<K, A>): Node<K, A> => {
+  if (left._tag === 'Leaf') {
+    return insertMin(key, value, right)
+  }
+  if (right._tag === 'Leaf') {
+    return insertMax(key, value, left)
+  }
+  if (DELTA * left.size < right.size) {
+    return balance(right.key, right.value, link(key, value, left, right.left), right.right)
+  }
+  if (DELTA * right.size < left.size) {
+    return balance(left.key, left.value, left.left, link(key, value, left.right, right))
+  }
+  return node(key, value, left, right)
+}
+
+const minView = <K, A>(m: Node<K, A>): readonly [K, A, OrdMap<K, A>] => {
+  if (m.left._tag === 'Leaf') {
+    return [m.key, m.value, m.right]
+  }
+  const [k, a, left] = minView(m.left)
+  return [k, a, balance(m.key, m.value, left, m.right)]
+}
+
+const maxView = <K, A>(m: Node<K, A>): readonly [K, A, OrdMap<K, A>] => {
+  if (m.right._tag === 'Leaf') {
+    return [m.key, m.value, m.left]
+  }
+  const [k, a, right] = maxView(m.right)
+  return [k, a, balance(m.key, m.value, m.left, right)]
+}
+
+// joins two balanced trees of similar size, the keys of `left` must be lower than the keys of `right`
+const glue = <K, A>(left: OrdMap<K, A>, right: OrdMap<K, A>): OrdMap<K, A> => {
+  if (left._tag === 'Leaf') {
+    return right
+  }
+  if (right._tag === 'Leaf') {
+    return left
+  }
+  if (left.size > right.size) {
+    const [k, a, l] = maxView(left)
+    return balance(k, a, l, right)
+  }
+  const [k, a, r] = minView(right)
+  return balance(k, a, left, r)
+}
+
+// joins two trees of any size, the keys of `left` must be lower than the keys of `right`
+const merge = <K, A>(left: OrdMap<K, A>, right: OrdMap<K, A>): OrdMap<K, A> => {
+  if (left._tag === 'Leaf') {
+    return right
+  }
+  if (right._tag === 'Leaf') {
+    return left
+  }
+  if (DELTA * left.size < right.size) {
+    return balance(right.key, right.value, merge(left, right.left), right.right)
+  }
+  if (DELTA * right.size < left.size) {
+    return balance(left.key, left.value, left.left, merge(left.right, right))
+  }
+  return glue(left, right)
+}
+
+const greaterOrEqual = <K>(ord: Ord<K>, low: K) => <A>(m: OrdMap<K, A>): OrdMap<K, A> => {
+  const go = (m: OrdMap<K, A>): OrdMap<K, A> => {
+    if (m._tag === 'Leaf') {
+      return m
+    }
+    return ord.compare(m.key, low) < 0 ? go(m.right) : link(m.key, m.value, go(m.left), m.right)
+  }
+  return go(m)
+}
+
+const lowerOrEqual = <K>(ord: Ord<K>, high: K) => <A>(m: OrdMap<K, A>): OrdMap<K, A> => {
+  const go = (m: OrdMap<K, A>): OrdMap<K, A> => {
+    if (m._tag === 'Leaf') {
+      return m
+    }
+    return ord.compare(m.key, high) > 0 ? go(m.left) : link(m.key, m.value, m.left, go(m.right))
+  }
+  return go(m)
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const empty: OrdMap<never, never> = leaf
+
+/**
+ * Create a map with one key/value pair
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export function singleton<K, A>(k: K, a: A): OrdMap<K, A> {
+  return node(k, a, leaf, leaf)
+}
+
+/**
+ * Create a map from a foldable collection of key/value pairs, using the specified `Magma` to combine values for
+ * duplicate keys.
+ *
+ * @example
+ * import { fromFoldable, toReadonlyArray } from 'fp-ts/OrdMap'
+ * import { ordNumber } from 'fp-ts/Ord'
+ * import { semigroupSum } from 'fp-ts/Semigroup'
+ * import { Foldable } from 'fp-ts/ReadonlyArray'
+ *
+ * const m = fromFoldable(ordNumber, semigroupSum, Foldable)([
+ *   [2, 1],
+ *   [1, 1],
+ *   [2, 3]
+ * ])
+ * assert.deepStrictEqual(toReadonlyArray(m), [
+ *   [1, 1],
+ *   [2, 4]
+ * ])
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export function fromFoldable<F extends URIS3, K, A>(
+  ord: Ord<K>,
+  M: Magma<A>,
+  F: Foldable3<F>
+): <R, E>(fka: Kind3<F, R, E, readonly [K, A]>) => OrdMap<K, A>
+export function fromFoldable<F extends URIS2, K, A>(
+  ord: Ord<K>,
+  M: Magma<A>,
+  F: Foldable2<F>
+): <E>(fka: Kind2<F, E, readonly [K, A]>) => OrdMap<K, A>
+export function fromFoldable<F extends URIS, K, A>(
+  ord: Ord<K>,
+  M: Magma<A>,
+  F: Foldable1<F>
+): (fka: Kind<F, readonly [K, A]>) => OrdMap<K, A>
+export function fromFoldable<F, K, A>(
+  ord: Ord<K>,
+  M: Magma<A>,
+  F: FoldableHKT<F>
+): (fka: HKT<F, readonly [K, A]>) => OrdMap<K, A>
+export function fromFoldable<F, K, A>(
+  ord: Ord<K>,
+  M: Magma<A>,
+  F: FoldableHKT<F>
+): (fka: HKT<F, readonly [K, A]>) => OrdMap<K, A> {
+  const lookupO = lookup(ord)
+  const insertAtO = insertAt(ord)
+  return (fka) =>
+    F.reduce<readonly [K, A], OrdMap<K, A>>(fka, empty, (m, [k, a]) => {
+      const found = lookupO(k)(m)
+      return insertAtO(k, O.isSome(found) ? M.concat(found.value, a) : a)(m)
+    })
+}
+
+/**
+ * Create a map from a `ReadonlyMap`, if several keys are equal according to `ord` the value of the last one wins but
+ * the key of the first one is kept.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export function fromReadonlyMap<K>(ord: Ord<K>): <A>(m: ReadonlyMap<K, A>) => OrdMap<K, A> {
+  const insertAtO = insertAt(ord)
+  return <A>(m: ReadonlyMap<K, A>) => {
+    let out: OrdMap<K, A> = empty
+    m.forEach((a, k) => {
+      out = insertAtO(k, a)(out)
+    })
+    return out
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Calculate the number of key/value pairs in a map, in `O(1)`
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export function size<K, A>(m: OrdMap<K, A>): number {
+  return m._tag === 'Leaf' ? 0 : m.size
+}
+
+/**
+ * Test whether or not a map is empty
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export function isEmpty<K, A>(m: OrdMap<K, A>): boolean {
+  return m._tag === 'Leaf'
+}
+
+/**
+ * Get a sorted array of the keys contained in a map
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const keys = <K, A>(m: OrdMap<K, A>): ReadonlyArray<K> => collect((k: K) => k)(m)
+
+/**
+ * Get an array of the values contained in a map, sorted by key
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const values = <K, A>(m: OrdMap<K, A>): ReadonlyArray<A> => collect((_: K, a: A) => a)(m)
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const collect = <K, A, B>(f: (k: K, a: A) => B) => (m: OrdMap<K, A>): ReadonlyArray<B> =>
+  pipe(
+    m,
+    // tslint:disable-next-line: readonly-array
+    reduceWithIndex<K, A, Array<B>>([], (k, out, a) => {
+      out.push(f(k, a))
+      return out
+    })
+  )
+
+/**
+ * Get a sorted array of the key/value pairs contained in a map
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toReadonlyArray: <K, A>(m: OrdMap<K, A>) => ReadonlyArray<readonly [K, A]> =
+  /*#__PURE__*/
+  collect((k, a) => [k, a] as const)
+
+/**
+ * Unfolds a map into a list of key/value pairs, sorted by key
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export function toUnfoldable<F extends URIS>(U: Unfoldable1<F>): <K, A>(m: OrdMap<K, A>) => Kind<F, readonly [K, A]>
+export function toUnfoldable<F>(U: Unfoldable<F>): <K, A>(m: OrdMap<K, A>) => HKT<F, readonly [K, A]>
+export function toUnfoldable<F>(U: Unfoldable<F>): <K, A>(m: OrdMap<K, A>) => HKT<F, readonly [K, A]> {
+  return (m) => {
+    const arr = toReadonlyArray(m)
+    const len = arr.length
+    return U.unfold(0, (b) => (b < len ? O.some([arr[b], b + 1]) : O.none))
+  }
+}
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toReadonlyMap = <K, A>(m: OrdMap<K, A>): ReadonlyMap<K, A> => new Map(toReadonlyArray(m))
+
+/**
+ * Get the key/value pair with the lowest key, in `O(log n)`
+ *
+ * @example
+ * import { fromFoldable, min, empty } from 'fp-ts/OrdMap'
+ * import { ordNumber } from 'fp-ts/Ord'
+ * import { getFirstSemigroup } from 'fp-ts/Semigroup'
+ * import { Foldable } from 'fp-ts/ReadonlyArray'
+ * import { some, none } from 'fp-ts/Option'
+ *
+ * const m = fromFoldable(ordNumber, getFirstSemigroup<string>(), Foldable)([
+ *   [2, 'b'],
+ *   [1, 'a'],
+ *   [3, 'c']
+ * ])
+ * assert.deepStrictEqual(min(m), some([1, 'a']))
+ * assert.deepStrictEqual(min(empty), none)
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const min = <K, A>(m: OrdMap<K, A>): Option<readonly [K, A]> => {
+  if (m._tag === 'Leaf') {
+    return O.none
+  }
+  let out = m
+  while (out.left._tag === 'Node') {
+    out = out.left
+  }
+  return O.some([out.key, out.value])
+}
+
+/**
+ * Get the key/value pair with the greatest key, in `O(log n)`
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const max = <K, A>(m: OrdMap<K, A>): Option<readonly [K, A]> => {
+  if (m._tag === 'Leaf') {
+    return O.none
+  }
+  let out = m
+  while (out.right._tag === 'Node') {
+    out = out.right
+  }
+  return O.some([out.key, out.value])
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * Lookup the value for a key in a map, in `O(log n)`. If the result is a `Some`, the existing key is also returned.
+ *
+ * @since 2.10.0
+ */
+export function lookupWithKey<K>(ord: Ord<K>): (k: K) => <A>(m: OrdMap<K, A>) => Option<readonly [K, A]> {
+  return (k) => (m) => {
+    let current = m
+    while (current._tag === 'Node') {
+      const c = ord.compare(k, current.key)
+      if (c === 0) {
+        return O.some([current.key, current.value])
+      }
+      current = c < 0 ? current.left : current.right
+    }
+    return O.none
+  }
+}
+
+/**
+ * Lookup the value for a key in a map, in `O(log n)`
+ *
+ * @example
+ * import { lookup, singleton } from 'fp-ts/OrdMap'
+ * import { ordNumber } from 'fp-ts/Ord'
+ * import { some, none } from 'fp-ts/Option'
+ *
+ * assert.deepStrictEqual(lookup(ordNumber)(1)(singleton(1, 'a')), some('a'))
+ * assert.deepStrictEqual(lookup(ordNumber)(2)(singleton(1, 'a')), none)
+ *
+ * @since 2.10.0
+ */
+export function lookup<K>(ord: Ord<K>): (k: K) => <A>(m: OrdMap<K, A>) => Option<A> {
+  const lookupWithKeyO = lookupWithKey(ord)
+  return (k) => (m) =>
+    pipe(
+      lookupWithKeyO(k)(m),
+      O.map(([_, a]) => a)
+    )
+}
+
+/**
+ * Test whether or not a key exists in a map, in `O(log n)`
+ *
+ * @since 2.10.0
+ */
+export function member<K>(ord: Ord<K>): (k: K) => <A>(m: OrdMap<K, A>) => boolean {
+  const lookupWithKeyO = lookupWithKey(ord)
+  return (k) => (m) => O.isSome(lookupWithKeyO(k)(m))
+}
+
+/**
+ * Test whether or not a value is a member of a map, in `O(n)`
+ *
+ * @since 2.10.0
+ */
+export function elem<A>(E: Eq<A>): (a: A) => <K>(m: OrdMap<K, A>) => boolean {
+  return (a) => {
+    const go = <K>(m: OrdMap<K, A>): boolean => m._tag === 'Node' && (E.equals(a, m.value) || go(m.left) || go(m.right))
+    return go
+  }
+}
+
+/**
+ * Test whether or not one map contains all of the keys and values contained in another map
+ *
+ * @since 2.10.0
+ */
+export function isSubmap<K, A>(ord: Ord<K>, E: Eq<A>): (that: OrdMap<K, A>) => (me: OrdMap<K, A>) => boolean {
+  const lookupO = lookup(ord)
+  return (that) => (me) =>
+    size(me) <= size(that) &&
+    pipe(
+      me,
+      reduceWithIndex<K, A, boolean>(true, (k, b, a) => {
+        if (!b) {
+          return b
+        }
+        const found = lookupO(k)(that)
+        return O.isSome(found) && E.equals(a, found.value)
+      })
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Insert or replace a key/value pair in a map, in `O(log n)`
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function insertAt<K>(ord: Ord<K>): <A>(k: K, a: A) => (m: OrdMap<K, A>) => OrdMap<K, A> {
+  return <A>(k: K, a: A) => {
+    const go = (m: OrdMap<K, A>): OrdMap<K, A> => {
+      if (m._tag === 'Leaf') {
+        return node(k, a, leaf, leaf)
+      }
+      const c = ord.compare(k, m.key)
+      if (c < 0) {
+        const left = go(m.left)
+        return left === m.left ? m : balance(m.key, m.value, left, m.right)
+      }
+      if (c > 0) {
+        const right = go(m.right)
+        return right === m.right ? m : balance(m.key, m.value, m.left, right)
+      }
+      return m.value === a ? m : node(m.key, a, m.left, m.right)
+    }
+    return go
+  }
+}
+
+/**
+ * Delete a key and value from a map, in `O(log n)`
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function deleteAt<K>(ord: Ord<K>): (k: K) => <A>(m: OrdMap<K, A>) => OrdMap<K, A> {
+  return (k) => {
+    const go = <A>(m: OrdMap<K, A>): OrdMap<K, A> => {
+      if (m._tag === 'Leaf') {
+        return m
+      }
+      const c = ord.compare(k, m.key)
+      if (c < 0) {
+        const left = go(m.left)
+        return left === m.left ? m : balance(m.key, m.value, left, m.right)
+      }
+      if (c > 0) {
+        const right = go(m.right)
+        return right === m.right ? m : balance(m.key, m.value, m.left, right)
+      }
+      return glue(m.left, m.right)
+    }
+    return go
+  }
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function updateAt<K>(ord: Ord<K>): <A>(k: K, a: A) => (m: OrdMap<K, A>) => Option<OrdMap<K, A>> {
+  const modifyAtO = modifyAt(ord)
+  return (k, a) => modifyAtO(k, () => a)
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function modifyAt<K>(ord: Ord<K>): <A>(k: K, f: (a: A) => A) => (m: OrdMap<K, A>) => Option<OrdMap<K, A>> {
+  const lookupO = lookup(ord)
+  const insertAtO = insertAt(ord)
+  return (k, f) => (m) =>
+    pipe(
+      lookupO(k)(m),
+      O.map((a) => insertAtO(k, f(a))(m))
+    )
+}
+
+/**
+ * Delete a key and value from a map, returning the value as well as the subsequent map
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function pop<K>(ord: Ord<K>): (k: K) => <A>(m: OrdMap<K, A>) => Option<readonly [A, OrdMap<K, A>]> {
+  const lookupO = lookup(ord)
+  const deleteAtO = deleteAt(ord)
+  return (k) => (m) =>
+    pipe(
+      lookupO(k)(m),
+      O.map((a) => [a, deleteAtO(k)(m)] as const)
+    )
+}
+
+/**
+ * Split a map at a key, in `O(log n)`: returns the entries whose keys are lower than `k`, the value at `k` (if any)
+ * and the entries whose keys are greater than `k`.
+ *
+ * @example
+ * import { fromFoldable, split, toReadonlyArray } from 'fp-ts/OrdMap'
+ * import { ordNumber } from 'fp-ts/Ord'
+ * import { getFirstSemigroup } from 'fp-ts/Semigroup'
+ * import { Foldable } from 'fp-ts/ReadonlyArray'
+ * import { some } from 'fp-ts/Option'
+ *
+ * const m = fromFoldable(ordNumber, getFirstSemigroup<string>(), Foldable)([
+ *   [1, 'a'],
+ *   [2, 'b'],
+ *   [3, 'c']
+ * ])
+ * const [lower, found, greater] = split(ordNumber)(2)(m)
+ * assert.deepStrictEqual(toReadonlyArray(lower), [[1, 'a']])
+ * assert.deepStrictEqual(found, some('b'))
+ * assert.deepStrictEqual(toReadonlyArray(greater), [[3, 'c']])
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function split<K>(
+  ord: Ord<K>
+): (k: K) => <A>(m: OrdMap<K, A>) => readonly [OrdMap<K, A>, Option<A>, OrdMap<K, A>] {
+  return (k) => {
+    const go = <A>(m: OrdMap<K, A>): readonly [OrdMap<K, A>, Option<A>, OrdMap<K, A>] => {
+      if (m._tag === 'Leaf') {
+        return [m, O.none, m]
+      }
+      const c = ord.compare(k, m.key)
+      if (c < 0) {
+        const [lower, found, greater] = go(m.left)
+        return [lower, found, link(m.key, m.value, greater, m.right)]
+      }
+      if (c > 0) {
+        const [lower, found, greater] = go(m.right)
+        return [link(m.key, m.value, m.left, lower), found, greater]
+      }
+      return [m.left, O.some(m.value), m.right]
+    }
+    return go
+  }
+}
+
+/**
+ * Keep only the entries whose keys are between `low` and `high` (inclusive), in `O(log n)`
+ *
+ * @example
+ * import { fromFoldable, range, keys } from 'fp-ts/OrdMap'
+ * import { ordNumber } from 'fp-ts/Ord'
+ * import { getFirstSemigroup } from 'fp-ts/Semigroup'
+ * import { Foldable } from 'fp-ts/ReadonlyArray'
+ * import { pipe } from 'fp-ts/function'
+ *
+ * const m = fromFoldable(ordNumber, getFirstSemigroup<string>(), Foldable)([
+ *   [1, 'a'],
+ *   [2, 'b'],
+ *   [3, 'c'],
+ *   [4, 'd']
+ * ])
+ * assert.deepStrictEqual(pipe(m, range(ordNumber)(2, 3), keys), [2, 3])
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function range<K>(ord: Ord<K>): (low: K, high: K) => <A>(m: OrdMap<K, A>) => OrdMap<K, A> {
+  return (low, high) => (m) => pipe(m, greaterOrEqual(ord, low), lowerOrEqual(ord, high))
+}
+
+/**
+ * Combine two maps, the values of the keys which are present in both maps are combined with `M` (the value from `me`
+ * comes first).
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function union<K, A>(ord: Ord<K>, M: Magma<A>): (that: OrdMap<K, A>) => (me: OrdMap<K, A>) => OrdMap<K, A> {
+  const splitO = split(ord)
+  const go = (me: OrdMap<K, A>, that: OrdMap<K, A>): OrdMap<K, A> => {
+    if (that._tag === 'Leaf') {
+      return me
+    }
+    if (me._tag === 'Leaf') {
+      return that
+    }
+    const [lower, found, greater] = splitO(me.key)(that)
+    return link(
+      me.key,
+      O.isSome(found) ? M.concat(me.value, found.value) : me.value,
+      go(me.left, lower),
+      go(me.right, greater)
+    )
+  }
+  return (that) => (me) => go(me, that)
+}
+
+/**
+ * Keep only the keys which are present in both maps, their values are combined with `M` (the value from `me` comes
+ * first).
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function intersection<K, A>(
+  ord: Ord<K>,
+  M: Magma<A>
+): (that: OrdMap<K, A>) => (me: OrdMap<K, A>) => OrdMap<K, A> {
+  const splitO = split(ord)
+  const go = (me: OrdMap<K, A>, that: OrdMap<K, A>): OrdMap<K, A> => {
+    if (me._tag === 'Leaf' || that._tag === 'Leaf') {
+      return empty
+    }
+    const [lower, found, greater] = splitO(me.key)(that)
+    const left = go(me.left, lower)
+    const right = go(me.right, greater)
+    return O.isSome(found) ? link(me.key, M.concat(me.value, found.value), left, right) : merge(left, right)
+  }
+  return (that) => (me) => go(me, that)
+}
+
+/**
+ * Keep only the entries of `me` whose keys are not present in `that`
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function difference<K>(ord: Ord<K>): (that: OrdMap<K, unknown>) => <A>(me: OrdMap<K, A>) => OrdMap<K, A> {
+  const splitO = split(ord)
+  const go = <A>(me: OrdMap<K, A>, that: OrdMap<K, unknown>): OrdMap<K, A> => {
+    if (me._tag === 'Leaf' || that._tag === 'Leaf') {
+      return me
+    }
+    const [lower, , greater] = splitO(that.key)(me)
+    return merge(go(lower, that.left), go(greater, that.right))
+  }
+  return (that) => (me) => go(me, that)
+}
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const mapWithIndex_ = <K, A, B>(fa: OrdMap<K, A>, f: (k: K, a: A) => B): OrdMap<K, B> => {
+  const go = (m: OrdMap<K, A>): OrdMap<K, B> => {
+    if (m._tag === 'Leaf') {
+      return m
+    }
+    const left = go(m.left)
+    const value = f(m.key, m.value)
+    return { _tag: 'Node', size: m.size, key: m.key, value, left, right: go(m.right) }
+  }
+  return go(fa)
+}
+
+const reduceWithIndex_ = <K, A, B>(fa: OrdMap<K, A>, b: B, f: (k: K, b: B, a: A) => B): B => {
+  const go = (b: B, m: OrdMap<K, A>): B => (m._tag === 'Leaf' ? b : go(f(m.key, go(b, m.left), m.value), m.right))
+  return go(b, fa)
+}
+
+const foldMapWithIndex_ = <M>(M: Monoid<M>) => <K, A>(fa: OrdMap<K, A>, f: (k: K, a: A) => M): M =>
+  reduceWithIndex_(fa, M.empty, (k, b, a) => M.concat(b, f(k, a)))
+
+const reduceRightWithIndex_ = <K, A, B>(fa: OrdMap<K, A>, b: B, f: (k: K, a: A, b: B) => B): B => {
+  const go = (b: B, m: OrdMap<K, A>): B => (m._tag === 'Leaf' ? b : go(f(m.key, m.value, go(b, m.right)), m.left))
+  return go(b, fa)
+}
+
+const traverseWithIndex_ = <F>(
+  F: Applicative<F>
+): (<K, A, B>(ta: OrdMap<K, A>, f: (k: K, a: A) => HKT<F, B>) => HKT<F, OrdMap<K, B>>) => <K, A, B>(
+  ta: OrdMap<K, A>,
+  f: (k: K, a: A) => HKT<F, B>
+) => {
+  const go = (m: OrdMap<K, A>): HKT<F, OrdMap<K, B>> => {
+    if (m._tag === 'Leaf') {
+      return F.of(m)
+    }
+    const { key, size } = m
+    return F.ap(
+      F.ap(
+        F.map(go(m.left), (left) => (value: B) => (right: OrdMap<K, B>): OrdMap<K, B> => ({
+          _tag: 'Node',
+          size,
+          key,
+          value,
+          left,
+          right
+        })),
+        f(key, m.value)
+      ),
+      go(m.right)
+    )
+  }
+  return go(ta)
+}
+
+const filterMapWithIndex_ = <K, A, B>(fa: OrdMap<K, A>, f: (k: K, a: A) => Option<B>): OrdMap<K, B> => {
+  const go = (m: OrdMap<K, A>): OrdMap<K, B> => {
+    if (m._tag === 'Leaf') {
+      return m
+    }
+    const left = go(m.left)
+    const ob = f(m.key, m.value)
+    const right = go(m.right)
+    return O.isSome(ob) ? link(m.key, ob.value, left, right) : merge(left, right)
+  }
+  return go(fa)
+}
+
+const filterWithIndex_ = <K, A>(fa: OrdMap<K, A>, p: (k: K, a: A) => boolean): OrdMap<K, A> =>
+  filterMapWithIndex_(fa, (k, a) => (p(k, a) ? O.some(a) : O.none))
+
+const partitionMapWithIndex_ = <K, A, B, C>(
+  fa: OrdMap<K, A>,
+  f: (k: K, a: A) => Either<B, C>
+): Separated<OrdMap<K, B>, OrdMap<K, C>> => {
+  const go = (m: OrdMap<K, A>): Separated<OrdMap<K, B>, OrdMap<K, C>> => {
+    if (m._tag === 'Leaf') {
+      return { left: m, right: m }
+    }
+    const l = go(m.left)
+    const e = f(m.key, m.value)
+    const r = go(m.right)
+    return isLeft(e)
+      ? { left: link(m.key, e.left, l.left, r.left), right: merge(l.right, r.right) }
+      : { left: merge(l.left, r.left), right: link(m.key, e.right, l.right, r.right) }
+  }
+  return go(fa)
+}
+
+const partitionWithIndex_ = <K, A>(
+  fa: OrdMap<K, A>,
+  p: (k: K, a: A) => boolean
+): Separated<OrdMap<K, A>, OrdMap<K, A>> =>
+  partitionMapWithIndex_(fa, (k, a) => (p(k, a) ? { _tag: 'Right', right: a } : { _tag: 'Left', left: a }))
+
+const map_: Functor2<URI>['map'] = (fa, f) => mapWithIndex_(fa, (_, a) => f(a))
+const reduce_: Foldable2<URI>['reduce'] = (fa, b, f) => reduceWithIndex_(fa, b, (_, b, a) => f(b, a))
+const foldMap_: Foldable2<URI>['foldMap'] = (M) => {
+  const foldMapWithIndexM = foldMapWithIndex_(M)
+  return (fa, f) => foldMapWithIndexM(fa, (_, a) => f(a))
+}
+const reduceRight_: Foldable2<URI>['reduceRight'] = (fa, b, f) => reduceRightWithIndex_(fa, b, (_, a, b) => f(a, b))
+const traverse_ = <F>(
+  F: Applicative<F>
+): (<K, A, B>(ta: OrdMap<K, A>, f: (a: A) => HKT<F, B>) => HKT<F, OrdMap<K, B>>) => {
+  const traverseWithIndexF = traverseWithIndex_(F)
+  return (ta, f) => traverseWithIndexF(ta, (_, a) => f(a))
+}
+const filter_ = <K, A>(fa: OrdMap<K, A>, p: Predicate<A>): OrdMap<K, A> => filterWithIndex_(fa, (_, a) => p(a))
+const filterMap_: Filterable2<URI>['filterMap'] = (fa, f) => filterMapWithIndex_(fa, (_, a) => f(a))
+const partition_ = <K, A>(fa: OrdMap<K, A>, predicate: Predicate<A>): Separated<OrdMap<K, A>, OrdMap<K, A>> =>
+  partitionWithIndex_(fa, (_, a) => predicate(a))
+const partitionMap_: Filterable2<URI>['partitionMap'] = (fa, f) => partitionMapWithIndex_(fa, (_, a) => f(a))
+const wither_ = <F>(
+  F: Applicative<F>
+): (<K, A, B>(wa: OrdMap<K, A>, f: (a: A) => HKT<F, Option<B>>) => HKT<F, OrdMap<K, B>>) => {
+  const traverseF = traverse_(F)
+  return (wa, f) => F.map(traverseF(wa, f), compact)
+}
+const wilt_ = <F>(
+  F: Applicative<F>
+): (<K, A, B, C>(
+  wa: OrdMap<K, A>,
+  f: (a: A) => HKT<F, Either<B, C>>
+) => HKT<F, Separated<OrdMap<K, B>, OrdMap<K, C>>>) => {
+  const traverseF = traverse_(F)
+  return (wa, f) => F.map(traverseF(wa, f), separate)
+}
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => <K>(fa: OrdMap<K, A>) => OrdMap<K, B> = (f) => (fa) => map_(fa, f)
+
+/**
+ * @category FunctorWithIndex
+ * @since 2.10.0
+ */
+export const mapWithIndex: <K, A, B>(f: (k: K, a: A) => B) => (fa: OrdMap<K, A>) => OrdMap<K, B> = (f) => (fa) =>
+  mapWithIndex_(fa, f)
+
+/**
+ * @category Foldable
+ * @since 2.10.0
+ */
+export const reduce: <A, B>(b: B, f: (b: B, a: A) => B) => <K>(fa: OrdMap<K, A>) => B = (b, f) => (fa) =>
+  reduce_(fa, b, f)
+
+/**
+ * @category Foldable
+ * @since 2.10.0
+ */
+export const foldMap: <M>(M: Monoid<M>) => <A>(f: (a: A) => M) => <K>(fa: OrdMap<K, A>) => M = (M) => {
+  const foldMapM = foldMap_(M)
+  return (f) => (fa) => foldMapM(fa, f)
+}
+
+/**
+ * @category Foldable
+ * @since 2.10.0
+ */
+export const reduceRight: <A, B>(b: B, f: (a: A, b: B) => B) => <K>(fa: OrdMap<K, A>) => B = (b, f) => (fa) =>
+  reduceRight_(fa, b, f)
+
+/**
+ * @category FoldableWithIndex
+ * @since 2.10.0
+ */
+export const reduceWithIndex: <K, A, B>(b: B, f: (k: K, b: B, a: A) => B) => (fa: OrdMap<K, A>) => B = (b, f) => (fa) =>
+  reduceWithIndex_(fa, b, f)
+
+/**
+ * @category FoldableWithIndex
+ * @since 2.10.0
+ */
+export const foldMapWithIndex: <M>(M: Monoid<M>) => <K, A>(f: (k: K, a: A) => M) => (fa: OrdMap<K, A>) => M = (M) => {
+  const foldMapWithIndexM = foldMapWithIndex_(M)
+  return (f) => (fa) => foldMapWithIndexM(fa, f)
+}
+
+/**
+ * @category FoldableWithIndex
+ * @since 2.10.0
+ */
+export const reduceRightWithIndex: <K, A, B>(b: B, f: (k: K, a: A, b: B) => B) => (fa: OrdMap<K, A>) => B = (b, f) => (
+  fa
+) => reduceRightWithIndex_(fa, b, f)
+
+/**
+ * @since 2.10.0
+ */
+export const traverse: PipeableTraverse2<URI> = <F>(
+  F: Applicative<F>
+): (<A, B>(f: (a: A) => HKT<F, B>) => <K>(ta: OrdMap<K, A>) => HKT<F, OrdMap<K, B>>) => {
+  const traverseF = traverse_(F)
+  return (f) => (ta) => traverseF(ta, f)
+}
+
+/**
+ * @since 2.10.0
+ */
+export const sequence: Traversable2<URI>['sequence'] = <F>(
+  F: Applicative<F>
+): (<K, A>(ta: OrdMap<K, HKT<F, A>>) => HKT<F, OrdMap<K, A>>) => {
+  const traverseF = traverse_(F)
+  return (ta) => traverseF(ta, (fa) => fa)
+}
+
+/**
+ * @category Compactable
+ * @since 2.10.0
+ */
+export const compact = <K, A>(fa: OrdMap<K, Option<A>>): OrdMap<K, A> => filterMapWithIndex_(fa, (_, oa) => oa)
+
+/**
+ * @category Compactable
+ * @since 2.10.0
+ */
+export const separate = <K, A, B>(fa: OrdMap<K, Either<A, B>>): Separated<OrdMap<K, A>, OrdMap<K, B>> =>
+  partitionMapWithIndex_(fa, (_, e) => e)
+
+/**
+ * @category Filterable
+ * @since 2.10.0
+ */
+export const filter: {
+  <A, B extends A>(refinement: Refinement<A, B>): <K>(fa: OrdMap<K, A>) => OrdMap<K, B>
+  <A>(predicate: Predicate<A>): <K>(fa: OrdMap<K, A>) => OrdMap<K, A>
+} = <A>(predicate: Predicate<A>) => <K>(fa: OrdMap<K, A>) => filter_(fa, predicate)
+
+/**
+ * @category Filterable
+ * @since 2.10.0
+ */
+export const filterMap: <A, B>(f: (a: A) => Option<B>) => <K>(fa: OrdMap<K, A>) => OrdMap<K, B> = (f) => (fa) =>
+  filterMap_(fa, f)
+
+/**
+ * @category Filterable
+ * @since 2.10.0
+ */
+export const partition: {
+  <A, B extends A>(refinement: Refinement<A, B>): <K>(fa: OrdMap<K, A>) => Separated<OrdMap<K, A>, OrdMap<K, B>>
+  <A>(predicate: Predicate<A>): <K>(fa: OrdMap<K, A>) => Separated<OrdMap<K, A>, OrdMap<K, A>>
+} = <A>(predicate: Predicate<A>) => <K>(fa: OrdMap<K, A>) => partition_(fa, predicate)
+
+/**
+ * @category Filterable
+ * @since 2.10.0
+ */
+export const partitionMap: <A, B, C>(
+  f: (a: A) => Either<B, C>
+) => <K>(fa: OrdMap<K, A>) => Separated<OrdMap<K, B>, OrdMap<K, C>> = (f) => (fa) => partitionMap_(fa, f)
+
+/**
+ * @category FilterableWithIndex
+ * @since 2.10.0
+ */
+export const filterWithIndex: <K, A>(p: (k: K, a: A) => boolean) => (fa: OrdMap<K, A>) => OrdMap<K, A> = (p) => (fa) =>
+  filterWithIndex_(fa, p)
+
+/**
+ * @category FilterableWithIndex
+ * @since 2.10.0
+ */
+export const filterMapWithIndex: <K, A, B>(f: (k: K, a: A) => Option<B>) => (fa: OrdMap<K, A>) => OrdMap<K, B> = (
+  f
+) => (fa) => filterMapWithIndex_(fa, f)
+
+/**
+ * @category FilterableWithIndex
+ * @since 2.10.0
+ */
+export const partitionWithIndex: <K, A>(
+  p: (k: K, a: A) => boolean
+) => (fa: OrdMap<K, A>) => Separated<OrdMap<K, A>, OrdMap<K, A>> = (p) => (fa) => partitionWithIndex_(fa, p)
+
+/**
+ * @category FilterableWithIndex
+ * @since 2.10.0
+ */
+export const partitionMapWithIndex: <K, A, B, C>(
+  f: (k: K, a: A) => Either<B, C>
+) => (fa: OrdMap<K, A>) => Separated<OrdMap<K, B>, OrdMap<K, C>> = (f) => (fa) => partitionMapWithIndex_(fa, f)
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'OrdMap'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind2<E, A> {
+    readonly [URI]: OrdMap<E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getShow<K, A>(SK: Show<K>, SA: Show<A>): Show<OrdMap<K, A>> {
+  return {
+    show: (m) => `OrdMap([${collect((k: K, a: A) => `[${SK.show(k)}, ${SA.show(a)}]`)(m).join(', ')}])`
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getEq<K, A>(SK: Eq<K>, SA: Eq<A>): Eq<OrdMap<K, A>> {
+  return fromEquals((x, y) => {
+    if (size(x) !== size(y)) {
+      return false
+    }
+    const xs = toReadonlyArray(x)
+    const ys = toReadonlyArray(y)
+    return xs.every(([kx, ax], i) => SK.equals(kx, ys[i][0]) && SA.equals(ax, ys[i][1]))
+  })
+}
+
+/**
+ * Gets `Monoid` instance for maps given `Semigroup` instance for their values
+ *
+ * @category instances
+ * @since 2.10.0
+ */
+export function getMonoid<K, A>(ord: Ord<K>, S: Semigroup<A>): Monoid<OrdMap<K, A>> {
+  const unionOS = union(ord, S)
+  return {
+    concat: (x, y) => unionOS(y)(x),
+    empty
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor2<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Foldable: Foldable2<URI> = {
+  URI,
+  reduce: reduce_,
+  foldMap: foldMap_,
+  reduceRight: reduceRight_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Traversable: Traversable2<URI> = {
+  URI,
+  map: map_,
+  reduce: reduce_,
+  foldMap: foldMap_,
+  reduceRight: reduceRight_,
+  traverse: traverse_,
+  sequence
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Compactable: Compactable2<URI> = {
+  URI,
+  compact,
+  separate
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Filterable: Filterable2<URI> = {
+  URI,
+  map: map_,
+  compact,
+  separate,
+  filter: filter_,
+  filterMap: filterMap_,
+  partition: partition_,
+  partitionMap: partitionMap_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Witherable: Witherable2<URI> = {
+  URI,
+  map: map_,
+  reduce: reduce_,
+  foldMap: foldMap_,
+  reduceRight: reduceRight_,
+  traverse: traverse_,
+  sequence,
+  compact,
+  separate,
+  filter: filter_,
+  filterMap: filterMap_,
+  partition: partition_,
+  partitionMap: partitionMap_,
+  wither: wither_,
+  wilt: wilt_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getFilterableWithIndex<K = never>(): FilterableWithIndex2C<URI, K, K> {
+  return {
+    URI,
+    _E: undefined as any,
+    map: map_,
+    mapWithIndex: mapWithIndex_,
+    compact,
+    separate,
+    filter: filter_,
+    filterMap: filterMap_,
+    partition: partition_,
+    partitionMap: partitionMap_,
+    partitionMapWithIndex: partitionMapWithIndex_,
+    partitionWithIndex: partitionWithIndex_,
+    filterMapWithIndex: filterMapWithIndex_,
+    filterWithIndex: filterWithIndex_
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getTraversableWithIndex<K = never>(): TraversableWithIndex2C<URI, K, K> {
+  return {
+    URI,
+    _E: undefined as any,
+    map: map_,
+    mapWithIndex: mapWithIndex_,
+    reduce: reduce_,
+    foldMap: foldMap_,
+    reduceRight: reduceRight_,
+    reduceWithIndex: reduceWithIndex_,
+    foldMapWithIndex: foldMapWithIndex_,
+    reduceRightWithIndex: reduceRightWithIndex_,
+    traverse: traverse_,
+    sequence,
+    traverseWithIndex: traverseWithIndex_
+  }
+}
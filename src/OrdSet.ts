@@ -0,0 +1,394 @@
+/**
+ * A persistent ordered set, implemented on top of `OrdMap`: an `OrdSet<A>` is an `OrdMap<A, void>`.
+ *
+ * Unlike `ReadonlySet`, which relies on the native `Set` and scans its elements with an `Eq` for non primitive
+ * values, `elem`, `insert` and `remove` run in `O(log n)`, `union`, `intersection` and `difference` don't need
+ * quadratic scans and the elements are always iterated in ascending order.
+ *
+ * The same `Ord` must be used for every operation on a given set.
+ *
+ * @since 2.10.0
+ */
+import { BoundedLattice } from './BoundedLattice'
+import { Separated } from './Compactable'
+import { Eq, fromEquals } from './Eq'
+import { pipe, Predicate, Refinement } from './function'
+import { Magma } from './Magma'
+import { Monoid } from './Monoid'
+import * as O from './Option'
+import { Ord } from './Ord'
+import * as OM from './OrdMap'
+import { Semigroup } from './Semigroup'
+import { Show } from './Show'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+import Option = O.Option
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export type OrdSet<A> = OM.OrdMap<A, void>
+
+const magmaVoid: Magma<void> = {
+  concat: () => undefined
+}
+
+const eqVoid: Eq<void> = {
+  equals: () => true
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const empty: OrdSet<never> = OM.empty
+
+/**
+ * Create a set with one element
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export function singleton<A>(a: A): OrdSet<A> {
+  return OM.singleton(a, undefined)
+}
+
+/**
+ * Create a set from an array, in `O(n log n)`
+ *
+ * @example
+ * import { fromReadonlyArray, toReadonlyArray } from 'fp-ts/OrdSet'
+ * import { ordNumber } from 'fp-ts/Ord'
+ *
+ * assert.deepStrictEqual(toReadonlyArray(fromReadonlyArray(ordNumber)([3, 1, 2, 1])), [1, 2, 3])
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export function fromReadonlyArray<A>(ord: Ord<A>): (as: ReadonlyArray<A>) => OrdSet<A> {
+  const insertOrd = insert(ord)
+  return (as) => as.reduce((set, a) => insertOrd(a)(set), empty as OrdSet<A>)
+}
+
+/**
+ * Create a set from a `ReadonlySet`, if several elements are equal according to `ord` the first one is kept.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export function fromReadonlySet<A>(ord: Ord<A>): (s: ReadonlySet<A>) => OrdSet<A> {
+  const fromReadonlyArrayOrd = fromReadonlyArray(ord)
+  return (s) => fromReadonlyArrayOrd(Array.from(s))
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Calculate the number of elements in a set, in `O(1)`
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const size: <A>(set: OrdSet<A>) => number = OM.size
+
+/**
+ * Test whether or not a set is empty
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const isEmpty: <A>(set: OrdSet<A>) => boolean = OM.isEmpty
+
+/**
+ * Get a sorted array of the elements contained in a set
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toReadonlyArray: <A>(set: OrdSet<A>) => ReadonlyArray<A> = OM.keys
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toReadonlySet = <A>(set: OrdSet<A>): ReadonlySet<A> => new Set(toReadonlyArray(set))
+
+/**
+ * Get the lowest element of a set, in `O(log n)`
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const min = <A>(set: OrdSet<A>): Option<A> =>
+  pipe(
+    OM.min(set),
+    O.map(([a]) => a)
+  )
+
+/**
+ * Get the greatest element of a set, in `O(log n)`
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const max = <A>(set: OrdSet<A>): Option<A> =>
+  pipe(
+    OM.max(set),
+    O.map(([a]) => a)
+  )
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * Test if a value is a member of a set, in `O(log n)`
+ *
+ * @since 2.10.0
+ */
+export function elem<A>(ord: Ord<A>): (a: A) => (set: OrdSet<A>) => boolean {
+  return OM.member(ord)
+}
+
+/**
+ * `true` if and only if every element in the first set is an element of the second set
+ *
+ * @since 2.10.0
+ */
+export function isSubset<A>(ord: Ord<A>): (that: OrdSet<A>) => (me: OrdSet<A>) => boolean {
+  return OM.isSubmap(ord, eqVoid)
+}
+
+/**
+ * @since 2.10.0
+ */
+export const reduce: <A, B>(b: B, f: (b: B, a: A) => B) => (set: OrdSet<A>) => B = (b, f) =>
+  OM.reduceWithIndex(b, (a, b) => f(b, a))
+
+/**
+ * @since 2.10.0
+ */
+export const foldMap: <M>(M: Monoid<M>) => <A>(f: (a: A) => M) => (set: OrdSet<A>) => M = (M) => (f) =>
+  OM.foldMapWithIndex(M)((a) => f(a))
+
+/**
+ * @since 2.10.0
+ */
+export const reduceRight: <A, B>(b: B, f: (a: A, b: B) => B) => (set: OrdSet<A>) => B = (b, f) =>
+  OM.reduceRightWithIndex(b, (a, _, b) => f(a, b))
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Insert a value into a set, in `O(log n)`
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function insert<A>(ord: Ord<A>): (a: A) => (set: OrdSet<A>) => OrdSet<A> {
+  const insertAtOrd = OM.insertAt(ord)
+  return (a) => insertAtOrd<void>(a, undefined)
+}
+
+/**
+ * Delete a value from a set, in `O(log n)`
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function remove<A>(ord: Ord<A>): (a: A) => (set: OrdSet<A>) => OrdSet<A> {
+  return OM.deleteAt(ord)
+}
+
+/**
+ * Form the union of two sets
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function union<A>(ord: Ord<A>): (that: OrdSet<A>) => (me: OrdSet<A>) => OrdSet<A> {
+  return OM.union(ord, magmaVoid)
+}
+
+/**
+ * The set of elements which are in both the first and second set
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function intersection<A>(ord: Ord<A>): (that: OrdSet<A>) => (me: OrdSet<A>) => OrdSet<A> {
+  return OM.intersection(ord, magmaVoid)
+}
+
+/**
+ * Form the set difference (`me` - `that`)
+ *
+ * @example
+ * import { difference, fromReadonlyArray, toReadonlyArray } from 'fp-ts/OrdSet'
+ * import { ordNumber } from 'fp-ts/Ord'
+ * import { pipe } from 'fp-ts/function'
+ *
+ * const fromArray = fromReadonlyArray(ordNumber)
+ * assert.deepStrictEqual(pipe(fromArray([1, 2]), difference(ordNumber)(fromArray([1, 3])), toReadonlyArray), [2])
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function difference<A>(ord: Ord<A>): (that: OrdSet<A>) => (me: OrdSet<A>) => OrdSet<A> {
+  return OM.difference(ord)
+}
+
+/**
+ * Split a set at a value, in `O(log n)`: returns the elements lower than `a`, whether `a` is a member of the set and
+ * the elements greater than `a`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function split<A>(ord: Ord<A>): (a: A) => (set: OrdSet<A>) => readonly [OrdSet<A>, boolean, OrdSet<A>] {
+  const splitOrd = OM.split(ord)
+  return (a) => (set) => {
+    const [lower, found, greater] = splitOrd(a)(set)
+    return [lower, O.isSome(found), greater]
+  }
+}
+
+/**
+ * Keep only the elements between `low` and `high` (inclusive), in `O(log n)`
+ *
+ * @example
+ * import { fromReadonlyArray, range, toReadonlyArray } from 'fp-ts/OrdSet'
+ * import { ordNumber } from 'fp-ts/Ord'
+ * import { pipe } from 'fp-ts/function'
+ *
+ * assert.deepStrictEqual(
+ *   pipe(fromReadonlyArray(ordNumber)([1, 2, 3, 4]), range(ordNumber)(2, 3), toReadonlyArray),
+ *   [2, 3]
+ * )
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function range<A>(ord: Ord<A>): (low: A, high: A) => (set: OrdSet<A>) => OrdSet<A> {
+  return OM.range(ord)
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function filter<A, B extends A>(refinement: Refinement<A, B>): (set: OrdSet<A>) => OrdSet<B>
+export function filter<A>(predicate: Predicate<A>): (set: OrdSet<A>) => OrdSet<A>
+export function filter<A>(predicate: Predicate<A>): (set: OrdSet<A>) => OrdSet<A> {
+  return OM.filterWithIndex((a: A) => predicate(a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function partition<A, B extends A>(
+  refinement: Refinement<A, B>
+): (set: OrdSet<A>) => Separated<OrdSet<A>, OrdSet<B>>
+export function partition<A>(predicate: Predicate<A>): (set: OrdSet<A>) => Separated<OrdSet<A>, OrdSet<A>>
+export function partition<A>(predicate: Predicate<A>): (set: OrdSet<A>) => Separated<OrdSet<A>, OrdSet<A>> {
+  return OM.partitionWithIndex((a: A) => predicate(a))
+}
+
+/**
+ * Projects a set through a function, the resulting set is ordered by `ord`
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function map<B>(ord: Ord<B>): <A>(f: (a: A) => B) => (set: OrdSet<A>) => OrdSet<B> {
+  const insertOrd = insert(ord)
+  return (f) => reduce(empty as OrdSet<B>, (set, a) => insertOrd(f(a))(set))
+}
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getShow<A>(S: Show<A>): Show<OrdSet<A>> {
+  return {
+    show: (set) => `OrdSet([${toReadonlyArray(set).map(S.show).join(', ')}])`
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getEq<A>(E: Eq<A>): Eq<OrdSet<A>> {
+  const eqOM = OM.getEq(E, eqVoid)
+  return fromEquals(eqOM.equals)
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getUnionMonoid<A>(ord: Ord<A>): Monoid<OrdSet<A>> {
+  const unionOrd = union(ord)
+  return {
+    concat: (x, y) => unionOrd(y)(x),
+    empty
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getIntersectionSemigroup<A>(ord: Ord<A>): Semigroup<OrdSet<A>> {
+  const intersectionOrd = intersection(ord)
+  return {
+    concat: (x, y) => intersectionOrd(y)(x)
+  }
+}
+
+/**
+ * The sets of values of type `A` form a `BoundedLattice` under `union` (join) and `intersection` (meet), where the
+ * bottom is the empty set and the top is the set of all the possible values (`universe`).
+ *
+ * @example
+ * import { fromReadonlyArray, getBoundedLattice, toReadonlyArray } from 'fp-ts/OrdSet'
+ * import { ordNumber } from 'fp-ts/Ord'
+ *
+ * const fromArray = fromReadonlyArray(ordNumber)
+ * const L = getBoundedLattice(ordNumber, fromArray([1, 2, 3]))
+ *
+ * assert.deepStrictEqual(toReadonlyArray(L.join(fromArray([1]), fromArray([2]))), [1, 2])
+ * assert.deepStrictEqual(toReadonlyArray(L.meet(fromArray([1, 2]), fromArray([2, 3]))), [2])
+ * assert.deepStrictEqual(toReadonlyArray(L.one), [1, 2, 3])
+ *
+ * @category instances
+ * @since 2.10.0
+ */
+export function getBoundedLattice<A>(ord: Ord<A>, universe: OrdSet<A>): BoundedLattice<OrdSet<A>> {
+  const unionOrd = union(ord)
+  const intersectionOrd = intersection(ord)
+  return {
+    join: (x, y) => unionOrd(y)(x),
+    meet: (x, y) => intersectionOrd(y)(x),
+    zero: empty,
+    one: universe
+  }
+}
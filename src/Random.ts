@@ -1,8 +1,31 @@
 /**
+ * The `random*` functions are effectful wrappers around `Math.random`.
+ *
+ * The `Gen` API is a pure alternative: a `Gen<A>` is a `State<Seed, A>` which threads an explicit `Seed` through a
+ * splittable pseudo-random number generator (SplitMix), so the same seed always yields the same values.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/function'
+ * import * as R from 'fp-ts/Random'
+ * import * as S from 'fp-ts/State'
+ *
+ * const dice = pipe(R.int(1, 6), S.bindTo('a'), S.bind('b', () => R.int(1, 6)))
+ * const seed = R.mkSeed(42)
+ *
+ * assert.deepStrictEqual(S.evaluate(seed)(dice), S.evaluate(seed)(dice))
+ *
  * @since 2.0.0
  */
 import { IO, map } from './IO'
 import { pipe } from './function'
+import { ReadonlyNonEmptyArray } from './ReadonlyNonEmptyArray'
+import * as S from './State'
+
+const toInt = (low: number, high: number) => (n: number): number => Math.floor((high - low + 1) * n + low)
+
+const toRange = (min: number, max: number) => (n: number): number => (max - min) * n + min
+
+const toBool = (n: number): boolean => n < 0.5
 
 /**
  * Returns a random number between 0 (inclusive) and 1 (exclusive). This is a direct wrapper around JavaScript's
@@ -20,10 +43,7 @@ export const random: IO<number> = () => Math.random()
  * @since 2.0.0
  */
 export function randomInt(low: number, high: number): IO<number> {
-  return pipe(
-    random,
-    map((n) => Math.floor((high - low + 1) * n + low))
-  )
+  return pipe(random, map(toInt(low, high)))
 }
 
 /**
@@ -33,10 +53,7 @@ export function randomInt(low: number, high: number): IO<number> {
  * @since 2.0.0
  */
 export function randomRange(min: number, max: number): IO<number> {
-  return pipe(
-    random,
-    map((n) => (max - min) * n + min)
-  )
+  return pipe(random, map(toRange(min, max)))
 }
 
 /**
@@ -45,8 +62,207 @@ export function randomRange(min: number, max: number): IO<number> {
  * @since 2.0.0
  */
 export const randomBool: IO<boolean> =
+  /*#__PURE__*/
+  pipe(random, map(toBool))
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * The state of a SplitMix pseudo-random number generator: `value` is advanced by the odd increment `gamma` at each step.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface Seed {
+  readonly value: number
+  readonly gamma: number
+}
+
+/**
+ * A pure generator of pseudo-random values of type `A`.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface Gen<A> extends S.State<Seed, A> {}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+const GOLDEN_GAMMA = 0x9e3779b9 | 0
+
+const mix32 = (z: number): number => {
+  const z1 = Math.imul(z ^ (z >>> 16), 0x85ebca6b)
+  const z2 = Math.imul(z1 ^ (z1 >>> 13), 0xc2b2ae35)
+  return (z2 ^ (z2 >>> 16)) >>> 0
+}
+
+const mixGamma = (z: number): number => (mix32(z) | 1) >>> 0
+
+const next = (seed: Seed): number => (seed.value + seed.gamma) | 0
+
+/**
+ * Creates a `Seed` from a number, only the lowest 32 bits of its integral part are used.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const mkSeed = (n: number): Seed => ({ value: n | 0, gamma: GOLDEN_GAMMA })
+
+/**
+ * Returns a random `Seed` using `random`.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const randomSeed: IO<Seed> = () => mkSeed(Math.floor(random() * 0x100000000))
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Runs a generator with a random `Seed`, e.g. `randomInt(low, high)` behaves like `toIO(int(low, high))`.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toIO = <A>(gen: Gen<A>): IO<A> => () => gen(randomSeed())[0]
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * Splits a `Seed` into two statistically independent seeds.
+ *
+ * @example
+ * import * as R from 'fp-ts/Random'
+ * import * as S from 'fp-ts/State'
+ *
+ * const [s1, s2] = R.split(R.mkSeed(42))
+ *
+ * assert.notDeepStrictEqual(S.evaluate(s1)(R.int(0, 1000000)), S.evaluate(s2)(R.int(0, 1000000)))
+ *
+ * @since 2.10.0
+ */
+export const split = (seed: Seed): readonly [Seed, Seed] => {
+  const v1 = next(seed)
+  const v2 = (v1 + seed.gamma) | 0
+  return [
+    { value: v2, gamma: seed.gamma },
+    { value: mix32(v1) | 0, gamma: mixGamma(v2) | 0 }
+  ]
+}
+
+/**
+ * Generates an unsigned 32-bit integer.
+ *
+ * @since 2.10.0
+ */
+export const uint32: Gen<number> = (seed) => {
+  const value = next(seed)
+  return [mix32(value), { value, gamma: seed.gamma }]
+}
+
+/**
+ * Generates a number between 0 (inclusive) and 1 (exclusive), the pure counterpart of `random`.
+ *
+ * @since 2.10.0
+ */
+export const float: Gen<number> =
   /*#__PURE__*/
   pipe(
-    random,
-    map((n) => n < 0.5)
+    uint32,
+    S.map((n) => n / 0x100000000)
   )
+
+/**
+ * Generates an integer uniformly distributed in the closed interval `[low, high]`, the pure counterpart of `randomInt`.
+ *
+ * @since 2.10.0
+ */
+export const int = (low: number, high: number): Gen<number> => pipe(float, S.map(toInt(low, high)))
+
+/**
+ * Generates a number between a minimum value (inclusive) and a maximum value (exclusive), the pure counterpart of
+ * `randomRange`.
+ *
+ * @since 2.10.0
+ */
+export const range = (min: number, max: number): Gen<number> => pipe(float, S.map(toRange(min, max)))
+
+/**
+ * Generates a boolean value with an equal chance of being `true` or `false`, the pure counterpart of `randomBool`.
+ *
+ * @since 2.10.0
+ */
+export const bool: Gen<boolean> =
+  /*#__PURE__*/
+  pipe(float, S.map(toBool))
+
+/**
+ * Picks an element of a non empty array, each element having the same chance of being picked.
+ *
+ * @since 2.10.0
+ */
+export const element = <A>(as: ReadonlyNonEmptyArray<A>): Gen<A> =>
+  pipe(
+    int(0, as.length - 1),
+    S.map((i) => as[i])
+  )
+
+/**
+ * Returns a uniformly random permutation of an array (Fisher-Yates).
+ *
+ * @since 2.10.0
+ */
+export const shuffle = <A>(as: ReadonlyArray<A>): Gen<ReadonlyArray<A>> => (seed) => {
+  const out = as.slice()
+  let s = seed
+  for (let i = out.length - 1; i > 0; i--) {
+    const [j, s1] = int(0, i)(s)
+    const a = out[i]
+    out[i] = out[j]
+    out[j] = a
+    s = s1
+  }
+  return [out, s]
+}
+
+/**
+ * Chooses one of the given generators, with a weighted random distribution. Weights must be non negative and their sum
+ * must be positive.
+ *
+ * @example
+ * import * as R from 'fp-ts/Random'
+ * import * as S from 'fp-ts/State'
+ *
+ * const gen = R.frequency([
+ *   [9, S.of('common')],
+ *   [1, S.of('rare')],
+ *   [0, S.of('never')]
+ * ])
+ *
+ * assert.deepStrictEqual(S.evaluate(R.mkSeed(42))(gen) !== 'never', true)
+ *
+ * @since 2.10.0
+ */
+export const frequency = <A>(gens: ReadonlyNonEmptyArray<readonly [number, Gen<A>]>): Gen<A> => {
+  const total = gens.reduce((acc, [w]) => acc + w, 0)
+  return pipe(
+    range(0, total),
+    S.chain((r) => {
+      let i = 0
+      let acc = gens[0][0]
+      while (i < gens.length - 1 && r >= acc) {
+        i++
+        acc += gens[i][0]
+      }
+      return gens[i][1]
+    })
+  )
+}
@@ -3,6 +3,7 @@
  */
 import { Applicative2 } from './Applicative'
 import { Category2 } from './Category'
+import { ChainRec2, tailRec } from './ChainRec'
 import { Choice2 } from './Choice'
 import * as E from './Either'
 import { bindTo_, bind_, flow, identity, pipe, constant } from './function'
@@ -68,6 +69,7 @@ const map_: Monad2<URI>['map'] = (fa, f) => pipe(fa, map(f))
 const ap_: Monad2<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
 /* istanbul ignore next */
 const chain_: Monad2<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
+const chainRec_: ChainRec2<URI>['chainRec'] = (a, f) => (r) => tailRec(a, (a) => f(a)(r))
 const compose_: Category2<URI>['compose'] = (bc, ab) => pipe(bc, compose(ab))
 const promap_: Profunctor2<URI>['promap'] = (fea, f, g) => pipe(fea, promap(f, g))
 const first_: Strong2<URI>['first'] = (pab) => ([a, c]) => [pab(a), c]
@@ -328,6 +330,18 @@ export const Choice: Choice2<URI> = {
   right: right_
 }
 
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ChainRec: ChainRec2<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  chain: chain_,
+  chainRec: chainRec_
+}
+
 // TODO: remove in v3
 /**
  * @category instances
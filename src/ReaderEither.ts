@@ -4,6 +4,7 @@
 import { Alt3, Alt3C } from './Alt'
 import { Applicative3, Applicative3C } from './Applicative'
 import { Bifunctor3 } from './Bifunctor'
+import { ChainRec3 } from './ChainRec'
 import * as E from './Either'
 import { bindTo_, bind_, flow, identity, pipe, Predicate, Refinement } from './function'
 import { Functor3 } from './Functor'
@@ -242,6 +243,7 @@ const ap_: Monad3<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
 const chain_: Monad3<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
 /* istanbul ignore next */
 const alt_: Alt3<URI>['alt'] = (fa, that) => pipe(fa, alt(that))
+const chainRec_: ChainRec3<URI>['chainRec'] = (a, f) => (r) => E.ChainRec.chainRec(a, (a) => f(a)(r))
 
 // -------------------------------------------------------------------------------------
 // pipeables
@@ -614,6 +616,18 @@ export const MonadThrow: MonadThrow3<URI> = {
   throwError
 }
 
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ChainRec: ChainRec3<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  chain: chain_,
+  chainRec: chainRec_
+}
+
 // TODO: remove in v3
 /**
  * @category instances
@@ -0,0 +1,419 @@
+/**
+ * `ReaderIO<R, A>` represents a synchronous computation that depends on an environment `R` and yields a value of type
+ * `A`. If the computation can fail, please see `ReaderEither`.
+ *
+ * @since 2.10.0
+ */
+import { Applicative2 } from './Applicative'
+import { bindTo_, bind_, flow, identity, pipe } from './function'
+import { Functor2 } from './Functor'
+import * as I from './IO'
+import { Monad2 } from './Monad'
+import { MonadIO2 } from './MonadIO'
+import { Monoid } from './Monoid'
+import * as R from './Reader'
+import { Semigroup } from './Semigroup'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+import IO = I.IO
+import Reader = R.Reader
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface ReaderIO<R, A> {
+  (r: R): IO<A>
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromReader: <R, A = never>(ma: Reader<R, A>) => ReaderIO<R, A> = (ma) => flow(ma, I.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const ask: <R>() => ReaderIO<R, R> = () => I.of
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const asks: <R, A = never>(f: (r: R) => A) => ReaderIO<R, A> = (f) => (r) => I.of(f(r))
+
+/**
+ * Effectfully accesses the environment.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const asksReaderIO: <R, A>(f: (r: R) => ReaderIO<R, A>) => ReaderIO<R, A> = (f) => (r) => f(r)(r)
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const local: <Q, R>(f: (f: Q) => R) => <A>(ma: ReaderIO<R, A>) => ReaderIO<Q, A> = R.local
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromIOK<A extends ReadonlyArray<unknown>, B>(f: (...a: A) => IO<B>): <R>(...a: A) => ReaderIO<R, B> {
+  return (...a) => fromIO(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainIOK: <A, B>(f: (a: A) => IO<B>) => <R>(ma: ReaderIO<R, A>) => ReaderIO<R, B> = (f) =>
+  chain((a) => fromIO(f(a)))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromReaderK<A extends ReadonlyArray<unknown>, R, B>(
+  f: (...a: A) => Reader<R, B>
+): (...a: A) => ReaderIO<R, B> {
+  return (...a) => fromReader(f(...a))
+}
+
+/**
+ * Less strict version of [`chainReaderK`](#chainReaderK).
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainReaderKW: <A, R, B>(f: (a: A) => Reader<R, B>) => <Q>(ma: ReaderIO<Q, A>) => ReaderIO<Q & R, B> = (
+  f
+) => chainW(fromReaderK(f))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainReaderK: <A, R, B>(
+  f: (a: A) => Reader<R, B>
+) => (ma: ReaderIO<R, A>) => ReaderIO<R, B> = chainReaderKW
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Monad2<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const ap_: Monad2<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
+const chain_: Monad2<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => <R>(fa: ReaderIO<R, A>) => ReaderIO<R, B> = (f) => (fa) =>
+  flow(fa, I.map(f))
+
+/**
+ * Less strict version of [`ap`](#ap).
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const apW: <Q, A>(fa: ReaderIO<Q, A>) => <R, B>(fab: ReaderIO<R, (a: A) => B>) => ReaderIO<Q & R, B> = (fa) => (
+  fab
+) => (r) => pipe(fab(r), I.ap(fa(r)))
+
+/**
+ * Apply a function to an argument under a type constructor.
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const ap: <R, A>(fa: ReaderIO<R, A>) => <B>(fab: ReaderIO<R, (a: A) => B>) => ReaderIO<R, B> = apW
+
+/**
+ * Combine two effectful actions, keeping only the result of the first.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apFirst: <R, B>(fb: ReaderIO<R, B>) => <A>(fa: ReaderIO<R, A>) => ReaderIO<R, A> = (fb) =>
+  flow(
+    map((a) => () => a),
+    ap(fb)
+  )
+
+/**
+ * Combine two effectful actions, keeping only the result of the second.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apSecond = <R, B>(fb: ReaderIO<R, B>): (<A>(fa: ReaderIO<R, A>) => ReaderIO<R, B>) =>
+  flow(
+    map(() => (b: B) => b),
+    ap(fb)
+  )
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative2<URI>['of'] = (a) => () => I.of(a)
+
+/**
+ * Less strict version of  [`chain`](#chain).
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainW: <R, A, B>(f: (a: A) => ReaderIO<R, B>) => <Q>(ma: ReaderIO<Q, A>) => ReaderIO<Q & R, B> = (f) => (
+  fa
+) => (r) =>
+  pipe(
+    fa(r),
+    I.chain((a) => f(a)(r))
+  )
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <A, R, B>(f: (a: A) => ReaderIO<R, B>) => (ma: ReaderIO<R, A>) => ReaderIO<R, B> = chainW
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainFirst: <A, R, B>(f: (a: A) => ReaderIO<R, B>) => (ma: ReaderIO<R, A>) => ReaderIO<R, A> = (f) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map(() => a)
+    )
+  )
+
+/**
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const flatten: <R, A>(mma: ReaderIO<R, ReaderIO<R, A>>) => ReaderIO<R, A> =
+  /*#__PURE__*/
+  chain(identity)
+
+/**
+ * @category MonadIO
+ * @since 2.10.0
+ */
+export const fromIO: MonadIO2<URI>['fromIO'] = R.of
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'ReaderIO'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind2<E, A> {
+    readonly [URI]: ReaderIO<E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getSemigroup<R, A>(S: Semigroup<A>): Semigroup<ReaderIO<R, A>> {
+  return R.getSemigroup(I.getSemigroup(S))
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getMonoid<R, A>(M: Monoid<A>): Monoid<ReaderIO<R, A>> {
+  return {
+    concat: getSemigroup<R, A>(M).concat,
+    empty: of(M.empty)
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor2<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Applicative: Applicative2<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Monad: Monad2<URI> = {
+  URI,
+  map: map_,
+  of,
+  ap: ap_,
+  chain: chain_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const MonadIO: MonadIO2<URI> = {
+  URI,
+  map: map_,
+  of,
+  ap: ap_,
+  chain: chain_,
+  fromIO
+}
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const Do: ReaderIO<unknown, {}> =
+  /*#__PURE__*/
+  of({})
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(name: N): (<R, A>(fa: ReaderIO<R, A>) => ReaderIO<R, { [K in N]: A }>) =>
+  map(bindTo_(name))
+
+/**
+ * @since 2.10.0
+ */
+export const bindW = <N extends string, A, Q, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => ReaderIO<Q, B>
+): (<R>(fa: ReaderIO<R, A>) => ReaderIO<Q & R, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  chainW((a) =>
+    pipe(
+      f(a),
+      map((b) => bind_(a, name, b))
+    )
+  )
+
+/**
+ * @since 2.10.0
+ */
+export const bind: <N extends string, A, R, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => ReaderIO<R, B>
+) => (fa: ReaderIO<R, A>) => ReaderIO<R, { [K in keyof A | N]: K extends keyof A ? A[K] : B }> = bindW
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const apSW = <A, N extends string, Q, B>(
+  name: Exclude<N, keyof A>,
+  fb: ReaderIO<Q, B>
+): (<R>(fa: ReaderIO<R, A>) => ReaderIO<Q & R, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  flow(
+    map((a) => (b: B) => bind_(a, name, b)),
+    apW(fb)
+  )
+
+/**
+ * @since 2.10.0
+ */
+export const apS: <A, N extends string, R, B>(
+  name: Exclude<N, keyof A>,
+  fb: ReaderIO<R, B>
+) => (fa: ReaderIO<R, A>) => ReaderIO<R, { [K in keyof A | N]: K extends keyof A ? A[K] : B }> = apSW
+
+// -------------------------------------------------------------------------------------
+// array utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndex: <R, A, B>(
+  f: (index: number, a: A) => ReaderIO<R, B>
+) => (arr: ReadonlyArray<A>) => ReaderIO<R, ReadonlyArray<B>> = (f) =>
+  flow(R.traverseArrayWithIndex(f), R.map(I.sequenceArray))
+
+/**
+ * @since 2.10.0
+ */
+export const traverseArray: <R, A, B>(
+  f: (a: A) => ReaderIO<R, B>
+) => (arr: ReadonlyArray<A>) => ReaderIO<R, ReadonlyArray<B>> = (f) => traverseArrayWithIndex((_, a) => f(a))
+
+/**
+ * @since 2.10.0
+ */
+export const sequenceArray: <R, A>(arr: ReadonlyArray<ReaderIO<R, A>>) => ReaderIO<R, ReadonlyArray<A>> =
+  /*#__PURE__*/
+  traverseArray(identity)
@@ -9,6 +9,7 @@ import { Monad2 } from './Monad'
 import { MonadTask2 } from './MonadTask'
 import { Monoid } from './Monoid'
 import * as R from './Reader'
+import { ReaderIO } from './ReaderIO'
 import { Semigroup } from './Semigroup'
 import * as T from './Task'
 
@@ -65,6 +66,20 @@ export const ask: <R>() => ReaderTask<R, R> = () => T.of
  */
 export const asks: <R, A = never>(f: (r: R) => A) => ReaderTask<R, A> = (f) => flow(T.of, T.map(f))
 
+/**
+ * Effectfully accesses the environment.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const asksReaderTask: <R, A>(f: (r: R) => ReaderTask<R, A>) => ReaderTask<R, A> = (f) => (r) => f(r)(r)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromReaderIO: <R, A>(ma: ReaderIO<R, A>) => ReaderTask<R, A> = (ma) => flow(ma, T.fromIO)
+
 // -------------------------------------------------------------------------------------
 // combinators
 // -------------------------------------------------------------------------------------
@@ -108,6 +123,82 @@ export function fromTaskK<A extends ReadonlyArray<unknown>, B>(
 export const chainTaskK: <A, B>(f: (a: A) => Task<B>) => <R>(ma: ReaderTask<R, A>) => ReaderTask<R, B> = (f) =>
   chain((a) => fromTask(f(a)))
 
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromReaderK<A extends ReadonlyArray<unknown>, R, B>(
+  f: (...a: A) => Reader<R, B>
+): (...a: A) => ReaderTask<R, B> {
+  return (...a) => fromReader(f(...a))
+}
+
+/**
+ * Less strict version of [`chainReaderK`](#chainReaderK).
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainReaderKW: <A, R, B>(
+  f: (a: A) => Reader<R, B>
+) => <Q>(ma: ReaderTask<Q, A>) => ReaderTask<Q & R, B> = (f) => chainW(fromReaderK(f))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainReaderK: <A, R, B>(
+  f: (a: A) => Reader<R, B>
+) => (ma: ReaderTask<R, A>) => ReaderTask<R, B> = chainReaderKW
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromReaderIOK<A extends ReadonlyArray<unknown>, R, B>(
+  f: (...a: A) => ReaderIO<R, B>
+): (...a: A) => ReaderTask<R, B> {
+  return (...a) => fromReaderIO(f(...a))
+}
+
+/**
+ * Less strict version of [`chainReaderIOK`](#chainReaderIOK).
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainReaderIOKW: <A, R, B>(
+  f: (a: A) => ReaderIO<R, B>
+) => <Q>(ma: ReaderTask<Q, A>) => ReaderTask<Q & R, B> = (f) => chainW(fromReaderIOK(f))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainReaderIOK: <A, R, B>(
+  f: (a: A) => ReaderIO<R, B>
+) => (ma: ReaderTask<R, A>) => ReaderTask<R, B> = chainReaderIOKW
+
+/**
+ * Less strict version of [`chainReaderTaskK`](#chainReaderTaskK).
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainReaderTaskKW: <A, R, B>(
+  f: (a: A) => ReaderTask<R, B>
+) => <Q>(ma: ReaderTask<Q, A>) => ReaderTask<Q & R, B> = (f) => chainW(f)
+
+/**
+ * Alias of [`chain`](#chain), for symmetry with the other `chain*K` combinators.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainReaderTaskK: <A, R, B>(
+  f: (a: A) => ReaderTask<R, B>
+) => (ma: ReaderTask<R, A>) => ReaderTask<R, B> = chainReaderTaskKW
+
 // -------------------------------------------------------------------------------------
 // non-pipeables
 // -------------------------------------------------------------------------------------
@@ -454,3 +545,33 @@ export const traverseArray: <R, A, B>(
 export const sequenceArray: <R, A>(arr: ReadonlyArray<ReaderTask<R, A>>) => ReaderTask<R, ReadonlyArray<A>> =
   /*#__PURE__*/
   traverseArray(identity)
+
+/**
+ * @since 2.10.0
+ */
+export const traverseSeqArrayWithIndex: <R, A, B>(
+  f: (index: number, a: A) => ReaderTask<R, B>
+) => (arr: ReadonlyArray<A>) => ReaderTask<R, ReadonlyArray<B>> = (f) => (arr) => (r) => async () => {
+  // tslint:disable-next-line: readonly-array
+  const result = []
+
+  for (let i = 0; i < arr.length; i++) {
+    result.push(await f(i, arr[i])(r)())
+  }
+
+  return result
+}
+
+/**
+ * @since 2.10.0
+ */
+export const traverseSeqArray: <R, A, B>(
+  f: (a: A) => ReaderTask<R, B>
+) => (arr: ReadonlyArray<A>) => ReaderTask<R, ReadonlyArray<B>> = (f) => traverseSeqArrayWithIndex((_, a) => f(a))
+
+/**
+ * @since 2.10.0
+ */
+export const sequenceSeqArray: <R, A>(arr: ReadonlyArray<ReaderTask<R, A>>) => ReaderTask<R, ReadonlyArray<A>> =
+  /*#__PURE__*/
+  traverseSeqArray(identity)
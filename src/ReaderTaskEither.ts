@@ -5,6 +5,7 @@ import { Alt3, Alt3C } from './Alt'
 import { Applicative3, Applicative3C } from './Applicative'
 import { Apply1 } from './Apply'
 import { Bifunctor3 } from './Bifunctor'
+import { Logger } from './Console'
 import * as E from './Either'
 import { bindTo_, bind_, flow, identity, Lazy, pipe, Predicate, Refinement } from './function'
 import { Functor3 } from './Functor'
@@ -19,6 +20,7 @@ import { Option } from './Option'
 import * as R from './Reader'
 import { ReaderEither } from './ReaderEither'
 import * as RT from './ReaderTask'
+import { RetryPolicy, RetryStatus } from './RetryPolicy'
 import { Semigroup } from './Semigroup'
 import * as T from './Task'
 import * as TE from './TaskEither'
@@ -249,6 +251,16 @@ export function orElse<R, E, A, M>(
  */
 export const swap = <R, E, A>(ma: ReaderTaskEither<R, E, A>): ReaderTaskEither<R, A, E> => flow(ma, TE.swap)
 
+/**
+ * Fails with `onTimeout()` if the computation doesn't complete within `millis` milliseconds.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const timeoutTo = <E>(millis: number, onTimeout: Lazy<E>) => <R, A>(
+  ma: ReaderTaskEither<R, E, A>
+): ReaderTaskEither<R, E, A> => flow(ma, TE.timeoutTo(millis, onTimeout))
+
 // TODO: remove in v3
 /**
  * @category combinators
@@ -843,6 +855,38 @@ export function bracket<R, E, A, B>(
     )
 }
 
+/**
+ * Runs `action` and retries it according to `policy` as long as `check` returns `true` for its result. Each attempt,
+ * as well as `check`, receives the current `RetryStatus`.
+ *
+ * @since 2.10.0
+ */
+export const retrying = <R, E, A>(
+  policy: RetryPolicy,
+  action: (status: RetryStatus) => ReaderTaskEither<R, E, A>,
+  check: (status: RetryStatus, e: Either<E, A>) => boolean
+): ReaderTaskEither<R, E, A> => (r) => TE.retrying(policy, (status) => action(status)(r), check)
+
+/**
+ * Retries a failing `action` according to `policy` as long as `shouldRecover` returns `true` for its error.
+ *
+ * @since 2.10.0
+ */
+export const recovering = <R, E, A>(
+  policy: RetryPolicy,
+  action: (status: RetryStatus) => ReaderTaskEither<R, E, A>,
+  shouldRecover: (status: RetryStatus, e: E) => boolean
+): ReaderTaskEither<R, E, A> => (r) => TE.recovering(policy, (status) => action(status)(r), shouldRecover)
+
+/**
+ * Traces an effect with the `Logger` read from the environment, see `TaskEither.logged`.
+ *
+ * @since 2.10.0
+ */
+export const logged = <R>(getLogger: (r: R) => Logger, name: string) => <E, A>(
+  ma: ReaderTaskEither<R, E, A>
+): ReaderTaskEither<R, E, A> => (r) => TE.logged(getLogger(r), name)(ma(r))
+
 // -------------------------------------------------------------------------------------
 // do notation
 // -------------------------------------------------------------------------------------
@@ -979,3 +1023,37 @@ export const sequenceSeqArray: <R, E, A>(
 ) => ReaderTaskEither<R, E, ReadonlyArray<A>> =
   /*#__PURE__*/
   traverseSeqArray(identity)
+
+/**
+ * Same as `traverseArrayPar`, but passing the index to the iterating function.
+ *
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndexPar = (concurrency: number) => <R, E, A, B>(
+  f: (index: number, a: A) => ReaderTaskEither<R, E, B>
+) => (arr: ReadonlyArray<A>): ReaderTaskEither<R, E, ReadonlyArray<B>> => (r) =>
+  TE.traverseArrayWithIndexPar(concurrency)((i, a: A) => f(i, a)(r))(arr)
+
+/**
+ * *this function runs at most `concurrency` tasks at the same time and, on the first left side of either, doesn't start
+ * the remaining ones. For unbounded parallelism use `traverseArray`*
+ *
+ * @since 2.10.0
+ */
+export const traverseArrayPar = (
+  concurrency: number
+): (<R, E, A, B>(
+  f: (a: A) => ReaderTaskEither<R, E, B>
+) => (arr: ReadonlyArray<A>) => ReaderTaskEither<R, E, ReadonlyArray<B>>) => (f) =>
+  traverseArrayWithIndexPar(concurrency)((_, a) => f(a))
+
+/**
+ * *this function runs at most `concurrency` tasks at the same time and, on the first left side of either, doesn't start
+ * the remaining ones. For unbounded parallelism use `sequenceArray`*
+ *
+ * @since 2.10.0
+ */
+export const sequenceArrayPar = (
+  concurrency: number
+): (<R, E, A>(arr: ReadonlyArray<ReaderTaskEither<R, E, A>>) => ReaderTaskEither<R, E, ReadonlyArray<A>>) =>
+  traverseArrayPar(concurrency)(identity)
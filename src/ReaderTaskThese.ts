@@ -0,0 +1,647 @@
+/**
+ * `ReaderTaskThese<R, E, A>` represents an asynchronous computation that depends on an environment `R` and either
+ * yields a value of type `A`, fails yielding an error of type `E`, or yields a value of type `A` together with some
+ * non-fatal warnings of type `E`.
+ *
+ * @since 2.10.0
+ */
+import { Applicative3, Applicative3C } from './Applicative'
+import { Apply1 } from './Apply'
+import { Bifunctor3 } from './Bifunctor'
+import { Either } from './Either'
+import { bindTo_, bind_, flow, identity, Lazy, pipe, Predicate, Refinement } from './function'
+import { Functor3 } from './Functor'
+import { IO } from './IO'
+import { IOThese } from './IOThese'
+import { Monad3C } from './Monad'
+import { MonadIO3 } from './MonadIO'
+import { MonadTask3, MonadTask3C } from './MonadTask'
+import { MonadThrow3C } from './MonadThrow'
+import { Option } from './Option'
+import * as R from './Reader'
+import { ReaderTask } from './ReaderTask'
+import { ReaderThese } from './ReaderThese'
+import { Semigroup } from './Semigroup'
+import * as T from './Task'
+import * as TT from './TaskThese'
+import * as TH from './These'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+import These = TH.These
+import Reader = R.Reader
+import Task = T.Task
+import TaskThese = TT.TaskThese
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface ReaderTaskThese<R, E, A> {
+  (r: R): TaskThese<E, A>
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromTaskThese: <R, E, A>(ma: TaskThese<E, A>) => ReaderTaskThese<R, E, A> = R.of
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const left: <R, E = never, A = never>(e: E) => ReaderTaskThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TT.left, fromTaskThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const right: <R, E = never, A = never>(a: A) => ReaderTaskThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TT.right, fromTaskThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const both: <R, E, A>(e: E, a: A) => ReaderTaskThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TT.both, fromTaskThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const rightTask: <R, E = never, A = never>(ma: Task<A>) => ReaderTaskThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TT.rightTask, fromTaskThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const leftTask: <R, E = never, A = never>(me: Task<E>) => ReaderTaskThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TT.leftTask, fromTaskThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const rightIO: <R, E = never, A = never>(ma: IO<A>) => ReaderTaskThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TT.rightIO, fromTaskThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const leftIO: <R, E = never, A = never>(me: IO<E>) => ReaderTaskThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TT.leftIO, fromTaskThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const rightReader: <R, E = never, A = never>(ma: Reader<R, A>) => ReaderTaskThese<R, E, A> = (ma) =>
+  flow(ma, TT.right)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const leftReader: <R, E = never, A = never>(me: Reader<R, E>) => ReaderTaskThese<R, E, A> = (me) =>
+  flow(me, TT.left)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const rightReaderTask: <R, E = never, A = never>(ma: ReaderTask<R, A>) => ReaderTaskThese<R, E, A> = (ma) =>
+  flow(ma, TT.rightTask)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const leftReaderTask: <R, E = never, A = never>(me: ReaderTask<R, E>) => ReaderTaskThese<R, E, A> = (me) =>
+  flow(me, TT.leftTask)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const ask: <R, E = never>() => ReaderTaskThese<R, E, R> = () => TT.right
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const asks: <R, E = never, A = never>(f: (r: R) => A) => ReaderTaskThese<R, E, A> = (f) => flow(f, TT.right)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromThese: <R, E, A>(fa: These<E, A>) => ReaderTaskThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TT.fromThese, fromTaskThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromEither: <R, E, A>(fa: Either<E, A>) => ReaderTaskThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TT.fromEither, fromTaskThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromIOThese: <R, E, A>(fa: IOThese<E, A>) => ReaderTaskThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TT.fromIOThese, fromTaskThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromReaderThese = <R, E, A>(ma: ReaderThese<R, E, A>): ReaderTaskThese<R, E, A> => flow(ma, TT.fromThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromOption: <E>(onNone: Lazy<E>) => <R, A>(ma: Option<A>) => ReaderTaskThese<R, E, A> = (onNone) =>
+  flow(TT.fromOption(onNone), fromTaskThese)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromPredicate: {
+  <E, A, B extends A>(refinement: Refinement<A, B>, onFalse: (a: A) => E): <R>(a: A) => ReaderTaskThese<R, E, B>
+  <E, A>(predicate: Predicate<A>, onFalse: (a: A) => E): <R>(a: A) => ReaderTaskThese<R, E, A>
+} = <E, A>(predicate: Predicate<A>, onFalse: (a: A) => E) => flow(TT.fromPredicate(predicate, onFalse), fromTaskThese)
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const fold: <R, E, A, B>(
+  onLeft: (e: E) => ReaderTask<R, B>,
+  onRight: (a: A) => ReaderTask<R, B>,
+  onBoth: (e: E, a: A) => ReaderTask<R, B>
+) => (fa: ReaderTaskThese<R, E, A>) => ReaderTask<R, B> = (onLeft, onRight, onBoth) => (fa) => (r) =>
+  pipe(
+    fa(r),
+    TT.fold(
+      (e) => onLeft(e)(r),
+      (a) => onRight(a)(r),
+      (e, a) => onBoth(e, a)(r)
+    )
+  )
+
+/**
+ * Returns the left and right values as a tuple, using the lazy defaults for a missing side.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toTuple = <E, A>(
+  e: Lazy<E>,
+  a: Lazy<A>
+): (<R>(fa: ReaderTaskThese<R, E, A>) => ReaderTask<R, readonly [E, A]>) =>
+  R.map(
+    T.map(
+      TH.fold(
+        (l): readonly [E, A] => [l, a()],
+        (r) => [e(), r],
+        (l, r) => [l, r]
+      )
+    )
+  )
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const swap: <R, E, A>(fa: ReaderTaskThese<R, E, A>) => ReaderTaskThese<R, A, E> =
+  /*#__PURE__*/
+  R.map(TT.swap)
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const local: <Q, R>(f: (f: Q) => R) => <E, A>(ma: ReaderTaskThese<R, E, A>) => ReaderTaskThese<Q, E, A> = R.local
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromTheseK<E, A extends ReadonlyArray<unknown>, B>(
+  f: (...a: A) => These<E, B>
+): <R>(...a: A) => ReaderTaskThese<R, E, B> {
+  return (...a) => fromThese(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainTheseK = <E>(
+  S: Semigroup<E>
+): (<A, B>(f: (a: A) => These<E, B>) => <R>(ma: ReaderTaskThese<R, E, A>) => ReaderTaskThese<R, E, B>) => {
+  const chainS = TT.chainTheseK(S)
+  return (f) => R.map(chainS(f))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromTaskTheseK<E, A extends ReadonlyArray<unknown>, B>(
+  f: (...a: A) => TaskThese<E, B>
+): <R>(...a: A) => ReaderTaskThese<R, E, B> {
+  return (...a) => fromTaskThese(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainTaskTheseK = <E>(
+  S: Semigroup<E>
+): (<A, B>(f: (a: A) => TaskThese<E, B>) => <R>(ma: ReaderTaskThese<R, E, A>) => ReaderTaskThese<R, E, B>) => {
+  const chainS = TT.chain(S)
+  return (f) => R.map(chainS(f))
+}
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Functor3<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const bimap_: Bifunctor3<URI>['bimap'] = (fa, f, g) => pipe(fa, bimap(f, g))
+const mapLeft_: Bifunctor3<URI>['mapLeft'] = (fa, f) => pipe(fa, mapLeft(f))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => <R, E>(fa: ReaderTaskThese<R, E, A>) => ReaderTaskThese<R, E, B> = (f) =>
+  R.map(TT.map(f))
+
+/**
+ * Map a pair of functions over the two last type arguments of the bifunctor.
+ *
+ * @category Bifunctor
+ * @since 2.10.0
+ */
+export const bimap: <E, G, A, B>(
+  f: (e: E) => G,
+  g: (a: A) => B
+) => <R>(fa: ReaderTaskThese<R, E, A>) => ReaderTaskThese<R, G, B> = (f, g) => R.map(TT.bimap(f, g))
+
+/**
+ * Map a function over the second type argument of a bifunctor.
+ *
+ * @category Bifunctor
+ * @since 2.10.0
+ */
+export const mapLeft: <E, G>(f: (e: E) => G) => <R, A>(fa: ReaderTaskThese<R, E, A>) => ReaderTaskThese<R, G, A> = (
+  f
+) => R.map(TT.mapLeft(f))
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * Equivalent to [`right`](#right).
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative3<URI>['of'] = right
+
+/**
+ * Less strict version of [`chain`](#chain).
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainW = <E>(S: Semigroup<E>) => {
+  const chainS = TT.chainW(S)
+  return <R, A, E2 extends E, B>(f: (a: A) => ReaderTaskThese<R, E2, B>) => <Q, E1 extends E>(
+    ma: ReaderTaskThese<Q, E1, A>
+  ): ReaderTaskThese<Q & R, E, B> => (r) =>
+    pipe(
+      ma(r),
+      chainS((a) => f(a)(r))
+    )
+}
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * The `E` values of the two computations are combined using the provided `Semigroup`.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <E>(
+  S: Semigroup<E>
+) => <R, A, B>(
+  f: (a: A) => ReaderTaskThese<R, E, B>
+) => (ma: ReaderTaskThese<R, E, A>) => ReaderTaskThese<R, E, B> = chainW
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainFirst = <E>(S: Semigroup<E>) => {
+  const chainS = chain(S)
+  return <R, A, B>(
+    f: (a: A) => ReaderTaskThese<R, E, B>
+  ): ((ma: ReaderTaskThese<R, E, A>) => ReaderTaskThese<R, E, A>) =>
+    chainS((a) =>
+      pipe(
+        f(a),
+        map(() => a)
+      )
+    )
+}
+
+/**
+ * @category MonadIO
+ * @since 2.10.0
+ */
+export const fromIO: MonadIO3<URI>['fromIO'] = rightIO
+
+/**
+ * @category MonadTask
+ * @since 2.10.0
+ */
+export const fromTask: MonadTask3<URI>['fromTask'] = rightTask
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'ReaderTaskThese'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind3<R, E, A> {
+    readonly [URI]: ReaderTaskThese<R, E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getSemigroup<R, E, A>(SE: Semigroup<E>, SA: Semigroup<A>): Semigroup<ReaderTaskThese<R, E, A>> {
+  return R.getSemigroup(TT.getSemigroup(SE, SA))
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getApplicative<E>(A: Apply1<T.URI>, SE: Semigroup<E>): Applicative3C<URI, E> {
+  const AV = TT.getApplicative(A, SE)
+  return {
+    URI,
+    _E: undefined as any,
+    map: map_,
+    ap: (fab, fa) => (r) => AV.ap(fab(r), fa(r)),
+    of
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getMonad<E>(SE: Semigroup<E>): Monad3C<URI, E> & MonadTask3C<URI, E> & MonadThrow3C<URI, E> {
+  const A = getApplicative(T.ApplicativePar, SE)
+  const chainSE = chain(SE)
+  return {
+    URI,
+    _E: undefined as any,
+    map: map_,
+    ap: A.ap,
+    of,
+    chain: (ma, f) => pipe(ma, chainSE(f)),
+    fromIO,
+    fromTask,
+    throwError: left
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor3<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Bifunctor: Bifunctor3<URI> = {
+  URI,
+  bimap: bimap_,
+  mapLeft: mapLeft_
+}
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const Do: ReaderTaskThese<unknown, never, {}> =
+  /*#__PURE__*/
+  of({})
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(
+  name: N
+): (<R, E, A>(fa: ReaderTaskThese<R, E, A>) => ReaderTaskThese<R, E, { [K in N]: A }>) => map(bindTo_(name))
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * @since 2.10.0
+ */
+export const bind = <E>(S: Semigroup<E>) => {
+  const chainS = chain(S)
+  return <N extends string, R, A, B>(
+    name: Exclude<N, keyof A>,
+    f: (a: A) => ReaderTaskThese<R, E, B>
+  ): ((fa: ReaderTaskThese<R, E, A>) => ReaderTaskThese<R, E, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+    chainS((a) =>
+      pipe(
+        f(a),
+        map((b) => bind_(a, name, b))
+      )
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `E` values are combined using the provided `Semigroup`, the two computations are run in parallel.
+ *
+ * @since 2.10.0
+ */
+export const apS = <E>(S: Semigroup<E>) => {
+  const A = getApplicative(T.ApplicativePar, S)
+  return <A, N extends string, R, B>(
+    name: Exclude<N, keyof A>,
+    fb: ReaderTaskThese<R, E, B>
+  ): ((fa: ReaderTaskThese<R, E, A>) => ReaderTaskThese<R, E, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+    flow(
+      map((a: A) => (b: B) => bind_(a, name, b)),
+      (fab) => A.ap(fab, fb)
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// array utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in parallel, for sequential version use `traverseSeqArrayWithIndex`*
+ *
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndex = <E>(S: Semigroup<E>) => {
+  const traverseS = TT.traverseArrayWithIndex(S)
+  return <R, A, B>(f: (index: number, a: A) => ReaderTaskThese<R, E, B>) => (
+    arr: ReadonlyArray<A>
+  ): ReaderTaskThese<R, E, ReadonlyArray<B>> => (r) => traverseS((i, a: A) => f(i, a)(r))(arr)
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in parallel, for sequential version use `traverseSeqArray`*
+ *
+ * @since 2.10.0
+ */
+export const traverseArray = <E>(
+  S: Semigroup<E>
+): (<R, A, B>(
+  f: (a: A) => ReaderTaskThese<R, E, B>
+) => (arr: ReadonlyArray<A>) => ReaderTaskThese<R, E, ReadonlyArray<B>>) => {
+  const traverseS = traverseArrayWithIndex(S)
+  return (f) => traverseS((_, a) => f(a))
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in parallel, for sequential version use `sequenceSeqArray`*
+ *
+ * @since 2.10.0
+ */
+export const sequenceArray = <E>(
+  S: Semigroup<E>
+): (<R, A>(arr: ReadonlyArray<ReaderTaskThese<R, E, A>>) => ReaderTaskThese<R, E, ReadonlyArray<A>>) =>
+  traverseArray(S)(identity)
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in sequential order and bails out on the first `Left`, for parallel version use
+ * `traverseArrayWithIndex`*
+ *
+ * @since 2.10.0
+ */
+export const traverseSeqArrayWithIndex = <E>(S: Semigroup<E>) => {
+  const traverseS = TT.traverseSeqArrayWithIndex(S)
+  return <R, A, B>(f: (index: number, a: A) => ReaderTaskThese<R, E, B>) => (
+    arr: ReadonlyArray<A>
+  ): ReaderTaskThese<R, E, ReadonlyArray<B>> => (r) => traverseS((i, a: A) => f(i, a)(r))(arr)
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in sequential order and bails out on the first `Left`, for parallel version use
+ * `traverseArray`*
+ *
+ * @since 2.10.0
+ */
+export const traverseSeqArray = <E>(
+  S: Semigroup<E>
+): (<R, A, B>(
+  f: (a: A) => ReaderTaskThese<R, E, B>
+) => (arr: ReadonlyArray<A>) => ReaderTaskThese<R, E, ReadonlyArray<B>>) => {
+  const traverseS = traverseSeqArrayWithIndex(S)
+  return (f) => traverseS((_, a) => f(a))
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in sequential order and bails out on the first `Left`, for parallel version use
+ * `sequenceArray`*
+ *
+ * @since 2.10.0
+ */
+export const sequenceSeqArray = <E>(
+  S: Semigroup<E>
+): (<R, A>(arr: ReadonlyArray<ReaderTaskThese<R, E, A>>) => ReaderTaskThese<R, E, ReadonlyArray<A>>) =>
+  traverseSeqArray(S)(identity)
@@ -0,0 +1,459 @@
+/**
+ * `ReaderTaskWriter<R, W, A>` represents an asynchronous computation that depends on an environment `R` and yields a
+ * value of type `A` together with the events of type `W` it has logged (with `tell`), in the order they were logged.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/function'
+ * import * as RTW from 'fp-ts/ReaderTaskWriter'
+ * import * as T from 'fp-ts/Task'
+ *
+ * interface Env {
+ *   readonly user: string
+ * }
+ *
+ * type Audit = { readonly user: string; readonly action: string }
+ *
+ * const audit = (action: string): RTW.ReaderTaskWriter<Env, Audit, void> =>
+ *   pipe(
+ *     RTW.ask<Env, Audit>(),
+ *     RTW.chain(({ user }) => RTW.tell({ user, action }))
+ *   )
+ *
+ * const transfer = (amount: number): RTW.ReaderTaskWriter<Env, Audit, number> =>
+ *   pipe(
+ *     audit(`transfer ${amount}`),
+ *     RTW.chain(() => RTW.fromTask(T.of(amount)))
+ *   )
+ *
+ * async function test() {
+ *   assert.deepStrictEqual(await transfer(100)({ user: 'alice' })(), [100, [{ user: 'alice', action: 'transfer 100' }]])
+ * }
+ *
+ * test()
+ *
+ * @since 2.10.0
+ */
+import { Applicative3 } from './Applicative'
+import { Either } from './Either'
+import { bindTo_, bind_, flow, identity, pipe } from './function'
+import { Functor3 } from './Functor'
+import { IO } from './IO'
+import { Monad3 } from './Monad'
+import * as R from './Reader'
+import { ReaderTaskEither } from './ReaderTaskEither'
+import * as T from './Task'
+import * as TW from './TaskWriter'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+import Reader = R.Reader
+import Task = T.Task
+import TaskWriter = TW.TaskWriter
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface ReaderTaskWriter<R, W, A> {
+  (r: R): TaskWriter<W, A>
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromTaskWriter: <R, W, A>(ma: TaskWriter<W, A>) => ReaderTaskWriter<R, W, A> =
+  /*#__PURE__*/
+  R.of
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromReader: <R, W, A = never>(ma: Reader<R, A>) => ReaderTaskWriter<R, W, A> = (ma) => (r) => TW.of(ma(r))
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromTask: <R, W, A>(ma: Task<A>) => ReaderTaskWriter<R, W, A> = (ma) => fromTaskWriter(TW.fromTask(ma))
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromIO: <R, W, A>(ma: IO<A>) => ReaderTaskWriter<R, W, A> = (ma) => fromTaskWriter(TW.fromIO(ma))
+
+/**
+ * Lifts a `ReaderTaskEither` without logging any event.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromReaderTaskEither: <R, E, A, W = never>(
+  ma: ReaderTaskEither<R, E, A>
+) => ReaderTaskWriter<R, W, Either<E, A>> = (ma) => flow(ma, TW.fromTaskEither)
+
+/**
+ * Reads the current context.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const ask: <R, W = never>() => ReaderTaskWriter<R, W, R> = () => TW.of
+
+/**
+ * Projects a value from the current context.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const asks: <R, A, W = never>(f: (r: R) => A) => ReaderTaskWriter<R, W, A> = (f) => (r) => TW.of(f(r))
+
+/**
+ * Logs an event.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const tell: <R, W>(w: W) => ReaderTaskWriter<R, W, void> = (w) => fromTaskWriter(TW.tell(w))
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Returns the value and the logged events as the result of a `ReaderTaskEither`, so that it can be run as part of a
+ * `ReaderTaskEither` pipeline.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toReaderTaskEither: <R, W, A, E = never>(
+  ma: ReaderTaskWriter<R, W, A>
+) => ReaderTaskEither<R, E, readonly [A, ReadonlyArray<W>]> = (ma) => flow(ma, TW.toTaskEither)
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Changes the value of the local context during the execution of the action `ma`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const local: <Q, R>(f: (q: Q) => R) => <W, A>(ma: ReaderTaskWriter<R, W, A>) => ReaderTaskWriter<Q, W, A> =
+  R.local
+
+/**
+ * Modifies the result to include the events logged by the action.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const listen: <R, W, A>(
+  ma: ReaderTaskWriter<R, W, A>
+) => ReaderTaskWriter<R, W, readonly [A, ReadonlyArray<W>]> = (ma) => flow(ma, TW.listen)
+
+/**
+ * Modifies the events logged by the action.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const censor: <W>(
+  f: (ws: ReadonlyArray<W>) => ReadonlyArray<W>
+) => <R, A>(ma: ReaderTaskWriter<R, W, A>) => ReaderTaskWriter<R, W, A> = (f) => (ma) => flow(ma, TW.censor(f))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainTaskK: <A, B>(
+  f: (a: A) => Task<B>
+) => <R, W>(ma: ReaderTaskWriter<R, W, A>) => ReaderTaskWriter<R, W, B> = (f) => chain((a) => fromTask(f(a)))
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Monad3<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const apPar_: Monad3<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
+const apSeq_: Monad3<URI>['ap'] = (fab, fa) =>
+  pipe(
+    fab,
+    chain((f) => pipe(fa, map(f)))
+  )
+const chain_: Monad3<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => <R, W>(fa: ReaderTaskWriter<R, W, A>) => ReaderTaskWriter<R, W, B> = (
+  f
+) => (fa) => flow(fa, TW.map(f))
+
+/**
+ * Less strict version of [`ap`](#ap).
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const apW = <Q, W2, A>(fa: ReaderTaskWriter<Q, W2, A>) => <R, W1, B>(
+  fab: ReaderTaskWriter<R, W1, (a: A) => B>
+): ReaderTaskWriter<Q & R, W1 | W2, B> => (r) => pipe(fab(r), TW.apW(fa(r)))
+
+/**
+ * Apply a function to an argument under a type constructor.
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const ap: <R, W, A>(
+  fa: ReaderTaskWriter<R, W, A>
+) => <B>(fab: ReaderTaskWriter<R, W, (a: A) => B>) => ReaderTaskWriter<R, W, B> = apW
+
+/**
+ * Combine two effectful actions, keeping only the result of the first.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apFirst: <R, W, B>(
+  fb: ReaderTaskWriter<R, W, B>
+) => <A>(fa: ReaderTaskWriter<R, W, A>) => ReaderTaskWriter<R, W, A> = (fb) =>
+  flow(
+    map((a) => () => a),
+    ap(fb)
+  )
+
+/**
+ * Combine two effectful actions, keeping only the result of the second.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apSecond = <R, W, B>(
+  fb: ReaderTaskWriter<R, W, B>
+): (<A>(fa: ReaderTaskWriter<R, W, A>) => ReaderTaskWriter<R, W, B>) =>
+  flow(
+    map(() => (b: B) => b),
+    ap(fb)
+  )
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative3<URI>['of'] = (a) => () => TW.of(a)
+
+/**
+ * Less strict version of [`chain`](#chain).
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainW: <Q, W2, A, B>(
+  f: (a: A) => ReaderTaskWriter<Q, W2, B>
+) => <R, W1>(ma: ReaderTaskWriter<R, W1, A>) => ReaderTaskWriter<Q & R, W1 | W2, B> = (f) => (fa) => (r) =>
+  pipe(
+    fa(r),
+    TW.chainW((a) => f(a)(r))
+  )
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <R, W, A, B>(
+  f: (a: A) => ReaderTaskWriter<R, W, B>
+) => (ma: ReaderTaskWriter<R, W, A>) => ReaderTaskWriter<R, W, B> = chainW
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainFirst: <R, W, A, B>(
+  f: (a: A) => ReaderTaskWriter<R, W, B>
+) => (ma: ReaderTaskWriter<R, W, A>) => ReaderTaskWriter<R, W, A> = (f) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map(() => a)
+    )
+  )
+
+/**
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const flatten: <R, W, A>(mma: ReaderTaskWriter<R, W, ReaderTaskWriter<R, W, A>>) => ReaderTaskWriter<R, W, A> =
+  /*#__PURE__*/
+  chain(identity)
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'ReaderTaskWriter'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind3<R, E, A> {
+    readonly [URI]: ReaderTaskWriter<R, E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor3<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ApplicativePar: Applicative3<URI> = {
+  URI,
+  map: map_,
+  ap: apPar_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ApplicativeSeq: Applicative3<URI> = {
+  URI,
+  map: map_,
+  ap: apSeq_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Monad: Monad3<URI> = {
+  URI,
+  map: map_,
+  of,
+  ap: apPar_,
+  chain: chain_
+}
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const Do: ReaderTaskWriter<unknown, never, {}> =
+  /*#__PURE__*/
+  of({})
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(
+  name: N
+): (<R, W, A>(fa: ReaderTaskWriter<R, W, A>) => ReaderTaskWriter<R, W, { [K in N]: A }>) => map(bindTo_(name))
+
+/**
+ * @since 2.10.0
+ */
+export const bindW = <N extends string, A, Q, W2, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => ReaderTaskWriter<Q, W2, B>
+): (<R, W1>(
+  fa: ReaderTaskWriter<R, W1, A>
+) => ReaderTaskWriter<Q & R, W1 | W2, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  chainW((a) =>
+    pipe(
+      f(a),
+      map((b) => bind_(a, name, b))
+    )
+  )
+
+/**
+ * @since 2.10.0
+ */
+export const bind: <N extends string, A, R, W, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => ReaderTaskWriter<R, W, B>
+) => (
+  fa: ReaderTaskWriter<R, W, A>
+) => ReaderTaskWriter<R, W, { [K in keyof A | N]: K extends keyof A ? A[K] : B }> = bindW
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const apSW = <A, N extends string, Q, W2, B>(
+  name: Exclude<N, keyof A>,
+  fb: ReaderTaskWriter<Q, W2, B>
+): (<R, W1>(
+  fa: ReaderTaskWriter<R, W1, A>
+) => ReaderTaskWriter<Q & R, W1 | W2, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  flow(
+    map((a) => (b: B) => bind_(a, name, b)),
+    apW(fb)
+  )
+
+/**
+ * @since 2.10.0
+ */
+export const apS: <A, N extends string, R, W, B>(
+  name: Exclude<N, keyof A>,
+  fb: ReaderTaskWriter<R, W, B>
+) => (
+  fa: ReaderTaskWriter<R, W, A>
+) => ReaderTaskWriter<R, W, { [K in keyof A | N]: K extends keyof A ? A[K] : B }> = apSW
@@ -0,0 +1,469 @@
+/**
+ * `ReaderThese<R, E, A>` represents a computation that depends on an environment `R` and either yields a value of type
+ * `A`, fails yielding an error of type `E`, or yields a value of type `A` together with some non-fatal warnings of type
+ * `E`.
+ *
+ * @since 2.10.0
+ */
+import { Applicative3, Applicative3C } from './Applicative'
+import { Bifunctor3 } from './Bifunctor'
+import { Either } from './Either'
+import { bindTo_, bind_, flow, identity, Lazy, pipe, Predicate, Refinement } from './function'
+import { Functor3 } from './Functor'
+import { Monad3C } from './Monad'
+import { MonadThrow3C } from './MonadThrow'
+import { Option } from './Option'
+import * as R from './Reader'
+import { ReaderEither } from './ReaderEither'
+import { Semigroup } from './Semigroup'
+import * as TH from './These'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+import These = TH.These
+import Reader = R.Reader
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface ReaderThese<R, E, A> extends Reader<R, These<E, A>> {}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const left: <R, E = never, A = never>(e: E) => ReaderThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TH.left, R.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const right: <R, E = never, A = never>(a: A) => ReaderThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TH.right, R.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const both: <R, E, A>(e: E, a: A) => ReaderThese<R, E, A> =
+  /*#__PURE__*/
+  flow(TH.both, R.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const rightReader: <R, E = never, A = never>(ma: Reader<R, A>) => ReaderThese<R, E, A> =
+  /*#__PURE__*/
+  R.map(TH.right)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const leftReader: <R, E = never, A = never>(me: Reader<R, E>) => ReaderThese<R, E, A> =
+  /*#__PURE__*/
+  R.map(TH.left)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const ask: <R, E = never>() => ReaderThese<R, E, R> = () => TH.right
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const asks: <R, E = never, A = never>(f: (r: R) => A) => ReaderThese<R, E, A> = (f) => flow(f, TH.right)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromThese: <R, E, A>(fa: These<E, A>) => ReaderThese<R, E, A> = R.of
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromEither: <R, E, A>(fa: Either<E, A>) => ReaderThese<R, E, A> = R.of
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromReaderEither: <R, E, A>(fa: ReaderEither<R, E, A>) => ReaderThese<R, E, A> = identity
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromOption: <E>(onNone: Lazy<E>) => <R, A>(ma: Option<A>) => ReaderThese<R, E, A> = (onNone) =>
+  flow(TH.fromOption(onNone), R.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromPredicate: {
+  <E, A, B extends A>(refinement: Refinement<A, B>, onFalse: (a: A) => E): <R>(a: A) => ReaderThese<R, E, B>
+  <E, A>(predicate: Predicate<A>, onFalse: (a: A) => E): <R>(a: A) => ReaderThese<R, E, A>
+} = <E, A>(predicate: Predicate<A>, onFalse: (a: A) => E) => flow(TH.fromPredicate(predicate, onFalse), R.of)
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const fold: <R, E, A, B>(
+  onLeft: (e: E) => Reader<R, B>,
+  onRight: (a: A) => Reader<R, B>,
+  onBoth: (e: E, a: A) => Reader<R, B>
+) => (fa: ReaderThese<R, E, A>) => Reader<R, B> =
+  /*#__PURE__*/
+  flow(TH.fold, R.chain)
+
+/**
+ * Returns the left and right values as a tuple, the defaults `e` and `a` are only evaluated for a missing side.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toTuple = <E, A>(e: Lazy<E>, a: Lazy<A>): (<R>(fa: ReaderThese<R, E, A>) => Reader<R, readonly [E, A]>) =>
+  R.map(
+    TH.fold(
+      (l): readonly [E, A] => [l, a()],
+      (r) => [e(), r],
+      (l, r) => [l, r]
+    )
+  )
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const swap: <R, E, A>(fa: ReaderThese<R, E, A>) => ReaderThese<R, A, E> =
+  /*#__PURE__*/
+  R.map(TH.swap)
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const local: <Q, R>(f: (f: Q) => R) => <E, A>(ma: ReaderThese<R, E, A>) => ReaderThese<Q, E, A> = R.local
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromTheseK<E, A extends ReadonlyArray<unknown>, B>(
+  f: (...a: A) => These<E, B>
+): <R>(...a: A) => ReaderThese<R, E, B> {
+  return (...a) => fromThese(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainTheseK = <E>(
+  S: Semigroup<E>
+): (<A, B>(f: (a: A) => These<E, B>) => <R>(ma: ReaderThese<R, E, A>) => ReaderThese<R, E, B>) => {
+  const chainS = TH.chain(S)
+  return (f) => R.map(chainS(f))
+}
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Functor3<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const bimap_: Bifunctor3<URI>['bimap'] = (fa, f, g) => pipe(fa, bimap(f, g))
+const mapLeft_: Bifunctor3<URI>['mapLeft'] = (fa, f) => pipe(fa, mapLeft(f))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => <R, E>(fa: ReaderThese<R, E, A>) => ReaderThese<R, E, B> = (f) =>
+  R.map(TH.map(f))
+
+/**
+ * Map a pair of functions over the two last type arguments of the bifunctor.
+ *
+ * @category Bifunctor
+ * @since 2.10.0
+ */
+export const bimap: <E, G, A, B>(
+  f: (e: E) => G,
+  g: (a: A) => B
+) => <R>(fa: ReaderThese<R, E, A>) => ReaderThese<R, G, B> = (f, g) => R.map(TH.bimap(f, g))
+
+/**
+ * Map a function over the second type argument of a bifunctor.
+ *
+ * @category Bifunctor
+ * @since 2.10.0
+ */
+export const mapLeft: <E, G>(f: (e: E) => G) => <R, A>(fa: ReaderThese<R, E, A>) => ReaderThese<R, G, A> = (f) =>
+  R.map(TH.mapLeft(f))
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * Equivalent to [`right`](#right).
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative3<URI>['of'] = right
+
+/**
+ * Less strict version of [`chain`](#chain).
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainW = <E>(S: Semigroup<E>) => {
+  const chainS = TH.chainW(S)
+  return <R, A, E2 extends E, B>(f: (a: A) => ReaderThese<R, E2, B>) => <Q, E1 extends E>(
+    ma: ReaderThese<Q, E1, A>
+  ): ReaderThese<Q & R, E, B> => (r) =>
+    pipe(
+      ma(r),
+      chainS((a) => f(a)(r))
+    )
+}
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * The `E` values of the two computations are combined using the provided `Semigroup`.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <E>(
+  S: Semigroup<E>
+) => <R, A, B>(f: (a: A) => ReaderThese<R, E, B>) => (ma: ReaderThese<R, E, A>) => ReaderThese<R, E, B> = chainW
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainFirst = <E>(S: Semigroup<E>) => {
+  const chainS = chain(S)
+  return <R, A, B>(f: (a: A) => ReaderThese<R, E, B>): ((ma: ReaderThese<R, E, A>) => ReaderThese<R, E, A>) =>
+    chainS((a) =>
+      pipe(
+        f(a),
+        map(() => a)
+      )
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'ReaderThese'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind3<R, E, A> {
+    readonly [URI]: ReaderThese<R, E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getSemigroup<R, E, A>(SE: Semigroup<E>, SA: Semigroup<A>): Semigroup<ReaderThese<R, E, A>> {
+  return R.getSemigroup(TH.getSemigroup(SE, SA))
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getApplicative<E>(SE: Semigroup<E>): Applicative3C<URI, E> {
+  const AV = TH.getApplicative(SE)
+  return {
+    URI,
+    _E: undefined as any,
+    map: map_,
+    ap: (fab, fa) => (r) => AV.ap(fab(r), fa(r)),
+    of
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getMonad<E>(SE: Semigroup<E>): Monad3C<URI, E> & MonadThrow3C<URI, E> {
+  const A = getApplicative(SE)
+  const chainSE = chain(SE)
+  return {
+    URI,
+    _E: undefined as any,
+    map: map_,
+    ap: A.ap,
+    of,
+    chain: (ma, f) => pipe(ma, chainSE(f)),
+    throwError: left
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor3<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Bifunctor: Bifunctor3<URI> = {
+  URI,
+  bimap: bimap_,
+  mapLeft: mapLeft_
+}
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const Do: ReaderThese<unknown, never, {}> =
+  /*#__PURE__*/
+  of({})
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(
+  name: N
+): (<R, E, A>(fa: ReaderThese<R, E, A>) => ReaderThese<R, E, { [K in N]: A }>) => map(bindTo_(name))
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * @since 2.10.0
+ */
+export const bind = <E>(S: Semigroup<E>) => {
+  const chainS = chain(S)
+  return <N extends string, R, A, B>(
+    name: Exclude<N, keyof A>,
+    f: (a: A) => ReaderThese<R, E, B>
+  ): ((fa: ReaderThese<R, E, A>) => ReaderThese<R, E, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+    chainS((a) =>
+      pipe(
+        f(a),
+        map((b) => bind_(a, name, b))
+      )
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * @since 2.10.0
+ */
+export const apS = <E>(S: Semigroup<E>) => {
+  const A = getApplicative(S)
+  return <A, N extends string, R, B>(
+    name: Exclude<N, keyof A>,
+    fb: ReaderThese<R, E, B>
+  ): ((fa: ReaderThese<R, E, A>) => ReaderThese<R, E, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+    flow(
+      map((a: A) => (b: B) => bind_(a, name, b)),
+      (fab) => A.ap(fab, fb)
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// array utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `E` values are combined using the provided `Semigroup`. Bails out on the first `Left`.
+ *
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndex = <E>(S: Semigroup<E>) => {
+  const traverseS = TH.traverseArrayWithIndex(S)
+  return <R, A, B>(f: (index: number, a: A) => ReaderThese<R, E, B>) => (
+    arr: ReadonlyArray<A>
+  ): ReaderThese<R, E, ReadonlyArray<B>> => (r) => traverseS((i, a: A) => f(i, a)(r))(arr)
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`. Bails out on the first `Left`.
+ *
+ * @since 2.10.0
+ */
+export const traverseArray = <E>(
+  S: Semigroup<E>
+): (<R, A, B>(f: (a: A) => ReaderThese<R, E, B>) => (arr: ReadonlyArray<A>) => ReaderThese<R, E, ReadonlyArray<B>>) => {
+  const traverseS = traverseArrayWithIndex(S)
+  return (f) => traverseS((_, a) => f(a))
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`. Bails out on the first `Left`.
+ *
+ * @since 2.10.0
+ */
+export const sequenceArray = <E>(
+  S: Semigroup<E>
+): (<R, A>(arr: ReadonlyArray<ReaderThese<R, E, A>>) => ReaderThese<R, E, ReadonlyArray<A>>) =>
+  traverseArray(S)(identity)
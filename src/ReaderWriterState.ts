@@ -0,0 +1,472 @@
+/**
+ * `ReaderWriterState<R, W, S, A>` combines `Reader`, `Writer` and `State`: a computation which reads an environment
+ * `R`, appends to a log `W` and threads a state `S` while computing a value of type `A`.
+ *
+ * The log is combined with a `Monoid<W>` which is supplied when the computation is run (see `run`), so that the
+ * constructors and the instances don't depend on it.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/function'
+ * import { monoidString } from 'fp-ts/Monoid'
+ * import * as RWS from 'fp-ts/ReaderWriterState'
+ *
+ * interface Config {
+ *   readonly rate: number
+ * }
+ *
+ * const accrue: RWS.ReaderWriterState<Config, string, number, void> = pipe(
+ *   RWS.Do,
+ *   RWS.bind('config', () => RWS.ask<Config, string, number>()),
+ *   RWS.bind('balance', () => RWS.get<Config, string, number>()),
+ *   RWS.chain(({ config, balance }) =>
+ *     pipe(
+ *       RWS.tell<Config, string, number>(`interest: ${balance * config.rate}\n`),
+ *       RWS.chain(() => RWS.put(balance * (1 + config.rate)))
+ *     )
+ *   )
+ * )
+ *
+ * assert.deepStrictEqual(
+ *   pipe(
+ *     accrue,
+ *     RWS.chain(() => accrue),
+ *     RWS.run(monoidString, { rate: 0.5 }, 100)
+ *   ),
+ *   [undefined, 225, 'interest: 50\ninterest: 75\n']
+ * )
+ *
+ * @since 2.10.0
+ */
+import { Applicative4 } from './Applicative'
+import { bindTo_, bind_, flow, identity, pipe } from './function'
+import { Functor4 } from './Functor'
+import { Monad4 } from './Monad'
+import { Monoid } from './Monoid'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/* tslint:disable:readonly-array */
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface ReaderWriterState<R, W, S, A> {
+  (r: R, s: S, M: Monoid<W>): [A, S, W]
+}
+/* tslint:enable:readonly-array */
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Reads the current context
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const ask = <R, W, S>(): ReaderWriterState<R, W, S, R> => (r, s, M) => [r, s, M.empty]
+
+/**
+ * Projects a value from the current context
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const asks = <R, W, S, A>(f: (r: R) => A): ReaderWriterState<R, W, S, A> => (r, s, M) => [f(r), s, M.empty]
+
+/**
+ * Get the current state
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const get = <R, W, S>(): ReaderWriterState<R, W, S, S> => (_, s, M) => [s, s, M.empty]
+
+/**
+ * Get a value which depends on the current state
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const gets = <R, W, S, A>(f: (s: S) => A): ReaderWriterState<R, W, S, A> => (_, s, M) => [f(s), s, M.empty]
+
+/**
+ * Set the state
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const put = <R, W, S>(s: S): ReaderWriterState<R, W, S, void> => (_, __, M) => [undefined, s, M.empty]
+
+/**
+ * Modify the state by applying a function to the current state
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const modify = <R, W, S>(f: (s: S) => S): ReaderWriterState<R, W, S, void> => (_, s, M) => [
+  undefined,
+  f(s),
+  M.empty
+]
+
+/**
+ * Appends a value to the log
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const tell = <R, W, S>(w: W): ReaderWriterState<R, W, S, void> => (_, s) => [undefined, s, w]
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Changes the value of the local context during the execution of the action `ma`
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const local = <Q, R>(f: (q: Q) => R) => <W, S, A>(
+  ma: ReaderWriterState<R, W, S, A>
+): ReaderWriterState<Q, W, S, A> => (q, s, M) => ma(f(q), s, M)
+
+// tslint:disable:readonly-array
+/**
+ * Modifies the result to include the log written by the action
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const listen = <R, W, S, A>(ma: ReaderWriterState<R, W, S, A>): ReaderWriterState<R, W, S, [A, W]> => (
+  r,
+  s1,
+  M
+) => {
+  const [a, s2, w] = ma(r, s1, M)
+  return [[a, w], s2, w]
+}
+// tslint:enable:readonly-array
+
+/**
+ * Modify the log written by the action by applying a function
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const censor = <W>(f: (w: W) => W) => <R, S, A>(
+  ma: ReaderWriterState<R, W, S, A>
+): ReaderWriterState<R, W, S, A> => (r, s1, M) => {
+  const [a, s2, w] = ma(r, s1, M)
+  return [a, s2, f(w)]
+}
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Monad4<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const ap_: Monad4<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
+const chain_: Monad4<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(
+  f: (a: A) => B
+) => <R, W, S>(fa: ReaderWriterState<R, W, S, A>) => ReaderWriterState<R, W, S, B> = (f) => (fa) => (r, s1, M) => {
+  const [a, s2, w] = fa(r, s1, M)
+  return [f(a), s2, w]
+}
+
+/**
+ * Less strict version of [`ap`](#ap).
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const apW: <Q, W, S, A>(
+  fa: ReaderWriterState<Q, W, S, A>
+) => <R, B>(fab: ReaderWriterState<R, W, S, (a: A) => B>) => ReaderWriterState<Q & R, W, S, B> = (fa) => (fab) => (
+  r,
+  s1,
+  M
+) => {
+  const [f, s2, w1] = fab(r, s1, M)
+  const [a, s3, w2] = fa(r, s2, M)
+  return [f(a), s3, M.concat(w1, w2)]
+}
+
+/**
+ * Apply a function to an argument under a type constructor.
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const ap: <R, W, S, A>(
+  fa: ReaderWriterState<R, W, S, A>
+) => <B>(fab: ReaderWriterState<R, W, S, (a: A) => B>) => ReaderWriterState<R, W, S, B> = apW
+
+/**
+ * Combine two effectful actions, keeping only the result of the first.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apFirst = <R, W, S, B>(
+  fb: ReaderWriterState<R, W, S, B>
+): (<A>(fa: ReaderWriterState<R, W, S, A>) => ReaderWriterState<R, W, S, A>) =>
+  flow(
+    map((a) => () => a),
+    ap(fb)
+  )
+
+/**
+ * Combine two effectful actions, keeping only the result of the second.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apSecond = <R, W, S, B>(
+  fb: ReaderWriterState<R, W, S, B>
+): (<A>(fa: ReaderWriterState<R, W, S, A>) => ReaderWriterState<R, W, S, B>) =>
+  flow(
+    map(() => (b: B) => b),
+    ap(fb)
+  )
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative4<URI>['of'] = (a) => (_, s, M) => [a, s, M.empty]
+
+/**
+ * Less strict version of [`chain`](#chain).
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainW: <Q, W, S, A, B>(
+  f: (a: A) => ReaderWriterState<Q, W, S, B>
+) => <R>(ma: ReaderWriterState<R, W, S, A>) => ReaderWriterState<Q & R, W, S, B> = (f) => (ma) => (r, s1, M) => {
+  const [a, s2, w1] = ma(r, s1, M)
+  const [b, s3, w2] = f(a)(r, s2, M)
+  return [b, s3, M.concat(w1, w2)]
+}
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <R, W, S, A, B>(
+  f: (a: A) => ReaderWriterState<R, W, S, B>
+) => (ma: ReaderWriterState<R, W, S, A>) => ReaderWriterState<R, W, S, B> = chainW
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainFirst: <R, W, S, A, B>(
+  f: (a: A) => ReaderWriterState<R, W, S, B>
+) => (ma: ReaderWriterState<R, W, S, A>) => ReaderWriterState<R, W, S, A> = (f) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map(() => a)
+    )
+  )
+
+/**
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const flatten: <R, W, S, A>(
+  mma: ReaderWriterState<R, W, S, ReaderWriterState<R, W, S, A>>
+) => ReaderWriterState<R, W, S, A> =
+  /*#__PURE__*/
+  chain(identity)
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'ReaderWriterState'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind4<S, R, E, A> {
+    readonly [URI]: ReaderWriterState<R, E, S, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor4<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Applicative: Applicative4<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Monad: Monad4<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of,
+  chain: chain_
+}
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(
+  name: N
+): (<R, W, S, A>(fa: ReaderWriterState<R, W, S, A>) => ReaderWriterState<R, W, S, { [K in N]: A }>) =>
+  map(bindTo_(name))
+
+/**
+ * @since 2.10.0
+ */
+export const bindW = <N extends string, A, Q, W, S, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => ReaderWriterState<Q, W, S, B>
+): (<R>(
+  fa: ReaderWriterState<R, W, S, A>
+) => ReaderWriterState<Q & R, W, S, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  chainW((a) =>
+    pipe(
+      f(a),
+      map((b) => bind_(a, name, b))
+    )
+  )
+
+/**
+ * @since 2.10.0
+ */
+export const bind: <N extends string, A, R, W, S, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => ReaderWriterState<R, W, S, B>
+) => (
+  fa: ReaderWriterState<R, W, S, A>
+) => ReaderWriterState<R, W, S, { [K in keyof A | N]: K extends keyof A ? A[K] : B }> = bindW
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * Since the log and the state are both read and written, `Do` is generic in them rather than fixed to `never` /
+ * `unknown`.
+ *
+ * @since 2.10.0
+ */
+// tslint:disable-next-line: readonly-array
+export const Do: <R, W, S>(r: R, s: S, M: Monoid<W>) => [{}, S, W] = (_, s, M) => [{}, s, M.empty]
+
+/**
+ * @since 2.10.0
+ */
+export const apSW = <A, N extends string, Q, W, S, B>(
+  name: Exclude<N, keyof A>,
+  fb: ReaderWriterState<Q, W, S, B>
+): (<R>(
+  fa: ReaderWriterState<R, W, S, A>
+) => ReaderWriterState<Q & R, W, S, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  flow(
+    map((a) => (b: B) => bind_(a, name, b)),
+    apW(fb)
+  )
+
+/**
+ * @since 2.10.0
+ */
+export const apS: <A, N extends string, R, W, S, B>(
+  name: Exclude<N, keyof A>,
+  fb: ReaderWriterState<R, W, S, B>
+) => (
+  fa: ReaderWriterState<R, W, S, A>
+) => ReaderWriterState<R, W, S, { [K in keyof A | N]: K extends keyof A ? A[K] : B }> = apSW
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * Runs the computation, combining the log with `M`, and returns the result, the final state and the log.
+ *
+ * @since 2.10.0
+ */
+export const run = <W, R, S>(M: Monoid<W>, r: R, s: S) => <A>(ma: ReaderWriterState<R, W, S, A>): readonly [A, S, W] =>
+  ma(r, s, M)
+
+/**
+ * Runs the computation and returns the result.
+ *
+ * @since 2.10.0
+ */
+export const evaluate = <W, R, S>(M: Monoid<W>, r: R, s: S) => <A>(ma: ReaderWriterState<R, W, S, A>): A =>
+  ma(r, s, M)[0]
+
+/**
+ * Runs the computation and returns the final state.
+ *
+ * @since 2.10.0
+ */
+export const execute = <W, R, S>(M: Monoid<W>, r: R, s: S) => <A>(ma: ReaderWriterState<R, W, S, A>): S =>
+  ma(r, s, M)[1]
@@ -0,0 +1,179 @@
+/**
+ * A `RetryPolicy` is a function that takes a `RetryStatus` and possibly returns a delay in milliseconds.
+ * Iteration numbers start at zero and increase by one on each retry.
+ * A `none` return value from the function implies we have reached the retry limit.
+ *
+ * Policies can be combined with `monoidRetryPolicyAll` (both policies must agree to retry, the longest delay wins) and
+ * `monoidRetryPolicyAny` (one policy is enough to retry, the shortest delay wins).
+ *
+ * @example
+ * import * as RP from 'fp-ts/RetryPolicy'
+ * import * as O from 'fp-ts/Option'
+ *
+ * // exponential backoff starting at 100ms, capped at 1s, for at most 5 retries
+ * const policy = RP.monoidRetryPolicyAll.concat(RP.capDelay(1000, RP.exponentialBackoff(100)), RP.limitRetries(5))
+ *
+ * assert.deepStrictEqual(policy(RP.defaultRetryStatus), O.some(100))
+ * assert.deepStrictEqual(policy({ ...RP.defaultRetryStatus, iterNumber: 4 }), O.some(1000))
+ * assert.deepStrictEqual(policy({ ...RP.defaultRetryStatus, iterNumber: 5 }), O.none)
+ *
+ * @since 2.10.0
+ */
+import { pipe } from './function'
+import { Monoid } from './Monoid'
+import * as O from './Option'
+import { random } from './Random'
+
+import Option = O.Option
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * - `iterNumber`: iteration number, where `0` is the first try
+ * - `cumulativeDelay`: delay incurred so far from retries
+ * - `previousDelay`: latest attempt's delay, always `none` on the first try
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface RetryStatus {
+  readonly iterNumber: number
+  readonly cumulativeDelay: number
+  readonly previousDelay: Option<number>
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface RetryPolicy {
+  (status: RetryStatus): Option<number>
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Retry immediately, but only up to `i` times.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const limitRetries = (i: number): RetryPolicy => (status) => (status.iterNumber >= i ? O.none : O.some(0))
+
+/**
+ * Constant delay with unlimited retries.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const constantDelay = (delay: number): RetryPolicy => () => O.some(delay)
+
+/**
+ * Grow delay exponentially each iteration. Each delay will increase by a factor of two.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const exponentialBackoff = (delay: number): RetryPolicy => (status) =>
+  O.some(delay * Math.pow(2, status.iterNumber))
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Set a time-upperbound for any delays that may be directed by the given policy.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const capDelay = (maxDelay: number, policy: RetryPolicy): RetryPolicy => (status) =>
+  pipe(
+    policy(status),
+    O.map((delay) => Math.min(maxDelay, delay))
+  )
+
+/**
+ * Replaces each delay directed by the given policy with a random delay between zero and that delay ("full jitter").
+ *
+ * Note: the returned policy uses `Random.random`, so it is not referentially transparent.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const jittered = (policy: RetryPolicy): RetryPolicy => (status) =>
+  pipe(
+    policy(status),
+    O.map((delay) => Math.floor(delay * random()))
+  )
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * Combines two policies, retrying only if both of them want to retry and using the longest of the two delays.
+ *
+ * The `empty` value retries immediately without limit.
+ *
+ * @category instances
+ * @since 2.10.0
+ */
+export const monoidRetryPolicyAll: Monoid<RetryPolicy> = {
+  concat: (x, y) => (status) => {
+    const dx = x(status)
+    const dy = y(status)
+    return O.isSome(dx) && O.isSome(dy) ? O.some(Math.max(dx.value, dy.value)) : O.none
+  },
+  empty: () => O.some(0)
+}
+
+/**
+ * Combines two policies, retrying if any of them wants to retry and using the shortest of the delays.
+ *
+ * The `empty` value never retries.
+ *
+ * @category instances
+ * @since 2.10.0
+ */
+export const monoidRetryPolicyAny: Monoid<RetryPolicy> = {
+  concat: (x, y) => (status) => {
+    const dx = x(status)
+    const dy = y(status)
+    return O.isNone(dx) ? dy : O.isNone(dy) ? dx : O.some(Math.min(dx.value, dy.value))
+  },
+  empty: () => O.none
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * Initial, default retry status. Exported mostly to allow user code to test their handlers and retry policies.
+ *
+ * @since 2.10.0
+ */
+export const defaultRetryStatus: RetryStatus = {
+  iterNumber: 0,
+  cumulativeDelay: 0,
+  previousDelay: O.none
+}
+
+/**
+ * Apply policy on status to see what the decision would be.
+ *
+ * @since 2.10.0
+ */
+export const applyPolicy = (policy: RetryPolicy, status: RetryStatus): RetryStatus => {
+  const previousDelay = policy(status)
+  return {
+    iterNumber: status.iterNumber + 1,
+    cumulativeDelay: status.cumulativeDelay + (O.isSome(previousDelay) ? previousDelay.value : 0),
+    previousDelay
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * A counting semaphore used to limit the number of `Task`s accessing a shared resource at the same time.
+ *
+ * Permits are granted in FIFO order: a request for more permits than currently available blocks all the requests
+ * coming after it. A semaphore never holds more permits than it has been created with.
+ *
+ * The number of permits must be a non negative integer, a `RangeError` is thrown otherwise.
+ *
+ * @since 2.10.0
+ */
+import { IO } from './IO'
+import { Task } from './Task'
+
+const checkPermits = (permits: number, max: number): void => {
+  if (!Number.isInteger(permits) || permits < 0 || permits > max) {
+    throw new RangeError(`Invalid number of permits: ${permits}`)
+  }
+}
+
+interface Waiter {
+  readonly permits: number
+  readonly resume: () => void
+}
+
+/**
+ * @example
+ * import { pipe } from 'fp-ts/function'
+ * import * as I from 'fp-ts/IO'
+ * import { newSemaphore } from 'fp-ts/Semaphore'
+ * import * as T from 'fp-ts/Task'
+ *
+ * async function test() {
+ *   const semaphore = newSemaphore(1)()
+ *   const log: Array<string> = []
+ *   const append = (message: string) => T.fromIO(() => log.push(message))
+ *   const first = pipe(append('start 1'), T.chain(() => T.delay(10)(append('end 1'))))
+ *   const second = append('start 2')
+ *   await T.sequenceArray([semaphore.withPermits(1)(first), semaphore.withPermits(1)(second)])()
+ *   assert.deepStrictEqual(log, ['start 1', 'end 1', 'start 2'])
+ * }
+ *
+ * test()
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export class Semaphore {
+  /**
+   * @since 2.10.0
+   */
+  readonly available: IO<number>
+  // tslint:disable-next-line: readonly-array
+  private readonly waiters: Array<Waiter> = []
+  private readonly total: number
+  constructor(private permits: number) {
+    checkPermits(permits, Infinity)
+    this.total = permits
+    this.available = () => this.permits
+    this.acquire = this.acquire.bind(this)
+    this.release = this.release.bind(this)
+    this.withPermits = this.withPermits.bind(this)
+  }
+  /**
+   * Acquires `n` permits, waiting until they are available.
+   *
+   * Throws a `RangeError` if `n` is greater than the number of permits the semaphore has been created with, since the
+   * request could never be granted and would block every later request.
+   *
+   * @since 2.10.0
+   */
+  acquire(n: number): Task<void> {
+    checkPermits(n, this.total)
+    return () =>
+      new Promise((resolve) => {
+        if (this.waiters.length === 0 && this.permits >= n) {
+          this.permits -= n
+          resolve()
+        } else {
+          this.waiters.push({ permits: n, resume: resolve })
+        }
+      })
+  }
+  /**
+   * Releases `n` permits, resuming the waiting tasks which can now proceed.
+   *
+   * The available permits never exceed the number the semaphore has been created with.
+   *
+   * @since 2.10.0
+   */
+  release(n: number): IO<void> {
+    checkPermits(n, Infinity)
+    return () => {
+      this.permits = Math.min(this.permits + n, this.total)
+      while (this.waiters.length > 0 && this.waiters[0].permits <= this.permits) {
+        const waiter = this.waiters[0]
+        this.waiters.shift()
+        this.permits -= waiter.permits
+        waiter.resume()
+      }
+    }
+  }
+  /**
+   * Runs a task (or a `TaskEither`) holding `n` permits, the permits are released when the task completes.
+   *
+   * @since 2.10.0
+   */
+  withPermits(n: number): <A>(ma: Task<A>) => Task<A> {
+    const acquire = this.acquire(n)
+    const release = this.release(n)
+    return (ma) => () =>
+      acquire().then(() =>
+        ma().then(
+          (a) => {
+            release()
+            return a
+          },
+          (e) => {
+            release()
+            throw e
+          }
+        )
+      )
+  }
+}
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export function newSemaphore(permits: number): IO<Semaphore> {
+  return () => new Semaphore(permits)
+}
@@ -1,6 +1,7 @@
 /**
  * @since 2.0.0
  */
+import { ChainRec2 } from './ChainRec'
 import { identity, pipe, bind_, bindTo_, flow } from './function'
 import { Functor2 } from './Functor'
 import { Monad2 } from './Monad'
@@ -60,12 +61,52 @@ export const gets: <S, A>(f: (s: S) => A) => State<S, A> = (f) => (s) => [f(s),
 // non-pipeables
 // -------------------------------------------------------------------------------------
 
-/* istanbul ignore next */
-const map_: Monad2<URI>['map'] = (fa, f) => pipe(fa, map(f))
-/* istanbul ignore next */
-const ap_: Monad2<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
-/* istanbul ignore next */
-const chain_: Monad2<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
+// a `State` built by `chain` keeps a reference to its parts, so that `run` can interpret it without recursion
+interface Bind<S, A> extends State<S, A> {
+  readonly source: State<S, unknown>
+  readonly f: (a: unknown) => State<S, A>
+}
+
+const isBind = <S, A>(ma: State<S, A>): ma is Bind<S, A> => 'source' in ma
+
+// runs a computation using an explicit stack of continuations in place of the JS stack
+// tslint:disable-next-line: readonly-array
+const run = <S, A>(ma: State<S, A>, s: S): [A, S] => {
+  let current: State<S, unknown> = ma
+  let state = s
+  // tslint:disable-next-line: readonly-array
+  const stack: Array<(a: unknown) => State<S, unknown>> = []
+  while (true) {
+    if (isBind(current)) {
+      stack.push(current.f)
+      current = current.source
+    } else {
+      const [a, next] = current(state)
+      const f = stack.pop()
+      state = next
+      if (f === undefined) {
+        return [a as A, state]
+      }
+      current = f(a)
+    }
+  }
+}
+
+const chain_: Monad2<URI>['chain'] = <S, A, B>(ma: State<S, A>, f: (a: A) => State<S, B>): State<S, B> => {
+  const out: Bind<S, B> = Object.assign((s: S) => run(out, s), { source: ma, f: f as (a: unknown) => State<S, B> })
+  return out
+}
+const map_: Monad2<URI>['map'] = (fa, f) => chain_(fa, (a) => of(f(a)))
+const ap_: Monad2<URI>['ap'] = (fab, fa) => chain_(fab, (f) => map_(fa, f))
+const chainRec_: ChainRec2<URI>['chainRec'] = (a, f) => (s) => {
+  let [e, s1] = f(a)(s)
+  while (e._tag === 'Left') {
+    const next = f(e.left)(s1)
+    e = next[0]
+    s1 = next[1]
+  }
+  return [e.right, s1]
+}
 
 // -------------------------------------------------------------------------------------
 // pipeables
@@ -78,10 +119,7 @@ const chain_: Monad2<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
  * @category Functor
  * @since 2.0.0
  */
-export const map: <A, B>(f: (a: A) => B) => <E>(fa: State<E, A>) => State<E, B> = (f) => (fa) => (s1) => {
-  const [a, s2] = fa(s1)
-  return [f(a), s2]
-}
+export const map: <A, B>(f: (a: A) => B) => <E>(fa: State<E, A>) => State<E, B> = (f) => (fa) => map_(fa, f)
 
 /**
  * Apply a function to an argument under a type constructor.
@@ -89,11 +127,8 @@ export const map: <A, B>(f: (a: A) => B) => <E>(fa: State<E, A>) => State<E, B>
  * @category Apply
  * @since 2.0.0
  */
-export const ap: <E, A>(fa: State<E, A>) => <B>(fab: State<E, (a: A) => B>) => State<E, B> = (fa) => (fab) => (s1) => {
-  const [f, s2] = fab(s1)
-  const [a, s3] = fa(s2)
-  return [f(a), s3]
-}
+export const ap: <E, A>(fa: State<E, A>) => <B>(fab: State<E, (a: A) => B>) => State<E, B> = (fa) => (fab) =>
+  ap_(fab, fa)
 
 /**
  * Combine two effectful actions, keeping only the result of the first.
@@ -134,13 +169,14 @@ export const of: Applicative2<URI>['of'] = (a) => (s) => [a, s]
 /**
  * Composes computations in sequence, using the return value of one computation to determine the next computation.
  *
+ * Computations built with `chain` (and `map`, `ap`) are run with a loop, so that they don't grow the JS stack however
+ * deeply they are nested.
+ *
  * @category Monad
  * @since 2.0.0
  */
-export const chain: <E, A, B>(f: (a: A) => State<E, B>) => (ma: State<E, A>) => State<E, B> = (f) => (ma) => (s1) => {
-  const [a, s2] = ma(s1)
-  return f(a)(s2)
-}
+export const chain: <E, A, B>(f: (a: A) => State<E, B>) => (ma: State<E, A>) => State<E, B> = (f) => (ma) =>
+  chain_(ma, f)
 
 /**
  * Composes computations in sequence, using the return value of one computation to determine the next computation and
@@ -223,6 +259,30 @@ export const Monad: Monad2<URI> = {
   chain: chain_
 }
 
+/**
+ * Runs `f` until it returns a `Right`, threading the state through each step in constant stack space.
+ *
+ * @example
+ * import { right, left } from 'fp-ts/Either'
+ * import * as S from 'fp-ts/State'
+ *
+ * // counts down from `n`, accumulating the sum of the visited numbers in the state
+ * const countdown = (n: number) =>
+ *   S.ChainRec.chainRec(n, (i) => (s: number) => [i === 0 ? right('done') : left(i - 1), s + i])
+ *
+ * assert.deepStrictEqual(S.execute(0)(countdown(100000)), 5000050000)
+ *
+ * @category instances
+ * @since 2.10.0
+ */
+export const ChainRec: ChainRec2<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  chain: chain_,
+  chainRec: chainRec_
+}
+
 // TODO: remove in v3
 /**
  * @category instances
@@ -253,16 +313,20 @@ export const execState: <S, A>(ma: State<S, A>, s: S) => S = (ma, s) => ma(s)[1]
 /**
  * Run a computation in the `State` monad, discarding the final state
  *
+ * Doesn't grow the JS stack with the number of chained steps (see `chain`).
+ *
  * @since 2.8.0
  */
-export const evaluate = <S>(s: S) => <A>(ma: State<S, A>): A => ma(s)[0]
+export const evaluate = <S>(s: S) => <A>(ma: State<S, A>): A => run(ma, s)[0]
 
 /**
  * Run a computation in the `State` monad discarding the result
  *
+ * Doesn't grow the JS stack with the number of chained steps (see `chain`).
+ *
  * @since 2.8.0
  */
-export const execute = <S>(s: S) => <A>(ma: State<S, A>): S => ma(s)[1]
+export const execute = <S>(s: S) => <A>(ma: State<S, A>): S => run(ma, s)[1]
 
 // -------------------------------------------------------------------------------------
 // do notation
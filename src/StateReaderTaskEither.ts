@@ -4,6 +4,7 @@
 import { Alt4 } from './Alt'
 import { Applicative4 } from './Applicative'
 import { Bifunctor4 } from './Bifunctor'
+import { ChainRec4 } from './ChainRec'
 import * as E from './Either'
 import { bindTo_, bind_, flow, identity, Lazy, pipe, Predicate, Refinement } from './function'
 import { Functor4 } from './Functor'
@@ -407,6 +408,18 @@ const mapLeft_: <S, R, E, A, G>(
   f: (e: E) => G
 ) => StateReaderTaskEither<S, R, G, A> = (fea, f) => (s) => pipe(fea(s), RTE.mapLeft(f))
 
+const chainRec_: ChainRec4<URI>['chainRec'] = (a, f) => (s) => (r) => async () => {
+  let e = await f(a)(s)(r)()
+  while (E.isRight(e)) {
+    const [ab, newState] = e.right
+    if (E.isRight(ab)) {
+      return E.right([ab.right, newState])
+    }
+    e = await f(ab.left)(newState)(r)()
+  }
+  return e
+}
+
 // -------------------------------------------------------------------------------------
 // pipeables
 // -------------------------------------------------------------------------------------
@@ -690,6 +703,18 @@ export const Alt: Alt4<URI> = {
   alt: alt_
 }
 
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ChainRec: ChainRec4<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  chain: chain_,
+  chainRec: chainRec_
+}
+
 // TODO: remove in v3
 /**
  * @category instances
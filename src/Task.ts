@@ -11,11 +11,13 @@
  * @since 2.0.0
  */
 import { Applicative1 } from './Applicative'
+import * as CT from './CancellableTask'
 import { identity, pipe, bind_, bindTo_, flow } from './function'
 import { IO } from './IO'
 import { Monad1 } from './Monad'
 import { MonadTask1 } from './MonadTask'
 import { Monoid } from './Monoid'
+import { none, Option, some } from './Option'
 import { Semigroup } from './Semigroup'
 import { Functor1 } from './Functor'
 
@@ -81,6 +83,29 @@ export function delay(millis: number): <A>(ma: Task<A>) => Task<A> {
     })
 }
 
+/**
+ * Races a task against a `delay` of `millis` milliseconds, returns `none` if the delay completes first.
+ *
+ * The timer is cleared as soon as the task completes. Note: the task itself is not cancelled if the delay completes
+ * first, it keeps running in the background.
+ *
+ * @example
+ * import * as T from 'fp-ts/Task'
+ * import * as O from 'fp-ts/Option'
+ *
+ * async function test() {
+ *   assert.deepStrictEqual(await T.timeout(10)(T.of(1))(), O.some(1))
+ *   assert.deepStrictEqual(await T.timeout(10)(T.delay(20)(T.of(1)))(), O.none)
+ * }
+ *
+ * test()
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const timeout = (millis: number) => <A>(ma: Task<A>): Task<Option<A>> =>
+  CT.toTask(CT.getRaceMonoid<Option<A>>().concat(CT.fromTask(pipe(ma, map(some))), CT.delay(millis)(CT.of(none))))
+
 /**
  * @category combinators
  * @since 2.4.0
@@ -529,3 +554,78 @@ export const traverseSeqArray: <A, B>(f: (a: A) => Task<B>) => (arr: ReadonlyArr
 export const sequenceSeqArray: <A>(arr: ReadonlyArray<Task<A>>) => Task<ReadonlyArray<A>> =
   /*#__PURE__*/
   traverseSeqArray(identity)
+
+/**
+ * Same as `traverseArrayPar`, but passing the index to the iterating function.
+ *
+ * `concurrency` is rounded down, values lower than `1` (or `NaN`) are treated as `1`.
+ *
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndexPar = (concurrency: number) => <A, B>(f: (index: number, a: A) => Task<B>) => (
+  arr: ReadonlyArray<A>
+): Task<ReadonlyArray<B>> => () => {
+  // tslint:disable-next-line: readonly-array
+  const result: Array<B> = []
+  let next = 0
+  const worker = async (): Promise<void> => {
+    while (next < arr.length) {
+      const i = next++
+      result[i] = await f(i, arr[i])()
+    }
+  }
+  // `NaN >= 1` is `false`, so a `NaN` concurrency starts a single worker
+  const size = concurrency >= 1 ? Math.min(Math.floor(concurrency), arr.length) : 1
+  // tslint:disable-next-line: readonly-array
+  const workers: Array<Promise<void>> = []
+  for (let w = 0; w < size; w++) {
+    workers.push(worker())
+  }
+  return Promise.all(workers).then(() => result)
+}
+
+/**
+ * runs an action for every element in array using a pool of `concurrency` workers, and accumulates the results in the
+ * array preserving the order of the input.
+ *
+ * > **This function runs at most `concurrency` tasks at the same time, for unbounded parallelism use `traverseArray` **
+ *
+ * @example
+ * import { range } from 'fp-ts/ReadonlyArray'
+ * import { pipe } from 'fp-ts/function'
+ * import * as T from 'fp-ts/Task'
+ *
+ * async function test() {
+ *   const arr = range(0, 10)
+ *   let running = 0
+ *   let maxRunning = 0
+ *   const f = (n: number) => () => {
+ *     running++
+ *     maxRunning = Math.max(maxRunning, running)
+ *     return T.delay(n % 3)(T.of(n))().then((n) => {
+ *       running--
+ *       return n
+ *     })
+ *   }
+ *   assert.deepStrictEqual(await pipe(arr, T.traverseArrayPar(2)(f))(), arr)
+ *   assert.deepStrictEqual(maxRunning, 2)
+ * }
+ *
+ * test()
+ *
+ * @since 2.10.0
+ */
+export const traverseArrayPar = (
+  concurrency: number
+): (<A, B>(f: (a: A) => Task<B>) => (arr: ReadonlyArray<A>) => Task<ReadonlyArray<B>>) => (f) =>
+  traverseArrayWithIndexPar(concurrency)((_, a) => f(a))
+
+/**
+ * run tasks in array using a pool of `concurrency` workers and give a task of array
+ *
+ * > **This function runs at most `concurrency` tasks at the same time, for unbounded parallelism use `sequenceArray` **
+ *
+ * @since 2.10.0
+ */
+export const sequenceArrayPar = (concurrency: number): (<A>(arr: ReadonlyArray<Task<A>>) => Task<ReadonlyArray<A>>) =>
+  traverseArrayPar(concurrency)(identity)
@@ -12,6 +12,7 @@ import { Alt2, Alt2C } from './Alt'
 import { Applicative2, Applicative2C } from './Applicative'
 import { Apply1 } from './Apply'
 import { Bifunctor2 } from './Bifunctor'
+import { logDebug, logError, Logger, logInfo } from './Console'
 import * as E from './Either'
 import { Filterable2C, getFilterableComposition } from './Filterable'
 import { bindTo_, bind_, flow, identity, Lazy, pipe, Predicate, Refinement } from './function'
@@ -23,7 +24,8 @@ import { MonadIO2 } from './MonadIO'
 import { MonadTask2, MonadTask2C } from './MonadTask'
 import { MonadThrow2, MonadThrow2C } from './MonadThrow'
 import { Monoid } from './Monoid'
-import { Option } from './Option'
+import * as O from './Option'
+import { applyPolicy, defaultRetryStatus, RetryPolicy, RetryStatus } from './RetryPolicy'
 import { Semigroup } from './Semigroup'
 import * as T from './Task'
 
@@ -33,6 +35,7 @@ import * as T from './Task'
 
 import Either = E.Either
 import Task = T.Task
+import Option = O.Option
 
 /**
  * @category model
@@ -242,6 +245,28 @@ export const filterOrElse: {
   <E, A>(predicate: Predicate<A>, onFalse: (a: A) => E): (ma: TaskEither<E, A>) => TaskEither<E, A>
 } = filterOrElseW
 
+/**
+ * Fails with `onTimeout()` if the task doesn't complete within `millis` milliseconds.
+ *
+ * @example
+ * import * as E from 'fp-ts/Either'
+ * import * as T from 'fp-ts/Task'
+ * import * as TE from 'fp-ts/TaskEither'
+ *
+ * async function test() {
+ *   const timeoutTo = TE.timeoutTo(10, () => 'timeout')
+ *   assert.deepStrictEqual(await timeoutTo(TE.right(1))(), E.right(1))
+ *   assert.deepStrictEqual(await timeoutTo(T.delay(20)(TE.right(1)))(), E.left('timeout'))
+ * }
+ *
+ * test()
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const timeoutTo = <E>(millis: number, onTimeout: Lazy<E>) => <A>(ma: TaskEither<E, A>): TaskEither<E, A> =>
+  pipe(ma, T.timeout(millis), T.map(O.getOrElse(() => E.left<E, A>(onTimeout()))))
+
 /**
  * Converts a function returning a `Promise` to one returning a `TaskEither`.
  *
@@ -876,6 +901,93 @@ export const bracket = <E, A, B>(
     )
   )
 
+/**
+ * Runs `action` and retries it according to `policy` as long as `check` returns `true` for its result. Each attempt,
+ * as well as `check`, receives the current `RetryStatus`.
+ *
+ * @example
+ * import * as E from 'fp-ts/Either'
+ * import * as RP from 'fp-ts/RetryPolicy'
+ * import * as TE from 'fp-ts/TaskEither'
+ *
+ * async function test() {
+ *   const log: Array<number> = []
+ *   const action = (status: RP.RetryStatus) => {
+ *     log.push(status.iterNumber)
+ *     return status.iterNumber < 2 ? TE.left('error') : TE.right(status.iterNumber)
+ *   }
+ *   const result = await TE.retrying(RP.constantDelay(10), action, (_, e) => E.isLeft(e))()
+ *   assert.deepStrictEqual(result, E.right(2))
+ *   assert.deepStrictEqual(log, [0, 1, 2])
+ * }
+ *
+ * test()
+ *
+ * @since 2.10.0
+ */
+export const retrying = <E, A>(
+  policy: RetryPolicy,
+  action: (status: RetryStatus) => TaskEither<E, A>,
+  check: (status: RetryStatus, e: Either<E, A>) => boolean
+): TaskEither<E, A> => {
+  const go = (status: RetryStatus): TaskEither<E, A> =>
+    pipe(
+      action(status),
+      T.chain((e) => {
+        if (!check(status, e)) {
+          return T.of(e)
+        }
+        const next = applyPolicy(policy, status)
+        return O.isNone(next.previousDelay) ? T.of(e) : T.delay(next.previousDelay.value)(go(next))
+      })
+    )
+  return go(defaultRetryStatus)
+}
+
+/**
+ * Retries a failing `action` according to `policy` as long as `shouldRecover` returns `true` for its error.
+ *
+ * @since 2.10.0
+ */
+export const recovering = <E, A>(
+  policy: RetryPolicy,
+  action: (status: RetryStatus) => TaskEither<E, A>,
+  shouldRecover: (status: RetryStatus, e: E) => boolean
+): TaskEither<E, A> => retrying(policy, action, (status, e) => E.isLeft(e) && shouldRecover(status, e.left))
+
+/**
+ * Traces an effect with `logger`: a `debug` record when it starts, an `info` record when it succeeds and an `error`
+ * record (with the error in the `error` field) when it fails.
+ *
+ * @example
+ * import * as C from 'fp-ts/Console'
+ * import * as TE from 'fp-ts/TaskEither'
+ *
+ * async function test() {
+ *   const memory = C.newMemorySink()
+ *   await TE.logged(C.makeLogger(memory.sink), 'fetch')(TE.left('not found'))()
+ *   assert.deepStrictEqual(memory.records(), [
+ *     { level: 'debug', message: 'fetch: started', fields: {} },
+ *     { level: 'error', message: 'fetch: failed', fields: { error: 'not found' } }
+ *   ])
+ * }
+ *
+ * test()
+ *
+ * @since 2.10.0
+ */
+export const logged = (logger: Logger, name: string) => <E, A>(ma: TaskEither<E, A>): TaskEither<E, A> =>
+  pipe(
+    T.fromIO(logDebug(`${name}: started`)(logger)),
+    T.chain(() => ma),
+    T.chainFirst(
+      E.fold(
+        (e) => T.fromIO(logError(`${name}: failed`, { error: e })(logger)),
+        () => T.fromIO(logInfo(`${name}: succeeded`)(logger))
+      )
+    )
+  )
+
 // -------------------------------------------------------------------------------------
 // do notation
 // -------------------------------------------------------------------------------------
@@ -1071,3 +1183,57 @@ export const traverseSeqArray: <A, B, E>(
 export const sequenceSeqArray: <A, E>(arr: ReadonlyArray<TaskEither<E, A>>) => TaskEither<E, ReadonlyArray<A>> =
   /*#__PURE__*/
   traverseSeqArray(identity)
+
+/**
+ * Same as `traverseArrayPar`, but passing the index to the iterating function.
+ *
+ * `concurrency` is rounded down, values lower than `1` (or `NaN`) are treated as `1`.
+ *
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndexPar = (concurrency: number) => <A, B, E>(
+  f: (index: number, a: A) => TaskEither<E, B>
+) => (arr: ReadonlyArray<A>): TaskEither<E, ReadonlyArray<B>> => () => {
+  let failure: Option<E.Left<E>> = O.none
+  // once a task has failed the remaining elements are skipped without running `f`
+  const g = (i: number, a: A): Task<Either<E, B>> =>
+    O.isSome(failure)
+      ? T.of(failure.value)
+      : pipe(
+          f(i, a),
+          T.map((e) => {
+            if (E.isLeft(e) && O.isNone(failure)) {
+              failure = O.some(e)
+            }
+            return e
+          })
+        )
+  return T.traverseArrayWithIndexPar(concurrency)(g)(arr)().then((es) =>
+    O.isSome(failure) ? failure.value : E.sequenceArray(es)
+  )
+}
+
+/**
+ * runs an action for every element in array using a pool of `concurrency` workers, and accumulates the results in the
+ * array preserving the order of the input.
+ *
+ * *this function runs at most `concurrency` tasks at the same time and, on the first left side of either, doesn't start
+ * the remaining ones. For unbounded parallelism use `traverseArray`*
+ *
+ * @since 2.10.0
+ */
+export const traverseArrayPar = (
+  concurrency: number
+): (<A, B, E>(f: (a: A) => TaskEither<E, B>) => (arr: ReadonlyArray<A>) => TaskEither<E, ReadonlyArray<B>>) => (f) =>
+  traverseArrayWithIndexPar(concurrency)((_, a) => f(a))
+
+/**
+ * *this function runs at most `concurrency` tasks at the same time and, on the first left side of either, doesn't start
+ * the remaining ones. For unbounded parallelism use `sequenceArray`*
+ *
+ * @since 2.10.0
+ */
+export const sequenceArrayPar = (
+  concurrency: number
+): (<A, E>(arr: ReadonlyArray<TaskEither<E, A>>) => TaskEither<E, ReadonlyArray<A>>) =>
+  traverseArrayPar(concurrency)(identity)
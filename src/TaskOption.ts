@@ -0,0 +1,673 @@
+/**
+ * ```ts
+ * interface TaskOption<A> extends Task<Option<A>> {}
+ * ```
+ *
+ * `TaskOption<A>` represents an asynchronous computation that either yields a value of type `A` or yields nothing.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/function'
+ * import * as O from 'fp-ts/Option'
+ * import * as TO from 'fp-ts/TaskOption'
+ *
+ * interface User {
+ *   readonly id: number
+ *   readonly managerId?: number
+ * }
+ *
+ * const users: ReadonlyArray<User> = [{ id: 1 }, { id: 2, managerId: 1 }]
+ *
+ * const findById = (id: number): TO.TaskOption<User> => TO.fromNullable(users.find((u) => u.id === id))
+ *
+ * const findManager = (id: number): TO.TaskOption<User> =>
+ *   pipe(
+ *     findById(id),
+ *     TO.chainNullableK((u) => u.managerId),
+ *     TO.chain(findById)
+ *   )
+ *
+ * async function test() {
+ *   assert.deepStrictEqual(await findManager(2)(), O.some({ id: 1 }))
+ *   assert.deepStrictEqual(await findManager(1)(), O.none)
+ *   assert.deepStrictEqual(await findManager(3)(), O.none)
+ * }
+ *
+ * test()
+ *
+ * @since 2.10.0
+ */
+import { Alt1 } from './Alt'
+import { Alternative1 } from './Alternative'
+import { Applicative1 } from './Applicative'
+import { Either } from './Either'
+import { bindTo_, bind_, flow, identity, Lazy, pipe, Predicate, Refinement } from './function'
+import { Functor1 } from './Functor'
+import { IO } from './IO'
+import { IOOption } from './IOOption'
+import { Monad1 } from './Monad'
+import { MonadTask1 } from './MonadTask'
+import * as O from './Option'
+import * as T from './Task'
+import { TaskEither } from './TaskEither'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+import Option = O.Option
+import Task = T.Task
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface TaskOption<A> extends Task<Option<A>> {}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const none: TaskOption<never> =
+  /*#__PURE__*/
+  T.of(O.none)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const some: <A>(a: A) => TaskOption<A> =
+  /*#__PURE__*/
+  flow(O.some, T.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const someTask: <A>(ma: Task<A>) => TaskOption<A> =
+  /*#__PURE__*/
+  T.map(O.some)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const someIO: <A>(ma: IO<A>) => TaskOption<A> =
+  /*#__PURE__*/
+  flow(T.fromIO, someTask)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromOption: <A>(ma: Option<A>) => TaskOption<A> = T.of
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromNullable: <A>(a: A) => TaskOption<NonNullable<A>> =
+  /*#__PURE__*/
+  flow(O.fromNullable, fromOption)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromPredicate: {
+  <A, B extends A>(refinement: Refinement<A, B>): (a: A) => TaskOption<B>
+  <A>(predicate: Predicate<A>): (a: A) => TaskOption<A>
+} = <A>(predicate: Predicate<A>) => (a: A) => (predicate(a) ? some(a) : none)
+
+/**
+ * Discards the error of the `Either`.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromEither: <E, A>(ma: Either<E, A>) => TaskOption<A> =
+  /*#__PURE__*/
+  flow(O.fromEither, fromOption)
+
+/**
+ * Discards the error of the `TaskEither`.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromTaskEither: <E, A>(ma: TaskEither<E, A>) => TaskOption<A> =
+  /*#__PURE__*/
+  T.map(O.fromEither)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromIOOption: <A>(ma: IOOption<A>) => TaskOption<A> = T.fromIO
+
+/**
+ * Transforms a `Promise` that may reject to a `Promise` that never rejects and returns an `Option` instead.
+ *
+ * Note: `f` should never `throw` errors, they are not caught.
+ *
+ * @example
+ * import * as O from 'fp-ts/Option'
+ * import * as TO from 'fp-ts/TaskOption'
+ *
+ * async function test() {
+ *   assert.deepStrictEqual(await TO.tryCatch(() => Promise.resolve(1))(), O.some(1))
+ *   assert.deepStrictEqual(await TO.tryCatch(() => Promise.reject('error'))(), O.none)
+ * }
+ *
+ * test()
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const tryCatch = <A>(f: Lazy<Promise<A>>): TaskOption<A> => () => f().then(O.some, () => O.none)
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const fold: <A, B>(onNone: () => Task<B>, onSome: (a: A) => Task<B>) => (ma: TaskOption<A>) => Task<B> =
+  /*#__PURE__*/
+  flow(O.fold, T.chain)
+
+/**
+ * Less strict version of [`getOrElse`](#getOrElse).
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const getOrElseW = <B>(onNone: Lazy<Task<B>>) => <A>(ma: TaskOption<A>): Task<A | B> =>
+  pipe(ma, T.chain(O.fold<A, Task<A | B>>(onNone, T.of)))
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const getOrElse: <A>(onNone: Lazy<Task<A>>) => (ma: TaskOption<A>) => Task<A> = getOrElseW
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toUndefined: <A>(ma: TaskOption<A>) => Task<A | undefined> =
+  /*#__PURE__*/
+  T.map(O.toUndefined)
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toNullable: <A>(ma: TaskOption<A>) => Task<A | null> =
+  /*#__PURE__*/
+  T.map(O.toNullable)
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function tryCatchK<A extends ReadonlyArray<unknown>, B>(f: (...a: A) => Promise<B>): (...a: A) => TaskOption<B> {
+  return (...a) => tryCatch(() => f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromNullableK<A extends ReadonlyArray<unknown>, B>(
+  f: (...a: A) => B | null | undefined
+): (...a: A) => TaskOption<NonNullable<B>> {
+  return (...a) => fromNullable(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainNullableK: <A, B>(
+  f: (a: A) => B | null | undefined
+) => (ma: TaskOption<A>) => TaskOption<NonNullable<B>> = (f) => chain(fromNullableK(f))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromOptionK<A extends ReadonlyArray<unknown>, B>(
+  f: (...a: A) => Option<B>
+): (...a: A) => TaskOption<B> {
+  return (...a) => fromOption(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainOptionK: <A, B>(f: (a: A) => Option<B>) => (ma: TaskOption<A>) => TaskOption<B> = (f) =>
+  chain(fromOptionK(f))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainIOK: <A, B>(f: (a: A) => IO<B>) => (ma: TaskOption<A>) => TaskOption<B> = (f) =>
+  chain((a) => fromIO(f(a)))
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainTaskK: <A, B>(f: (a: A) => Task<B>) => (ma: TaskOption<A>) => TaskOption<B> = (f) =>
+  chain((a) => fromTask(f(a)))
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Monad1<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const apPar_: Monad1<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
+const apSeq_: Monad1<URI>['ap'] = (fab, fa) =>
+  pipe(
+    fab,
+    chain((f) => pipe(fa, map(f)))
+  )
+const chain_: Monad1<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
+const alt_: Alt1<URI>['alt'] = (fa, that) => pipe(fa, alt(that))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => (fa: TaskOption<A>) => TaskOption<B> = (f) => T.map(O.map(f))
+
+/**
+ * Apply a function to an argument under a type constructor.
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const ap = <A>(fa: TaskOption<A>): (<B>(fab: TaskOption<(a: A) => B>) => TaskOption<B>) =>
+  flow(
+    T.map((gab) => (ga: Option<A>) => O.ap(ga)(gab)),
+    T.ap(fa)
+  )
+
+/**
+ * Combine two effectful actions, keeping only the result of the first.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apFirst: <B>(fb: TaskOption<B>) => <A>(fa: TaskOption<A>) => TaskOption<A> = (fb) =>
+  flow(
+    map((a) => () => a),
+    ap(fb)
+  )
+
+/**
+ * Combine two effectful actions, keeping only the result of the second.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apSecond = <B>(fb: TaskOption<B>): (<A>(fa: TaskOption<A>) => TaskOption<B>) =>
+  flow(
+    map(() => (b: B) => b),
+    ap(fb)
+  )
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * Equivalent to [`some`](#some).
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative1<URI>['of'] = some
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <A, B>(f: (a: A) => TaskOption<B>) => (ma: TaskOption<A>) => TaskOption<B> = (f) =>
+  T.chain(O.fold(() => none, f))
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainFirst: <A, B>(f: (a: A) => TaskOption<B>) => (ma: TaskOption<A>) => TaskOption<A> = (f) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map(() => a)
+    )
+  )
+
+/**
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const flatten: <A>(mma: TaskOption<TaskOption<A>>) => TaskOption<A> =
+  /*#__PURE__*/
+  chain(identity)
+
+/**
+ * Less strict version of [`alt`](#alt).
+ *
+ * @category Alt
+ * @since 2.10.0
+ */
+export const altW = <B>(that: Lazy<TaskOption<B>>) => <A>(fa: TaskOption<A>): TaskOption<A | B> =>
+  pipe(fa, T.chain(O.fold<A, TaskOption<A | B>>(that, some)))
+
+/**
+ * Identifies an associative operation on a type constructor. It is similar to `Semigroup`, except that it applies to
+ * types of kind `* -> *`.
+ *
+ * In case of `TaskOption` returns `fa` if is a `Some` or the value returned by `that` otherwise.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/function'
+ * import * as O from 'fp-ts/Option'
+ * import * as TO from 'fp-ts/TaskOption'
+ *
+ * async function test() {
+ *   assert.deepStrictEqual(
+ *     await pipe(
+ *       TO.some(1),
+ *       TO.alt(() => TO.some(2))
+ *     )(),
+ *     O.some(1)
+ *   )
+ *   assert.deepStrictEqual(
+ *     await pipe(
+ *       TO.none,
+ *       TO.alt(() => TO.some(2))
+ *     )(),
+ *     O.some(2)
+ *   )
+ * }
+ *
+ * test()
+ *
+ * @category Alt
+ * @since 2.10.0
+ */
+export const alt: <A>(that: Lazy<TaskOption<A>>) => (fa: TaskOption<A>) => TaskOption<A> = altW
+
+/**
+ * @category Alternative
+ * @since 2.10.0
+ */
+export const zero: Alternative1<URI>['zero'] = () => none
+
+/**
+ * @category MonadIO
+ * @since 2.10.0
+ */
+export const fromIO: MonadTask1<URI>['fromIO'] = someIO
+
+/**
+ * @category MonadTask
+ * @since 2.10.0
+ */
+export const fromTask: MonadTask1<URI>['fromTask'] = someTask
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'TaskOption'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind<A> {
+    readonly [URI]: TaskOption<A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor1<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ApplicativePar: Applicative1<URI> = {
+  URI,
+  map: map_,
+  ap: apPar_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ApplicativeSeq: Applicative1<URI> = {
+  URI,
+  map: map_,
+  ap: apSeq_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Monad: Monad1<URI> = {
+  URI,
+  map: map_,
+  ap: apPar_,
+  of,
+  chain: chain_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Alt: Alt1<URI> = {
+  URI,
+  map: map_,
+  alt: alt_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Alternative: Alternative1<URI> = {
+  URI,
+  map: map_,
+  ap: apPar_,
+  of,
+  alt: alt_,
+  zero
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const MonadTask: MonadTask1<URI> = {
+  URI,
+  map: map_,
+  ap: apPar_,
+  of,
+  chain: chain_,
+  fromIO,
+  fromTask
+}
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const Do: TaskOption<{}> =
+  /*#__PURE__*/
+  of({})
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(name: N): (<A>(fa: TaskOption<A>) => TaskOption<{ [K in N]: A }>) =>
+  map(bindTo_(name))
+
+/**
+ * @since 2.10.0
+ */
+export const bind = <N extends string, A, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => TaskOption<B>
+): ((fa: TaskOption<A>) => TaskOption<{ [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map((b) => bind_(a, name, b))
+    )
+  )
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const apS = <A, N extends string, B>(
+  name: Exclude<N, keyof A>,
+  fb: TaskOption<B>
+): ((fa: TaskOption<A>) => TaskOption<{ [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  flow(
+    map((a) => (b: B) => bind_(a, name, b)),
+    ap(fb)
+  )
+
+// -------------------------------------------------------------------------------------
+// array utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndex: <A, B>(
+  f: (index: number, a: A) => TaskOption<B>
+) => (arr: ReadonlyArray<A>) => TaskOption<ReadonlyArray<B>> = (f) =>
+  flow(T.traverseArrayWithIndex(f), T.map(O.sequenceArray))
+
+/**
+ * this function has the same behavior of `A.traverse(TO.ApplicativePar)` but it's stack safe and performs better
+ *
+ * *this function run all tasks in parallel and does not bail out, for sequential version use `traverseSeqArray`*
+ *
+ * @since 2.10.0
+ */
+export const traverseArray: <A, B>(
+  f: (a: A) => TaskOption<B>
+) => (arr: ReadonlyArray<A>) => TaskOption<ReadonlyArray<B>> = (f) => traverseArrayWithIndex((_, a) => f(a))
+
+/**
+ * this function has the same behavior of `A.sequence(TO.ApplicativePar)` but it's stack safe and performs better
+ *
+ * *this function run all tasks in parallel and does not bail out, for sequential version use `sequenceSeqArray`*
+ *
+ * @since 2.10.0
+ */
+export const sequenceArray: <A>(arr: ReadonlyArray<TaskOption<A>>) => TaskOption<ReadonlyArray<A>> =
+  /*#__PURE__*/
+  traverseArray(identity)
+
+/**
+ * @since 2.10.0
+ */
+export const traverseSeqArrayWithIndex: <A, B>(
+  f: (index: number, a: A) => TaskOption<B>
+) => (arr: ReadonlyArray<A>) => TaskOption<ReadonlyArray<B>> = (f) => (arr) => async () => {
+  // tslint:disable-next-line: readonly-array
+  const result = []
+  for (let i = 0; i < arr.length; i++) {
+    const o = await f(i, arr[i])()
+    if (O.isNone(o)) {
+      return o
+    }
+    result.push(o.value)
+  }
+
+  return O.some(result)
+}
+
+/**
+ * this function has the same behavior of `A.traverse(TO.ApplicativeSeq)` but it's stack safe and performs better
+ *
+ * *this function run all tasks in sequential order and bails out on `None`, for parallel version use `traverseArray`*
+ *
+ * @since 2.10.0
+ */
+export const traverseSeqArray: <A, B>(
+  f: (a: A) => TaskOption<B>
+) => (arr: ReadonlyArray<A>) => TaskOption<ReadonlyArray<B>> = (f) => traverseSeqArrayWithIndex((_, a) => f(a))
+
+/**
+ * this function has the same behavior of `A.sequence(TO.ApplicativeSeq)` but it's stack safe and performs better
+ *
+ * *this function run all tasks in sequential order and bails out on `None`, for parallel version use `sequenceArray`*
+ *
+ * @since 2.10.0
+ */
+export const sequenceSeqArray: <A>(arr: ReadonlyArray<TaskOption<A>>) => TaskOption<ReadonlyArray<A>> =
+  /*#__PURE__*/
+  traverseSeqArray(identity)
@@ -0,0 +1,105 @@
+/**
+ * Mutable references in the `Task` monad.
+ *
+ * All the updates are serialized, so that concurrent tasks don't lose writes even when the new value is computed by an
+ * asynchronous effect (see `modifyTask`).
+ *
+ * @since 2.10.0
+ */
+import { Mutex } from './Mutex'
+import { Task } from './Task'
+
+/**
+ * @example
+ * import { pipe } from 'fp-ts/function'
+ * import * as T from 'fp-ts/Task'
+ * import { newTaskRef } from 'fp-ts/TaskRef'
+ *
+ * async function test() {
+ *   const program = pipe(
+ *     newTaskRef(1),
+ *     T.chain((ref) =>
+ *       pipe(
+ *         ref.modifyTask((n) => T.delay(10)(T.of(n + 1))),
+ *         T.chain(() => ref.read)
+ *       )
+ *     )
+ *   )
+ *   assert.deepStrictEqual(await program(), 2)
+ * }
+ *
+ * test()
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export class TaskRef<A> {
+  /**
+   * @since 2.10.0
+   */
+  readonly read: Task<A>
+  private readonly mutex = new Mutex()
+  constructor(private value: A) {
+    this.read = () => Promise.resolve(this.value)
+    this.write = this.write.bind(this)
+    this.modify = this.modify.bind(this)
+    this.getAndUpdate = this.getAndUpdate.bind(this)
+    this.updateAndGet = this.updateAndGet.bind(this)
+    this.modifyTask = this.modifyTask.bind(this)
+  }
+  /**
+   * @since 2.10.0
+   */
+  write(a: A): Task<void> {
+    return this.modifyTask(() => () => Promise.resolve(a))
+  }
+  /**
+   * @since 2.10.0
+   */
+  modify(f: (a: A) => A): Task<void> {
+    return this.modifyTask((a) => () => Promise.resolve(f(a)))
+  }
+  /**
+   * Updates the current value and returns the previous one.
+   *
+   * @since 2.10.0
+   */
+  getAndUpdate(f: (a: A) => A): Task<A> {
+    return this.mutex.withLock(() => {
+      const a = this.value
+      this.value = f(a)
+      return Promise.resolve(a)
+    })
+  }
+  /**
+   * Updates the current value and returns the updated one.
+   *
+   * @since 2.10.0
+   */
+  updateAndGet(f: (a: A) => A): Task<A> {
+    return this.mutex.withLock(() => {
+      this.value = f(this.value)
+      return Promise.resolve(this.value)
+    })
+  }
+  /**
+   * Updates the current value with the result of an effect, the other updates wait until the effect completes.
+   *
+   * @since 2.10.0
+   */
+  modifyTask(f: (a: A) => Task<A>): Task<void> {
+    return this.mutex.withLock(() =>
+      f(this.value)().then((a) => {
+        this.value = a
+      })
+    )
+  }
+}
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export function newTaskRef<A>(a: A): Task<TaskRef<A>> {
+  return () => Promise.resolve(new TaskRef(a))
+}
@@ -4,13 +4,16 @@
 import { Applicative2, Applicative2C } from './Applicative'
 import { Apply1 } from './Apply'
 import { Bifunctor2 } from './Bifunctor'
-import { flow, pipe } from './function'
+import { Either } from './Either'
+import { bindTo_, bind_, flow, identity, Lazy, pipe, Predicate, Refinement } from './function'
 import { Functor2 } from './Functor'
 import { IO } from './IO'
 import { IOEither } from './IOEither'
+import { IOThese } from './IOThese'
 import { Monad2C } from './Monad'
 import { MonadIO2 } from './MonadIO'
 import { MonadTask2, MonadTask2C } from './MonadTask'
+import * as O from './Option'
 import { Semigroup } from './Semigroup'
 import * as T from './Task'
 import * as TH from './These'
@@ -20,6 +23,7 @@ import * as TH from './These'
 // -------------------------------------------------------------------------------------
 
 import These = TH.These
+import Option = O.Option
 import Task = T.Task
 
 /**
@@ -92,6 +96,42 @@ export const fromIOEither: <E, A>(fa: IOEither<E, A>) => TaskThese<E, A> =
   /*#__PURE__*/
   T.fromIO
 
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromIOThese: <E, A>(fa: IOThese<E, A>) => TaskThese<E, A> =
+  /*#__PURE__*/
+  T.fromIO
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromThese: <E, A>(fa: These<E, A>) => TaskThese<E, A> = T.of
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromEither: <E, A>(fa: Either<E, A>) => TaskThese<E, A> = T.of
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromOption: <E>(onNone: Lazy<E>) => <A>(ma: Option<A>) => TaskThese<E, A> = (onNone) =>
+  flow(TH.fromOption(onNone), T.of)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromPredicate: {
+  <E, A, B extends A>(refinement: Refinement<A, B>, onFalse: (a: A) => E): (a: A) => TaskThese<E, B>
+  <E, A>(predicate: Predicate<A>, onFalse: (a: A) => E): (a: A) => TaskThese<E, A>
+} = <E, A>(predicate: Predicate<A>, onFalse: (a: A) => E) => flow(TH.fromPredicate(predicate, onFalse), T.of)
+
 // -------------------------------------------------------------------------------------
 // destructors
 // -------------------------------------------------------------------------------------
@@ -131,6 +171,48 @@ export const swap: <E, A>(fa: TaskThese<E, A>) => TaskThese<A, E> =
   /*#__PURE__*/
   T.map(TH.swap)
 
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromTheseK<E, A extends ReadonlyArray<unknown>, B>(
+  f: (...a: A) => These<E, B>
+): (...a: A) => TaskThese<E, B> {
+  return (...a) => fromThese(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainTheseK = <E>(
+  S: Semigroup<E>
+): (<A, B>(f: (a: A) => These<E, B>) => (ma: TaskThese<E, A>) => TaskThese<E, B>) => {
+  const chainS = chain(S)
+  return (f) => chainS(fromTheseK(f))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export function fromIOTheseK<E, A extends ReadonlyArray<unknown>, B>(
+  f: (...a: A) => IOThese<E, B>
+): (...a: A) => TaskThese<E, B> {
+  return (...a) => fromIOThese(f(...a))
+}
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainIOTheseK = <E>(
+  S: Semigroup<E>
+): (<A, B>(f: (a: A) => IOThese<E, B>) => (ma: TaskThese<E, A>) => TaskThese<E, B>) => {
+  const chainS = chain(S)
+  return (f) => chainS(fromIOTheseK(f))
+}
+
 // -------------------------------------------------------------------------------------
 // non-pipeables
 // -------------------------------------------------------------------------------------
@@ -182,6 +264,63 @@ export const mapLeft: <E, G>(f: (e: E) => G) => <A>(fa: TaskThese<E, A>) => Task
  */
 export const of: Applicative2<URI>['of'] = right
 
+/**
+ * Less strict version of [`chain`](#chain).
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainW = <E>(S: Semigroup<E>) => {
+  const chainS = TH.chain(S)
+  return <A, E2 extends E, B>(f: (a: A) => TaskThese<E2, B>) => <E1 extends E>(ma: TaskThese<E1, A>): TaskThese<E, B> =>
+    pipe(
+      ma,
+      T.chain(
+        TH.fold(left, f, (e1, a) =>
+          pipe(
+            f(a),
+            T.map((fb) =>
+              pipe(
+                TH.both(e1, a),
+                chainS(() => fb)
+              )
+            )
+          )
+        )
+      )
+    )
+}
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * The `E` values of the two computations are combined using the provided `Semigroup`.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <E>(
+  S: Semigroup<E>
+) => <A, B>(f: (a: A) => TaskThese<E, B>) => (ma: TaskThese<E, A>) => TaskThese<E, B> = chainW
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainFirst = <E>(S: Semigroup<E>) => {
+  const chainS = chain(S)
+  return <A, B>(f: (a: A) => TaskThese<E, B>): ((ma: TaskThese<E, A>) => TaskThese<E, A>) =>
+    chainS((a) =>
+      pipe(
+        f(a),
+        map(() => a)
+      )
+    )
+}
+
 /**
  * @category MonadIO
  * @since 2.7.0
@@ -251,30 +390,14 @@ export function getApplicative<E>(A: Apply1<T.URI>, SE: Semigroup<E>): Applicati
  */
 export function getMonad<E>(SE: Semigroup<E>): Monad2C<URI, E> & MonadTask2C<URI, E> {
   const A = getApplicative(T.ApplicativePar, SE)
+  const chainSE = chain(SE)
   return {
     URI,
     _E: undefined as any,
     map: map_,
     ap: A.ap,
     of,
-    chain: (ma, f) =>
-      pipe(
-        ma,
-        T.chain(
-          TH.fold(left, f, (e1, a) =>
-            pipe(
-              f(a),
-              T.map(
-                TH.fold(
-                  (e2) => TH.left(SE.concat(e1, e2)),
-                  (b) => TH.both(e1, b),
-                  (e2, b) => TH.both(SE.concat(e1, e2), b)
-                )
-              )
-            )
-          )
-        )
-      ),
+    chain: (ma, f) => pipe(ma, chainSE(f)),
     fromIO,
     fromTask
   }
@@ -299,6 +422,25 @@ export const bifunctorTaskThese: Bifunctor2<URI> = {
   mapLeft: mapLeft_
 }
 
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor2<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Bifunctor: Bifunctor2<URI> = {
+  URI,
+  bimap: bimap_,
+  mapLeft: mapLeft_
+}
+
 // TODO: remove in v3
 /**
  * @category instances
@@ -310,3 +452,195 @@ export const taskThese: Functor2<URI> & Bifunctor2<URI> = {
   bimap: bimap_,
   mapLeft: mapLeft_
 }
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const Do: TaskThese<never, {}> =
+  /*#__PURE__*/
+  of({})
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(name: N): (<E, A>(fa: TaskThese<E, A>) => TaskThese<E, { [K in N]: A }>) =>
+  map(bindTo_(name))
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * @example
+ * import * as TT from 'fp-ts/TaskThese'
+ * import * as TH from 'fp-ts/These'
+ * import { pipe } from 'fp-ts/function'
+ * import { getMonoid } from 'fp-ts/Array'
+ *
+ * const bind = TT.bind(getMonoid<string>())
+ *
+ * async function test() {
+ *   assert.deepStrictEqual(
+ *     await pipe(
+ *       TT.Do,
+ *       bind('a', () => TT.both(['deprecated option'], 1)),
+ *       bind('b', ({ a }) => TT.both(['slow query'], a + 1))
+ *     )(),
+ *     TH.both(['deprecated option', 'slow query'], { a: 1, b: 2 })
+ *   )
+ * }
+ *
+ * test()
+ *
+ * @since 2.10.0
+ */
+export const bind = <E>(S: Semigroup<E>) => {
+  const chainS = chain(S)
+  return <N extends string, A, B>(
+    name: Exclude<N, keyof A>,
+    f: (a: A) => TaskThese<E, B>
+  ): ((fa: TaskThese<E, A>) => TaskThese<E, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+    chainS((a) =>
+      pipe(
+        f(a),
+        map((b) => bind_(a, name, b))
+      )
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `E` values are combined using the provided `Semigroup`, the two computations are run in parallel.
+ *
+ * @since 2.10.0
+ */
+export const apS = <E>(S: Semigroup<E>) => {
+  const A = getApplicative(T.ApplicativePar, S)
+  return <A, N extends string, B>(
+    name: Exclude<N, keyof A>,
+    fb: TaskThese<E, B>
+  ): ((fa: TaskThese<E, A>) => TaskThese<E, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+    flow(
+      map((a: A) => (b: B) => bind_(a, name, b)),
+      (fab) => A.ap(fab, fb)
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// array utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in parallel, for sequential version use `traverseSeqArrayWithIndex`*
+ *
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndex = <E>(S: Semigroup<E>) => {
+  const sequenceS = TH.sequenceArray(S)
+  return <A, B>(f: (index: number, a: A) => TaskThese<E, B>) => (
+    arr: ReadonlyArray<A>
+  ): TaskThese<E, ReadonlyArray<B>> => pipe(arr, T.traverseArrayWithIndex(f), T.map(sequenceS))
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in parallel, for sequential version use `traverseSeqArray`*
+ *
+ * @example
+ * import * as TT from 'fp-ts/TaskThese'
+ * import * as TH from 'fp-ts/These'
+ * import { pipe } from 'fp-ts/function'
+ * import { getMonoid } from 'fp-ts/Array'
+ *
+ * const parse = (s: string): TT.TaskThese<Array<string>, number> =>
+ *   s === '' ? TT.both([`empty input`], 0) : isNaN(+s) ? TT.left([`invalid input ${s}`]) : TT.right(+s)
+ *
+ * async function test() {
+ *   const traverse = TT.traverseArray(getMonoid<string>())(parse)
+ *   assert.deepStrictEqual(await pipe(['1', '', '3'], traverse)(), TH.both(['empty input'], [1, 0, 3]))
+ *   assert.deepStrictEqual(await pipe(['1', '', 'a'], traverse)(), TH.left(['empty input', 'invalid input a']))
+ * }
+ *
+ * test()
+ *
+ * @since 2.10.0
+ */
+export const traverseArray = <E>(
+  S: Semigroup<E>
+): (<A, B>(f: (a: A) => TaskThese<E, B>) => (arr: ReadonlyArray<A>) => TaskThese<E, ReadonlyArray<B>>) => {
+  const traverseS = traverseArrayWithIndex(S)
+  return (f) => traverseS((_, a) => f(a))
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in parallel, for sequential version use `sequenceSeqArray`*
+ *
+ * @since 2.10.0
+ */
+export const sequenceArray = <E>(
+  S: Semigroup<E>
+): (<A>(arr: ReadonlyArray<TaskThese<E, A>>) => TaskThese<E, ReadonlyArray<A>>) => traverseArray(S)(identity)
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in sequential order and bails out on the first `Left`, for parallel version use
+ * `traverseArrayWithIndex`*
+ *
+ * @since 2.10.0
+ */
+export const traverseSeqArrayWithIndex = <E>(S: Semigroup<E>) => <A, B>(
+  f: (index: number, a: A) => TaskThese<E, B>
+) => (arr: ReadonlyArray<A>): TaskThese<E, ReadonlyArray<B>> => async () => {
+  let e: Option<E> = O.none
+  // tslint:disable-next-line: readonly-array
+  const result: Array<B> = []
+  for (let i = 0; i < arr.length; i++) {
+    const tb = await f(i, arr[i])()
+    if (TH.isLeft(tb)) {
+      return TH.left(O.isNone(e) ? tb.left : S.concat(e.value, tb.left))
+    }
+    if (TH.isBoth(tb)) {
+      e = O.some(O.isNone(e) ? tb.left : S.concat(e.value, tb.left))
+    }
+    result.push(tb.right)
+  }
+  return O.isNone(e) ? TH.right(result) : TH.both(e.value, result)
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in sequential order and bails out on the first `Left`, for parallel version use
+ * `traverseArray`*
+ *
+ * @since 2.10.0
+ */
+export const traverseSeqArray = <E>(
+  S: Semigroup<E>
+): (<A, B>(f: (a: A) => TaskThese<E, B>) => (arr: ReadonlyArray<A>) => TaskThese<E, ReadonlyArray<B>>) => {
+  const traverseS = traverseSeqArrayWithIndex(S)
+  return (f) => traverseS((_, a) => f(a))
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * *this function runs all tasks in sequential order and bails out on the first `Left`, for parallel version use
+ * `sequenceArray`*
+ *
+ * @since 2.10.0
+ */
+export const sequenceSeqArray = <E>(
+  S: Semigroup<E>
+): (<A>(arr: ReadonlyArray<TaskThese<E, A>>) => TaskThese<E, ReadonlyArray<A>>) => traverseSeqArray(S)(identity)
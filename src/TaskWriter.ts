@@ -0,0 +1,435 @@
+/**
+ * `TaskWriter<W, A>` represents an asynchronous computation that yields a value of type `A` together with the events of
+ * type `W` it has logged (with `tell`), in the order they were logged.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/function'
+ * import * as T from 'fp-ts/Task'
+ * import * as TW from 'fp-ts/TaskWriter'
+ *
+ * type Audit = { readonly type: 'read'; readonly key: string } | { readonly type: 'write'; readonly key: string }
+ *
+ * const read = (key: string): TW.TaskWriter<Audit, number> =>
+ *   pipe(
+ *     TW.tell<Audit>({ type: 'read', key }),
+ *     TW.chain(() => TW.fromTask<Audit, number>(T.of(key.length)))
+ *   )
+ *
+ * const write = (key: string, value: number): TW.TaskWriter<Audit, void> =>
+ *   pipe(
+ *     TW.fromTask<Audit, number>(T.of(value)),
+ *     TW.chain(() => TW.tell<Audit>({ type: 'write', key }))
+ *   )
+ *
+ * async function test() {
+ *   assert.deepStrictEqual(
+ *     await pipe(
+ *       read('foo'),
+ *       TW.chain((n) => write('bar', n))
+ *     )(),
+ *     [
+ *       undefined,
+ *       [
+ *         { type: 'read', key: 'foo' },
+ *         { type: 'write', key: 'bar' }
+ *       ]
+ *     ]
+ *   )
+ * }
+ *
+ * test()
+ *
+ * @since 2.10.0
+ */
+import { Applicative2 } from './Applicative'
+import * as E from './Either'
+import { bindTo_, bind_, flow, identity, pipe } from './function'
+import { Functor2 } from './Functor'
+import { IO } from './IO'
+import { Monad2 } from './Monad'
+import * as T from './Task'
+import * as TE from './TaskEither'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+import Either = E.Either
+import Task = T.Task
+import TaskEither = TE.TaskEither
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface TaskWriter<W, A> extends Task<readonly [A, ReadonlyArray<W>]> {}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromTask: <W, A>(ma: Task<A>) => TaskWriter<W, A> =
+  /*#__PURE__*/
+  T.map((a) => [a, []])
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromIO: <W, A>(ma: IO<A>) => TaskWriter<W, A> = (ma) => fromTask(T.fromIO(ma))
+
+/**
+ * Lifts a `TaskEither` without logging any event.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromTaskEither: <E, A, W = never>(ma: TaskEither<E, A>) => TaskWriter<W, Either<E, A>> = fromTask
+
+/**
+ * Logs an event.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const tell = <W>(w: W): TaskWriter<W, void> => T.of([undefined, [w]])
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Returns the value and the logged events as the result of a `TaskEither`, so that it can be run as part of a
+ * `TaskEither` pipeline.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toTaskEither: <W, A, E = never>(ma: TaskWriter<W, A>) => TaskEither<E, readonly [A, ReadonlyArray<W>]> =
+  /*#__PURE__*/
+  T.map(E.right)
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const evaluate: <W, A>(ma: TaskWriter<W, A>) => Task<A> =
+  /*#__PURE__*/
+  T.map(([a]) => a)
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const execute: <W, A>(ma: TaskWriter<W, A>) => Task<ReadonlyArray<W>> =
+  /*#__PURE__*/
+  T.map(([_, ws]) => ws)
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Modifies the result to include the events logged by the action.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const listen: <W, A>(ma: TaskWriter<W, A>) => TaskWriter<W, readonly [A, ReadonlyArray<W>]> =
+  /*#__PURE__*/
+  T.map((aws) => [aws, aws[1]])
+
+/**
+ * Modifies the events logged by the action.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const censor = <W>(f: (ws: ReadonlyArray<W>) => ReadonlyArray<W>) => <A>(
+  ma: TaskWriter<W, A>
+): TaskWriter<W, A> =>
+  pipe(
+    ma,
+    T.map(([a, ws]) => [a, f(ws)])
+  )
+
+/**
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainTaskK: <A, B>(f: (a: A) => Task<B>) => <W>(ma: TaskWriter<W, A>) => TaskWriter<W, B> = (f) =>
+  chain((a) => fromTask(f(a)))
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Monad2<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const apPar_: Monad2<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
+const apSeq_: Monad2<URI>['ap'] = (fab, fa) =>
+  pipe(
+    fab,
+    chain((f) => pipe(fa, map(f)))
+  )
+const chain_: Monad2<URI>['chain'] = (ma, f) => pipe(ma, chain(f))
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => <W>(fa: TaskWriter<W, A>) => TaskWriter<W, B> = (f) =>
+  T.map(([a, ws]) => [f(a), ws])
+
+/**
+ * Less strict version of [`ap`](#ap).
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const apW = <W2, A>(fa: TaskWriter<W2, A>) => <W1, B>(
+  fab: TaskWriter<W1, (a: A) => B>
+): TaskWriter<W1 | W2, B> =>
+  pipe(
+    fab,
+    T.map(([f, ws1]) => ([a, ws2]: readonly [A, ReadonlyArray<W2>]) =>
+      [f(a), (ws1 as ReadonlyArray<W1 | W2>).concat(ws2)] as const
+    ),
+    T.ap(fa)
+  )
+
+/**
+ * Apply a function to an argument under a type constructor.
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const ap: <W, A>(fa: TaskWriter<W, A>) => <B>(fab: TaskWriter<W, (a: A) => B>) => TaskWriter<W, B> = apW
+
+/**
+ * Combine two effectful actions, keeping only the result of the first.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apFirst: <W, B>(fb: TaskWriter<W, B>) => <A>(fa: TaskWriter<W, A>) => TaskWriter<W, A> = (fb) =>
+  flow(
+    map((a) => () => a),
+    ap(fb)
+  )
+
+/**
+ * Combine two effectful actions, keeping only the result of the second.
+ *
+ * Derivable from `Apply`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const apSecond = <W, B>(fb: TaskWriter<W, B>): (<A>(fa: TaskWriter<W, A>) => TaskWriter<W, B>) =>
+  flow(
+    map(() => (b: B) => b),
+    ap(fb)
+  )
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative2<URI>['of'] = (a) => T.of([a, []])
+
+/**
+ * Less strict version of [`chain`](#chain).
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainW = <W2, A, B>(f: (a: A) => TaskWriter<W2, B>) => <W1>(
+  ma: TaskWriter<W1, A>
+): TaskWriter<W1 | W2, B> =>
+  pipe(
+    ma,
+    T.chain(([a, ws1]) =>
+      pipe(
+        f(a),
+        T.map(([b, ws2]) => [b, (ws1 as ReadonlyArray<W1 | W2>).concat(ws2)] as const)
+      )
+    )
+  )
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <W, A, B>(f: (a: A) => TaskWriter<W, B>) => (ma: TaskWriter<W, A>) => TaskWriter<W, B> = chainW
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const chainFirst: <W, A, B>(f: (a: A) => TaskWriter<W, B>) => (ma: TaskWriter<W, A>) => TaskWriter<W, A> = (f) =>
+  chain((a) =>
+    pipe(
+      f(a),
+      map(() => a)
+    )
+  )
+
+/**
+ * Derivable from `Monad`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const flatten: <W, A>(mma: TaskWriter<W, TaskWriter<W, A>>) => TaskWriter<W, A> =
+  /*#__PURE__*/
+  chain(identity)
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'TaskWriter'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind2<E, A> {
+    readonly [URI]: TaskWriter<E, A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor2<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ApplicativePar: Applicative2<URI> = {
+  URI,
+  map: map_,
+  ap: apPar_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const ApplicativeSeq: Applicative2<URI> = {
+  URI,
+  map: map_,
+  ap: apSeq_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Monad: Monad2<URI> = {
+  URI,
+  map: map_,
+  of,
+  ap: apPar_,
+  chain: chain_
+}
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const Do: TaskWriter<never, {}> =
+  /*#__PURE__*/
+  of({})
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(name: N): (<W, A>(fa: TaskWriter<W, A>) => TaskWriter<W, { [K in N]: A }>) =>
+  map(bindTo_(name))
+
+/**
+ * @since 2.10.0
+ */
+export const bindW = <N extends string, A, W2, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => TaskWriter<W2, B>
+): (<W1>(fa: TaskWriter<W1, A>) => TaskWriter<W1 | W2, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  chainW((a) =>
+    pipe(
+      f(a),
+      map((b) => bind_(a, name, b))
+    )
+  )
+
+/**
+ * @since 2.10.0
+ */
+export const bind: <N extends string, A, W, B>(
+  name: Exclude<N, keyof A>,
+  f: (a: A) => TaskWriter<W, B>
+) => (fa: TaskWriter<W, A>) => TaskWriter<W, { [K in keyof A | N]: K extends keyof A ? A[K] : B }> = bindW
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const apSW = <A, N extends string, W2, B>(
+  name: Exclude<N, keyof A>,
+  fb: TaskWriter<W2, B>
+): (<W1>(fa: TaskWriter<W1, A>) => TaskWriter<W1 | W2, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+  flow(
+    map((a) => (b: B) => bind_(a, name, b)),
+    apW(fb)
+  )
+
+/**
+ * @since 2.10.0
+ */
+export const apS: <A, N extends string, W, B>(
+  name: Exclude<N, keyof A>,
+  fb: TaskWriter<W, B>
+) => (fa: TaskWriter<W, A>) => TaskWriter<W, { [K in keyof A | N]: K extends keyof A ? A[K] : B }> = apSW
@@ -33,7 +33,7 @@ import { isNone, none, Option, some } from './Option'
 import { Semigroup } from './Semigroup'
 import { Show } from './Show'
 import { PipeableTraverse2, Traversable2 } from './Traversable'
-import { pipe } from './function'
+import { bindTo_, bind_, flow, identity, Lazy, pipe, Predicate, Refinement } from './function'
 
 // -------------------------------------------------------------------------------------
 // model
@@ -197,21 +197,7 @@ export function getApplicative<E>(SE: Semigroup<E>): Applicative2C<URI, E> {
  * @since 2.0.0
  */
 export function getMonad<E>(SE: Semigroup<E>): Monad2C<URI, E> & MonadThrow2C<URI, E> {
-  const chain = <A, B>(ma: These<E, A>, f: (a: A) => These<E, B>): These<E, B> => {
-    if (isLeft(ma)) {
-      return ma
-    }
-    if (isRight(ma)) {
-      return f(ma.right)
-    }
-    const fb = f(ma.right)
-    return isLeft(fb)
-      ? left(SE.concat(ma.left, fb.left))
-      : isRight(fb)
-      ? both(ma.left, fb.right)
-      : both(SE.concat(ma.left, fb.left), fb.right)
-  }
-
+  const chainSE = chain(SE)
   const applicative = getApplicative(SE)
   return {
     URI,
@@ -219,7 +205,7 @@ export function getMonad<E>(SE: Semigroup<E>): Monad2C<URI, E> & MonadThrow2C<UR
     map: map_,
     of: right,
     ap: applicative.ap,
-    chain,
+    chain: (ma, f) => pipe(ma, chainSE(f)),
     throwError: left
   }
 }
@@ -401,6 +387,30 @@ export function fromOptions<E, A>(fe: Option<E>, fa: Option<A>): Option<These<E,
     : some(both(fe.value, fa.value))
 }
 
+/**
+ * @example
+ * import { fromOption, left, right } from 'fp-ts/These'
+ * import { none, some } from 'fp-ts/Option'
+ *
+ * assert.deepStrictEqual(fromOption(() => 'a')(none), left('a'))
+ * assert.deepStrictEqual(fromOption(() => 'a')(some(1)), right(1))
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromOption = <E>(onNone: Lazy<E>) => <A>(ma: Option<A>): These<E, A> =>
+  isNone(ma) ? left(onNone()) : right(ma.value)
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromPredicate: {
+  <E, A, B extends A>(refinement: Refinement<A, B>, onFalse: (a: A) => E): (a: A) => These<E, B>
+  <E, A>(predicate: Predicate<A>, onFalse: (a: A) => E): (a: A) => These<E, A>
+} = <E, A>(predicate: Predicate<A>, onFalse: (a: A) => E) => (a: A): These<E, A> =>
+  predicate(a) ? right(a) : left(onFalse(a))
+
 // -------------------------------------------------------------------------------------
 // non-pipeables
 // -------------------------------------------------------------------------------------
@@ -497,6 +507,72 @@ export const sequence: Traversable2<URI>['sequence'] = <F>(F: Applicative<F>) =>
   return isLeft(ta) ? F.of(ta) : isRight(ta) ? F.map(ta.right, right) : F.map(ta.right, (b) => both(ta.left, b))
 }
 
+/**
+ * Less strict version of [`chain`](#chain).
+ *
+ * The `E` values of the two computations are combined using the provided `Semigroup`.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainW = <E>(S: Semigroup<E>) => <A, E2 extends E, B>(f: (a: A) => These<E2, B>) => <E1 extends E>(
+  ma: These<E1, A>
+): These<E, B> => {
+  if (isLeft(ma)) {
+    return ma
+  }
+  if (isRight(ma)) {
+    return f(ma.right)
+  }
+  const fb = f(ma.right)
+  return isLeft(fb)
+    ? left(S.concat(ma.left, fb.left))
+    : isRight(fb)
+    ? both(ma.left, fb.right)
+    : both(S.concat(ma.left, fb.left), fb.right)
+}
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation.
+ *
+ * The `E` values of the two computations are combined using the provided `Semigroup`.
+ *
+ * @example
+ * import { chain, left, right, both } from 'fp-ts/These'
+ * import { pipe } from 'fp-ts/function'
+ * import { semigroupString } from 'fp-ts/Semigroup'
+ *
+ * const f = (n: number) => (n > 0 ? both('b', n) : left('negative'))
+ *
+ * assert.deepStrictEqual(pipe(right(1), chain(semigroupString)(f)), both('b', 1))
+ * assert.deepStrictEqual(pipe(both('a', 1), chain(semigroupString)(f)), both('ab', 1))
+ * assert.deepStrictEqual(pipe(both('a', -1), chain(semigroupString)(f)), left('anegative'))
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chain: <E>(
+  S: Semigroup<E>
+) => <A, B>(f: (a: A) => These<E, B>) => (ma: These<E, A>) => These<E, B> = chainW
+
+/**
+ * Composes computations in sequence, using the return value of one computation to determine the next computation and
+ * keeping only the result of the first.
+ *
+ * @category Monad
+ * @since 2.10.0
+ */
+export const chainFirst = <E>(S: Semigroup<E>) => {
+  const chainS = chain(S)
+  return <A, B>(f: (a: A) => These<E, B>): ((ma: These<E, A>) => These<E, A>) =>
+    chainS((a) =>
+      pipe(
+        f(a),
+        map(() => a)
+      )
+    )
+}
+
 // -------------------------------------------------------------------------------------
 // instances
 // -------------------------------------------------------------------------------------
@@ -579,3 +655,121 @@ export const these: Functor2<URI> & Bifunctor2<URI> & Foldable2<URI> & Traversab
   traverse: traverse_,
   sequence
 }
+
+// -------------------------------------------------------------------------------------
+// do notation
+// -------------------------------------------------------------------------------------
+
+/**
+ * @since 2.10.0
+ */
+export const Do: These<never, {}> =
+  /*#__PURE__*/
+  right({})
+
+/**
+ * @since 2.10.0
+ */
+export const bindTo = <N extends string>(name: N): (<E, A>(fa: These<E, A>) => These<E, { [K in N]: A }>) =>
+  map(bindTo_(name))
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * @since 2.10.0
+ */
+export const bind = <E>(S: Semigroup<E>) => {
+  const chainS = chain(S)
+  return <N extends string, A, B>(
+    name: Exclude<N, keyof A>,
+    f: (a: A) => These<E, B>
+  ): ((fa: These<E, A>) => These<E, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+    chainS((a) =>
+      pipe(
+        f(a),
+        map((b) => bind_(a, name, b))
+      )
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// pipeable sequence S
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `E` values are combined using the provided `Semigroup`.
+ *
+ * @since 2.10.0
+ */
+export const apS = <E>(S: Semigroup<E>) => {
+  const A = getApplicative(S)
+  return <A, N extends string, B>(
+    name: Exclude<N, keyof A>,
+    fb: These<E, B>
+  ): ((fa: These<E, A>) => These<E, { [K in keyof A | N]: K extends keyof A ? A[K] : B }>) =>
+    flow(
+      map((a: A) => (b: B) => bind_(a, name, b)),
+      (fab) => A.ap(fab, fb)
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// array utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * The `E` values are combined using the provided `Semigroup`. Bails out on the first `Left`.
+ *
+ * @since 2.10.0
+ */
+export const traverseArrayWithIndex = <E>(S: Semigroup<E>) => <A, B>(f: (index: number, a: A) => These<E, B>) => (
+  arr: ReadonlyArray<A>
+): These<E, ReadonlyArray<B>> => {
+  let e: Option<E> = none
+  // tslint:disable-next-line: readonly-array
+  const result: Array<B> = []
+  for (let i = 0; i < arr.length; i++) {
+    const tb = f(i, arr[i])
+    if (isLeft(tb)) {
+      return left(isNone(e) ? tb.left : S.concat(e.value, tb.left))
+    }
+    if (isBoth(tb)) {
+      e = some(isNone(e) ? tb.left : S.concat(e.value, tb.left))
+    }
+    result.push(tb.right)
+  }
+  return isNone(e) ? right(result) : both(e.value, result)
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`. Bails out on the first `Left`.
+ *
+ * @example
+ * import { traverseArray, left, right, both } from 'fp-ts/These'
+ * import { pipe } from 'fp-ts/function'
+ * import { semigroupString } from 'fp-ts/Semigroup'
+ *
+ * const f = (n: number) => (n > 0 ? right(n) : n === 0 ? both('zero ', n) : left('negative'))
+ * const traverse = traverseArray(semigroupString)(f)
+ *
+ * assert.deepStrictEqual(pipe([1, 2], traverse), right([1, 2]))
+ * assert.deepStrictEqual(pipe([1, 0, 2, 0], traverse), both('zero zero ', [1, 0, 2, 0]))
+ * assert.deepStrictEqual(pipe([0, -1, 2], traverse), left('zero negative'))
+ *
+ * @since 2.10.0
+ */
+export const traverseArray = <E>(
+  S: Semigroup<E>
+): (<A, B>(f: (a: A) => These<E, B>) => (arr: ReadonlyArray<A>) => These<E, ReadonlyArray<B>>) => {
+  const traverseS = traverseArrayWithIndex(S)
+  return (f) => traverseS((_, a) => f(a))
+}
+
+/**
+ * The `E` values are combined using the provided `Semigroup`. Bails out on the first `Left`.
+ *
+ * @since 2.10.0
+ */
+export const sequenceArray = <E>(
+  S: Semigroup<E>
+): (<A>(arr: ReadonlyArray<These<E, A>>) => These<E, ReadonlyArray<A>>) => traverseArray(S)(identity)
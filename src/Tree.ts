@@ -11,16 +11,22 @@ import { Applicative as ApplicativeHKT, Applicative1 } from './Applicative'
 import * as A from './Array'
 import { Comonad1 } from './Comonad'
 import { Eq, fromEquals } from './Eq'
+import * as EV from './Eval'
 import { Foldable1 } from './Foldable'
-import { identity, pipe, bind_, bindTo_, flow } from './function'
+import { FoldableWithIndex1 } from './FoldableWithIndex'
+import { identity, pipe, bind_, bindTo_, flow, Predicate, Refinement } from './function'
 import { Functor1 } from './Functor'
+import { FunctorWithIndex1 } from './FunctorWithIndex'
 import { HKT, Kind, Kind2, Kind3, URIS, URIS2, URIS3 } from './HKT'
 import { Monad as MonadHKT, Monad1, Monad2, Monad2C, Monad3, Monad3C } from './Monad'
 import { Monoid } from './Monoid'
+import * as O from './Option'
 import { Show } from './Show'
 import { PipeableTraverse1, Traversable1 } from './Traversable'
 import { Extend1 } from './Extend'
 
+import Option = O.Option
+
 // tslint:disable:readonly-array
 
 // -------------------------------------------------------------------------------------
@@ -128,14 +134,13 @@ export function drawTree(tree: Tree<string>): string {
 }
 
 /**
- * Build a tree from a seed value
+ * Build a tree from a seed value, in constant stack space
  *
  * @category constructors
  * @since 2.0.0
  */
 export function unfoldTree<A, B>(b: B, f: (b: B) => [A, Array<B>]): Tree<A> {
-  const [a, bs] = f(b)
-  return { value: a, forest: unfoldForest(bs, f) }
+  return EV.evaluate(unfoldTreeEval(b, f))
 }
 
 /**
@@ -145,9 +150,24 @@ export function unfoldTree<A, B>(b: B, f: (b: B) => [A, Array<B>]): Tree<A> {
  * @since 2.0.0
  */
 export function unfoldForest<A, B>(bs: Array<B>, f: (b: B) => [A, Array<B>]): Forest<A> {
-  return bs.map((b) => unfoldTree(b, f))
+  return EV.evaluate(unfoldForestEval(bs, f))
+}
+
+const unfoldTreeEval = <A, B>(b: B, f: (b: B) => [A, Array<B>]): EV.Eval<Tree<A>> => {
+  const [a, bs] = f(b)
+  return pipe(
+    unfoldForestEval(bs, f),
+    EV.map((forest) => ({ value: a, forest }))
+  )
 }
 
+const unfoldForestEval = <A, B>(bs: Array<B>, f: (b: B) => [A, Array<B>]): EV.Eval<Forest<A>> =>
+  pipe(
+    bs,
+    EV.traverseArray((b) => EV.defer(() => unfoldTreeEval(b, f))),
+    EV.map((forest) => forest as Forest<A>)
+  )
+
 /**
  * Monadic tree builder, in depth-first order
  *
@@ -229,7 +249,7 @@ export function elem<A>(E: Eq<A>): (a: A, fa: Tree<A>) => boolean {
  *
  * For each node in the tree, apply `f` to the `value` and the result of applying `f` to each `forest`.
  *
- * This is also known as the catamorphism on trees.
+ * This is also known as the catamorphism on trees. It runs in constant stack space (see `Eval`).
  *
  * @example
  * import { fold, make } from 'fp-ts/Tree'
@@ -251,8 +271,301 @@ export function elem<A>(E: Eq<A>): (a: A, fa: Tree<A>) => boolean {
  * @since 2.6.0
  */
 export function fold<A, B>(f: (a: A, bs: Array<B>) => B): (tree: Tree<A>) => B {
-  const go = (tree: Tree<A>): B => f(tree.value, tree.forest.map(go))
-  return go
+  const go = (tree: Tree<A>): EV.Eval<B> =>
+    pipe(
+      tree.forest,
+      EV.traverseArray((t) => EV.defer(() => go(t))),
+      EV.map((bs) => f(tree.value, bs as Array<B>))
+    )
+  return (tree) => EV.evaluate(go(tree))
+}
+
+/**
+ * Returns the values of the tree in breadth-first (level) order.
+ *
+ * @example
+ * import { breadthFirst, make } from 'fp-ts/Tree'
+ *
+ * const t = make(1, [make(2, [make(4)]), make(3)])
+ *
+ * assert.deepStrictEqual(breadthFirst(t), [1, 2, 3, 4])
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const breadthFirst = <A>(fa: Tree<A>): Array<A> => {
+  const out: Array<A> = []
+  const queue = [fa]
+  for (let i = 0; i < queue.length; i++) {
+    const tree = queue[i]
+    out.push(tree.value)
+    for (const child of tree.forest) {
+      queue.push(child)
+    }
+  }
+  return out
+}
+
+/**
+ * Returns the values of the tree in depth-first post-order, i.e. every node comes after its children.
+ *
+ * The values in depth-first pre-order can be obtained with `reduce`.
+ *
+ * @example
+ * import { postOrder, make } from 'fp-ts/Tree'
+ *
+ * const t = make(1, [make(2, [make(4)]), make(3)])
+ *
+ * assert.deepStrictEqual(postOrder(t), [4, 2, 3, 1])
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const postOrder = <A>(fa: Tree<A>): Array<A> => {
+  const out: Array<A> = []
+  const stack = [fa]
+  let tree = stack.pop()
+  while (tree !== undefined) {
+    out.push(tree.value)
+    for (const child of tree.forest) {
+      stack.push(child)
+    }
+    tree = stack.pop()
+  }
+  return out.reverse()
+}
+
+/**
+ * Groups the values of the tree by level, the first level contains only the root.
+ *
+ * @example
+ * import { levels, make } from 'fp-ts/Tree'
+ *
+ * const t = make(1, [make(2, [make(4)]), make(3)])
+ *
+ * assert.deepStrictEqual(levels(t), [[1], [2, 3], [4]])
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const levels = <A>(fa: Tree<A>): Array<Array<A>> => {
+  const out: Array<Array<A>> = []
+  let level = [fa]
+  while (level.length > 0) {
+    const next: Forest<A> = []
+    out.push(level.map((tree) => tree.value))
+    for (const tree of level) {
+      for (const child of tree.forest) {
+        next.push(child)
+      }
+    }
+    level = next
+  }
+  return out
+}
+
+/**
+ * Returns the number of edges on the longest path from the root to a leaf, which is also the depth of the deepest
+ * node. A tree with a single node has height `0`.
+ *
+ * @example
+ * import { height, make } from 'fp-ts/Tree'
+ *
+ * assert.deepStrictEqual(height(make(1)), 0)
+ * assert.deepStrictEqual(height(make(1, [make(2, [make(4)]), make(3)])), 2)
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const height = <A>(fa: Tree<A>): number => levels(fa).length - 1
+
+/**
+ * Returns the values of the tree in depth-first pre-order, each paired with its depth (the root has depth `0`).
+ *
+ * @example
+ * import { flattenWithDepth, make } from 'fp-ts/Tree'
+ *
+ * const t = make('a', [make('b', [make('d')]), make('c')])
+ *
+ * assert.deepStrictEqual(flattenWithDepth(t), [
+ *   [0, 'a'],
+ *   [1, 'b'],
+ *   [2, 'd'],
+ *   [1, 'c']
+ * ])
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const flattenWithDepth = <A>(fa: Tree<A>): Array<[number, A]> => {
+  const out: Array<[number, A]> = []
+  const stack: Array<[number, Tree<A>]> = [[0, fa]]
+  let next = stack.pop()
+  while (next !== undefined) {
+    const [depth, tree] = next
+    out.push([depth, tree.value])
+    for (let i = tree.forest.length - 1; i >= 0; i--) {
+      stack.push([depth + 1, tree.forest[i]])
+    }
+    next = stack.pop()
+  }
+  return out
+}
+
+/**
+ * Finds the first value (in depth-first pre-order) which satisfies a predicate (or a refinement).
+ *
+ * @example
+ * import { findFirst, make } from 'fp-ts/Tree'
+ * import { some, none } from 'fp-ts/Option'
+ *
+ * const t = make(1, [make(2, [make(4)]), make(3)])
+ *
+ * assert.deepStrictEqual(findFirst((n: number) => n > 2)(t), some(4))
+ * assert.deepStrictEqual(findFirst((n: number) => n > 4)(t), none)
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export function findFirst<A, B extends A>(refinement: Refinement<A, B>): (fa: Tree<A>) => Option<B>
+export function findFirst<A>(predicate: Predicate<A>): (fa: Tree<A>) => Option<A>
+export function findFirst<A>(predicate: Predicate<A>): (fa: Tree<A>) => Option<A> {
+  return (fa) => {
+    const stack = [fa]
+    let tree = stack.pop()
+    while (tree !== undefined) {
+      if (predicate(tree.value)) {
+        return O.some(tree.value)
+      }
+      for (let i = tree.forest.length - 1; i >= 0; i--) {
+        stack.push(tree.forest[i])
+      }
+      tree = stack.pop()
+    }
+    return O.none
+  }
+}
+
+// the path of each node is stored as a linked list pointing to the path of its parent
+interface Step {
+  readonly index: number
+  readonly parent: Step | undefined
+}
+
+const toPath = (step: Step | undefined): Array<number> => {
+  const path: Array<number> = []
+  for (let s = step; s !== undefined; s = s.parent) {
+    path.push(s.index)
+  }
+  return path.reverse()
+}
+
+/**
+ * Finds the path of the first node (in depth-first pre-order) whose value satisfies a predicate.
+ *
+ * A path is the list of the child indexes to follow from the root, the path of the root is `[]`.
+ *
+ * @example
+ * import { findPath, make } from 'fp-ts/Tree'
+ * import { some, none } from 'fp-ts/Option'
+ *
+ * const t = make(1, [make(2, [make(4)]), make(3)])
+ *
+ * assert.deepStrictEqual(findPath((n: number) => n === 4)(t), some([0, 0]))
+ * assert.deepStrictEqual(findPath((n: number) => n === 3)(t), some([1]))
+ * assert.deepStrictEqual(findPath((n: number) => n === 5)(t), none)
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const findPath = <A>(predicate: Predicate<A>) => (fa: Tree<A>): Option<ReadonlyArray<number>> => {
+  const stack: Array<[Step | undefined, Tree<A>]> = [[undefined, fa]]
+  let next = stack.pop()
+  while (next !== undefined) {
+    const [step, tree] = next
+    if (predicate(tree.value)) {
+      return O.some(toPath(step))
+    }
+    for (let i = tree.forest.length - 1; i >= 0; i--) {
+      stack.push([{ index: i, parent: step }, tree.forest[i]])
+    }
+    next = stack.pop()
+  }
+  return O.none
+}
+
+const hasChild = <A>(i: number, tree: Tree<A>): boolean => Number.isInteger(i) && !A.isOutOfBound(i, tree.forest)
+
+/**
+ * Returns the values found along a path, from the root to the node at the end of the path, or `None` if the path
+ * doesn't exist.
+ *
+ * @example
+ * import { valuesAlong, make } from 'fp-ts/Tree'
+ * import { some, none } from 'fp-ts/Option'
+ *
+ * const t = make(1, [make(2, [make(4)]), make(3)])
+ *
+ * assert.deepStrictEqual(valuesAlong([0, 0])(t), some([1, 2, 4]))
+ * assert.deepStrictEqual(valuesAlong([2])(t), none)
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const valuesAlong = (path: ReadonlyArray<number>) => <A>(fa: Tree<A>): Option<Array<A>> => {
+  const out = [fa.value]
+  let tree = fa
+  for (const i of path) {
+    if (!hasChild(i, tree)) {
+      return O.none
+    }
+    tree = tree.forest[i]
+    out.push(tree.value)
+  }
+  return O.some(out)
+}
+
+/**
+ * Returns the subtree at a path, or `None` if the path doesn't exist.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const lookup = (path: ReadonlyArray<number>) => <A>(fa: Tree<A>): Option<Tree<A>> => {
+  let tree = fa
+  for (const i of path) {
+    if (!hasChild(i, tree)) {
+      return O.none
+    }
+    tree = tree.forest[i]
+  }
+  return O.some(tree)
+}
+
+/**
+ * Prunes the tree keeping only the nodes which satisfy a predicate (or a refinement): when a node is removed its whole
+ * subtree is removed as well. Returns `None` if the root doesn't satisfy the predicate.
+ *
+ * It runs in constant stack space (see `fold`).
+ *
+ * @example
+ * import { filter, make } from 'fp-ts/Tree'
+ * import { some, none } from 'fp-ts/Option'
+ *
+ * const t = make(1, [make(2, [make(4)]), make(3)])
+ *
+ * assert.deepStrictEqual(filter((n: number) => n !== 2)(t), some(make(1, [make(3)])))
+ * assert.deepStrictEqual(filter((n: number) => n !== 1)(t), none)
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export function filter<A, B extends A>(refinement: Refinement<A, B>): (fa: Tree<A>) => Option<Tree<B>>
+export function filter<A>(predicate: Predicate<A>): (fa: Tree<A>) => Option<Tree<A>>
+export function filter<A>(predicate: Predicate<A>): (fa: Tree<A>) => Option<Tree<A>> {
+  return fold((value, forest: Array<Option<Tree<A>>>) =>
+    predicate(value) ? O.some(make(value, A.compact(forest))) : O.none
+  )
 }
 
 // -------------------------------------------------------------------------------------
@@ -278,6 +591,20 @@ const foldMap_: Foldable1<URI>['foldMap'] = (M) => {
 /* istanbul ignore next */
 const reduceRight_ = <A, B>(fa: Tree<A>, b: B, f: (a: A, b: B) => B): B => pipe(fa, reduceRight(b, f))
 /* istanbul ignore next */
+const mapWithIndex_: FunctorWithIndex1<URI, ReadonlyArray<number>>['mapWithIndex'] = (fa, f) =>
+  pipe(fa, mapWithIndex(f))
+/* istanbul ignore next */
+const reduceWithIndex_: FoldableWithIndex1<URI, ReadonlyArray<number>>['reduceWithIndex'] = (fa, b, f) =>
+  pipe(fa, reduceWithIndex(b, f))
+/* istanbul ignore next */
+const foldMapWithIndex_: FoldableWithIndex1<URI, ReadonlyArray<number>>['foldMapWithIndex'] = (M) => {
+  const foldMapWithIndexM = foldMapWithIndex(M)
+  return (fa, f) => pipe(fa, foldMapWithIndexM(f))
+}
+/* istanbul ignore next */
+const reduceRightWithIndex_: FoldableWithIndex1<URI, ReadonlyArray<number>>['reduceRightWithIndex'] = (fa, b, f) =>
+  pipe(fa, reduceRightWithIndex(b, f))
+/* istanbul ignore next */
 const extend_: Extend1<URI>['extend'] = (wa, f) => pipe(wa, extend(f))
 /* istanbul ignore next */
 const traverse_ = <F>(F: ApplicativeHKT<F>): (<A, B>(ta: Tree<A>, f: (a: A) => HKT<F, B>) => HKT<F, Tree<B>>) => {
@@ -403,10 +730,15 @@ export const map: <A, B>(f: (a: A) => B) => (fa: Tree<A>) => Tree<B> = (f) => (f
  * @since 2.0.0
  */
 export const reduce = <A, B>(b: B, f: (b: B, a: A) => B) => (fa: Tree<A>): B => {
-  let r: B = f(b, fa.value)
-  const len = fa.forest.length
-  for (let i = 0; i < len; i++) {
-    r = pipe(fa.forest[i], reduce(r, f))
+  let r: B = b
+  const stack = [fa]
+  let tree = stack.pop()
+  while (tree !== undefined) {
+    r = f(r, tree.value)
+    for (let i = tree.forest.length - 1; i >= 0; i--) {
+      stack.push(tree.forest[i])
+    }
+    tree = stack.pop()
   }
   return r
 }
@@ -423,12 +755,18 @@ export const foldMap: <M>(M: Monoid<M>) => <A>(f: (a: A) => M) => (fa: Tree<A>)
  * @since 2.0.0
  */
 export const reduceRight = <A, B>(b: B, f: (a: A, b: B) => B) => (fa: Tree<A>): B => {
+  const as = pipe(
+    fa,
+    reduce<A, Array<A>>([], (as, a) => {
+      as.push(a)
+      return as
+    })
+  )
   let r: B = b
-  const len = fa.forest.length
-  for (let i = len - 1; i >= 0; i--) {
-    r = pipe(fa.forest[i], reduceRight(r, f))
+  for (let i = as.length - 1; i >= 0; i--) {
+    r = f(as[i], r)
   }
-  return f(fa.value, r)
+  return r
 }
 
 /**
@@ -437,6 +775,81 @@ export const reduceRight = <A, B>(b: B, f: (a: A, b: B) => B) => (fa: Tree<A>):
  */
 export const extract: <A>(wa: Tree<A>) => A = (wa) => wa.value
 
+/**
+ * Like `map` but `f` also receives the path of the node, i.e. the list of the child indexes to follow from the root.
+ *
+ * It runs in constant stack space (see `Eval`).
+ *
+ * @category FunctorWithIndex
+ * @since 2.10.0
+ */
+export const mapWithIndex = <A, B>(f: (path: ReadonlyArray<number>, a: A) => B) => (fa: Tree<A>): Tree<B> => {
+  const go = (step: Step | undefined, tree: Tree<A>): EV.Eval<Tree<B>> => {
+    const value = f(toPath(step), tree.value)
+    return pipe(
+      tree.forest,
+      EV.traverseArrayWithIndex((index, t) => EV.defer(() => go({ index, parent: step }, t))),
+      EV.map((forest) => make(value, forest as Forest<B>))
+    )
+  }
+  return EV.evaluate(go(undefined, fa))
+}
+
+// folds the nodes in depth-first pre-order, passing the last step of the path of each node so that the path is only
+// built when it is needed
+const reduceSteps = <A, B>(b: B, f: (step: Step | undefined, b: B, a: A) => B) => (fa: Tree<A>): B => {
+  let r: B = b
+  const stack: Array<[Step | undefined, Tree<A>]> = [[undefined, fa]]
+  let next = stack.pop()
+  while (next !== undefined) {
+    const [step, tree] = next
+    r = f(step, r, tree.value)
+    for (let i = tree.forest.length - 1; i >= 0; i--) {
+      stack.push([{ index: i, parent: step }, tree.forest[i]])
+    }
+    next = stack.pop()
+  }
+  return r
+}
+
+/**
+ * Like `reduce` but `f` also receives the path of the node.
+ *
+ * @category FoldableWithIndex
+ * @since 2.10.0
+ */
+export const reduceWithIndex = <A, B>(b: B, f: (path: ReadonlyArray<number>, b: B, a: A) => B): ((fa: Tree<A>) => B) =>
+  reduceSteps(b, (step, b, a) => f(toPath(step), b, a))
+
+/**
+ * @category FoldableWithIndex
+ * @since 2.10.0
+ */
+export const foldMapWithIndex = <M>(M: Monoid<M>) => <A>(
+  f: (path: ReadonlyArray<number>, a: A) => M
+): ((fa: Tree<A>) => M) => reduceWithIndex(M.empty, (path, acc, a) => M.concat(acc, f(path, a)))
+
+/**
+ * @category FoldableWithIndex
+ * @since 2.10.0
+ */
+export const reduceRightWithIndex = <A, B>(b: B, f: (path: ReadonlyArray<number>, a: A, b: B) => B) => (
+  fa: Tree<A>
+): B => {
+  const nodes = pipe(
+    fa,
+    reduceSteps<A, Array<[Step | undefined, A]>>([], (step, nodes, a) => {
+      nodes.push([step, a])
+      return nodes
+    })
+  )
+  let r: B = b
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    r = f(toPath(nodes[i][0]), nodes[i][1], r)
+  }
+  return r
+}
+
 /**
  * @since 2.6.3
  */
@@ -563,6 +976,30 @@ export const Comonad: Comonad1<URI> = {
   extract
 }
 
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const FunctorWithIndex: FunctorWithIndex1<URI, ReadonlyArray<number>> = {
+  URI,
+  map: map_,
+  mapWithIndex: mapWithIndex_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const FoldableWithIndex: FoldableWithIndex1<URI, ReadonlyArray<number>> = {
+  URI,
+  reduce: reduce_,
+  foldMap: foldMap_,
+  reduceRight: reduceRight_,
+  reduceWithIndex: reduceWithIndex_,
+  foldMapWithIndex: foldMapWithIndex_,
+  reduceRightWithIndex: reduceRightWithIndex_
+}
+
 // TODO: remove in v3
 /**
  * @category instances
@@ -0,0 +1,256 @@
+/**
+ * A `TreeZipper<A>` is a cursor into a `Tree<A>`: the focused subtree, its siblings on the left and on the right and
+ * the path of crumbs leading back to the root.
+ *
+ * Moving the focus and editing the focused subtree are cheap, `toTree` (or `root`) rebuilds the whole tree.
+ *
+ * @since 2.10.0
+ */
+import * as A from './Array'
+import { Forest, Tree } from './Tree'
+import { none, Option, some } from './Option'
+
+// tslint:disable:readonly-array
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * A step on the path from the focus to the root: the value of the parent node and the siblings of the child that has
+ * been descended into.
+ *
+ * @category model
+ * @since 2.10.0
+ */
+export interface Crumb<A> {
+  readonly value: A
+  readonly lefts: Forest<A>
+  readonly rights: Forest<A>
+}
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface TreeZipper<A> {
+  readonly focus: Tree<A>
+  readonly lefts: Forest<A>
+  readonly rights: Forest<A>
+  /**
+   * The crumbs leading to the root, the nearest parent first
+   */
+  readonly parents: ReadonlyArray<Crumb<A>>
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Creates a `TreeZipper` focused on the root of the tree.
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromTree = <A>(tree: Tree<A>): TreeZipper<A> => ({
+  focus: tree,
+  lefts: A.empty,
+  rights: A.empty,
+  parents: A.empty
+})
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Returns the value of the focused node.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const extract = <A>(z: TreeZipper<A>): A => z.focus.value
+
+/**
+ * Returns `true` if the focus is the root of the tree.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const isRoot = <A>(z: TreeZipper<A>): boolean => z.parents.length === 0
+
+/**
+ * Returns `true` if the focused node has no children.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const isLeaf = <A>(z: TreeZipper<A>): boolean => z.focus.forest.length === 0
+
+/**
+ * Rebuilds the whole tree.
+ *
+ * @example
+ * import { down, fromTree, modify, toTree } from 'fp-ts/TreeZipper'
+ * import { make } from 'fp-ts/Tree'
+ * import { map } from 'fp-ts/Option'
+ * import { pipe } from 'fp-ts/function'
+ *
+ * assert.deepStrictEqual(
+ *   pipe(
+ *     fromTree(make(1, [make(2), make(3)])),
+ *     down,
+ *     map(modify((n) => n * 10)),
+ *     map(toTree)
+ *   ),
+ *   { _tag: 'Some', value: make(1, [make(20), make(3)]) }
+ * )
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toTree = <A>(z: TreeZipper<A>): Tree<A> => root(z).focus
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Moves the focus to the parent node, returns `None` if the focus is the root.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const up = <A>(z: TreeZipper<A>): Option<TreeZipper<A>> => (isRoot(z) ? none : some(unsafeUp(z)))
+
+/**
+ * Moves the focus to the root of the tree.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const root = <A>(z: TreeZipper<A>): TreeZipper<A> => {
+  let out = z
+  while (!isRoot(out)) {
+    out = unsafeUp(out)
+  }
+  return out
+}
+
+/**
+ * Moves the focus to the child at index `i`, returns `None` if there is no such child (including when `i` is not an
+ * integer).
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const downAt = (i: number) => <A>(z: TreeZipper<A>): Option<TreeZipper<A>> => {
+  const forest = z.focus.forest
+  if (!Number.isInteger(i) || A.isOutOfBound(i, forest)) {
+    return none
+  }
+  return some({
+    focus: forest[i],
+    lefts: forest.slice(0, i),
+    rights: forest.slice(i + 1),
+    parents: [{ value: z.focus.value, lefts: z.lefts, rights: z.rights }, ...z.parents]
+  })
+}
+
+/**
+ * Moves the focus to the first child, returns `None` if the focused node is a leaf.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const down: <A>(z: TreeZipper<A>) => Option<TreeZipper<A>> =
+  /*#__PURE__*/
+  downAt(0)
+
+/**
+ * Moves the focus to the left sibling, returns `None` if there is no such sibling.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const left = <A>(z: TreeZipper<A>): Option<TreeZipper<A>> => {
+  const len = z.lefts.length
+  return len === 0
+    ? none
+    : some({
+        focus: z.lefts[len - 1],
+        lefts: z.lefts.slice(0, len - 1),
+        rights: A.cons(z.focus, z.rights),
+        parents: z.parents
+      })
+}
+
+/**
+ * Moves the focus to the right sibling, returns `None` if there is no such sibling.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const right = <A>(z: TreeZipper<A>): Option<TreeZipper<A>> =>
+  z.rights.length === 0
+    ? none
+    : some({
+        focus: z.rights[0],
+        lefts: A.snoc(z.lefts, z.focus),
+        rights: z.rights.slice(1),
+        parents: z.parents
+      })
+
+/**
+ * Applies `f` to the value of the focused node.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const modify = <A>(f: (a: A) => A) => (z: TreeZipper<A>): TreeZipper<A> =>
+  modifyTree((tree: Tree<A>) => ({ value: f(tree.value), forest: tree.forest }))(z)
+
+/**
+ * Replaces the value of the focused node.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const update = <A>(a: A): ((z: TreeZipper<A>) => TreeZipper<A>) => modify(() => a)
+
+/**
+ * Applies `f` to the focused subtree.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const modifyTree = <A>(f: (tree: Tree<A>) => Tree<A>) => (z: TreeZipper<A>): TreeZipper<A> => ({
+  focus: f(z.focus),
+  lefts: z.lefts,
+  rights: z.rights,
+  parents: z.parents
+})
+
+/**
+ * Appends a child to the focused node, the focus does not change.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const insertChild = <A>(tree: Tree<A>): ((z: TreeZipper<A>) => TreeZipper<A>) =>
+  modifyTree((focus) => ({ value: focus.value, forest: A.snoc(focus.forest, tree) }))
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const unsafeUp = <A>(z: TreeZipper<A>): TreeZipper<A> => {
+  const crumb = z.parents[0]
+  return {
+    focus: { value: crumb.value, forest: A.snoc(z.lefts, z.focus).concat(z.rights) },
+    lefts: crumb.lefts,
+    rights: crumb.rights,
+    parents: z.parents.slice(1)
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * @since 2.0.0
  */
+import { ChainRec2C } from './ChainRec'
 import { Functor2 } from './Functor'
 import { Monad2C } from './Monad'
 import { Monoid } from './Monoid'
@@ -151,6 +152,30 @@ export function getMonad<W>(M: Monoid<W>): Monad2C<URI, W> {
   }
 }
 
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getChainRec<W>(M: Monoid<W>): ChainRec2C<URI, W> {
+  const { map, ap, chain } = getMonad(M)
+  return {
+    URI,
+    _E: undefined as any,
+    map,
+    ap,
+    chain,
+    chainRec: (a, f) => () => {
+      let [e, w] = f(a)()
+      while (e._tag === 'Left') {
+        const [e2, w2] = f(e.left)()
+        e = e2
+        w = M.concat(w, w2)
+      }
+      return [e.right, w]
+    }
+  }
+}
+
 /**
  * @category instances
  * @since 2.7.0
@@ -0,0 +1,549 @@
+/**
+ * A `Zipper<A>` is a non empty list with a focused element: the elements on the left of the focus, the focus and the
+ * elements on the right of the focus.
+ *
+ * Moving the focus, reading it and replacing it are cheap, which makes `Zipper` a good fit for cursor-like navigation
+ * and editing of a list.
+ *
+ * Adapted from https://github.com/DavidHarrison/purescript-list-zipper
+ *
+ * @since 2.10.0
+ */
+import { Applicative as ApplicativeHKT, Applicative1 } from './Applicative'
+import { Comonad1 } from './Comonad'
+import { Eq, fromEquals } from './Eq'
+import { Foldable1 } from './Foldable'
+import { identity, pipe } from './function'
+import { Functor1 } from './Functor'
+import { FunctorWithIndex1 } from './FunctorWithIndex'
+import { HKT } from './HKT'
+import { Monoid } from './Monoid'
+import { none, Option, some } from './Option'
+import * as RA from './ReadonlyArray'
+import * as RNEA from './ReadonlyNonEmptyArray'
+import { Semigroup } from './Semigroup'
+import { Show } from './Show'
+import { PipeableTraverse1, Traversable1 } from './Traversable'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category model
+ * @since 2.10.0
+ */
+export interface Zipper<A> {
+  readonly lefts: ReadonlyArray<A>
+  readonly focus: A
+  readonly rights: ReadonlyArray<A>
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const make = <A>(lefts: ReadonlyArray<A>, focus: A, rights: ReadonlyArray<A>): Zipper<A> => ({
+  lefts,
+  focus,
+  rights
+})
+
+const unsafeFromArray = <A>(as: ReadonlyArray<A>, i: number): Zipper<A> => make(as.slice(0, i), as[i], as.slice(i + 1))
+
+const isIndex = <A>(i: number, as: ReadonlyArray<A>): boolean => Number.isInteger(i) && !RA.isOutOfBound(i, as)
+
+/**
+ * Creates a `Zipper` focused on the element at `focusIndex` (by default the first element), returns `None` if the
+ * array is empty or if the index is not an integer or is out of bound.
+ *
+ * @example
+ * import { fromArray, make } from 'fp-ts/Zipper'
+ * import { none, some } from 'fp-ts/Option'
+ *
+ * assert.deepStrictEqual(fromArray([1, 2, 3]), some(make([], 1, [2, 3])))
+ * assert.deepStrictEqual(fromArray([1, 2, 3], 1), some(make([1], 2, [3])))
+ * assert.deepStrictEqual(fromArray([1, 2, 3], 3), none)
+ * assert.deepStrictEqual(fromArray([1, 2, 3], 0.5), none)
+ *
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromArray = <A>(as: ReadonlyArray<A>, focusIndex: number = 0): Option<Zipper<A>> =>
+  isIndex(focusIndex, as) ? some(unsafeFromArray(as, focusIndex)) : none
+
+/**
+ * @category constructors
+ * @since 2.10.0
+ */
+export const fromNonEmptyArray = <A>(nea: RNEA.ReadonlyNonEmptyArray<A>): Zipper<A> =>
+  make(RA.empty, nea[0], nea.slice(1))
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const toReadonlyArray = <A>(fa: Zipper<A>): RNEA.ReadonlyNonEmptyArray<A> =>
+  RNEA.concat(RA.snoc(fa.lefts, fa.focus), fa.rights)
+
+/**
+ * @category destructors
+ * @since 2.10.0
+ */
+export const length = <A>(fa: Zipper<A>): number => fa.lefts.length + 1 + fa.rights.length
+
+/**
+ * Returns the index of the focus.
+ *
+ * @category destructors
+ * @since 2.10.0
+ */
+export const focusIndex = <A>(fa: Zipper<A>): number => fa.lefts.length
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Replaces the focus.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const update = <A>(a: A) => (fa: Zipper<A>): Zipper<A> => make(fa.lefts, a, fa.rights)
+
+/**
+ * Applies `f` to the focus.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const modify = <A>(f: (a: A) => A) => (fa: Zipper<A>): Zipper<A> => make(fa.lefts, f(fa.focus), fa.rights)
+
+/**
+ * Moves the focus to the index returned by `f` (which is called with the current index), returns `None` if the new
+ * index is not an integer or is out of bound.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const move = (f: (currentIndex: number) => number) => <A>(fa: Zipper<A>): Option<Zipper<A>> =>
+  fromArray(toReadonlyArray(fa), f(focusIndex(fa)))
+
+/**
+ * Moves the focus one element to the left.
+ *
+ * @example
+ * import { up, make } from 'fp-ts/Zipper'
+ * import { none, some } from 'fp-ts/Option'
+ *
+ * assert.deepStrictEqual(up(make([1], 2, [3])), some(make([], 1, [2, 3])))
+ * assert.deepStrictEqual(up(make([], 1, [2, 3])), none)
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const up = <A>(fa: Zipper<A>): Option<Zipper<A>> => {
+  const len = fa.lefts.length
+  return len === 0 ? none : some(make(fa.lefts.slice(0, len - 1), fa.lefts[len - 1], RA.cons(fa.focus, fa.rights)))
+}
+
+/**
+ * Moves the focus one element to the right.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const down = <A>(fa: Zipper<A>): Option<Zipper<A>> =>
+  RA.isEmpty(fa.rights) ? none : some(make(RA.snoc(fa.lefts, fa.focus), fa.rights[0], fa.rights.slice(1)))
+
+/**
+ * Moves the focus to the first element.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const start = <A>(fa: Zipper<A>): Zipper<A> =>
+  RA.isEmpty(fa.lefts) ? fa : make(RA.empty, fa.lefts[0], RA.snoc(fa.lefts.slice(1), fa.focus).concat(fa.rights))
+
+/**
+ * Moves the focus to the last element.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const end = <A>(fa: Zipper<A>): Zipper<A> => {
+  const len = fa.rights.length
+  return len === 0
+    ? fa
+    : make(RA.snoc(fa.lefts, fa.focus).concat(fa.rights.slice(0, len - 1)), fa.rights[len - 1], RA.empty)
+}
+
+/**
+ * Inserts an element to the left of the focus and focuses on the new element.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const insertLeft = <A>(a: A) => (fa: Zipper<A>): Zipper<A> => make(fa.lefts, a, RA.cons(fa.focus, fa.rights))
+
+/**
+ * Inserts an element to the right of the focus and focuses on the new element.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const insertRight = <A>(a: A) => (fa: Zipper<A>): Zipper<A> => make(RA.snoc(fa.lefts, fa.focus), a, fa.rights)
+
+/**
+ * Deletes the focus and moves the focus to the element on its left, if there is no such element the focus moves to the
+ * element on the right. Returns `None` if the focus is the only element.
+ *
+ * @example
+ * import { deleteLeft, make } from 'fp-ts/Zipper'
+ * import { none, some } from 'fp-ts/Option'
+ *
+ * assert.deepStrictEqual(deleteLeft(make([1], 2, [3])), some(make([], 1, [3])))
+ * assert.deepStrictEqual(deleteLeft(make([], 1, [2, 3])), some(make([], 2, [3])))
+ * assert.deepStrictEqual(deleteLeft(make([], 1, [])), none)
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const deleteLeft = <A>(fa: Zipper<A>): Option<Zipper<A>> => {
+  const len = fa.lefts.length
+  return fromArray(fa.lefts.concat(fa.rights), len > 0 ? len - 1 : 0)
+}
+
+/**
+ * Deletes the focus and moves the focus to the element on its right, if there is no such element the focus moves to
+ * the element on the left. Returns `None` if the focus is the only element.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const deleteRight = <A>(fa: Zipper<A>): Option<Zipper<A>> => {
+  const len = fa.lefts.length
+  return fromArray(fa.lefts.concat(fa.rights), fa.rights.length > 0 ? len : len - 1)
+}
+
+// -------------------------------------------------------------------------------------
+// non-pipeables
+// -------------------------------------------------------------------------------------
+
+const map_: Functor1<URI>['map'] = (fa, f) => pipe(fa, map(f))
+const mapWithIndex_: FunctorWithIndex1<URI, number>['mapWithIndex'] = (fa, f) => pipe(fa, mapWithIndex(f))
+const ap_: Applicative1<URI>['ap'] = (fab, fa) => pipe(fab, ap(fa))
+const extend_: Comonad1<URI>['extend'] = (wa, f) => pipe(wa, extend(f))
+const reduce_: Foldable1<URI>['reduce'] = (fa, b, f) => pipe(fa, reduce(b, f))
+const foldMap_: Foldable1<URI>['foldMap'] = (M) => {
+  const foldMapM = foldMap(M)
+  return (fa, f) => pipe(fa, foldMapM(f))
+}
+const reduceRight_: Foldable1<URI>['reduceRight'] = (fa, b, f) => pipe(fa, reduceRight(b, f))
+const traverse_ = <F>(F: ApplicativeHKT<F>): (<A, B>(ta: Zipper<A>, f: (a: A) => HKT<F, B>) => HKT<F, Zipper<B>>) => {
+  const traverseF = traverse(F)
+  return (ta, f) => pipe(ta, traverseF(f))
+}
+
+// -------------------------------------------------------------------------------------
+// pipeables
+// -------------------------------------------------------------------------------------
+
+/**
+ * `map` can be used to turn functions `(a: A) => B` into functions `(fa: F<A>) => F<B>` whose argument and return types
+ * use the type constructor `F` to represent some computational context.
+ *
+ * @category Functor
+ * @since 2.10.0
+ */
+export const map: <A, B>(f: (a: A) => B) => (fa: Zipper<A>) => Zipper<B> = (f) => (fa) =>
+  make(
+    fa.lefts.map((a) => f(a)),
+    f(fa.focus),
+    fa.rights.map((a) => f(a))
+  )
+
+/**
+ * @category FunctorWithIndex
+ * @since 2.10.0
+ */
+export const mapWithIndex: <A, B>(f: (i: number, a: A) => B) => (fa: Zipper<A>) => Zipper<B> = (f) => (fa) => {
+  const l = fa.lefts.length
+  return make(
+    fa.lefts.map((a, i) => f(i, a)),
+    f(l, fa.focus),
+    fa.rights.map((a, i) => f(l + 1 + i, a))
+  )
+}
+
+/**
+ * Apply a function to an argument under a type constructor.
+ *
+ * Every function is applied to every argument, in the same order as `ReadonlyArray`'s `ap`, and the result is focused
+ * on the focused function applied to the focused argument.
+ *
+ * @example
+ * import { ap, make } from 'fp-ts/Zipper'
+ * import { pipe } from 'fp-ts/function'
+ *
+ * const double = (n: number) => n * 2
+ * const inc = (n: number) => n + 1
+ * assert.deepStrictEqual(pipe(make([double], inc, []), ap(make([], 1, [2]))), make([2, 4], 2, [3]))
+ *
+ * @category Apply
+ * @since 2.10.0
+ */
+export const ap: <A>(fa: Zipper<A>) => <B>(fab: Zipper<(a: A) => B>) => Zipper<B> = (fa) => (fab) => {
+  const as = toReadonlyArray(fa)
+  return unsafeFromArray(
+    pipe(
+      toReadonlyArray(fab),
+      RNEA.chain((f) => pipe(as, RNEA.map(f)))
+    ),
+    focusIndex(fab) * as.length + focusIndex(fa)
+  )
+}
+
+/**
+ * Wrap a value into the type constructor.
+ *
+ * @category Applicative
+ * @since 2.10.0
+ */
+export const of: Applicative1<URI>['of'] = (focus) => make(RA.empty, focus, RA.empty)
+
+/**
+ * @category Extend
+ * @since 2.10.0
+ */
+export const extend: <A, B>(f: (wa: Zipper<A>) => B) => (wa: Zipper<A>) => Zipper<B> = (f) => (wa) => {
+  const as = toReadonlyArray(wa)
+  const l = wa.lefts.length
+  return make(
+    wa.lefts.map((_, i) => f(unsafeFromArray(as, i))),
+    f(wa),
+    wa.rights.map((_, i) => f(unsafeFromArray(as, l + 1 + i)))
+  )
+}
+
+/**
+ * Derivable from `Extend`.
+ *
+ * @category combinators
+ * @since 2.10.0
+ */
+export const duplicate: <A>(wa: Zipper<A>) => Zipper<Zipper<A>> =
+  /*#__PURE__*/
+  extend(identity)
+
+/**
+ * @category Extract
+ * @since 2.10.0
+ */
+export const extract: <A>(wa: Zipper<A>) => A = (wa) => wa.focus
+
+/**
+ * @category Foldable
+ * @since 2.10.0
+ */
+export const reduce: <A, B>(b: B, f: (b: B, a: A) => B) => (fa: Zipper<A>) => B = (b, f) => (fa) =>
+  fa.rights.reduce(f, f(fa.lefts.reduce(f, b), fa.focus))
+
+/**
+ * @category Foldable
+ * @since 2.10.0
+ */
+export const foldMap: <M>(M: Monoid<M>) => <A>(f: (a: A) => M) => (fa: Zipper<A>) => M = (M) => (f) => (fa) =>
+  M.concat(
+    M.concat(
+      fa.lefts.reduce((m, a) => M.concat(m, f(a)), M.empty),
+      f(fa.focus)
+    ),
+    fa.rights.reduce((m, a) => M.concat(m, f(a)), M.empty)
+  )
+
+/**
+ * @category Foldable
+ * @since 2.10.0
+ */
+export const reduceRight: <A, B>(b: B, f: (a: A, b: B) => B) => (fa: Zipper<A>) => B = (b, f) => (fa) =>
+  fa.lefts.reduceRight(
+    (b, a) => f(a, b),
+    f(
+      fa.focus,
+      fa.rights.reduceRight((b, a) => f(a, b), b)
+    )
+  )
+
+/**
+ * @since 2.10.0
+ */
+export const traverse: PipeableTraverse1<URI> = <F>(
+  F: ApplicativeHKT<F>
+): (<A, B>(f: (a: A) => HKT<F, B>) => (ta: Zipper<A>) => HKT<F, Zipper<B>>) => {
+  const traverseF = RA.traverse(F)
+  return <A, B>(f: (a: A) => HKT<F, B>) => (ta: Zipper<A>) =>
+    F.ap(
+      F.ap(
+        F.map(pipe(ta.lefts, traverseF(f)), (lefts) => (focus: B) => (rights: ReadonlyArray<B>) =>
+          make(lefts, focus, rights)
+        ),
+        f(ta.focus)
+      ),
+      pipe(ta.rights, traverseF(f))
+    )
+}
+
+/**
+ * @since 2.10.0
+ */
+export const sequence: Traversable1<URI>['sequence'] = <F>(
+  F: ApplicativeHKT<F>
+): (<A>(ta: Zipper<HKT<F, A>>) => HKT<F, Zipper<A>>) => traverse(F)(identity)
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const URI = 'Zipper'
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export type URI = typeof URI
+
+declare module './HKT' {
+  interface URItoKind<A> {
+    readonly [URI]: Zipper<A>
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getShow<A>(S: Show<A>): Show<Zipper<A>> {
+  const SA = RA.getShow(S)
+  return {
+    show: (fa) => `Zipper(${SA.show(fa.lefts)}, ${S.show(fa.focus)}, ${SA.show(fa.rights)})`
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getEq<A>(E: Eq<A>): Eq<Zipper<A>> {
+  const EA = RA.getEq(E)
+  return fromEquals(
+    (x, y) => E.equals(x.focus, y.focus) && EA.equals(x.lefts, y.lefts) && EA.equals(x.rights, y.rights)
+  )
+}
+
+/**
+ * Combines every element of the first zipper with every element of the second one using `S`, see `ap`.
+ *
+ * @category instances
+ * @since 2.10.0
+ */
+export function getSemigroup<A>(S: Semigroup<A>): Semigroup<Zipper<A>> {
+  return {
+    concat: (x, y) =>
+      pipe(
+        x,
+        map((a) => (b: A) => S.concat(a, b)),
+        ap(y)
+      )
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export function getMonoid<A>(M: Monoid<A>): Monoid<Zipper<A>> {
+  return {
+    concat: getSemigroup(M).concat,
+    empty: of(M.empty)
+  }
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Functor: Functor1<URI> = {
+  URI,
+  map: map_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const FunctorWithIndex: FunctorWithIndex1<URI, number> = {
+  URI,
+  map: map_,
+  mapWithIndex: mapWithIndex_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Applicative: Applicative1<URI> = {
+  URI,
+  map: map_,
+  ap: ap_,
+  of
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Foldable: Foldable1<URI> = {
+  URI,
+  reduce: reduce_,
+  foldMap: foldMap_,
+  reduceRight: reduceRight_
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Traversable: Traversable1<URI> = {
+  URI,
+  map: map_,
+  reduce: reduce_,
+  foldMap: foldMap_,
+  reduceRight: reduceRight_,
+  traverse: traverse_,
+  sequence
+}
+
+/**
+ * @category instances
+ * @since 2.10.0
+ */
+export const Comonad: Comonad1<URI> = {
+  URI,
+  map: map_,
+  extend: extend_,
+  extract
+}
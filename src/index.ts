@@ -15,26 +15,35 @@ import * as boundedDistributiveLattice from './BoundedDistributiveLattice'
 import * as boundedJoinSemilattice from './BoundedJoinSemilattice'
 import * as boundedLattice from './BoundedLattice'
 import * as boundedMeetSemilattice from './BoundedMeetSemilattice'
+import * as cancellableTask from './CancellableTask'
 import * as category from './Category'
 import * as chain from './Chain'
 import * as chainRec from './ChainRec'
 import * as choice from './Choice'
 import * as comonad from './Comonad'
+import * as clock from './Clock'
 import * as compactable from './Compactable'
+import * as codec from './Codec'
 import * as console from './Console'
 import * as const_ from './Const'
+import * as cont from './Cont'
 import * as contravariant from './Contravariant'
 import * as date from './Date'
+import * as decoder from './Decoder'
+import * as deferred from './Deferred'
 import * as distributiveLattice from './DistributiveLattice'
 import * as either from './Either'
 import * as eitherT from './EitherT'
+import * as encoder from './Encoder'
 import * as eq from './Eq'
+import * as eval_ from './Eval'
 import * as extend from './Extend'
 import * as field from './Field'
 import * as filterable from './Filterable'
 import * as filterableWithIndex from './FilterableWithIndex'
 import * as foldable from './Foldable'
 import * as foldableWithIndex from './FoldableWithIndex'
+import * as free from './Free'
 import * as function_ from './function'
 import * as functor from './Functor'
 import * as functorWithIndex from './FunctorWithIndex'
@@ -45,8 +54,11 @@ import * as identity from './Identity'
 import * as invariant from './Invariant'
 import * as io from './IO'
 import * as ioEither from './IOEither'
+import * as ioOption from './IOOption'
 import * as ioRef from './IORef'
+import * as ioThese from './IOThese'
 import * as joinSemilattice from './JoinSemilattice'
+import * as laws from './Laws'
 import * as lattice from './Lattice'
 import * as magma from './Magma'
 import * as map from './Map'
@@ -56,19 +68,27 @@ import * as monadIO from './MonadIO'
 import * as monadTask from './MonadTask'
 import * as monadThrow from './MonadThrow'
 import * as monoid from './Monoid'
+import * as mutex from './Mutex'
 import * as nonEmptyArray from './NonEmptyArray'
 import * as option from './Option'
 import * as optionT from './OptionT'
 import * as ord from './Ord'
+import * as ordMap from './OrdMap'
+import * as ordSet from './OrdSet'
 import * as ordering from './Ordering'
 import * as pipeable from './pipeable'
 import * as profunctor from './Profunctor'
 import * as random from './Random'
 import * as reader from './Reader'
 import * as readerEither from './ReaderEither'
+import * as readerIO from './ReaderIO'
 import * as readerT from './ReaderT'
 import * as readerTask from './ReaderTask'
 import * as readerTaskEither from './ReaderTaskEither'
+import * as readerTaskThese from './ReaderTaskThese'
+import * as readerTaskWriter from './ReaderTaskWriter'
+import * as readerThese from './ReaderThese'
+import * as readerWriterState from './ReaderWriterState'
 import * as readonlyArray from './ReadonlyArray'
 import * as readonlyMap from './ReadonlyMap'
 import * as readonlyNonEmptyArray from './ReadonlyNonEmptyArray'
@@ -76,7 +96,9 @@ import * as readonlyRecord from './ReadonlyRecord'
 import * as readonlySet from './ReadonlySet'
 import * as readonlyTuple from './ReadonlyTuple'
 import * as record from './Record'
+import * as retryPolicy from './RetryPolicy'
 import * as ring from './Ring'
+import * as semaphore from './Semaphore'
 import * as semigroup from './Semigroup'
 import * as semigroupoid from './Semigroupoid'
 import * as semiring from './Semiring'
@@ -89,19 +111,24 @@ import * as store from './Store'
 import * as strong from './Strong'
 import * as task from './Task'
 import * as taskEither from './TaskEither'
+import * as taskOption from './TaskOption'
+import * as taskRef from './TaskRef'
 import * as taskThese from './TaskThese'
+import * as taskWriter from './TaskWriter'
 import * as these from './These'
 import * as theseT from './TheseT'
 import * as traced from './Traced'
 import * as traversable from './Traversable'
 import * as traversableWithIndex from './TraversableWithIndex'
 import * as tree from './Tree'
+import * as treeZipper from './TreeZipper'
 import * as tuple from './Tuple'
 import * as unfoldable from './Unfoldable'
 import * as validationT from './ValidationT'
 import * as witherable from './Witherable'
 import * as writer from './Writer'
 import * as writerT from './WriterT'
+import * as zipper from './Zipper'
 export {
   /**
    * @since 2.0.0
@@ -155,6 +182,10 @@ export {
    * @since 2.0.0
    */
   boundedMeetSemilattice,
+  /**
+   * @since 2.10.0
+   */
+  cancellableTask,
   /**
    * @since 2.0.0
    */
@@ -175,10 +206,18 @@ export {
    * @since 2.0.0
    */
   comonad,
+  /**
+   * @since 2.10.0
+   */
+  clock,
   /**
    * @since 2.0.0
    */
   compactable,
+  /**
+   * @since 2.10.0
+   */
+  codec,
   /**
    * @since 2.0.0
    */
@@ -187,6 +226,10 @@ export {
    * @since 2.0.0
    */
   const_ as const,
+  /**
+   * @since 2.10.0
+   */
+  cont,
   /**
    * @since 2.0.0
    */
@@ -195,6 +238,14 @@ export {
    * @since 2.0.0
    */
   date,
+  /**
+   * @since 2.10.0
+   */
+  decoder,
+  /**
+   * @since 2.10.0
+   */
+  deferred,
   /**
    * @since 2.0.0
    */
@@ -207,6 +258,10 @@ export {
    * @since 2.0.0
    */
   eitherT,
+  /**
+   * @since 2.10.0
+   */
+  eval_ as eval,
   /**
    * @since 2.0.0
    */
@@ -231,6 +286,10 @@ export {
    * @since 2.0.0
    */
   foldableWithIndex,
+  /**
+   * @since 2.10.0
+   */
+  free,
   /**
    * @since 2.0.0
    */
@@ -271,14 +330,26 @@ export {
    * @since 2.0.0
    */
   ioEither,
+  /**
+   * @since 2.10.0
+   */
+  ioOption,
   /**
    * @since 2.0.0
    */
   ioRef,
+  /**
+   * @since 2.10.0
+   */
+  ioThese,
   /**
    * @since 2.0.0
    */
   joinSemilattice,
+  /**
+   * @since 2.10.0
+   */
+  laws,
   /**
    * @since 2.0.0
    */
@@ -315,6 +386,10 @@ export {
    * @since 2.0.0
    */
   monoid,
+  /**
+   * @since 2.10.0
+   */
+  mutex,
   /**
    * @since 2.0.0
    */
@@ -331,6 +406,14 @@ export {
    * @since 2.0.0
    */
   ord,
+  /**
+   * @since 2.10.0
+   */
+  ordMap,
+  /**
+   * @since 2.10.0
+   */
+  ordSet,
   /**
    * @since 2.0.0
    */
@@ -355,6 +438,10 @@ export {
    * @since 2.0.0
    */
   readerEither,
+  /**
+   * @since 2.10.0
+   */
+  readerIO,
   /**
    * @since 2.0.0
    */
@@ -363,6 +450,22 @@ export {
    * @since 2.0.0
    */
   readerTaskEither,
+  /**
+   * @since 2.10.0
+   */
+  readerTaskThese,
+  /**
+   * @since 2.10.0
+   */
+  readerTaskWriter,
+  /**
+   * @since 2.10.0
+   */
+  readerThese,
+  /**
+   * @since 2.10.0
+   */
+  readerWriterState,
   /**
    * @since 2.5.0
    */
@@ -395,10 +498,18 @@ export {
    * @since 2.0.0
    */
   record,
+  /**
+   * @since 2.10.0
+   */
+  retryPolicy,
   /**
    * @since 2.0.0
    */
   ring,
+  /**
+   * @since 2.10.0
+   */
+  semaphore,
   /**
    * @since 2.0.0
    */
@@ -415,6 +526,10 @@ export {
    * @since 2.0.0
    */
   set,
+  /**
+   * @since 2.10.0
+   */
+  encoder,
   /**
    * @since 2.0.0
    */
@@ -451,10 +566,22 @@ export {
    * @since 2.0.0
    */
   taskEither,
+  /**
+   * @since 2.10.0
+   */
+  taskOption,
+  /**
+   * @since 2.10.0
+   */
+  taskRef,
   /**
    * @since 2.4.0
    */
   taskThese,
+  /**
+   * @since 2.10.0
+   */
+  taskWriter,
   /**
    * @since 2.0.0
    */
@@ -479,6 +606,10 @@ export {
    * @since 2.0.0
    */
   tree,
+  /**
+   * @since 2.10.0
+   */
+  treeZipper,
   /**
    * @since 2.0.0
    */
@@ -502,5 +633,9 @@ export {
   /**
    * @since 2.4.0
    */
-  writerT
+  writerT,
+  /**
+   * @since 2.10.0
+   */
+  zipper
 }
@@ -0,0 +1,343 @@
+import * as assert from 'assert'
+import * as _ from '../src/CancellableTask'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+import * as I from '../src/IO'
+import * as O from '../src/Option'
+import * as T from '../src/Task'
+import * as TE from '../src/TaskEither'
+import { assertPar, assertSeq } from './util'
+
+const delay = <A>(millis: number, a: A): _.CancellableTask<A> => _.delay(millis)(_.of(a))
+
+const run = <A>(fa: _.CancellableTask<A>): Promise<A> => _.toTask(fa)()
+
+const sleep = (millis: number): Promise<void> => T.delay(millis)(T.of(undefined))()
+
+describe('CancellableTask', () => {
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', async () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(await run(pipe(delay(1, 2), _.map(double))), 4)
+  })
+
+  it('ap', async () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(await run(pipe(delay(1, double), _.ap(delay(0, 2)))), 4)
+  })
+
+  it('apFirst', async () => {
+    assert.deepStrictEqual(await run(pipe(_.of('a'), _.apFirst(_.of('b')))), 'a')
+  })
+
+  it('apSecond', async () => {
+    assert.deepStrictEqual(await run(pipe(_.of('a'), _.apSecond(_.of('b')))), 'b')
+  })
+
+  it('chain', async () => {
+    const f = (n: number): _.CancellableTask<number> => _.of(n * 2)
+    assert.deepStrictEqual(await run(pipe(delay(1, 2), _.chain(f))), 4)
+  })
+
+  it('chainFirst', async () => {
+    const f = (n: number): _.CancellableTask<number> => _.of(n * 2)
+    assert.deepStrictEqual(await run(pipe(delay(1, 2), _.chainFirst(f))), 2)
+  })
+
+  it('flatten', async () => {
+    assert.deepStrictEqual(await run(pipe(_.of(_.of('a')), _.flatten)), 'a')
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('fromIO', async () => {
+    assert.deepStrictEqual(await run(_.fromIO(() => 1)), 1)
+  })
+
+  it('fromTask', async () => {
+    assert.deepStrictEqual(await run(_.fromTask(T.of(1))), 1)
+  })
+
+  it('fromTaskEither', async () => {
+    assert.deepStrictEqual(await run(_.fromTaskEither(TE.left('a'))), E.left('a'))
+  })
+
+  it('toTaskEither', async () => {
+    assert.deepStrictEqual(await _.toTaskEither(_.of(E.right(1)))(), E.right(1))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('chainIOK', async () => {
+    const f = (s: string) => I.of(s.length)
+    assert.deepStrictEqual(await run(pipe(_.of('a'), _.chainIOK(f))), 1)
+  })
+
+  it('chainTaskK', async () => {
+    const f = (s: string) => T.of(s.length)
+    assert.deepStrictEqual(await run(pipe(_.of('a'), _.chainTaskK(f))), 1)
+  })
+
+  describe('delay', () => {
+    it('should clear the timer when cancelled', async () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<string> = []
+      const controller = _.newController()
+      // tslint:disable-next-line: no-floating-promises
+      _.delay(10)(_.fromIO(() => log.push('a')))(controller.signal)
+      controller.abort()
+      await sleep(20)
+      assert.deepStrictEqual(log, [])
+    })
+
+    it('should not start when the signal is already aborted', async () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<string> = []
+      const controller = _.newController()
+      controller.abort()
+      // tslint:disable-next-line: no-floating-promises
+      _.delay(1)(_.fromIO(() => log.push('a')))(controller.signal)
+      await sleep(10)
+      assert.deepStrictEqual(log, [])
+    })
+  })
+
+  it('chain should stop when cancelled', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const controller = _.newController()
+    // tslint:disable-next-line: no-floating-promises
+    pipe(
+      _.fromIO(() => log.push('a')),
+      _.chain(() => _.fromIO(() => log.push('b')))
+    )(controller.signal)
+    controller.abort()
+    await sleep(10)
+    assert.deepStrictEqual(log, ['a'])
+  })
+
+  it('newController', () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const controller = _.newController()
+    const a = () => log.push('a')
+    const b = () => log.push('b')
+    controller.signal.addEventListener('abort', a)
+    controller.signal.addEventListener('abort', b)
+    controller.signal.removeEventListener('abort', a)
+    assert.deepStrictEqual(controller.signal.aborted, false)
+    controller.abort()
+    controller.abort()
+    assert.deepStrictEqual(controller.signal.aborted, true)
+    assert.deepStrictEqual(log, ['b'])
+  })
+
+  it('should accept an AbortSignal', () => {
+    const f = (signal: AbortSignal): Promise<number> => _.of(1)(signal)
+    assert.deepStrictEqual(typeof f, 'function')
+  })
+
+  it('uncancellable', async () => {
+    const controller = _.newController()
+    const fa = _.uncancellable(delay(1, 'a'))(controller.signal)
+    controller.abort()
+    assert.deepStrictEqual(await fa, 'a')
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('ApplicativeSeq', async () => {
+    await assertSeq(_.ApplicativeSeq, { fromTask: _.fromTask }, run)
+  })
+
+  it('ApplicativePar', async () => {
+    await assertPar(_.ApplicativePar, { fromTask: _.fromTask }, run)
+  })
+
+  it('Functor', async () => {
+    assert.deepStrictEqual(await run(_.Functor.map(_.of(1), (n) => n + 1)), 2)
+  })
+
+  it('Monad', async () => {
+    assert.deepStrictEqual(await run(_.Monad.chain(_.of(1), (n) => _.of(n + 1))), 2)
+  })
+
+  describe('getRaceMonoid', () => {
+    const M = _.getRaceMonoid<string>()
+
+    it('concat', async () => {
+      assert.deepStrictEqual(await run(M.concat(delay(10, 'a'), delay(1, 'b'))), 'b')
+      assert.deepStrictEqual(await run(M.concat(delay(1, 'a'), delay(10, 'b'))), 'a')
+    })
+
+    it('empty (right)', async () => {
+      assert.deepStrictEqual(await run(M.concat(delay(10, 'a'), M.empty)), 'a')
+    })
+
+    it('empty (left)', async () => {
+      assert.deepStrictEqual(await run(M.concat(M.empty, delay(10, 'a'))), 'a')
+    })
+
+    it('should cancel the loser', async () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<string> = []
+      const loser = pipe(
+        delay(10, 'a'),
+        _.chainFirst(() => _.fromIO(() => log.push('a')))
+      )
+      assert.deepStrictEqual(await run(M.concat(loser, delay(1, 'b'))), 'b')
+      await sleep(20)
+      assert.deepStrictEqual(log, [])
+    })
+
+    it('should cancel both branches when the signal is aborted', async () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<string> = []
+      const controller = _.newController()
+      // tslint:disable-next-line: no-floating-promises
+      M.concat(
+        _.delay(1)(_.fromIO(() => String(log.push('a')))),
+        _.delay(1)(_.fromIO(() => String(log.push('b'))))
+      )(controller.signal)
+      controller.abort()
+      // tslint:disable-next-line: no-floating-promises
+      M.concat(
+        _.delay(1)(_.fromIO(() => String(log.push('c')))),
+        _.delay(1)(_.fromIO(() => String(log.push('d'))))
+      )(controller.signal)
+      await sleep(10)
+      assert.deepStrictEqual(log, [])
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // utils
+  // -------------------------------------------------------------------------------------
+
+  describe('bracket', () => {
+    // tslint:disable-next-line: readonly-array
+    let log: Array<string> = []
+
+    const acquireFailure = _.of(E.left('acquire failure'))
+    const acquireSuccess = _.of(E.right({ res: 'acquire success' }))
+    const useSuccess = () => delay(1, E.right('use success'))
+    const useFailure = () => delay(1, E.left('use failure'))
+    const releaseFailure = () =>
+      _.fromIO(() => {
+        log.push('release failure')
+        return E.left('release failure')
+      })
+    const releaseSuccess = (_r: unknown, e: O.Option<E.Either<string, string>>) =>
+      _.fromIO(() => {
+        log.push(O.isNone(e) ? 'release (cancelled)' : 'release success')
+        return E.right(undefined)
+      })
+
+    beforeEach(() => {
+      log = []
+    })
+
+    it('should return the acquire error if acquire fails', async () => {
+      const e = await run(_.bracket(acquireFailure, useSuccess, releaseSuccess))
+      assert.deepStrictEqual(e, E.left('acquire failure'))
+      assert.deepStrictEqual(log, [])
+    })
+
+    it('body and release must not be called if acquire fails', async () => {
+      await run(_.bracket(acquireFailure, useSuccess, releaseSuccess))
+      assert.deepStrictEqual(log, [])
+    })
+
+    it('should return the use error if use fails and release does not', async () => {
+      const e = await run(_.bracket(acquireSuccess, useFailure, releaseSuccess))
+      assert.deepStrictEqual(e, E.left('use failure'))
+      assert.deepStrictEqual(log, ['release success'])
+    })
+
+    it('should return the release error if both use and release fail', async () => {
+      const e = await run(_.bracket(acquireSuccess, useFailure, releaseFailure))
+      assert.deepStrictEqual(e, E.left('release failure'))
+      assert.deepStrictEqual(log, ['release failure'])
+    })
+
+    it('should return the release error if use succeeds and release fails', async () => {
+      const e = await run(_.bracket(acquireSuccess, useSuccess, releaseFailure))
+      assert.deepStrictEqual(e, E.left('release failure'))
+      assert.deepStrictEqual(log, ['release failure'])
+    })
+
+    it('should return the use result if use and release succeed', async () => {
+      const e = await run(_.bracket(acquireSuccess, useSuccess, releaseSuccess))
+      assert.deepStrictEqual(e, E.right('use success'))
+      assert.deepStrictEqual(log, ['release success'])
+    })
+
+    it('should call release when cancelled during use', async () => {
+      const controller = _.newController()
+      // tslint:disable-next-line: no-floating-promises
+      _.bracket(acquireSuccess, () => delay(10, E.right('use success')), releaseSuccess)(controller.signal)
+      await sleep(1)
+      controller.abort()
+      await sleep(20)
+      assert.deepStrictEqual(log, ['release (cancelled)'])
+    })
+
+    it('should call release when cancelled during acquire', async () => {
+      const controller = _.newController()
+      // tslint:disable-next-line: no-floating-promises
+      _.bracket(_.delay(1)(acquireSuccess), useSuccess, releaseSuccess)(controller.signal)
+      controller.abort()
+      await sleep(10)
+      assert.deepStrictEqual(log, ['release (cancelled)'])
+    })
+
+    it('should call release only once if use ignores the signal', async () => {
+      const controller = _.newController()
+      // tslint:disable-next-line: no-floating-promises
+      _.bracket(
+        acquireSuccess,
+        () => _.fromTask(T.delay(10)(T.of(E.right('use success')))),
+        releaseSuccess
+      )(controller.signal)
+      await sleep(1)
+      controller.abort()
+      await sleep(20)
+      assert.deepStrictEqual(log, ['release (cancelled)'])
+    })
+  })
+
+  it('never', async () => {
+    const M = _.getRaceMonoid<string>()
+    assert.deepStrictEqual(await run(M.concat(_.never, _.of('a'))), 'a')
+  })
+
+  // -------------------------------------------------------------------------------------
+  // do notation
+  // -------------------------------------------------------------------------------------
+
+  it('do notation', async () => {
+    assert.deepStrictEqual(
+      await run(
+        pipe(
+          _.Do,
+          _.bind('a', () => _.of(1)),
+          _.bind('b', () => _.of('b'))
+        )
+      ),
+      { a: 1, b: 'b' }
+    )
+  })
+
+  it('apS', async () => {
+    assert.deepStrictEqual(await run(pipe(_.of(1), _.bindTo('a'), _.apS('b', _.of('b')))), { a: 1, b: 'b' })
+  })
+})
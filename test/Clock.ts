@@ -0,0 +1,70 @@
+import * as assert from 'assert'
+import * as _ from '../src/Clock'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+import * as R from '../src/Reader'
+import * as RTE from '../src/ReaderTaskEither'
+
+describe('Clock', () => {
+  it('systemClock', () => {
+    const m1 = _.systemClock.now()
+    const m2 = new Date().getTime()
+    assert.deepStrictEqual(m1 <= m2, true)
+  })
+
+  describe('TestClock', () => {
+    it('set', () => {
+      const clock = _.newTestClock(1)()
+      assert.deepStrictEqual(clock.now(), 1)
+      clock.set(10)()
+      assert.deepStrictEqual(clock.now(), 10)
+    })
+
+    it('advance', () => {
+      const clock = _.newTestClock(1)()
+      clock.advance(10)()
+      clock.advance(10)()
+      assert.deepStrictEqual(clock.now(), 21)
+    })
+
+    it('pipe', () => {
+      const clock = new _.TestClock(0)
+      pipe(1, clock.set)()
+      pipe(2, clock.advance)()
+      assert.deepStrictEqual(clock.now(), 3)
+    })
+  })
+
+  it('now', () => {
+    const clock = _.newTestClock(1)()
+    assert.deepStrictEqual(_.now(clock)(), 1)
+  })
+
+  it('currentDate', () => {
+    const clock = _.newTestClock(1)()
+    assert.deepStrictEqual(_.currentDate(clock)(), new Date(1))
+  })
+
+  it('Reader', () => {
+    const elapsed = (since: number): R.Reader<_.Clock, number> =>
+      pipe(
+        _.now,
+        R.map((now) => now() - since)
+      )
+    const clock = _.newTestClock(1000)()
+    assert.deepStrictEqual(elapsed(100)(clock), 900)
+  })
+
+  it('ReaderTaskEither', async () => {
+    interface Env {
+      readonly clock: _.Clock
+    }
+    const program = pipe(
+      RTE.asks((env: Env) => env.clock),
+      RTE.chain((clock) => RTE.rightIO(_.currentDate(clock)))
+    )
+    const clock = _.newTestClock(0)()
+    clock.advance(1000)()
+    assert.deepStrictEqual(await program({ clock })(), E.right(new Date(1000)))
+  })
+})
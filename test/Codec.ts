@@ -0,0 +1,213 @@
+import * as assert from 'assert'
+import * as _ from '../src/Codec'
+import * as D from '../src/Decoder'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+import * as O from '../src/Option'
+import { ordString } from '../src/Ord'
+import * as TH from '../src/These'
+
+// checks that `a` survives a trip through `JSON.stringify` / `JSON.parse`
+const roundtrip = <C extends _.Codec<unknown, unknown, any>>(codec: C, a: _.TypeOf<C>): void =>
+  assert.deepStrictEqual(codec.decode(JSON.parse(JSON.stringify(codec.encode(a)))), E.right(a))
+
+const drawn = <A>(result: E.Either<D.DecodeError, A>): E.Either<string, A> => pipe(result, E.mapLeft(D.draw))
+
+const NumberFromString: _.Codec<unknown, string, number> = _.make(
+  pipe(
+    D.string,
+    D.parse((s) => {
+      const n = parseFloat(s)
+      return isNaN(n) ? D.failure(s, 'NumberFromString') : D.success(n)
+    })
+  ),
+  { encode: String }
+)
+
+describe('Codec', () => {
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('literal', () => {
+    roundtrip(_.literal('a', 1), 'a')
+    roundtrip(_.literal('a', 1), 1)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // primitives
+  // -------------------------------------------------------------------------------------
+
+  it('string', () => {
+    roundtrip(_.string, 'a')
+  })
+
+  it('number', () => {
+    roundtrip(_.number, 1.5)
+  })
+
+  it('boolean', () => {
+    roundtrip(_.boolean, true)
+  })
+
+  it('date', () => {
+    assert.deepStrictEqual(_.date.encode(new Date(Date.UTC(2020, 1, 29, 10))), '2020-02-29T10:00:00.000Z')
+    roundtrip(_.date, new Date(Date.UTC(2020, 1, 29, 10, 30, 15, 123)))
+    assert.deepStrictEqual(
+      drawn(_.date.decode('2021-02-29')),
+      E.left('cannot decode "2021-02-29", should be ISODateString')
+    )
+    assert.deepStrictEqual(drawn(_.date.decode(0)), E.left('cannot decode 0, should be string'))
+    assert.deepStrictEqual(_.date.encode(new Date(NaN)), 'Invalid Date')
+    assert.deepStrictEqual(E.isLeft(_.date.decode(_.date.encode(new Date(NaN)))), true)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('struct', () => {
+    const codec = _.struct({ a: NumberFromString, b: _.boolean })
+    assert.deepStrictEqual(codec.encode({ a: 1, b: true }), { a: '1', b: true })
+    roundtrip(codec, { a: 1, b: true })
+  })
+
+  it('partial', () => {
+    const codec = _.partial({ a: NumberFromString, b: _.boolean })
+    assert.deepStrictEqual(codec.encode({ a: 1 }), { a: '1' })
+    roundtrip(codec, {})
+    roundtrip(codec, { a: 1, b: true })
+  })
+
+  it('array', () => {
+    const codec = _.array(NumberFromString)
+    assert.deepStrictEqual(codec.encode([1, 2]), ['1', '2'])
+    roundtrip(codec, [])
+    roundtrip(codec, [1, 2])
+  })
+
+  it('tuple', () => {
+    const codec = _.tuple(NumberFromString, _.string)
+    assert.deepStrictEqual(codec.encode([1, 'a']), ['1', 'a'])
+    roundtrip(codec, [1, 'a'])
+  })
+
+  it('record', () => {
+    const codec = _.record(NumberFromString)
+    assert.deepStrictEqual(codec.encode({ a: 1 }), { a: '1' })
+    roundtrip(codec, { a: 1, b: 2 })
+  })
+
+  it('nullable', () => {
+    const codec = _.nullable(NumberFromString)
+    assert.deepStrictEqual(codec.encode(null), null)
+    roundtrip(codec, null)
+    roundtrip(codec, 1)
+  })
+
+  it('lazy', () => {
+    interface A {
+      readonly a: number
+      readonly as: ReadonlyArray<A>
+    }
+    interface O {
+      readonly a: string
+      readonly as: ReadonlyArray<O>
+    }
+    const codec: _.Codec<unknown, O, A> = _.lazy('A', () => _.struct({ a: NumberFromString, as: _.array(codec) }))
+    roundtrip(codec, { a: 1, as: [{ a: 2, as: [] }] })
+  })
+
+  it('refine', () => {
+    const codec = pipe(
+      _.string,
+      _.refine((s): s is string => s.length > 0, 'NonEmptyString')
+    )
+    roundtrip(codec, 'a')
+    assert.deepStrictEqual(drawn(codec.decode('')), E.left('cannot decode "", should be NonEmptyString'))
+  })
+
+  it('option', () => {
+    const codec = _.option(NumberFromString)
+    assert.deepStrictEqual(codec.encode(O.some(1)), O.some('1'))
+    roundtrip(codec, O.none)
+    roundtrip(codec, O.some(1))
+    assert.deepStrictEqual(E.isLeft(codec.decode({ _tag: 'Some' })), true)
+  })
+
+  it('either', () => {
+    const codec = _.either(_.string, NumberFromString)
+    assert.deepStrictEqual(codec.encode(E.right(1)), E.right('1'))
+    roundtrip(codec, E.left('a'))
+    roundtrip(codec, E.right(1))
+    assert.deepStrictEqual(E.isLeft(codec.decode({ _tag: 'Left', left: 1 })), true)
+  })
+
+  it('these', () => {
+    const codec = _.these(_.string, NumberFromString)
+    assert.deepStrictEqual(codec.encode(TH.both('a', 1)), TH.both('a', '1'))
+    roundtrip(codec, TH.left('a'))
+    roundtrip(codec, TH.right(1))
+    roundtrip(codec, TH.both('a', 1))
+    assert.deepStrictEqual(E.isLeft(codec.decode({ _tag: 'Both', left: 'a' })), true)
+  })
+
+  it('nonEmptyArray', () => {
+    const codec = _.nonEmptyArray(NumberFromString)
+    assert.deepStrictEqual(codec.encode([1, 2]), ['1', '2'])
+    roundtrip(codec, [1, 2])
+    assert.deepStrictEqual(drawn(codec.decode([])), E.left('cannot decode [], should be NonEmptyArray'))
+  })
+
+  it('readonlyMap', () => {
+    const codec = _.readonlyMap(ordString, _.string, NumberFromString)
+    assert.deepStrictEqual(
+      codec.encode(
+        new Map([
+          ['b', 2],
+          ['a', 1]
+        ])
+      ),
+      [
+        ['a', '1'],
+        ['b', '2']
+      ]
+    )
+    roundtrip(codec, new Map())
+    roundtrip(codec, new Map([['a', 1]]))
+    assert.deepStrictEqual(
+      codec.decode([
+        ['a', '1'],
+        ['a', '2']
+      ]),
+      E.right(new Map([['a', 2]]))
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('imap', () => {
+    interface Email {
+      readonly value: string
+    }
+    const codec = pipe(
+      _.string,
+      _.imap(
+        (value): Email => ({ value }),
+        (email) => email.value
+      )
+    )
+    assert.deepStrictEqual(codec.encode({ value: 'a' }), 'a')
+    roundtrip(codec, { value: 'a' })
+    roundtrip(
+      _.Invariant.imap(
+        _.number,
+        (n) => String(n),
+        (s) => Number(s)
+      ),
+      '1'
+    )
+  })
+})
@@ -1,5 +1,24 @@
 import * as assert from 'assert'
-import { log, info, error, warn } from '../src/Console'
+import {
+  log,
+  info,
+  error,
+  warn,
+  consoleSink,
+  jsonSink,
+  logAt,
+  logDebug,
+  logError,
+  logInfo,
+  logWarn,
+  makeLogger,
+  monoidSink,
+  newMemorySink,
+  ordLogLevel,
+  withFields,
+  withLevel
+} from '../src/Console'
+import { pipe } from '../src/function'
 
 describe('Console', () => {
   it('log', () => {
@@ -61,4 +80,126 @@ describe('Console', () => {
     // tslint:disable-next-line:no-console
     console.warn = warn_
   })
+
+  // -------------------------------------------------------------------------------------
+  // Logger
+  // -------------------------------------------------------------------------------------
+
+  it('makeLogger', () => {
+    const { sink, records } = newMemorySink()
+    const logger = makeLogger(sink)
+    logDebug('a')(logger)()
+    logInfo('b', { n: 1 })(logger)()
+    logWarn('c')(logger)()
+    logError('d')(logger)()
+    assert.deepStrictEqual(records(), [
+      { level: 'debug', message: 'a', fields: {} },
+      { level: 'info', message: 'b', fields: { n: 1 } },
+      { level: 'warn', message: 'c', fields: {} },
+      { level: 'error', message: 'd', fields: {} }
+    ])
+  })
+
+  it('logAt', () => {
+    const { sink, records } = newMemorySink()
+    const logger = makeLogger(sink, 'warn')
+    logAt('info')('a')(logger)()
+    logAt('warn')('b')(logger)()
+    logAt('error')('c')(logger)()
+    assert.deepStrictEqual(
+      records().map((r) => r.message),
+      ['b', 'c']
+    )
+  })
+
+  it('withFields', () => {
+    const { sink, records } = newMemorySink()
+    const logger = pipe(makeLogger(sink), withFields({ a: 1, b: 1 }), withFields({ b: 2 }))
+    logInfo('message', { c: 3 })(logger)()
+    logInfo('message', { a: 0 })(logger)()
+    assert.deepStrictEqual(records(), [
+      { level: 'info', message: 'message', fields: { a: 1, b: 2, c: 3 } },
+      { level: 'info', message: 'message', fields: { a: 0, b: 2 } }
+    ])
+  })
+
+  it('withLevel', () => {
+    const { sink, records } = newMemorySink()
+    const logger = pipe(makeLogger(sink), withLevel('error'))
+    logWarn('a')(logger)()
+    logError('b')(logger)()
+    assert.deepStrictEqual(
+      records().map((r) => r.message),
+      ['b']
+    )
+  })
+
+  it('consoleSink', () => {
+    // tslint:disable-next-line:no-console
+    const warn_ = console.warn
+    // tslint:disable-next-line: readonly-array
+    const logger: Array<any> = []
+    // tslint:disable-next-line:no-console readonly-array
+    console.warn = (...as: Array<any>) => {
+      logger.push(as)
+    }
+    logWarn('a')(makeLogger(consoleSink))()
+    logWarn('b', { n: 1 })(makeLogger(consoleSink))()
+    assert.deepStrictEqual(logger, [['a'], ['b', { n: 1 }]])
+    // tslint:disable-next-line:no-console
+    console.warn = warn_
+  })
+
+  describe('jsonSink', () => {
+    it('should write a line of JSON for each record', () => {
+      // tslint:disable-next-line: readonly-array
+      const lines: Array<string> = []
+      const logger = makeLogger(jsonSink((line) => () => lines.push(line)))
+      logInfo('a', { n: 1 })(logger)()
+      assert.deepStrictEqual(lines, ['{"n":1,"level":"info","message":"a"}'])
+    })
+
+    it('should not throw on unserializable fields', () => {
+      // tslint:disable-next-line: readonly-array
+      const lines: Array<string> = []
+      const logger = makeLogger(jsonSink((line) => () => lines.push(line)))
+      const cyclic: Record<string, unknown> = {}
+      cyclic.self = cyclic
+      logInfo('a', { cyclic })(logger)()
+      assert.deepStrictEqual(lines.length, 1)
+      const parsed = JSON.parse(lines[0])
+      assert.deepStrictEqual([parsed.level, parsed.message], ['info', 'a'])
+      assert.deepStrictEqual(parsed.error.startsWith('unserializable fields: TypeError'), true)
+    })
+
+    it('should use log by default', () => {
+      // tslint:disable-next-line:no-console
+      const log_ = console.log
+      // tslint:disable-next-line: readonly-array
+      const logger: Array<any> = []
+      // tslint:disable-next-line:no-console
+      console.log = (a: any) => {
+        logger.push(a)
+      }
+      logError('a')(makeLogger(jsonSink()))()
+      assert.deepStrictEqual(logger, ['{"level":"error","message":"a"}'])
+      // tslint:disable-next-line:no-console
+      console.log = log_
+    })
+  })
+
+  it('ordLogLevel', () => {
+    assert.deepStrictEqual(ordLogLevel.compare('debug', 'error'), -1)
+    assert.deepStrictEqual(ordLogLevel.compare('warn', 'warn'), 0)
+    assert.deepStrictEqual(ordLogLevel.compare('warn', 'info'), 1)
+  })
+
+  it('monoidSink', () => {
+    const m1 = newMemorySink()
+    const m2 = newMemorySink()
+    const sink = monoidSink.concat(m1.sink, monoidSink.concat(monoidSink.empty, m2.sink))
+    logInfo('a')(makeLogger(sink))()
+    assert.deepStrictEqual(m1.records(), [{ level: 'info', message: 'a', fields: {} }])
+    assert.deepStrictEqual(m2.records(), m1.records())
+  })
 })
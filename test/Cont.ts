@@ -0,0 +1,165 @@
+import * as assert from 'assert'
+import * as _ from '../src/Cont'
+import { pipe } from '../src/function'
+import * as T from '../src/Task'
+
+describe('Cont', () => {
+  describe('pipeables', () => {
+    it('map', () => {
+      const double = (n: number): number => n * 2
+      assert.deepStrictEqual(pipe(_.of(1), _.map(double), _.evaluate), 2)
+    })
+
+    it('ap', () => {
+      const double = (n: number): number => n * 2
+      assert.deepStrictEqual(pipe(_.of(double), _.ap(_.of(1)), _.evaluate), 2)
+    })
+
+    it('apFirst', () => {
+      assert.deepStrictEqual(pipe(_.of('a'), _.apFirst(_.of('b')), _.evaluate), 'a')
+    })
+
+    it('apSecond', () => {
+      assert.deepStrictEqual(pipe(_.of('a'), _.apSecond(_.of('b')), _.evaluate), 'b')
+    })
+
+    it('chain', () => {
+      const f = (s: string): _.Cont<number, number> => _.of(s.length)
+      assert.deepStrictEqual(pipe(_.of<number, string>('foo'), _.chain(f), _.evaluate), 3)
+    })
+
+    it('chainFirst', () => {
+      const f = (s: string): _.Cont<string, number> => _.of(s.length)
+      assert.deepStrictEqual(pipe(_.of<string, string>('foo'), _.chainFirst(f), _.evaluate), 'foo')
+    })
+
+    it('flatten', () => {
+      assert.deepStrictEqual(pipe(_.of(_.of('a')), _.flatten, _.evaluate), 'a')
+    })
+  })
+
+  describe('instances', () => {
+    it('Functor', () => {
+      assert.deepStrictEqual(_.evaluate(_.Functor.map(_.of(1), (n) => n + 1)), 2)
+    })
+
+    it('Applicative', () => {
+      assert.deepStrictEqual(
+        _.evaluate(
+          _.Applicative.ap(
+            _.of((n: number) => n + 1),
+            _.of(1)
+          )
+        ),
+        2
+      )
+    })
+
+    it('Monad', () => {
+      assert.deepStrictEqual(_.evaluate(_.Monad.chain(_.of(1), (n) => _.of(n + 1))), 2)
+    })
+  })
+
+  it('callCC', () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const validate = (n: number): _.Cont<string, number> =>
+      _.callCC((exit) =>
+        pipe(
+          n < 0 ? exit(0) : _.of(undefined),
+          _.map(() => {
+            log.push(`validated ${n}`)
+            return n
+          })
+        )
+      )
+    assert.deepStrictEqual(
+      pipe(
+        validate(1),
+        _.map((n) => `n = ${n}`),
+        _.evaluate
+      ),
+      'n = 1'
+    )
+    assert.deepStrictEqual(
+      pipe(
+        validate(-1),
+        _.map((n) => `n = ${n}`),
+        _.evaluate
+      ),
+      'n = 0'
+    )
+    assert.deepStrictEqual(log, ['validated 1'])
+  })
+
+  it('resumes a suspended computation', () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    let resume: (s: string) => void = () => undefined
+    const suspended = pipe(
+      _.fromCallback<string>((callback) => {
+        resume = callback
+      }),
+      _.map((s) => s.toUpperCase())
+    )
+    suspended((s) => {
+      log.push(s)
+    })
+    assert.deepStrictEqual(log, [])
+    resume('a')
+    resume('b')
+    assert.deepStrictEqual(log, ['A', 'B'])
+  })
+
+  it('fromCallback', async () => {
+    const ma = _.fromCallback<number>((callback) => setTimeout(() => callback(1), 10))
+    assert.deepStrictEqual(await pipe(ma, _.map(String), _.toTask)(), '1')
+  })
+
+  it('fromTask', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.fromTask(T.of(1)),
+        _.chain((n) => _.fromTask(T.of(n + 1))),
+        _.toTask
+      )(),
+      2
+    )
+  })
+
+  it('do notation', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.of(1),
+        _.bindTo('a'),
+        _.bind('b', () => _.of('b'))
+      )((x) => x),
+      { a: 1, b: 'b' }
+    )
+    assert.deepStrictEqual(
+      pipe(
+        _.Do,
+        _.bind('a', () => _.of(1)),
+        _.bind('b', ({ a }) => _.of(a + 1))
+      )((x) => x),
+      { a: 1, b: 2 }
+    )
+    assert.deepStrictEqual(
+      pipe(
+        _.Do,
+        _.bind('a', (): _.Cont<string, number> => _.of(1)),
+        _.bind('b', ({ a }) => _.of(a + 1)),
+        _.map(({ a, b }) => `${a}${b}`),
+        _.evaluate
+      ),
+      '12'
+    )
+  })
+
+  it('apS', () => {
+    assert.deepStrictEqual(
+      pipe(_.of(1), _.bindTo('a'), _.apS('b', _.of('b')))((x) => x),
+      { a: 1, b: 'b' }
+    )
+  })
+})
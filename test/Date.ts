@@ -1,5 +1,6 @@
 import * as assert from 'assert'
 import * as _ from '../src/Date'
+import * as O from '../src/Option'
 
 describe('Date', () => {
   it('create', () => {
@@ -29,4 +30,109 @@ describe('Date', () => {
     assert.deepStrictEqual(_.eqYear.equals(new Date(2000, 10, 1), new Date(2000, 11, 7)), true)
     assert.deepStrictEqual(_.eqYear.equals(new Date(2000, 10, 1), new Date(2001, 11, 7)), false)
   })
+
+  describe('parseISO', () => {
+    it('should parse a date as UTC', () => {
+      assert.deepStrictEqual(_.parseISO('2020-02-29'), O.some(new Date(Date.UTC(2020, 1, 29))))
+    })
+
+    it('should parse a date time', () => {
+      assert.deepStrictEqual(_.parseISO('2020-01-02T03:04'), O.some(new Date(2020, 0, 2, 3, 4)))
+      assert.deepStrictEqual(
+        _.parseISO('2020-01-02T03:04:05.678Z'),
+        O.some(new Date(Date.UTC(2020, 0, 2, 3, 4, 5, 678)))
+      )
+      assert.deepStrictEqual(_.parseISO('2020-01-02T03:04:05+01:00'), O.some(new Date(Date.UTC(2020, 0, 2, 2, 4, 5))))
+    })
+
+    it('should return none for an invalid format', () => {
+      assert.deepStrictEqual(_.parseISO('2020-1-2'), O.none)
+      assert.deepStrictEqual(_.parseISO('2020-01-02 03:04'), O.none)
+      assert.deepStrictEqual(_.parseISO('02/01/2020'), O.none)
+    })
+
+    it('should return none for an invalid date', () => {
+      assert.deepStrictEqual(_.parseISO('2020-13-01'), O.none)
+      assert.deepStrictEqual(_.parseISO('2020-00-01'), O.none)
+      assert.deepStrictEqual(_.parseISO('2020-01-00'), O.none)
+      assert.deepStrictEqual(_.parseISO('2021-02-29'), O.none)
+      assert.deepStrictEqual(_.parseISO('2020-01-01T24:30'), O.none)
+    })
+  })
+
+  it('add', () => {
+    const d = new Date(2020, 0, 31, 10, 30)
+    assert.deepStrictEqual(_.add(1, 'millisecond')(d), new Date(2020, 0, 31, 10, 30, 0, 1))
+    assert.deepStrictEqual(_.add(1, 'second')(d), new Date(2020, 0, 31, 10, 30, 1))
+    assert.deepStrictEqual(_.add(-31, 'minute')(d), new Date(2020, 0, 31, 9, 59))
+    assert.deepStrictEqual(_.add(14, 'hour')(d), new Date(2020, 1, 1, 0, 30))
+    assert.deepStrictEqual(_.add(1, 'day')(d), new Date(2020, 1, 1, 10, 30))
+    assert.deepStrictEqual(_.add(-5, 'week')(d), new Date(2019, 11, 27, 10, 30))
+    assert.deepStrictEqual(_.add(1, 'month')(d), new Date(2020, 1, 29, 10, 30))
+    assert.deepStrictEqual(_.add(-2, 'month')(d), new Date(2019, 10, 30, 10, 30))
+    assert.deepStrictEqual(_.add(1, 'year')(new Date(2020, 1, 29)), new Date(2021, 1, 28))
+    // should not mutate the argument
+    assert.deepStrictEqual(d, new Date(2020, 0, 31, 10, 30))
+  })
+
+  describe('diff', () => {
+    it('fixed units', () => {
+      const x = new Date(2020, 0, 1, 10, 30)
+      assert.deepStrictEqual(_.diff('millisecond')(x, new Date(2020, 0, 1, 10)), 30 * 60 * 1000)
+      assert.deepStrictEqual(_.diff('second')(x, new Date(2020, 0, 1, 10)), 30 * 60)
+      assert.deepStrictEqual(_.diff('minute')(x, new Date(2020, 0, 1, 10, 0, 1)), 29)
+      assert.deepStrictEqual(_.diff('hour')(x, new Date(2020, 0, 1, 12)), -1)
+    })
+
+    it('day', () => {
+      assert.deepStrictEqual(_.diff('day')(new Date(2020, 0, 3), new Date(2020, 0, 1)), 2)
+      assert.deepStrictEqual(_.diff('day')(new Date(2020, 0, 3), new Date(2020, 0, 1, 12)), 1)
+      assert.deepStrictEqual(_.diff('day')(new Date(2020, 0, 1), new Date(2020, 0, 3)), -2)
+      assert.deepStrictEqual(_.diff('day')(new Date(2020, 0, 1, 12), new Date(2020, 0, 3)), -1)
+      assert.deepStrictEqual(_.diff('day')(new Date(2020, 0, 1), new Date(2020, 0, 1)), 0)
+    })
+
+    it('week', () => {
+      assert.deepStrictEqual(_.diff('week')(new Date(2020, 0, 15), new Date(2020, 0, 1)), 2)
+      assert.deepStrictEqual(_.diff('week')(new Date(2020, 0, 14), new Date(2020, 0, 1)), 1)
+      assert.deepStrictEqual(_.diff('week')(new Date(2020, 0, 1), new Date(2020, 0, 14)), -1)
+    })
+
+    it('month', () => {
+      assert.deepStrictEqual(_.diff('month')(new Date(2020, 2, 31), new Date(2020, 0, 31)), 2)
+      assert.deepStrictEqual(_.diff('month')(new Date(2020, 2, 30), new Date(2020, 0, 31)), 1)
+      assert.deepStrictEqual(_.diff('month')(new Date(2020, 1, 29), new Date(2020, 0, 31)), 1)
+      assert.deepStrictEqual(_.diff('month')(new Date(2020, 0, 20), new Date(2020, 2, 15)), -1)
+      assert.deepStrictEqual(_.diff('month')(new Date(2020, 0, 15), new Date(2020, 2, 15)), -2)
+    })
+
+    it('year', () => {
+      assert.deepStrictEqual(_.diff('year')(new Date(2021, 0, 1), new Date(2020, 0, 1)), 1)
+      assert.deepStrictEqual(_.diff('year')(new Date(2020, 11, 31), new Date(2020, 0, 1)), 0)
+      assert.deepStrictEqual(_.diff('year')(new Date(2018, 6, 1), new Date(2020, 0, 1)), -1)
+    })
+  })
+
+  it('startOfDay', () => {
+    assert.deepStrictEqual(_.startOfDay(new Date(2020, 0, 31, 10, 30)), new Date(2020, 0, 31))
+  })
+
+  it('endOfDay', () => {
+    assert.deepStrictEqual(_.endOfDay(new Date(2020, 0, 31, 10, 30)), new Date(2020, 0, 31, 23, 59, 59, 999))
+  })
+
+  it('startOfMonth', () => {
+    assert.deepStrictEqual(_.startOfMonth(new Date(2020, 1, 29, 10, 30)), new Date(2020, 1, 1))
+  })
+
+  it('endOfMonth', () => {
+    assert.deepStrictEqual(_.endOfMonth(new Date(2020, 0, 31, 10, 30)), new Date(2020, 0, 31, 23, 59, 59, 999))
+    assert.deepStrictEqual(_.endOfMonth(new Date(2020, 1, 1)), new Date(2020, 1, 29, 23, 59, 59, 999))
+  })
+
+  it('ordDay', () => {
+    assert.deepStrictEqual(_.ordDay.compare(new Date(2020, 0, 1, 10), new Date(2020, 0, 1, 20)), 0)
+    assert.deepStrictEqual(_.ordDay.compare(new Date(2020, 0, 1, 23), new Date(2020, 0, 2)), -1)
+    assert.deepStrictEqual(_.ordDay.compare(new Date(2020, 0, 2), new Date(2020, 0, 1, 23)), 1)
+  })
 })
@@ -0,0 +1,287 @@
+import * as assert from 'assert'
+import * as _ from '../src/Decoder'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+
+const drawn = <A>(result: E.Either<_.DecodeError, A>): E.Either<string, A> => pipe(result, E.mapLeft(_.draw))
+
+describe('Decoder', () => {
+  // -------------------------------------------------------------------------------------
+  // DecodeError
+  // -------------------------------------------------------------------------------------
+
+  it('failure', () => {
+    assert.deepStrictEqual(drawn(_.failure(1, 'string')), E.left('cannot decode 1, should be string'))
+    assert.deepStrictEqual(drawn(_.failure(undefined, 'string')), E.left('cannot decode undefined, should be string'))
+    // values which cannot be serialized fall back to `String`
+    const circular: { self?: unknown } = {} // tslint:disable-line:readonly-keyword
+    circular.self = circular
+    assert.deepStrictEqual(
+      drawn(_.failure(circular, 'string')),
+      E.left('cannot decode [object Object], should be string')
+    )
+  })
+
+  it('wrap', () => {
+    assert.deepStrictEqual(
+      drawn(pipe(_.failure(1, 'string'), E.mapLeft(_.wrap('a')))),
+      E.left('a\n└─ cannot decode 1, should be string')
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('literal', () => {
+    const decoder = _.literal('a', 1, null)
+    assert.deepStrictEqual(decoder.decode('a'), E.right('a'))
+    assert.deepStrictEqual(decoder.decode(null), E.right(null))
+    assert.deepStrictEqual(drawn(decoder.decode('b')), E.left('cannot decode "b", should be "a" | 1 | null'))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // primitives
+  // -------------------------------------------------------------------------------------
+
+  it('string', () => {
+    assert.deepStrictEqual(_.string.decode('a'), E.right('a'))
+    assert.deepStrictEqual(drawn(_.string.decode(null)), E.left('cannot decode null, should be string'))
+  })
+
+  it('number', () => {
+    assert.deepStrictEqual(_.number.decode(1), E.right(1))
+    assert.deepStrictEqual(drawn(_.number.decode(NaN)), E.left('cannot decode NaN, should be number'))
+    assert.deepStrictEqual(drawn(_.number.decode('1')), E.left('cannot decode "1", should be number'))
+  })
+
+  it('boolean', () => {
+    assert.deepStrictEqual(_.boolean.decode(true), E.right(true))
+    assert.deepStrictEqual(drawn(_.boolean.decode(0)), E.left('cannot decode 0, should be boolean'))
+  })
+
+  it('UnknownArray', () => {
+    assert.deepStrictEqual(_.UnknownArray.decode([1, 'a']), E.right([1, 'a']))
+    assert.deepStrictEqual(drawn(_.UnknownArray.decode({})), E.left('cannot decode {}, should be Array<unknown>'))
+  })
+
+  it('UnknownRecord', () => {
+    assert.deepStrictEqual(_.UnknownRecord.decode({ a: 1 }), E.right({ a: 1 }))
+    assert.deepStrictEqual(
+      drawn(_.UnknownRecord.decode([])),
+      E.left('cannot decode [], should be Record<string, unknown>')
+    )
+    assert.deepStrictEqual(
+      drawn(_.UnknownRecord.decode(null)),
+      E.left('cannot decode null, should be Record<string, unknown>')
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  describe('struct', () => {
+    const decoder = _.struct({ a: _.string, b: _.number })
+
+    it('should strip additional properties', () => {
+      assert.deepStrictEqual(decoder.decode({ a: 'a', b: 1, c: true }), E.right({ a: 'a', b: 1 }))
+    })
+
+    it('should report every invalid property', () => {
+      assert.deepStrictEqual(drawn(decoder.decode(1)), E.left('cannot decode 1, should be Record<string, unknown>'))
+      assert.deepStrictEqual(
+        drawn(decoder.decode({ b: 'b' })),
+        E.left(
+          [
+            'required property "a"',
+            '└─ cannot decode undefined, should be string',
+            'required property "b"',
+            '└─ cannot decode "b", should be number'
+          ].join('\n')
+        )
+      )
+    })
+  })
+
+  describe('partial', () => {
+    const decoder = _.partial({ a: _.string, b: _.number })
+
+    it('should omit missing properties', () => {
+      assert.deepStrictEqual(decoder.decode({}), E.right({}))
+      assert.deepStrictEqual(decoder.decode({ a: 'a', b: undefined }), E.right({ a: 'a' }))
+      assert.deepStrictEqual(decoder.decode({ a: 'a', b: 1 }), E.right({ a: 'a', b: 1 }))
+    })
+
+    it('should report every invalid property', () => {
+      assert.deepStrictEqual(
+        drawn(decoder.decode({ a: 1, b: 'b' })),
+        E.left(
+          [
+            'optional property "a"',
+            '└─ cannot decode 1, should be string',
+            'optional property "b"',
+            '└─ cannot decode "b", should be number'
+          ].join('\n')
+        )
+      )
+    })
+  })
+
+  it('array', () => {
+    const decoder = _.array(_.number)
+    assert.deepStrictEqual(decoder.decode([]), E.right([]))
+    assert.deepStrictEqual(decoder.decode([1, 2]), E.right([1, 2]))
+    assert.deepStrictEqual(drawn(decoder.decode(1)), E.left('cannot decode 1, should be Array<unknown>'))
+    assert.deepStrictEqual(
+      drawn(decoder.decode(['a', 1, 'b'])),
+      E.left(
+        [
+          'optional index 0',
+          '└─ cannot decode "a", should be number',
+          'optional index 2',
+          '└─ cannot decode "b", should be number'
+        ].join('\n')
+      )
+    )
+  })
+
+  it('tuple', () => {
+    const decoder = _.tuple(_.string, _.number)
+    assert.deepStrictEqual(decoder.decode(['a', 1]), E.right(['a', 1]))
+    assert.deepStrictEqual(decoder.decode(['a', 1, true]), E.right(['a', 1]))
+    assert.deepStrictEqual(drawn(decoder.decode({})), E.left('cannot decode {}, should be Array<unknown>'))
+    assert.deepStrictEqual(
+      drawn(decoder.decode([1])),
+      E.left(
+        [
+          'required component 0',
+          '└─ cannot decode 1, should be string',
+          'required component 1',
+          '└─ cannot decode undefined, should be number'
+        ].join('\n')
+      )
+    )
+  })
+
+  it('record', () => {
+    const decoder = _.record(_.number)
+    assert.deepStrictEqual(decoder.decode({}), E.right({}))
+    assert.deepStrictEqual(decoder.decode({ a: 1, b: 2 }), E.right({ a: 1, b: 2 }))
+    assert.deepStrictEqual(
+      drawn(decoder.decode({ a: 'a', b: 2 })),
+      E.left(['optional key "a"', '└─ cannot decode "a", should be number'].join('\n'))
+    )
+  })
+
+  it('union', () => {
+    const decoder = _.union(_.string, _.number, _.boolean)
+    assert.deepStrictEqual(decoder.decode('a'), E.right('a'))
+    assert.deepStrictEqual(decoder.decode(1), E.right(1))
+    assert.deepStrictEqual(decoder.decode(true), E.right(true))
+    assert.deepStrictEqual(
+      drawn(decoder.decode(null)),
+      E.left(
+        [
+          'member 0',
+          '└─ cannot decode null, should be string',
+          'member 1',
+          '└─ cannot decode null, should be number',
+          'member 2',
+          '└─ cannot decode null, should be boolean'
+        ].join('\n')
+      )
+    )
+  })
+
+  it('nullable', () => {
+    const decoder = _.nullable(_.number)
+    assert.deepStrictEqual(decoder.decode(null), E.right(null))
+    assert.deepStrictEqual(decoder.decode(1), E.right(1))
+    assert.deepStrictEqual(
+      drawn(decoder.decode('a')),
+      E.left(
+        ['member 0', '└─ cannot decode "a", should be null', 'member 1', '└─ cannot decode "a", should be number'].join(
+          '\n'
+        )
+      )
+    )
+  })
+
+  it('lazy', () => {
+    interface A {
+      readonly a: number
+      readonly as: ReadonlyArray<A>
+    }
+    let evaluations = 0
+    const decoder: _.Decoder<unknown, A> = _.lazy('A', () => {
+      evaluations++
+      return _.struct({ a: _.number, as: _.array(decoder) })
+    })
+    const a: A = { a: 1, as: [{ a: 2, as: [] }] }
+    assert.deepStrictEqual(decoder.decode(a), E.right(a))
+    assert.deepStrictEqual(evaluations, 1)
+    assert.deepStrictEqual(
+      drawn(decoder.decode({ a: 1, as: [{ a: 'a', as: [] }] })),
+      E.left(
+        [
+          'lazy type A',
+          '└─ required property "as"',
+          '   └─ optional index 0',
+          '      └─ lazy type A',
+          '         └─ required property "a"',
+          '            └─ cannot decode "a", should be number'
+        ].join('\n')
+      )
+    )
+  })
+
+  it('refine', () => {
+    const decoder = pipe(
+      _.string,
+      _.refine((s): s is string => s.length > 0, 'NonEmptyString')
+    )
+    assert.deepStrictEqual(decoder.decode('a'), E.right('a'))
+    assert.deepStrictEqual(drawn(decoder.decode('')), E.left('cannot decode "", should be NonEmptyString'))
+    assert.deepStrictEqual(drawn(decoder.decode(1)), E.left('cannot decode 1, should be string'))
+  })
+
+  it('parse', () => {
+    const decoder = pipe(
+      _.string,
+      _.parse((s) => {
+        const n = parseFloat(s)
+        return isNaN(n) ? _.failure(s, 'NumberFromString') : _.success(n)
+      })
+    )
+    assert.deepStrictEqual(decoder.decode('1.5'), E.right(1.5))
+    assert.deepStrictEqual(drawn(decoder.decode('a')), E.left('cannot decode "a", should be NumberFromString'))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', () => {
+    const decoder = pipe(
+      _.string,
+      _.map((s) => s.length)
+    )
+    assert.deepStrictEqual(decoder.decode('aa'), E.right(2))
+    assert.deepStrictEqual(_.Functor.map(_.string, (s) => s.length).decode('aaa'), E.right(3))
+  })
+
+  it('alt', () => {
+    const decoder = pipe(
+      _.string,
+      _.alt<unknown, string | number>(() => _.number)
+    )
+    assert.deepStrictEqual(decoder.decode('a'), E.right('a'))
+    assert.deepStrictEqual(decoder.decode(1), E.right(1))
+    assert.deepStrictEqual(
+      drawn(decoder.decode(true)),
+      E.left(['cannot decode true, should be string', 'cannot decode true, should be number'].join('\n'))
+    )
+    assert.deepStrictEqual(_.Alt.alt(_.string, () => _.literal('b')).decode('a'), E.right('a'))
+  })
+})
@@ -0,0 +1,46 @@
+import * as assert from 'assert'
+import { Deferred, newDeferred } from '../src/Deferred'
+import { pipe } from '../src/function'
+import * as I from '../src/IO'
+import * as O from '../src/Option'
+import * as T from '../src/Task'
+
+describe('Deferred', () => {
+  it('tryGet', () => {
+    const deferred = new Deferred<number>()
+    assert.deepStrictEqual(deferred.tryGet(), O.none)
+    deferred.complete(1)()
+    assert.deepStrictEqual(deferred.tryGet(), O.some(1))
+  })
+
+  it('complete', () => {
+    const deferred = new Deferred<number>()
+    assert.deepStrictEqual(deferred.complete(1)(), true)
+    assert.deepStrictEqual(deferred.complete(2)(), false)
+    assert.deepStrictEqual(deferred.tryGet(), O.some(1))
+  })
+
+  it('await', async () => {
+    const deferred = new Deferred<number>()
+    const fa = T.sequenceArray([deferred.await, deferred.await])()
+    await T.delay(1)(T.fromIO(deferred.complete(1)))()
+    assert.deepStrictEqual(await fa, [1, 1])
+    assert.deepStrictEqual(await deferred.await(), 1)
+  })
+
+  it('newDeferred', () => {
+    assert.deepStrictEqual(
+      pipe(
+        newDeferred<number>(),
+        I.chain((deferred) => deferred.tryGet)
+      )(),
+      O.none
+    )
+  })
+
+  it('pipe', () => {
+    const deferred = new Deferred<number>()
+    pipe(1, deferred.complete)()
+    assert.deepStrictEqual(deferred.tryGet(), O.some(1))
+  })
+})
@@ -0,0 +1,79 @@
+import * as assert from 'assert'
+import * as _ from '../src/Encoder'
+import { pipe } from '../src/function'
+
+const length: _.Encoder<number, string> = { encode: (s) => s.length }
+
+describe('Encoder', () => {
+  it('id', () => {
+    assert.deepStrictEqual(_.id<string>().encode('a'), 'a')
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('nullable', () => {
+    const encoder = _.nullable(length)
+    assert.deepStrictEqual(encoder.encode(null), null)
+    assert.deepStrictEqual(encoder.encode('aa'), 2)
+  })
+
+  it('struct', () => {
+    const encoder = _.struct({ a: length, b: _.id<boolean>() })
+    assert.deepStrictEqual(encoder.encode({ a: 'aa', b: true }), { a: 2, b: true })
+  })
+
+  it('partial', () => {
+    const encoder = _.partial({ a: length, b: _.id<boolean>() })
+    assert.deepStrictEqual(encoder.encode({}), {})
+    assert.deepStrictEqual(encoder.encode({ a: 'aa', b: undefined }), { a: 2 })
+    assert.deepStrictEqual(encoder.encode({ a: 'aa', b: false }), { a: 2, b: false })
+  })
+
+  it('array', () => {
+    assert.deepStrictEqual(_.array(length).encode(['a', 'bb']), [1, 2])
+  })
+
+  it('tuple', () => {
+    assert.deepStrictEqual(_.tuple(length, _.id<boolean>()).encode(['aa', true]), [2, true])
+  })
+
+  it('record', () => {
+    assert.deepStrictEqual(_.record(length).encode({ a: 'a', b: 'bb' }), { a: 1, b: 2 })
+  })
+
+  it('lazy', () => {
+    interface A {
+      readonly a: string
+      readonly as: ReadonlyArray<A>
+    }
+    interface O {
+      readonly a: number
+      readonly as: ReadonlyArray<O>
+    }
+    const encoder: _.Encoder<O, A> = _.lazy(() => _.struct({ a: length, as: _.array(encoder) }))
+    assert.deepStrictEqual(encoder.encode({ a: 'a', as: [{ a: 'bb', as: [] }] }), { a: 1, as: [{ a: 2, as: [] }] })
+  })
+
+  it('compose', () => {
+    const encoder = pipe(
+      _.id<string>(),
+      _.compose<string, number>({ encode: (n) => n.toFixed(1) })
+    )
+    assert.deepStrictEqual(pipe(length, _.compose(encoder)).encode(1), 3)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('contramap', () => {
+    const encoder = pipe(
+      length,
+      _.contramap((n: number) => n.toFixed(1))
+    )
+    assert.deepStrictEqual(encoder.encode(1), 3)
+    assert.deepStrictEqual(_.Contravariant.contramap(length, (n: number) => String(n)).encode(10), 2)
+  })
+})
@@ -0,0 +1,173 @@
+import * as assert from 'assert'
+import * as E from '../src/Either'
+import * as _ from '../src/Eval'
+import { pipe } from '../src/function'
+import * as RA from '../src/ReadonlyArray'
+
+const counter = (): { readonly next: () => number } => {
+  let n = 0
+  return { next: () => ++n }
+}
+
+describe('Eval', () => {
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('now', () => {
+    assert.deepStrictEqual(_.evaluate(_.now(1)), 1)
+  })
+
+  it('later', () => {
+    const c = counter()
+    const fa = _.later(c.next)
+    assert.deepStrictEqual(_.evaluate(fa), 1)
+    assert.deepStrictEqual(_.evaluate(fa), 1)
+  })
+
+  it('always', () => {
+    const c = counter()
+    const fa = _.always(c.next)
+    assert.deepStrictEqual(_.evaluate(fa), 1)
+    assert.deepStrictEqual(_.evaluate(fa), 2)
+  })
+
+  it('defer', () => {
+    const c = counter()
+    const fa = _.defer(() => _.now(c.next()))
+    assert.deepStrictEqual(_.evaluate(fa), 1)
+    assert.deepStrictEqual(_.evaluate(fa), 2)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  describe('evaluate', () => {
+    it('should be stack safe with recursive defer', () => {
+      const even = (n: number): _.Eval<boolean> => (n === 0 ? _.now(true) : _.defer(() => odd(n - 1)))
+      const odd = (n: number): _.Eval<boolean> => (n === 0 ? _.now(false) : _.defer(() => even(n - 1)))
+      assert.deepStrictEqual(_.evaluate(even(100001)), false)
+    })
+
+    it('should be stack safe with left associated chains', () => {
+      const fa = RA.range(1, 100000).reduce(
+        (acc, n) =>
+          pipe(
+            acc,
+            _.chain((s) => _.now(s + n))
+          ),
+        _.now(0)
+      )
+      assert.deepStrictEqual(_.evaluate(fa), 5000050000)
+    })
+
+    it('should be stack safe with right associated chains', () => {
+      const go = (n: number): _.Eval<number> =>
+        n === 0
+          ? _.now(0)
+          : pipe(
+              _.defer(() => go(n - 1)),
+              _.map((s) => s + n)
+            )
+      assert.deepStrictEqual(_.evaluate(go(100000)), 5000050000)
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.now(1),
+        _.map((n) => n * 2),
+        _.evaluate
+      ),
+      2
+    )
+  })
+
+  it('ap', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.now((n: number) => n * 2),
+        _.ap(_.later(() => 2)),
+        _.evaluate
+      ),
+      4
+    )
+  })
+
+  it('chain', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.now(1),
+        _.chain((n) => _.always(() => n + 1)),
+        _.evaluate
+      ),
+      2
+    )
+  })
+
+  it('chainFirst', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.now(1),
+        _.chainFirst((n) => _.now(n + 1)),
+        _.evaluate
+      ),
+      1
+    )
+  })
+
+  it('flatten', () => {
+    assert.deepStrictEqual(pipe(_.now(_.now(1)), _.flatten, _.evaluate), 1)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('Functor', () => {
+    assert.deepStrictEqual(_.evaluate(_.Functor.map(_.now(1), (n) => n + 1)), 2)
+  })
+
+  it('Applicative', () => {
+    assert.deepStrictEqual(_.evaluate(_.Applicative.of(1)), 1)
+  })
+
+  it('Monad', () => {
+    assert.deepStrictEqual(_.evaluate(_.Monad.chain(_.now(1), (n) => _.now(n + 1))), 2)
+  })
+
+  it('ChainRec', () => {
+    const fa = _.ChainRec.chainRec(0, (n) => _.now(n < 100000 ? E.left(n + 1) : E.right(n)))
+    assert.deepStrictEqual(_.evaluate(fa), 100000)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // array utils
+  // -------------------------------------------------------------------------------------
+
+  it('traverseArrayWithIndex', () => {
+    const fa = pipe(
+      ['a', 'b'],
+      _.traverseArrayWithIndex((i, s) => _.now(s + i))
+    )
+    assert.deepStrictEqual(_.evaluate(fa), ['a0', 'b1'])
+    // every evaluation builds a new array
+    assert.deepStrictEqual(_.evaluate(fa), ['a0', 'b1'])
+  })
+
+  it('traverseArray', () => {
+    const as = RA.range(1, 100000)
+    assert.deepStrictEqual(pipe(as, _.traverseArray(_.now), _.evaluate), as)
+    assert.deepStrictEqual(pipe(RA.empty, _.traverseArray(_.now), _.evaluate), [])
+  })
+
+  it('sequenceArray', () => {
+    assert.deepStrictEqual(pipe([_.now(1), _.later(() => 2)], _.sequenceArray, _.evaluate), [1, 2])
+  })
+})
@@ -0,0 +1,169 @@
+import * as assert from 'assert'
+import * as E from '../src/Either'
+import * as _ from '../src/Free'
+import { pipe } from '../src/function'
+import { HKT } from '../src/HKT'
+import * as I from '../src/Identity'
+import * as IO from '../src/IO'
+import * as S from '../src/State'
+
+// a small key / value store DSL, encoded with `HKT`
+const KV = 'KeyValue'
+type KV = typeof KV
+
+type KeyValue =
+  | { readonly _tag: 'Get'; readonly key: string }
+  | { readonly _tag: 'Put'; readonly key: string; readonly value: number }
+
+const instruction = <A>(kv: KeyValue): HKT<KV, A> => kv as any
+
+const get = (key: string): _.Free<KV, number> =>
+  _.liftF(
+    instruction<number>({ _tag: 'Get', key })
+  )
+
+const put = (key: string, value: number): _.Free<KV, void> =>
+  _.liftF(
+    instruction<void>({ _tag: 'Put', key, value })
+  )
+
+// increments `key` `n` times, then reads it back
+const increment = (key: string, n: number): _.Free<KV, number> =>
+  pipe(
+    _.ChainRec.chainRec(0, (i) =>
+      i < n
+        ? pipe(
+            get(key),
+            _.chain((v) => put(key, v + 1)),
+            _.map(() => E.left(i + 1))
+          )
+        : _.of(E.right(undefined))
+    ),
+    _.chain(() => get(key))
+  )
+
+type Store = Readonly<Record<string, number>>
+
+// test interpreter
+const toState = <X>(fx: HKT<KV, X>): S.State<Store, X> => {
+  const kv = (fx as any) as KeyValue
+  switch (kv._tag) {
+    case 'Get':
+      return S.gets((s: Store) => (kv.key in s ? s[kv.key] : 0)) as any
+    case 'Put':
+      return S.modify((s: Store) => ({ ...s, [kv.key]: kv.value })) as any
+  }
+}
+
+// production interpreter
+const toIO = (store: Map<string, number>) => <X>(fx: HKT<KV, X>): IO.IO<X> => {
+  const kv = (fx as any) as KeyValue
+  switch (kv._tag) {
+    case 'Get':
+      return (() => store.get(kv.key) ?? 0) as any
+    case 'Put':
+      return (() => {
+        store.set(kv.key, kv.value)
+      }) as any
+  }
+}
+
+const foldState = _.foldFree({ ...S.Monad, ...S.ChainRec })
+const foldIO = _.foldFree({ ...IO.Monad, ...IO.ChainRec })
+const foldIdentity = _.foldFree({ ...I.Monad, ...I.ChainRec })
+
+const runIO = <A>(io: IO.IO<A>): A => io()
+
+describe('Free', () => {
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('liftF', () => {
+    assert.deepStrictEqual(foldIdentity(runIO, _.liftF<IO.URI, number>(IO.of(1))), 1)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  it('foldFree', () => {
+    assert.deepStrictEqual(foldState(toState, increment('a', 3))({ a: 1 }), [4, { a: 4 }])
+    const store = new Map([['a', 1]])
+    assert.deepStrictEqual(foldIO(toIO(store), increment('a', 3))(), 4)
+    assert.deepStrictEqual(store.get('a'), 4)
+  })
+
+  it('foldFree is stack safe', () => {
+    assert.deepStrictEqual(foldState(toState, increment('a', 100000))({}), [100000, { a: 100000 }])
+    assert.deepStrictEqual(foldIO(toIO(new Map()), increment('a', 100000))(), 100000)
+
+    // left associated
+    let left: _.Free<IO.URI, number> = _.of(0)
+    for (let i = 0; i < 100000; i++) {
+      left = pipe(
+        left,
+        _.chain((n) => _.liftF<IO.URI, number>(IO.of(n + 1)))
+      )
+    }
+    assert.deepStrictEqual(foldIdentity(runIO, left), 100000)
+
+    // right associated
+    const right = (n: number): _.Free<IO.URI, number> =>
+      n === 0
+        ? _.of(0)
+        : pipe(
+            _.liftF<IO.URI, number>(IO.of(n)),
+            _.chain((m) => right(m - 1)),
+            _.map((m) => m + 1)
+          )
+    assert.deepStrictEqual(foldIdentity(runIO, right(100000)), 100000)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('hoistFree', () => {
+    const store = new Map<string, number>()
+    const program = pipe(increment('a', 100000), _.hoistFree<KV, IO.URI>(toIO(store)))
+    assert.deepStrictEqual(foldIdentity(runIO, program), 100000)
+    assert.deepStrictEqual(store.get('a'), 100000)
+    assert.deepStrictEqual(foldIdentity(runIO, pipe(_.of(1), _.hoistFree<KV, IO.URI>(toIO(store)))), 1)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(foldState(toState, pipe(get('a'), _.map(double)))({ a: 1 }), [2, { a: 1 }])
+    assert.deepStrictEqual(foldState(toState, _.Functor.map(get('a'), double))({ a: 1 }), [2, { a: 1 }])
+  })
+
+  it('ap', () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(foldState(toState, pipe(_.of(double), _.ap(get('a'))))({ a: 1 }), [2, { a: 1 }])
+    assert.deepStrictEqual(foldState(toState, _.Applicative.ap(_.of(double), get('a')))({ a: 1 }), [2, { a: 1 }])
+  })
+
+  it('chain', () => {
+    const program = pipe(
+      put('a', 2),
+      _.chain(() => get('a'))
+    )
+    assert.deepStrictEqual(foldState(toState, program)({}), [2, { a: 2 }])
+    assert.deepStrictEqual(
+      foldState(
+        toState,
+        _.Monad.chain(get('a'), (n) => put('b', n))
+      )({ a: 1 }),
+      [undefined, { a: 1, b: 1 }]
+    )
+  })
+
+  it('flatten', () => {
+    assert.deepStrictEqual(foldState(toState, _.flatten(_.of(get('a'))))({ a: 1 }), [1, { a: 1 }])
+  })
+})
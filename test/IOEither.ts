@@ -8,6 +8,7 @@ import * as A from '../src/Array'
 import { monoidString } from '../src/Monoid'
 import { none, some } from '../src/Option'
 import { pipeable } from '../src/pipeable'
+import * as RP from '../src/RetryPolicy'
 import { semigroupSum } from '../src/Semigroup'
 
 describe('IOEither', () => {
@@ -263,6 +264,47 @@ describe('IOEither', () => {
     })
   })
 
+  describe('retrying', () => {
+    it('should retry according to the policy while check returns true', () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<RP.RetryStatus> = []
+      const action = (status: RP.RetryStatus) => {
+        log.push(status)
+        return status.iterNumber < 2 ? _.left('error') : _.right(status.iterNumber)
+      }
+      const e = _.retrying(RP.constantDelay(10), action, (_, e) => E.isLeft(e))()
+      assert.deepStrictEqual(e, E.right(2))
+      assert.deepStrictEqual(log, [
+        { iterNumber: 0, cumulativeDelay: 0, previousDelay: none },
+        { iterNumber: 1, cumulativeDelay: 10, previousDelay: some(10) },
+        { iterNumber: 2, cumulativeDelay: 20, previousDelay: some(10) }
+      ])
+    })
+
+    it('should stop when the policy gives up', () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<number> = []
+      const action = (status: RP.RetryStatus) => {
+        log.push(status.iterNumber)
+        return _.left(status.iterNumber)
+      }
+      assert.deepStrictEqual(_.retrying(RP.limitRetries(2), action, () => true)(), E.left(2))
+      assert.deepStrictEqual(log, [0, 1, 2])
+    })
+  })
+
+  it('recovering', () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<number> = []
+    const action = (status: RP.RetryStatus) => {
+      log.push(status.iterNumber)
+      return status.iterNumber < 3 ? _.left(status.iterNumber) : _.right('ok')
+    }
+    assert.deepStrictEqual(_.recovering(RP.limitRetries(5), action, (_, e) => e < 1)(), E.left(1))
+    assert.deepStrictEqual(log, [0, 1])
+    assert.deepStrictEqual(_.recovering(RP.limitRetries(5), action, () => true)(), E.right('ok'))
+  })
+
   describe('bracket', () => {
     // tslint:disable-next-line: readonly-array
     let log: Array<string> = []
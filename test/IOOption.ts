@@ -0,0 +1,253 @@
+import * as assert from 'assert'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+import * as I from '../src/IO'
+import * as IE from '../src/IOEither'
+import * as _ from '../src/IOOption'
+import * as O from '../src/Option'
+
+describe('IOOption', () => {
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(pipe(_.some(1), _.map(double))(), O.some(2))
+    assert.deepStrictEqual(pipe(_.none, _.map(double))(), O.none)
+  })
+
+  it('ap', () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(pipe(_.some(double), _.ap(_.some(1)))(), O.some(2))
+    assert.deepStrictEqual(pipe(_.some(double), _.ap(_.none))(), O.none)
+    assert.deepStrictEqual(pipe(_.none, _.ap(_.some(1)))(), O.none)
+  })
+
+  it('apFirst', () => {
+    assert.deepStrictEqual(pipe(_.some('a'), _.apFirst(_.some('b')))(), O.some('a'))
+  })
+
+  it('apSecond', () => {
+    assert.deepStrictEqual(pipe(_.some('a'), _.apSecond(_.some('b')))(), O.some('b'))
+  })
+
+  it('chain', () => {
+    const f = (n: number) => (n > 0 ? _.some(n * 2) : _.none)
+    assert.deepStrictEqual(pipe(_.some(1), _.chain(f))(), O.some(2))
+    assert.deepStrictEqual(pipe(_.some(-1), _.chain(f))(), O.none)
+    assert.deepStrictEqual(pipe(_.none, _.chain(f))(), O.none)
+  })
+
+  it('chainFirst', () => {
+    const f = (n: number) => (n > 0 ? _.some(n * 2) : _.none)
+    assert.deepStrictEqual(pipe(_.some(1), _.chainFirst(f))(), O.some(1))
+    assert.deepStrictEqual(pipe(_.some(-1), _.chainFirst(f))(), O.none)
+  })
+
+  it('flatten', () => {
+    assert.deepStrictEqual(pipe(_.some(_.some(1)), _.flatten)(), O.some(1))
+  })
+
+  it('alt', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.some(1),
+        _.alt(() => _.some(2))
+      )(),
+      O.some(1)
+    )
+    assert.deepStrictEqual(
+      pipe(
+        _.none,
+        _.alt(() => _.some(2))
+      )(),
+      O.some(2)
+    )
+    assert.deepStrictEqual(
+      pipe(
+        _.some(1),
+        _.altW(() => _.some('a'))
+      )(),
+      O.some(1)
+    )
+  })
+
+  it('zero', () => {
+    assert.deepStrictEqual(_.zero()(), O.none)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('Functor', () => {
+    assert.deepStrictEqual(_.Functor.map(_.some(1), (n) => n + 1)(), O.some(2))
+  })
+
+  it('Applicative', () => {
+    assert.deepStrictEqual(
+      _.Applicative.ap(
+        _.some((n: number) => n + 1),
+        _.some(1)
+      )(),
+      O.some(2)
+    )
+  })
+
+  it('Monad', () => {
+    assert.deepStrictEqual(_.Monad.chain(_.some(1), (n) => _.some(n + 1))(), O.some(2))
+  })
+
+  it('Alternative', () => {
+    assert.deepStrictEqual(_.Alternative.alt(_.Alternative.zero<number>(), () => _.some(1))(), O.some(1))
+  })
+
+  it('MonadIO', () => {
+    assert.deepStrictEqual(_.MonadIO.fromIO(I.of(1))(), O.some(1))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('fromNullable', () => {
+    assert.deepStrictEqual(_.fromNullable(1)(), O.some(1))
+    assert.deepStrictEqual(_.fromNullable(null)(), O.none)
+    assert.deepStrictEqual(_.fromNullable(undefined)(), O.none)
+  })
+
+  it('fromPredicate', () => {
+    const p = (n: number): boolean => n > 2
+    const f = _.fromPredicate(p)
+    assert.deepStrictEqual(f(1)(), O.none)
+    assert.deepStrictEqual(f(3)(), O.some(3))
+  })
+
+  it('fromEither', () => {
+    assert.deepStrictEqual(_.fromEither(E.right(1))(), O.some(1))
+    assert.deepStrictEqual(_.fromEither(E.left('a'))(), O.none)
+  })
+
+  it('fromIOEither', () => {
+    assert.deepStrictEqual(_.fromIOEither(IE.right(1))(), O.some(1))
+    assert.deepStrictEqual(_.fromIOEither(IE.left('a'))(), O.none)
+  })
+
+  it('tryCatch', () => {
+    assert.deepStrictEqual(_.tryCatch(() => 1)(), O.some(1))
+    assert.deepStrictEqual(
+      _.tryCatch(() => {
+        throw new Error()
+      })(),
+      O.none
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  it('fold', () => {
+    const f = _.fold(
+      () => I.of('none'),
+      (n: number) => I.of(`some(${n})`)
+    )
+    assert.deepStrictEqual(f(_.some(1))(), 'some(1)')
+    assert.deepStrictEqual(f(_.none)(), 'none')
+  })
+
+  it('getOrElse', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.some(1),
+        _.getOrElse(() => I.of(2))
+      )(),
+      1
+    )
+    assert.deepStrictEqual(
+      pipe(
+        _.none,
+        _.getOrElse(() => I.of(2))
+      )(),
+      2
+    )
+  })
+
+  it('toUndefined', () => {
+    assert.deepStrictEqual(_.toUndefined(_.some(1))(), 1)
+    assert.deepStrictEqual(_.toUndefined(_.none)(), undefined)
+  })
+
+  it('toNullable', () => {
+    assert.deepStrictEqual(_.toNullable(_.some(1))(), 1)
+    assert.deepStrictEqual(_.toNullable(_.none)(), null)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('tryCatchK', () => {
+    const f = _.tryCatchK((s: string) => {
+      const n = parseInt(s, 10)
+      if (isNaN(n)) {
+        throw new Error()
+      }
+      return n
+    })
+    assert.deepStrictEqual(f('1')(), O.some(1))
+    assert.deepStrictEqual(f('a')(), O.none)
+  })
+
+  it('chainNullableK', () => {
+    const f = _.chainNullableK((n: number) => (n > 0 ? n : null))
+    assert.deepStrictEqual(f(_.some(1))(), O.some(1))
+    assert.deepStrictEqual(f(_.some(-1))(), O.none)
+  })
+
+  it('chainOptionK', () => {
+    const f = _.chainOptionK((n: number) => (n > 0 ? O.some(n) : O.none))
+    assert.deepStrictEqual(f(_.some(1))(), O.some(1))
+    assert.deepStrictEqual(f(_.some(-1))(), O.none)
+  })
+
+  it('chainIOK', () => {
+    const f = (s: string) => I.of(s.length)
+    assert.deepStrictEqual(pipe(_.some('a'), _.chainIOK(f))(), O.some(1))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // do notation
+  // -------------------------------------------------------------------------------------
+
+  it('do notation', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.some(1),
+        _.bindTo('a'),
+        _.bind('b', () => _.some('b'))
+      )(),
+      O.some({ a: 1, b: 'b' })
+    )
+  })
+
+  it('apS', () => {
+    assert.deepStrictEqual(pipe(_.Do, _.apS('a', _.some(1)), _.apS('b', _.some('b')))(), O.some({ a: 1, b: 'b' }))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // array utils
+  // -------------------------------------------------------------------------------------
+
+  it('sequenceArray', () => {
+    assert.deepStrictEqual(pipe([_.some(1), _.some(2)], _.sequenceArray)(), O.some([1, 2]))
+    assert.deepStrictEqual(pipe([_.some(1), _.none], _.sequenceArray)(), O.none)
+  })
+
+  it('traverseArrayWithIndex', () => {
+    const f = _.traverseArrayWithIndex((i, s: string) => (s.length > 0 ? _.some(s + i) : _.none))
+    assert.deepStrictEqual(pipe(['a', 'b'], f)(), O.some(['a0', 'b1']))
+    assert.deepStrictEqual(pipe(['a', ''], f)(), O.none)
+  })
+})
@@ -0,0 +1,245 @@
+import * as assert from 'assert'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+import * as I from '../src/IO'
+import * as _ from '../src/IOThese'
+import { monoidString, monoidSum } from '../src/Monoid'
+import * as O from '../src/Option'
+import { semigroupString } from '../src/Semigroup'
+import * as TH from '../src/These'
+
+describe('IOThese', () => {
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(pipe(_.right(1), _.map(double))(), TH.right(2))
+  })
+
+  it('bimap', () => {
+    const f = (e: string) => e + e
+    const g = (a: number) => a + 1
+    assert.deepStrictEqual(pipe(_.right(1), _.bimap(f, g))(), TH.right(2))
+    assert.deepStrictEqual(pipe(_.left('a'), _.bimap(f, g))(), TH.left('aa'))
+    assert.deepStrictEqual(pipe(_.both('a', 1), _.bimap(f, g))(), TH.both('aa', 2))
+  })
+
+  it('mapLeft', () => {
+    const f = (e: string) => e + e
+    assert.deepStrictEqual(pipe(_.both('a', 1), _.mapLeft(f))(), TH.both('aa', 1))
+  })
+
+  it('chain', () => {
+    const f = (n: number) => (n > 2 ? _.both('c', n * 3) : n > 1 ? _.right(n * 2) : _.left('b'))
+    const chain = _.chain(semigroupString)
+    assert.deepStrictEqual(pipe(_.right(1), chain(f))(), TH.left('b'))
+    assert.deepStrictEqual(pipe(_.right(2), chain(f))(), TH.right(4))
+    assert.deepStrictEqual(pipe(_.left('a'), chain(f))(), TH.left('a'))
+    assert.deepStrictEqual(pipe(_.both('a', 1), chain(f))(), TH.left('ab'))
+    assert.deepStrictEqual(pipe(_.both('a', 2), chain(f))(), TH.both('a', 4))
+    assert.deepStrictEqual(pipe(_.both('a', 3), chain(f))(), TH.both('ac', 9))
+  })
+
+  it('chainFirst', () => {
+    const chainFirst = _.chainFirst(semigroupString)
+    assert.deepStrictEqual(
+      pipe(
+        _.both('a', 1),
+        chainFirst(() => _.both('b', 2))
+      )(),
+      TH.both('ab', 1)
+    )
+  })
+
+  it('chainTheseK', () => {
+    const chainTheseK = _.chainTheseK(semigroupString)
+    assert.deepStrictEqual(
+      pipe(
+        _.both('a', 1),
+        chainTheseK((n) => TH.both('b', n + 1))
+      )(),
+      TH.both('ab', 2)
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('getSemigroup', () => {
+    const S = _.getSemigroup(monoidString, monoidSum)
+    assert.deepStrictEqual(S.concat(_.right(1), _.right(2))(), TH.right(3))
+    assert.deepStrictEqual(S.concat(_.left('a'), _.both('b', 2))(), TH.both('ab', 2))
+  })
+
+  it('Bifunctor', () => {
+    const f = (e: string) => e + e
+    const g = (a: number) => a + 1
+    assert.deepStrictEqual(_.Bifunctor.bimap(_.both('a', 1), f, g)(), TH.both('aa', 2))
+    assert.deepStrictEqual(_.Bifunctor.mapLeft(_.both('a', 1), f)(), TH.both('aa', 1))
+  })
+
+  it('getApplicative', () => {
+    const A = _.getApplicative(semigroupString)
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(A.ap(_.both('a', double), _.both('b', 1))(), TH.both('ab', 2))
+    assert.deepStrictEqual(A.ap(_.left('a'), _.left('b'))(), TH.left('ab'))
+  })
+
+  describe('getMonad', () => {
+    const M = _.getMonad(semigroupString)
+
+    it('map', () => {
+      assert.deepStrictEqual(M.map(_.both('a', 1), (n) => n * 2)(), TH.both('a', 2))
+    })
+
+    it('ap', () => {
+      assert.deepStrictEqual(
+        M.ap(
+          _.right((n: number) => n * 2),
+          _.right(1)
+        )(),
+        TH.right(2)
+      )
+    })
+
+    it('chain', () => {
+      assert.deepStrictEqual(M.chain(_.both('a', 1), (n) => _.both('b', n * 2))(), TH.both('ab', 2))
+    })
+
+    it('fromIO', () => {
+      assert.deepStrictEqual(M.fromIO(I.of(1))(), TH.right(1))
+    })
+
+    it('throwError', () => {
+      assert.deepStrictEqual(M.throwError('a')(), TH.left('a'))
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('rightIO', () => {
+    assert.deepStrictEqual(_.rightIO(I.of(1))(), TH.right(1))
+  })
+
+  it('leftIO', () => {
+    assert.deepStrictEqual(_.leftIO(I.of('a'))(), TH.left('a'))
+  })
+
+  it('fromThese', () => {
+    assert.deepStrictEqual(_.fromThese(TH.both('a', 1))(), TH.both('a', 1))
+  })
+
+  it('fromEither', () => {
+    assert.deepStrictEqual(_.fromEither(E.left('a'))(), TH.left('a'))
+  })
+
+  it('fromIOEither', () => {
+    assert.deepStrictEqual(_.fromIOEither(() => E.right(1))(), TH.right(1))
+  })
+
+  it('fromOption', () => {
+    assert.deepStrictEqual(_.fromOption(() => 'a')(O.none)(), TH.left('a'))
+    assert.deepStrictEqual(_.fromOption(() => 'a')(O.some(1))(), TH.right(1))
+  })
+
+  it('fromPredicate', () => {
+    const f = _.fromPredicate(
+      (n: number) => n > 0,
+      () => 'a'
+    )
+    assert.deepStrictEqual(f(1)(), TH.right(1))
+    assert.deepStrictEqual(f(-1)(), TH.left('a'))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  it('fold', () => {
+    const f = _.fold(
+      (e) => I.of(`left ${e}`),
+      (a) => I.of(`right ${a}`),
+      (e, a) => I.of(`both ${e} ${a}`)
+    )
+    assert.deepStrictEqual(pipe(_.right(1), f)(), 'right 1')
+    assert.deepStrictEqual(pipe(_.left('a'), f)(), 'left a')
+    assert.deepStrictEqual(pipe(_.both('a', 1), f)(), 'both a 1')
+  })
+
+  it('swap', () => {
+    assert.deepStrictEqual(_.swap(_.both('a', 1))(), TH.both(1, 'a'))
+  })
+
+  it('toTuple', () => {
+    const f = _.toTuple(
+      () => 'b',
+      () => 2
+    )
+    assert.deepStrictEqual(f(_.right(1))(), ['b', 1])
+    assert.deepStrictEqual(f(_.left('a'))(), ['a', 2])
+    assert.deepStrictEqual(f(_.both('a', 1))(), ['a', 1])
+    // the defaults are computed only when needed
+    const g = _.toTuple<string, number>(
+      () => {
+        throw new Error('e')
+      },
+      () => {
+        throw new Error('a')
+      }
+    )
+    assert.deepStrictEqual(g(_.both('a', 1))(), ['a', 1])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // do notation
+  // -------------------------------------------------------------------------------------
+
+  it('do notation', () => {
+    const bind = _.bind(semigroupString)
+    assert.deepStrictEqual(
+      pipe(
+        _.Do,
+        bind('a', () => _.both('a', 1)),
+        bind('b', ({ a }) => _.both('b', a + 1))
+      )(),
+      TH.both('ab', { a: 1, b: 2 })
+    )
+    assert.deepStrictEqual(pipe(_.right(1), _.bindTo('a'))(), TH.right({ a: 1 }))
+  })
+
+  it('apS', () => {
+    const apS = _.apS(semigroupString)
+    assert.deepStrictEqual(
+      pipe(_.both('a', 1), _.bindTo('a'), apS('b', _.both('b', 'b')))(),
+      TH.both('ab', { a: 1, b: 'b' })
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // array utils
+  // -------------------------------------------------------------------------------------
+
+  describe('array utils', () => {
+    it('traverseArray', () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<number> = []
+      const f = (n: number): _.IOThese<string, number> => () => {
+        log.push(n)
+        return n > 0 ? TH.right(n) : n === 0 ? TH.both('zero ', n) : TH.left('negative ')
+      }
+      const traverse = _.traverseArray(semigroupString)(f)
+      assert.deepStrictEqual(pipe([1, 0, 2], traverse)(), TH.both('zero ', [1, 0, 2]))
+      assert.deepStrictEqual(pipe([0, -1, 2], traverse)(), TH.left('zero negative '))
+      assert.deepStrictEqual(log, [1, 0, 2, 0, -1])
+    })
+
+    it('sequenceArray', () => {
+      assert.deepStrictEqual(_.sequenceArray(semigroupString)([_.right(1), _.both('a', 2)])(), TH.both('a', [1, 2]))
+    })
+  })
+})
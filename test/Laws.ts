@@ -0,0 +1,297 @@
+import * as assert from 'assert'
+import { booleanAlgebraBoolean } from '../src/BooleanAlgebra'
+import * as E from '../src/Either'
+import { Eq, eqBoolean, eqNumber, eqString } from '../src/Eq'
+import { pipe } from '../src/function'
+import * as I from '../src/Identity'
+import * as _ from '../src/Laws'
+import { monoidString, monoidSum } from '../src/Monoid'
+import * as O from '../src/Option'
+import * as R from '../src/Random'
+import { ordBoolean, ordNumber, ordString } from '../src/Ord'
+import * as RA from '../src/ReadonlyArray'
+import * as RE from '../src/ReaderEither'
+import { semigroupString } from '../src/Semigroup'
+import * as S from '../src/State'
+import * as SRTE from '../src/StateReaderTaskEither'
+
+const holds = (laws: ReadonlyArray<_.Law>): void => assert.deepStrictEqual(_.check(laws), E.right(undefined))
+
+const violation = (laws: ReadonlyArray<_.Law>): _.Violation => {
+  const result = _.check(laws)
+  assert.deepStrictEqual(E.isLeft(result), true)
+  return (result as E.Left<_.Violation>).left
+}
+
+const violated = (laws: ReadonlyArray<_.Law>): string => violation(laws).law
+
+const counterexample = <A>(name: string, arb: _.Arbitrary<A>, predicate: (a: A) => boolean): unknown =>
+  violation([_.law(name, arb, predicate)]).counterexample
+
+const small = _.fromGen(R.int(0, 2))
+
+const identity = <A>(arb: _.Arbitrary<A>): _.Arbitrary<I.Identity<A>> => arb
+
+const either = <A>(arb: _.Arbitrary<A>): _.Arbitrary<E.Either<string, A>> =>
+  _.fromGen(pipe(_.option(arb).gen, S.map(E.fromOption(() => 'e'))))
+
+const eqEither = <A>(eq: Eq<A>): Eq<E.Either<string, A>> => E.getEq(eqString, eq)
+
+const validation = <A>(arb: _.Arbitrary<A>): _.Arbitrary<E.Either<string, A>> =>
+  _.fromGen(
+    pipe(
+      _.tuple(_.string, _.option(arb)).gen,
+      S.map(([e, ma]) =>
+        pipe(
+          ma,
+          E.fromOption(() => e)
+        )
+      )
+    )
+  )
+
+const readerEither = <A>(arb: _.Arbitrary<A>): _.Arbitrary<RE.ReaderEither<number, string, A>> =>
+  _.fromGen(
+    pipe(
+      validation(arb).gen,
+      S.map((e): RE.ReaderEither<number, string, A> => () => e)
+    )
+  )
+
+const eqReaderEither = <A>(eq: Eq<A>): Eq<RE.ReaderEither<number, string, A>> => ({
+  equals: (x, y) => eqEither(eq).equals(x(0), y(0))
+})
+
+describe('Laws', () => {
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  describe('law', () => {
+    it('should shrink the counterexample', () => {
+      assert.deepStrictEqual(
+        counterexample('n < 10', _.number, (n) => n < 10),
+        10
+      )
+    })
+
+    it('should report the law name and the seed', () => {
+      const v = violation([_.law('n < 10', _.number, (n) => n < 10)])
+      assert.deepStrictEqual(v.law, 'n < 10')
+      assert.deepStrictEqual(v.shrinks > 0, true)
+      assert.deepStrictEqual(_.number.gen(v.seed)[0] >= 10, true)
+    })
+
+    it('should stop after maxShrinks', () => {
+      const result = _.check([_.law('n < 10', _.number, (n) => n < 10)], { ..._.defaultParameters, maxShrinks: 0 })
+      const v = (result as E.Left<_.Violation>).left
+      assert.deepStrictEqual(v.shrinks, 0)
+      assert.deepStrictEqual(v.counterexample, _.number.gen(v.seed)[0])
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // arbitraries
+  // -------------------------------------------------------------------------------------
+
+  it('number', () => {
+    assert.deepStrictEqual(_.number.shrink(0), [])
+    assert.deepStrictEqual(_.number.shrink(1), [0])
+    assert.deepStrictEqual(_.number.shrink(-7), [0, -3, -6])
+  })
+
+  it('boolean', () => {
+    assert.deepStrictEqual(_.boolean.shrink(true), [false])
+    assert.deepStrictEqual(_.boolean.shrink(false), [])
+    assert.deepStrictEqual(
+      counterexample('false', _.boolean, (b) => !b),
+      true
+    )
+  })
+
+  it('string', () => {
+    assert.deepStrictEqual(_.string.shrink('abc'), ['bc', 'ac', 'ab'])
+    assert.deepStrictEqual(String(counterexample('length < 3', _.string, (s) => s.length < 3)).length, 3)
+  })
+
+  it('array', () => {
+    assert.deepStrictEqual(_.array(_.number).shrink([1, 2]), [[2], [1], [0, 2], [1, 0], [1, 1]])
+    assert.deepStrictEqual(
+      counterexample('n < 10', _.array(_.number), (ns) => ns.every((n) => n < 10)),
+      [10]
+    )
+  })
+
+  it('option', () => {
+    assert.deepStrictEqual(_.option(_.number).shrink(O.none), [])
+    assert.deepStrictEqual(_.option(_.number).shrink(O.some(1)), [O.none, O.some(0)])
+    assert.deepStrictEqual(
+      counterexample(
+        'n < 10',
+        _.option(_.number),
+        O.fold(
+          () => true,
+          (n) => n < 10
+        )
+      ),
+      O.some(10)
+    )
+  })
+
+  it('tuple', () => {
+    assert.deepStrictEqual(_.tuple(_.number, _.boolean).shrink([1, true]), [
+      [0, true],
+      [1, false]
+    ])
+    const [a, b] = counterexample('a + b < 10', _.tuple(_.number, _.number), ([a, b]) => a + b < 10) as readonly [
+      number,
+      number
+    ]
+    assert.deepStrictEqual(a + b, 10)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // laws
+  // -------------------------------------------------------------------------------------
+
+  it('eq', () => {
+    holds(_.eq(eqNumber, _.number))
+    holds(_.eq(eqBoolean, _.boolean))
+    assert.deepStrictEqual(violated(_.eq({ equals: (x: number, y) => x <= y }, _.number)), 'Eq.symmetry')
+    assert.deepStrictEqual(violated(_.eq({ equals: (x: number, y) => Math.abs(x - y) <= 1 }, small)), 'Eq.transitivity')
+  })
+
+  it('ord', () => {
+    holds(_.ord(ordNumber, _.number))
+    holds(_.ord(ordString, _.string))
+    holds(_.ord(ordBoolean, _.boolean))
+    assert.deepStrictEqual(violated(_.ord({ ...ordNumber, compare: () => -1 }, _.number)), 'Ord.antisymmetry')
+    assert.deepStrictEqual(
+      // rock-paper-scissors
+      violated(_.ord({ ...ordNumber, compare: (x, y) => (x === y ? 0 : (y - x + 3) % 3 === 1 ? -1 : 1) }, small)),
+      'Ord.transitivity'
+    )
+    assert.deepStrictEqual(violated(_.ord({ ...ordNumber, equals: () => true }, _.number)), 'Ord.consistency')
+  })
+
+  it('semigroup', () => {
+    holds(_.semigroup(semigroupString, eqString, _.string))
+    assert.deepStrictEqual(
+      violated(_.semigroup({ concat: (x: number, y: number) => x - y }, eqNumber, _.number)),
+      'Semigroup.associativity'
+    )
+  })
+
+  it('monoid', () => {
+    holds(_.monoid(monoidSum, eqNumber, _.number))
+    holds(_.monoid(monoidString, eqString, _.string))
+    assert.deepStrictEqual(violated(_.monoid({ ...monoidSum, empty: 1 }, eqNumber, _.number)), 'Monoid.rightIdentity')
+  })
+
+  it('joinSemilattice', () => {
+    holds(_.joinSemilattice(booleanAlgebraBoolean, eqBoolean, _.boolean))
+    assert.deepStrictEqual(
+      violated(_.joinSemilattice({ join: (x: number, y: number) => x + y }, eqNumber, _.number)),
+      'JoinSemilattice.idempotency'
+    )
+  })
+
+  it('meetSemilattice', () => {
+    holds(_.meetSemilattice(booleanAlgebraBoolean, eqBoolean, _.boolean))
+    assert.deepStrictEqual(
+      violated(_.meetSemilattice({ meet: (x: number, y: number) => x * y }, eqNumber, _.number)),
+      'MeetSemilattice.idempotency'
+    )
+  })
+
+  it('lattice', () => {
+    holds(_.lattice(booleanAlgebraBoolean, eqBoolean, _.boolean))
+    holds(_.lattice({ join: Math.max, meet: Math.min }, eqNumber, _.number))
+    assert.deepStrictEqual(
+      violated(_.lattice({ join: Math.max, meet: Math.max }, eqNumber, _.number)),
+      'Lattice.absorption'
+    )
+  })
+
+  describe('functor', () => {
+    it('Functor1', () => {
+      holds(_.functor(O.Functor)(_.option, O.getEq))
+      const F: typeof O.Functor = { URI: O.URI, map: () => O.none }
+      const v = violation(_.functor(F)(_.option, O.getEq))
+      assert.deepStrictEqual(v.law, 'Functor.identity')
+      assert.deepStrictEqual(v.counterexample, O.some(''))
+    })
+
+    it('Functor2', () => {
+      holds(_.functor(E.Functor)(either, eqEither))
+    })
+
+    it('Functor2C', () => {
+      holds(_.functor(E.getValidation(semigroupString))(validation, eqEither))
+    })
+
+    it('Functor3', () => {
+      holds(_.functor(RE.Functor)(readerEither, eqReaderEither))
+    })
+
+    it('Functor3C', () => {
+      holds(_.functor(RE.getReaderValidation(semigroupString))(readerEither, eqReaderEither))
+    })
+
+    it('Functor4', () => {
+      const lift = <A>(arb: _.Arbitrary<A>): _.Arbitrary<SRTE.StateReaderTaskEither<number, number, string, A>> =>
+        _.fromGen(
+          pipe(
+            arb.gen,
+            S.map((a) => SRTE.right<number, number, string, A>(a))
+          )
+        )
+      const liftEq = <A>(_eq: Eq<A>): Eq<SRTE.StateReaderTaskEither<number, number, string, A>> => ({
+        equals: () => true
+      })
+      holds(_.functor(SRTE.Functor)(lift, liftEq))
+    })
+  })
+
+  it('apply', () => {
+    holds(_.apply(O.Applicative)(_.option, O.getEq))
+    holds(_.apply(RA.Applicative)(_.array, RA.getEq))
+    holds(_.apply(E.getApplicativeValidation(semigroupString))(validation, eqEither))
+  })
+
+  it('monad', () => {
+    holds(_.monad(O.Monad)(_.option, O.getEq))
+    holds(_.monad(I.Monad)(identity, (eq) => eq))
+    holds(_.monad(RA.Monad)(_.array, RA.getEq))
+    holds(_.monad(E.Monad)(either, eqEither))
+    holds(_.monad(RE.Monad)(readerEither, eqReaderEither))
+    // validation accumulates errors in `ap` but not in `chain`
+    assert.deepStrictEqual(violated(_.monad(E.getValidation(semigroupString))(validation, eqEither)), 'Chain.derivedAp')
+  })
+
+  it('alt', () => {
+    holds(_.alt(O.Alt)(_.option, O.getEq))
+    holds(_.alt(RA.Alt)(_.array, RA.getEq))
+    holds(_.alt(RE.getReaderValidation(semigroupString))(readerEither, eqReaderEither))
+    const F: typeof O.Alt = { ...O.Alt, alt: (fa) => fa }
+    holds(_.alt(F)(_.option, O.getEq))
+  })
+
+  it('foldable', () => {
+    holds(_.foldable(O.Foldable)(_.option))
+    holds(_.foldable(RA.Foldable)(_.array))
+    holds(_.foldable(E.Foldable)(either))
+    const F: typeof RA.Foldable = {
+      ...RA.Foldable,
+      reduceRight: (fa, b, f) => RA.Foldable.reduce(fa, b, (b, a) => f(a, b))
+    }
+    assert.deepStrictEqual(violated(_.foldable(F)(_.array)), 'Foldable.reduceRight')
+  })
+
+  it('traversable', () => {
+    holds(_.traversable(O.Traversable)(_.option, O.getEq))
+    holds(_.traversable(RA.Traversable)(_.array, RA.getEq))
+    holds(_.traversable(E.Traversable)(either, eqEither))
+    holds(_.traversable(E.getValidation(semigroupString))(validation, eqEither))
+  })
+})
@@ -0,0 +1,39 @@
+import * as assert from 'assert'
+import { pipe } from '../src/function'
+import * as I from '../src/IO'
+import { Mutex, newMutex } from '../src/Mutex'
+import * as T from '../src/Task'
+
+describe('Mutex', () => {
+  it('withLock', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const mutex = new Mutex()
+    const append = (message: string) => T.fromIO(() => log.push(message))
+    const fa = pipe(
+      append('start a'),
+      T.chain(() => T.delay(10)(append('end a')))
+    )
+    const fb = append('b')
+    const result = T.sequenceArray([mutex.withLock(fa), mutex.withLock(fb)])()
+    assert.deepStrictEqual(mutex.isLocked(), true)
+    await result
+    assert.deepStrictEqual(log, ['start a', 'end a', 'b'])
+    assert.deepStrictEqual(mutex.isLocked(), false)
+  })
+
+  it('newMutex', () => {
+    assert.deepStrictEqual(
+      pipe(
+        newMutex,
+        I.chain((mutex) => mutex.isLocked)
+      )(),
+      false
+    )
+  })
+
+  it('pipe', async () => {
+    const mutex = new Mutex()
+    assert.deepStrictEqual(await pipe(T.of(1), mutex.withLock)(), 1)
+  })
+})
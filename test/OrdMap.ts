@@ -0,0 +1,853 @@
+import * as assert from 'assert'
+import * as fc from 'fast-check'
+import { Either, left, right } from '../src/Either'
+import { eqNumber, eqString } from '../src/Eq'
+import { identity, pipe } from '../src/function'
+import * as I from '../src/Identity'
+import { monoidString } from '../src/Monoid'
+import * as O from '../src/Option'
+import * as Ord from '../src/Ord'
+import * as _ from '../src/OrdMap'
+import * as RA from '../src/ReadonlyArray'
+import { getFirstSemigroup, getLastSemigroup, semigroupString } from '../src/Semigroup'
+import { showNumber, showString } from '../src/Show'
+
+const ord = Ord.ordNumber
+
+const fromArray = <A>(as: ReadonlyArray<readonly [number, A]>): _.OrdMap<number, A> =>
+  _.fromFoldable(ord, getLastSemigroup<A>(), RA.Foldable)(as)
+
+const fromKeys = (ks: ReadonlyArray<number>): _.OrdMap<number, string> =>
+  fromArray(ks.map((k) => [k, String(k)] as const))
+
+// checks that the tree is ordered, balanced and that the sizes are correct
+const isValid = <A>(m: _.OrdMap<number, A>): boolean => {
+  const go = (m: _.OrdMap<number, A>, low: number, high: number): boolean => {
+    if (m._tag === 'Leaf') {
+      return true
+    }
+    const sl = _.size(m.left)
+    const sr = _.size(m.right)
+    return (
+      m.key > low &&
+      m.key < high &&
+      m.size === sl + sr + 1 &&
+      (sl + sr <= 1 || (sl <= 3 * sr && sr <= 3 * sl)) &&
+      go(m.left, low, m.key) &&
+      go(m.right, m.key, high)
+    )
+  }
+  return go(m, -Infinity, Infinity)
+}
+
+const sortedUniq = (ks: ReadonlyArray<number>): ReadonlyArray<number> => pipe(ks, RA.uniq(eqNumber), RA.sort(ord))
+
+describe('OrdMap', () => {
+  describe('balancing', () => {
+    it('ascending and descending insertions', () => {
+      const ks = RA.range(1, 1000)
+      const asc = fromKeys(ks)
+      assert.deepStrictEqual(isValid(asc), true)
+      assert.deepStrictEqual(_.keys(asc), ks)
+      const desc = fromKeys(RA.reverse(ks))
+      assert.deepStrictEqual(isValid(desc), true)
+      assert.deepStrictEqual(_.keys(desc), ks)
+    })
+
+    it('scrambled operations', () => {
+      const scrambled = RA.range(0, 999).map((i) => (i * 7919) % 1000)
+      const m = fromKeys(scrambled)
+      assert.deepStrictEqual(isValid(m), true)
+      assert.deepStrictEqual(_.keys(m), RA.range(0, 999))
+      const deleted = scrambled.slice(0, 700).reduce((m, k) => _.deleteAt(ord)(k)(m), m)
+      assert.deepStrictEqual(isValid(deleted), true)
+      assert.deepStrictEqual(_.size(deleted), 300)
+      const root = m._tag === 'Node' ? m.key : -1
+      const small = fromKeys(RA.range(0, 9).map((i) => i * 97))
+      const operations: ReadonlyArray<_.OrdMap<number, string>> = [
+        _.union(ord, semigroupString)(small)(m),
+        _.union(ord, semigroupString)(m)(small),
+        _.intersection(ord, semigroupString)(small)(m),
+        _.intersection(ord, semigroupString)(m)(small),
+        _.difference(ord)(small)(m),
+        _.difference(ord)(m)(small),
+        _.range(ord)(100, 900)(m),
+        _.split(ord)(500)(m)[0],
+        _.split(ord)(500)(m)[2],
+        pipe(
+          m,
+          _.filterWithIndex((k) => k < 100 || k > 900)
+        ),
+        pipe(
+          m,
+          _.filterWithIndex((k) => k % 2 === 0)
+        ),
+        // removing the root leaves two subtrees of very different sizes to be merged
+        pipe(
+          m,
+          _.filterWithIndex((k) => k < 5 || k > root)
+        ),
+        pipe(
+          m,
+          _.filterWithIndex((k) => k < root || k > 995)
+        )
+      ]
+      assert.deepStrictEqual(operations.every(isValid), true)
+    })
+
+    it('insertAt / deleteAt', () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer(-100, 100)), fc.array(fc.integer(-100, 100)), (ins, dels) => {
+          const m = fromKeys(ins)
+          const d = dels.reduce((m, k) => _.deleteAt(ord)(k)(m), m)
+          return (
+            isValid(m) &&
+            isValid(d) &&
+            RA.getEq(eqNumber).equals(_.keys(m), sortedUniq(ins)) &&
+            RA.getEq(eqNumber).equals(
+              _.keys(d),
+              sortedUniq(ins).filter((k) => !dels.includes(k))
+            )
+          )
+        })
+      )
+    })
+
+    it('split / range', () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer(-100, 100)), fc.integer(-100, 100), fc.integer(-100, 100), (ks, a, b) => {
+          const m = fromKeys(ks)
+          const [lower, found, greater] = _.split(ord)(a)(m)
+          const r = _.range(ord)(a, b)(m)
+          return (
+            isValid(lower) &&
+            isValid(greater) &&
+            isValid(r) &&
+            RA.getEq(eqNumber).equals(
+              _.keys(lower),
+              sortedUniq(ks).filter((k) => k < a)
+            ) &&
+            RA.getEq(eqNumber).equals(
+              _.keys(greater),
+              sortedUniq(ks).filter((k) => k > a)
+            ) &&
+            O.isSome(found) === ks.includes(a) &&
+            RA.getEq(eqNumber).equals(
+              _.keys(r),
+              sortedUniq(ks).filter((k) => k >= a && k <= b)
+            )
+          )
+        })
+      )
+    })
+
+    it('union / intersection / difference', () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer(-100, 100)), fc.array(fc.integer(-100, 100)), (xs, ys) => {
+          const x = fromKeys(xs)
+          const y = fromKeys(ys)
+          const u = _.union(ord, semigroupString)(y)(x)
+          const i = _.intersection(ord, semigroupString)(y)(x)
+          const d = _.difference(ord)(y)(x)
+          return (
+            isValid(u) &&
+            isValid(i) &&
+            isValid(d) &&
+            RA.getEq(eqNumber).equals(_.keys(u), sortedUniq(xs.concat(ys))) &&
+            RA.getEq(eqNumber).equals(
+              _.keys(i),
+              sortedUniq(xs).filter((k) => ys.includes(k))
+            ) &&
+            RA.getEq(eqNumber).equals(
+              _.keys(d),
+              sortedUniq(xs).filter((k) => !ys.includes(k))
+            )
+          )
+        })
+      )
+    })
+
+    it('filter / partition', () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer(-100, 100)), (ks) => {
+          const m = fromKeys(ks)
+          const f = pipe(
+            m,
+            _.filterWithIndex((k) => k % 3 === 0)
+          )
+          const p = pipe(
+            m,
+            _.partitionWithIndex((k) => k % 2 === 0)
+          )
+          return (
+            isValid(f) &&
+            isValid(p.left) &&
+            isValid(p.right) &&
+            RA.getEq(eqNumber).equals(
+              _.keys(f),
+              sortedUniq(ks).filter((k) => k % 3 === 0)
+            ) &&
+            _.size(p.left) + _.size(p.right) === _.size(m)
+          )
+        })
+      )
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  describe('pipeables', () => {
+    const m = fromArray([
+      [2, 'b'],
+      [1, 'a'],
+      [3, 'c']
+    ])
+
+    it('map', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.map((s) => s.toUpperCase()),
+          _.toReadonlyArray
+        ),
+        [
+          [1, 'A'],
+          [2, 'B'],
+          [3, 'C']
+        ]
+      )
+    })
+
+    it('mapWithIndex', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.mapWithIndex((k, s) => `${s}${k}`),
+          _.values
+        ),
+        ['a1', 'b2', 'c3']
+      )
+    })
+
+    it('reduce', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.reduce('', (b, a) => b + a)
+        ),
+        'abc'
+      )
+    })
+
+    it('foldMap', () => {
+      assert.deepStrictEqual(pipe(m, _.foldMap(monoidString)(identity)), 'abc')
+    })
+
+    it('reduceRight', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.reduceRight('', (a, b) => b + a)
+        ),
+        'cba'
+      )
+    })
+
+    it('reduceWithIndex', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.reduceWithIndex('', (k, b, a) => b + k + a)
+        ),
+        '1a2b3c'
+      )
+    })
+
+    it('foldMapWithIndex', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.foldMapWithIndex(monoidString)((k, a) => k + a)
+        ),
+        '1a2b3c'
+      )
+    })
+
+    it('reduceRightWithIndex', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.reduceRightWithIndex('', (k, a, b) => b + k + a)
+        ),
+        '3c2b1a'
+      )
+    })
+
+    it('traverse', () => {
+      const traverse = _.traverse(O.Applicative)
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          traverse((s) => (s.length > 0 ? O.some(s.length) : O.none)),
+          O.map(_.toReadonlyArray)
+        ),
+        O.some([
+          [1, 1],
+          [2, 1],
+          [3, 1]
+        ])
+      )
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          traverse((s) => (s === 'b' ? O.none : O.some(s)))
+        ),
+        O.none
+      )
+    })
+
+    it('sequence', () => {
+      const sequence = _.sequence(O.Applicative)
+      assert.deepStrictEqual(
+        pipe(
+          fromArray([
+            [1, O.some('a')],
+            [2, O.some('b')]
+          ]),
+          sequence,
+          O.map(_.toReadonlyArray)
+        ),
+        O.some([
+          [1, 'a'],
+          [2, 'b']
+        ])
+      )
+      assert.deepStrictEqual(
+        sequence(
+          fromArray([
+            [1, O.some('a')],
+            [2, O.none]
+          ])
+        ),
+        O.none
+      )
+    })
+
+    it('traverseWithIndex', () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<number> = []
+      const out = pipe(m, (fa) =>
+        _.getTraversableWithIndex<number>().traverseWithIndex(I.Applicative)(fa, (k, s) => {
+          log.push(k)
+          return s + k
+        })
+      )
+      assert.deepStrictEqual(log, [1, 2, 3])
+      assert.deepStrictEqual(_.values(out), ['a1', 'b2', 'c3'])
+    })
+
+    it('compact', () => {
+      assert.deepStrictEqual(
+        pipe(
+          fromArray([
+            [1, O.some('a')],
+            [2, O.none]
+          ]),
+          _.compact,
+          _.toReadonlyArray
+        ),
+        [[1, 'a']]
+      )
+    })
+
+    it('separate', () => {
+      const { left: l, right: r } = _.separate(
+        fromArray<Either<string, number>>([
+          [1, left('a')],
+          [2, right(2)]
+        ])
+      )
+      assert.deepStrictEqual(_.toReadonlyArray(l), [[1, 'a']])
+      assert.deepStrictEqual(_.toReadonlyArray(r), [[2, 2]])
+    })
+
+    it('filter', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.filter((s) => s !== 'b'),
+          _.keys
+        ),
+        [1, 3]
+      )
+    })
+
+    it('filterMap', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.filterMap((s) => (s === 'b' ? O.none : O.some(s.length))),
+          _.toReadonlyArray
+        ),
+        [
+          [1, 1],
+          [3, 1]
+        ]
+      )
+    })
+
+    it('partition', () => {
+      const { left: l, right: r } = pipe(
+        m,
+        _.partition((s) => s === 'b')
+      )
+      assert.deepStrictEqual(_.keys(l), [1, 3])
+      assert.deepStrictEqual(_.keys(r), [2])
+    })
+
+    it('partitionMap', () => {
+      const { left: l, right: r } = pipe(
+        m,
+        _.partitionMap((s) => (s === 'b' ? right(s.length) : left(s)))
+      )
+      assert.deepStrictEqual(_.toReadonlyArray(l), [
+        [1, 'a'],
+        [3, 'c']
+      ])
+      assert.deepStrictEqual(_.toReadonlyArray(r), [[2, 1]])
+    })
+
+    it('filterMapWithIndex', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.filterMapWithIndex((k, s) => (k === 2 ? O.none : O.some(s + k))),
+          _.values
+        ),
+        ['a1', 'c3']
+      )
+    })
+
+    it('partitionMapWithIndex', () => {
+      const { left: l, right: r } = pipe(
+        m,
+        _.partitionMapWithIndex((k, s) => (k === 2 ? right(k) : left(s)))
+      )
+      assert.deepStrictEqual(_.values(l), ['a', 'c'])
+      assert.deepStrictEqual(_.values(r), [2])
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  describe('instances', () => {
+    const m = fromArray([
+      [2, 'b'],
+      [1, 'a']
+    ])
+
+    it('getShow', () => {
+      const S = _.getShow(showNumber, showString)
+      assert.deepStrictEqual(S.show(m), `OrdMap([[1, "a"], [2, "b"]])`)
+      assert.deepStrictEqual(S.show(_.empty), `OrdMap([])`)
+    })
+
+    it('getEq', () => {
+      const E = _.getEq(eqNumber, eqString)
+      assert.deepStrictEqual(
+        E.equals(
+          m,
+          fromArray([
+            [1, 'a'],
+            [2, 'b']
+          ])
+        ),
+        true
+      )
+      assert.deepStrictEqual(E.equals(m, _.singleton(1, 'a')), false)
+      assert.deepStrictEqual(
+        E.equals(
+          m,
+          fromArray([
+            [1, 'a'],
+            [2, 'c']
+          ])
+        ),
+        false
+      )
+      assert.deepStrictEqual(
+        E.equals(
+          m,
+          fromArray([
+            [1, 'a'],
+            [3, 'b']
+          ])
+        ),
+        false
+      )
+    })
+
+    it('getMonoid', () => {
+      const M = _.getMonoid(ord, semigroupString)
+      assert.deepStrictEqual(
+        _.toReadonlyArray(
+          M.concat(
+            m,
+            fromArray([
+              [2, 'c'],
+              [3, 'd']
+            ])
+          )
+        ),
+        [
+          [1, 'a'],
+          [2, 'bc'],
+          [3, 'd']
+        ]
+      )
+      assert.deepStrictEqual(M.concat(m, M.empty), m)
+      assert.deepStrictEqual(M.concat(M.empty, m), m)
+    })
+
+    it('Functor', () => {
+      assert.deepStrictEqual(_.values(_.Functor.map(m, (s) => s.length)), [1, 1])
+    })
+
+    it('Foldable', () => {
+      assert.deepStrictEqual(
+        _.Foldable.reduce(m, '', (b, a) => b + a),
+        'ab'
+      )
+      assert.deepStrictEqual(_.Foldable.foldMap(monoidString)(m, identity), 'ab')
+      assert.deepStrictEqual(
+        _.Foldable.reduceRight(m, '', (a, b) => b + a),
+        'ba'
+      )
+    })
+
+    it('Witherable', () => {
+      const W = _.Witherable
+      assert.deepStrictEqual(
+        pipe(
+          W.wither(O.Applicative)(m, (s) => O.some(s === 'a' ? O.none : O.some(s))),
+          O.map(_.toReadonlyArray)
+        ),
+        O.some([[2, 'b']])
+      )
+      const wilted = W.wilt(O.Applicative)(m, (s) => O.some(s === 'a' ? left(s) : right(s.length)))
+      assert.deepStrictEqual(
+        pipe(
+          wilted,
+          O.map(({ left, right }) => [_.toReadonlyArray(left), _.toReadonlyArray(right)])
+        ),
+        O.some([[[1, 'a']], [[2, 1]]])
+      )
+      assert.deepStrictEqual(pipe(W.sequence(O.Applicative)(W.map(m, O.some)), O.map(_.values)), O.some(['a', 'b']))
+    })
+
+    it('getFilterableWithIndex', () => {
+      const F = _.getFilterableWithIndex<number>()
+      assert.deepStrictEqual(_.values(F.mapWithIndex(m, (k, s) => s + k)), ['a1', 'b2'])
+      assert.deepStrictEqual(_.keys(F.filterWithIndex(m, (k) => k > 1)), [2])
+    })
+
+    it('getTraversableWithIndex', () => {
+      const T = _.getTraversableWithIndex<number>()
+      assert.deepStrictEqual(
+        T.reduceWithIndex(m, '', (k, b, a) => b + k + a),
+        '1a2b'
+      )
+      assert.deepStrictEqual(
+        pipe(
+          T.traverseWithIndex(O.Applicative)(m, (k, s) => O.some(s + k)),
+          O.map(_.values)
+        ),
+        O.some(['a1', 'b2'])
+      )
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('singleton', () => {
+    assert.deepStrictEqual(_.toReadonlyArray(_.singleton(1, 'a')), [[1, 'a']])
+  })
+
+  it('fromFoldable', () => {
+    const fromFoldable = _.fromFoldable(ord, getFirstSemigroup<string>(), RA.Foldable)
+    assert.deepStrictEqual(
+      _.toReadonlyArray(
+        fromFoldable([
+          [1, 'a'],
+          [1, 'b']
+        ])
+      ),
+      [[1, 'a']]
+    )
+  })
+
+  it('fromReadonlyMap', () => {
+    assert.deepStrictEqual(
+      _.toReadonlyArray(
+        _.fromReadonlyMap(ord)(
+          new Map([
+            [2, 'b'],
+            [1, 'a']
+          ])
+        )
+      ),
+      [
+        [1, 'a'],
+        [2, 'b']
+      ]
+    )
+    // keys equal according to the `Ord`: the first key is kept along with the last value
+    const ordLowerCase = Ord.contramap((s: string) => s.toLowerCase())(Ord.ordString)
+    assert.deepStrictEqual(
+      _.toReadonlyArray(
+        _.fromReadonlyMap(ordLowerCase)(
+          new Map([
+            ['a', 1],
+            ['A', 2]
+          ])
+        )
+      ),
+      [['a', 2]]
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  describe('destructors', () => {
+    const m = fromArray([
+      [2, 'b'],
+      [1, 'a'],
+      [3, 'c']
+    ])
+
+    it('size', () => {
+      assert.deepStrictEqual(_.size(m), 3)
+      assert.deepStrictEqual(_.size(_.empty), 0)
+    })
+
+    it('isEmpty', () => {
+      assert.deepStrictEqual(_.isEmpty(m), false)
+      assert.deepStrictEqual(_.isEmpty(_.empty), true)
+    })
+
+    it('keys', () => {
+      assert.deepStrictEqual(_.keys(m), [1, 2, 3])
+    })
+
+    it('values', () => {
+      assert.deepStrictEqual(_.values(m), ['a', 'b', 'c'])
+    })
+
+    it('collect', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.collect((k, a) => a + k)
+        ),
+        ['a1', 'b2', 'c3']
+      )
+    })
+
+    it('toUnfoldable', () => {
+      assert.deepStrictEqual(_.toUnfoldable(RA.Unfoldable)(m), [
+        [1, 'a'],
+        [2, 'b'],
+        [3, 'c']
+      ])
+    })
+
+    it('toReadonlyMap', () => {
+      assert.deepStrictEqual(
+        _.toReadonlyMap(m),
+        new Map([
+          [1, 'a'],
+          [2, 'b'],
+          [3, 'c']
+        ])
+      )
+    })
+
+    it('min', () => {
+      assert.deepStrictEqual(_.min(m), O.some([1, 'a']))
+      assert.deepStrictEqual(_.min(_.singleton(1, 'a')), O.some([1, 'a']))
+      assert.deepStrictEqual(_.min(_.empty), O.none)
+    })
+
+    it('max', () => {
+      assert.deepStrictEqual(_.max(m), O.some([3, 'c']))
+      assert.deepStrictEqual(_.max(_.empty), O.none)
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // utils
+  // -------------------------------------------------------------------------------------
+
+  describe('utils', () => {
+    interface Key {
+      readonly id: number
+    }
+    const ordKey = pipe(
+      ord,
+      Ord.contramap((k: Key) => k.id)
+    )
+    const m = _.fromFoldable(
+      ordKey,
+      getFirstSemigroup<string>(),
+      RA.Foldable
+    )([
+      [{ id: 1 }, 'a'],
+      [{ id: 2 }, 'b']
+    ])
+
+    it('lookupWithKey', () => {
+      assert.deepStrictEqual(_.lookupWithKey(ordKey)({ id: 2 })(m), O.some([{ id: 2 }, 'b']))
+      assert.deepStrictEqual(_.lookupWithKey(ordKey)({ id: 3 })(m), O.none)
+    })
+
+    it('lookup', () => {
+      assert.deepStrictEqual(_.lookup(ordKey)({ id: 1 })(m), O.some('a'))
+      assert.deepStrictEqual(_.lookup(ordKey)({ id: 0 })(m), O.none)
+    })
+
+    it('member', () => {
+      assert.deepStrictEqual(_.member(ordKey)({ id: 1 })(m), true)
+      assert.deepStrictEqual(_.member(ordKey)({ id: 3 })(m), false)
+    })
+
+    it('elem', () => {
+      assert.deepStrictEqual(_.elem(eqString)('b')(m), true)
+      assert.deepStrictEqual(_.elem(eqString)('c')(m), false)
+    })
+
+    it('isSubmap', () => {
+      const isSubmap = _.isSubmap(ordKey, eqString)
+      assert.deepStrictEqual(pipe(_.singleton({ id: 2 }, 'b'), isSubmap(m)), true)
+      assert.deepStrictEqual(pipe(_.singleton({ id: 2 }, 'a'), isSubmap(m)), false)
+      assert.deepStrictEqual(pipe(_.singleton({ id: 3 }, 'b'), isSubmap(m)), false)
+      assert.deepStrictEqual(pipe(m, isSubmap(_.singleton({ id: 2 }, 'b'))), false)
+      assert.deepStrictEqual(
+        pipe(
+          _.fromFoldable(
+            ordKey,
+            getFirstSemigroup<string>(),
+            RA.Foldable
+          )([
+            [{ id: 0 }, 'a'],
+            [{ id: 2 }, 'b']
+          ]),
+          isSubmap(m)
+        ),
+        false
+      )
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  describe('combinators', () => {
+    const m = fromArray([
+      [1, 'a'],
+      [2, 'b']
+    ])
+
+    it('insertAt', () => {
+      assert.deepStrictEqual(pipe(m, _.insertAt(ord)(3, 'c'), _.values), ['a', 'b', 'c'])
+      assert.deepStrictEqual(pipe(m, _.insertAt(ord)(0, 'c'), _.values), ['c', 'a', 'b'])
+      assert.deepStrictEqual(pipe(m, _.insertAt(ord)(1, 'c'), _.values), ['c', 'b'])
+      assert.strictEqual(pipe(m, _.insertAt(ord)(1, 'a')), m)
+      assert.strictEqual(pipe(m, _.insertAt(ord)(2, 'b')), m)
+      const m3 = fromKeys([1, 2, 3])
+      assert.strictEqual(pipe(m3, _.insertAt(ord)(1, '1')), m3)
+    })
+
+    it('deleteAt', () => {
+      assert.deepStrictEqual(pipe(m, _.deleteAt(ord)(1), _.toReadonlyArray), [[2, 'b']])
+      assert.strictEqual(pipe(m, _.deleteAt(ord)(3)), m)
+      assert.deepStrictEqual(pipe(fromKeys([2, 1]), _.deleteAt(ord)(2), _.keys), [1])
+      assert.deepStrictEqual(pipe(fromKeys([1, 2]), _.deleteAt(ord)(1), _.keys), [2])
+      assert.strictEqual(pipe(m, _.deleteAt(ord)(0)), m)
+    })
+
+    it('updateAt', () => {
+      assert.deepStrictEqual(pipe(m, _.updateAt(ord)(1, 'c'), O.map(_.values)), O.some(['c', 'b']))
+      assert.deepStrictEqual(pipe(m, _.updateAt(ord)(3, 'c')), O.none)
+    })
+
+    it('modifyAt', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.modifyAt(ord)(2, (s) => s + s),
+          O.map(_.values)
+        ),
+        O.some(['a', 'bb'])
+      )
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.modifyAt(ord)(3, (s) => s + s)
+        ),
+        O.none
+      )
+    })
+
+    it('pop', () => {
+      assert.deepStrictEqual(
+        pipe(
+          m,
+          _.pop(ord)(1),
+          O.map(([a, m]) => [a, _.toReadonlyArray(m)])
+        ),
+        O.some(['a', [[2, 'b']]])
+      )
+      assert.deepStrictEqual(pipe(m, _.pop(ord)(3)), O.none)
+    })
+
+    it('split', () => {
+      const [lower, found, greater] = pipe(m, _.split(ord)(2))
+      assert.deepStrictEqual(_.toReadonlyArray(lower), [[1, 'a']])
+      assert.deepStrictEqual(found, O.some('b'))
+      assert.deepStrictEqual(_.toReadonlyArray(greater), [])
+    })
+
+    it('range', () => {
+      assert.deepStrictEqual(pipe(fromKeys(RA.range(1, 10)), _.range(ord)(3, 5), _.keys), [3, 4, 5])
+      assert.deepStrictEqual(pipe(fromKeys(RA.range(1, 10)), _.range(ord)(5, 3), _.keys), [])
+    })
+
+    it('union', () => {
+      const union = _.union(ord, semigroupString)
+      assert.deepStrictEqual(pipe(m, union(_.singleton(2, 'c')), _.values), ['a', 'bc'])
+      assert.strictEqual(pipe(m, union(_.empty)), m)
+      assert.strictEqual(pipe(_.empty, union(m)), m)
+    })
+
+    it('intersection', () => {
+      const intersection = _.intersection(ord, semigroupString)
+      assert.deepStrictEqual(pipe(m, intersection(_.singleton(2, 'c')), _.toReadonlyArray), [[2, 'bc']])
+      assert.deepStrictEqual(pipe(m, intersection(_.empty)), _.empty)
+    })
+
+    it('difference', () => {
+      const difference = _.difference(ord)
+      assert.deepStrictEqual(pipe(m, difference(_.singleton(2, 'c')), _.toReadonlyArray), [[1, 'a']])
+      assert.strictEqual(pipe(m, difference(_.empty)), m)
+    })
+  })
+})
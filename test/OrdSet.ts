@@ -0,0 +1,237 @@
+import * as assert from 'assert'
+import * as fc from 'fast-check'
+import { eqNumber } from '../src/Eq'
+import { pipe } from '../src/function'
+import { monoidString } from '../src/Monoid'
+import * as O from '../src/Option'
+import * as Ord from '../src/Ord'
+import * as _ from '../src/OrdSet'
+import * as RA from '../src/ReadonlyArray'
+import { showNumber } from '../src/Show'
+
+const ord = Ord.ordNumber
+
+const fromArray = _.fromReadonlyArray(ord)
+
+const sortedUniq = (as: ReadonlyArray<number>): ReadonlyArray<number> => pipe(as, RA.uniq(eqNumber), RA.sort(ord))
+
+describe('OrdSet', () => {
+  describe('set algebra', () => {
+    it('union', () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer()), fc.array(fc.integer()), (xs, ys) => {
+          const s = pipe(fromArray(xs), _.union(ord)(fromArray(ys)))
+          assert.deepStrictEqual(_.toReadonlyArray(s), sortedUniq(xs.concat(ys)))
+        })
+      )
+    })
+
+    it('intersection', () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer(0, 20)), fc.array(fc.integer(0, 20)), (xs, ys) => {
+          const s = pipe(fromArray(xs), _.intersection(ord)(fromArray(ys)))
+          assert.deepStrictEqual(_.toReadonlyArray(s), sortedUniq(xs.filter((x) => ys.indexOf(x) !== -1)))
+        })
+      )
+    })
+
+    it('difference', () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer(0, 20)), fc.array(fc.integer(0, 20)), (xs, ys) => {
+          const s = pipe(fromArray(xs), _.difference(ord)(fromArray(ys)))
+          assert.deepStrictEqual(_.toReadonlyArray(s), sortedUniq(xs.filter((x) => ys.indexOf(x) === -1)))
+        })
+      )
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('getShow', () => {
+    const S = _.getShow(showNumber)
+    assert.deepStrictEqual(S.show(_.empty), 'OrdSet([])')
+    assert.deepStrictEqual(S.show(fromArray([2, 1])), 'OrdSet([1, 2])')
+  })
+
+  it('getEq', () => {
+    const E = _.getEq(eqNumber)
+    assert.deepStrictEqual(E.equals(fromArray([1, 2]), fromArray([2, 1])), true)
+    assert.deepStrictEqual(E.equals(fromArray([1, 2]), fromArray([1, 3])), false)
+    assert.deepStrictEqual(E.equals(fromArray([1, 2]), fromArray([1])), false)
+  })
+
+  it('getUnionMonoid', () => {
+    const M = _.getUnionMonoid(ord)
+    assert.deepStrictEqual(_.toReadonlyArray(M.concat(fromArray([1, 2]), fromArray([2, 3]))), [1, 2, 3])
+    assert.deepStrictEqual(_.toReadonlyArray(M.concat(fromArray([1]), M.empty)), [1])
+  })
+
+  it('getIntersectionSemigroup', () => {
+    const S = _.getIntersectionSemigroup(ord)
+    assert.deepStrictEqual(_.toReadonlyArray(S.concat(fromArray([1, 2]), fromArray([2, 3]))), [2])
+  })
+
+  it('getBoundedLattice', () => {
+    const universe = fromArray([1, 2, 3])
+    const L = _.getBoundedLattice(ord, universe)
+    assert.deepStrictEqual(_.toReadonlyArray(L.join(fromArray([1]), fromArray([3]))), [1, 3])
+    assert.deepStrictEqual(_.toReadonlyArray(L.meet(fromArray([1, 2]), fromArray([2, 3]))), [2])
+    assert.deepStrictEqual(L.zero, _.empty)
+    assert.strictEqual(L.one, universe)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('singleton', () => {
+    assert.deepStrictEqual(_.toReadonlyArray(_.singleton(1)), [1])
+  })
+
+  it('fromReadonlyArray', () => {
+    assert.deepStrictEqual(_.toReadonlyArray(fromArray([])), [])
+    assert.deepStrictEqual(_.toReadonlyArray(fromArray([3, 1, 2, 1])), [1, 2, 3])
+  })
+
+  it('fromReadonlySet', () => {
+    assert.deepStrictEqual(_.toReadonlyArray(_.fromReadonlySet(ord)(new Set([3, 1, 2]))), [1, 2, 3])
+    // elements equal according to the `Ord`: the first one is kept
+    const ordLowerCase = Ord.contramap((s: string) => s.toLowerCase())(Ord.ordString)
+    assert.deepStrictEqual(_.toReadonlyArray(_.fromReadonlySet(ordLowerCase)(new Set(['a', 'A']))), ['a'])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  it('size', () => {
+    assert.deepStrictEqual(_.size(_.empty), 0)
+    assert.deepStrictEqual(_.size(fromArray([1, 2, 2])), 2)
+  })
+
+  it('isEmpty', () => {
+    assert.deepStrictEqual(_.isEmpty(_.empty), true)
+    assert.deepStrictEqual(_.isEmpty(_.singleton(1)), false)
+  })
+
+  it('toReadonlySet', () => {
+    assert.deepStrictEqual(_.toReadonlySet(fromArray([2, 1])), new Set([1, 2]))
+  })
+
+  it('min', () => {
+    assert.deepStrictEqual(_.min(_.empty), O.none)
+    assert.deepStrictEqual(_.min(fromArray([3, 1, 2])), O.some(1))
+  })
+
+  it('max', () => {
+    assert.deepStrictEqual(_.max(_.empty), O.none)
+    assert.deepStrictEqual(_.max(fromArray([3, 1, 2])), O.some(3))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // utils
+  // -------------------------------------------------------------------------------------
+
+  it('elem', () => {
+    const elem = _.elem(ord)
+    assert.deepStrictEqual(pipe(fromArray([1, 2]), elem(2)), true)
+    assert.deepStrictEqual(pipe(fromArray([1, 2]), elem(3)), false)
+  })
+
+  it('isSubset', () => {
+    const isSubset = _.isSubset(ord)
+    assert.deepStrictEqual(pipe(fromArray([1, 2]), isSubset(fromArray([1, 2, 3]))), true)
+    assert.deepStrictEqual(pipe(fromArray([1, 4]), isSubset(fromArray([1, 2, 3]))), false)
+    assert.deepStrictEqual(pipe(_.empty, isSubset(fromArray([1]))), true)
+  })
+
+  it('reduce', () => {
+    assert.deepStrictEqual(
+      pipe(
+        fromArray([3, 1, 2]),
+        _.reduce('', (b, a) => b + a)
+      ),
+      '123'
+    )
+  })
+
+  it('foldMap', () => {
+    assert.deepStrictEqual(pipe(fromArray([3, 1, 2]), _.foldMap(monoidString)(String)), '123')
+  })
+
+  it('reduceRight', () => {
+    assert.deepStrictEqual(
+      pipe(
+        fromArray([3, 1, 2]),
+        _.reduceRight('', (a, b) => b + a)
+      ),
+      '321'
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('insert', () => {
+    const s = fromArray([1, 3])
+    assert.deepStrictEqual(pipe(s, _.insert(ord)(2), _.toReadonlyArray), [1, 2, 3])
+    assert.strictEqual(pipe(s, _.insert(ord)(1)), s)
+  })
+
+  it('remove', () => {
+    const s = fromArray([1, 2, 3])
+    assert.deepStrictEqual(pipe(s, _.remove(ord)(2), _.toReadonlyArray), [1, 3])
+    assert.deepStrictEqual(pipe(s, _.remove(ord)(4), _.toReadonlyArray), [1, 2, 3])
+  })
+
+  it('split', () => {
+    const s = fromArray([1, 2, 3, 4])
+    const [lower, found, greater] = pipe(s, _.split(ord)(3))
+    assert.deepStrictEqual(_.toReadonlyArray(lower), [1, 2])
+    assert.deepStrictEqual(found, true)
+    assert.deepStrictEqual(_.toReadonlyArray(greater), [4])
+    assert.deepStrictEqual(pipe(s, _.split(ord)(5))[1], false)
+  })
+
+  it('range', () => {
+    const s = fromArray(RA.range(1, 10))
+    assert.deepStrictEqual(pipe(s, _.range(ord)(3, 5), _.toReadonlyArray), [3, 4, 5])
+    assert.deepStrictEqual(pipe(s, _.range(ord)(5, 3), _.toReadonlyArray), [])
+  })
+
+  it('filter', () => {
+    const s = fromArray([1, 2, 3, 4])
+    assert.deepStrictEqual(
+      pipe(
+        s,
+        _.filter((n) => n % 2 === 0),
+        _.toReadonlyArray
+      ),
+      [2, 4]
+    )
+  })
+
+  it('partition', () => {
+    const { left, right } = pipe(
+      fromArray([1, 2, 3, 4]),
+      _.partition((n) => n % 2 === 0)
+    )
+    assert.deepStrictEqual(_.toReadonlyArray(left), [1, 3])
+    assert.deepStrictEqual(_.toReadonlyArray(right), [2, 4])
+  })
+
+  it('map', () => {
+    assert.deepStrictEqual(
+      pipe(
+        fromArray([-2, -1, 1, 3]),
+        _.map(ord)((n) => n * n),
+        _.toReadonlyArray
+      ),
+      [1, 4, 9]
+    )
+    assert.deepStrictEqual(pipe(fromArray([1, 2]), _.map(Ord.ordString)(String), _.toReadonlyArray), ['1', '2'])
+  })
+})
@@ -1,5 +1,32 @@
 import * as assert from 'assert'
-import { random, randomInt, randomBool, randomRange } from '../src/Random'
+import { pipe } from '../src/function'
+import { ordNumber } from '../src/Ord'
+import {
+  random,
+  randomInt,
+  randomBool,
+  randomRange,
+  bool,
+  element,
+  float,
+  frequency,
+  Gen,
+  int,
+  mkSeed,
+  randomSeed,
+  range,
+  shuffle,
+  split,
+  toIO,
+  uint32
+} from '../src/Random'
+import * as RA from '../src/ReadonlyArray'
+import * as S from '../src/State'
+
+const seed = mkSeed(42)
+
+const sample = <A>(gen: Gen<A>, n: number = 100): ReadonlyArray<A> =>
+  S.evaluate(seed)(S.sequenceArray(RA.replicate(n, gen)))
 
 describe('Random', () => {
   it('random', () => {
@@ -28,4 +55,107 @@ describe('Random', () => {
     const b = randomBool()
     assert.deepStrictEqual(typeof b, 'boolean')
   })
+
+  // -------------------------------------------------------------------------------------
+  // Gen
+  // -------------------------------------------------------------------------------------
+
+  it('mkSeed', () => {
+    assert.deepStrictEqual(mkSeed(1).value, 1)
+    assert.deepStrictEqual(mkSeed(0x100000001).value, 1)
+  })
+
+  it('randomSeed', () => {
+    const { value } = randomSeed()
+    assert.deepStrictEqual(value % 1 === 0, true)
+  })
+
+  it('toIO', () => {
+    const n = toIO(int(0, 10))()
+    assert.deepStrictEqual(n >= 0 && n <= 10, true)
+  })
+
+  it('should be deterministic', () => {
+    assert.deepStrictEqual(sample(uint32), sample(uint32))
+    assert.notDeepStrictEqual(sample(uint32), S.evaluate(mkSeed(43))(S.sequenceArray(RA.replicate(100, uint32))))
+  })
+
+  it('split', () => {
+    const [s1, s2] = split(seed)
+    const gen = S.sequenceArray(RA.replicate(10, uint32))
+    assert.notDeepStrictEqual(S.evaluate(s1)(gen), S.evaluate(s2)(gen))
+    assert.notDeepStrictEqual(S.evaluate(s1)(gen), S.evaluate(seed)(gen))
+    assert.notDeepStrictEqual(S.evaluate(s2)(gen), S.evaluate(seed)(gen))
+    assert.deepStrictEqual(split(seed), [s1, s2])
+  })
+
+  it('uint32', () => {
+    const ns = sample(uint32)
+    assert.deepStrictEqual(
+      ns.every((n) => n % 1 === 0 && n >= 0 && n < 0x100000000),
+      true
+    )
+    assert.deepStrictEqual(new Set(ns).size, ns.length)
+  })
+
+  it('float', () => {
+    const ns = sample(float)
+    assert.deepStrictEqual(
+      ns.every((n) => n >= 0 && n < 1),
+      true
+    )
+  })
+
+  it('int', () => {
+    const ns = sample(int(1, 6))
+    assert.deepStrictEqual(
+      ns.every((n) => n % 1 === 0 && n >= 1 && n <= 6),
+      true
+    )
+    assert.deepStrictEqual(new Set(ns).size, 6)
+  })
+
+  it('range', () => {
+    const ns = sample(range(-1, 1))
+    assert.deepStrictEqual(
+      ns.every((n) => n >= -1 && n < 1),
+      true
+    )
+  })
+
+  it('bool', () => {
+    const bs = sample(bool)
+    assert.deepStrictEqual(new Set(bs).size, 2)
+  })
+
+  it('element', () => {
+    const as = sample(element(['a', 'b', 'c']))
+    assert.deepStrictEqual(RA.uniq({ equals: (x: string, y: string) => x === y })(as).length, 3)
+    assert.deepStrictEqual(S.evaluate(seed)(element(['a'])), 'a')
+  })
+
+  it('shuffle', () => {
+    const as = RA.range(1, 10)
+    const shuffled = S.evaluate(seed)(shuffle(as))
+    assert.notDeepStrictEqual(shuffled, as)
+    assert.deepStrictEqual(pipe(shuffled, RA.sort(ordNumber)), as)
+    assert.deepStrictEqual(as, RA.range(1, 10))
+    assert.deepStrictEqual(S.evaluate(seed)(shuffle([])), [])
+  })
+
+  it('frequency', () => {
+    const gen = frequency<string>([
+      [0, S.of('a')],
+      [3, S.of('b')],
+      [0, S.of('c')],
+      [1, S.of('d')],
+      [0, S.of('e')]
+    ])
+    const as = sample(gen, 1000)
+    const count = (a: string) => as.filter((x) => x === a).length
+    assert.deepStrictEqual(count('a') + count('c') + count('e'), 0)
+    assert.deepStrictEqual(count('b') > count('d'), true)
+    assert.deepStrictEqual(count('b') + count('d'), 1000)
+    assert.deepStrictEqual(S.evaluate(seed)(frequency([[1, S.of('a')]])), 'a')
+  })
 })
@@ -1,4 +1,5 @@
 import * as assert from 'assert'
+import * as E from '../src/Either'
 import * as _ from '../src/Reader'
 import { semigroupSum } from '../src/Semigroup'
 import { monoidSum } from '../src/Monoid'
@@ -113,6 +114,11 @@ describe('Reader', () => {
     assert.deepStrictEqual(_.asks(f)(e), 1)
   })
 
+  it('ChainRec', () => {
+    const fa = _.ChainRec.chainRec(0, (n) => (limit: number) => (n < limit ? E.left(n + 1) : E.right(n)))
+    assert.deepStrictEqual(fa(100000), 100000)
+  })
+
   it('do notation', () => {
     assert.deepStrictEqual(
       pipe(
@@ -215,6 +215,15 @@ describe('ReaderEither', () => {
     assert.deepStrictEqual(pipe(_.right('aa'), _.chainEitherK(f))({}), E.left('b'))
   })
 
+  it('ChainRec', () => {
+    const fa = _.ChainRec.chainRec(0, (n) =>
+      n < 0 ? _.left('negative') : _.asks((limit: number) => (n < limit ? E.left(n + 1) : E.right(n)))
+    )
+    assert.deepStrictEqual(fa(100000), E.right(100000))
+    const fb = _.ChainRec.chainRec(0, (n) => (n < 10 ? _.right(E.left(n + 1)) : _.left('stop')))
+    assert.deepStrictEqual(fb(undefined), E.left('stop'))
+  })
+
   it('do notation', () => {
     assert.deepStrictEqual(
       pipe(
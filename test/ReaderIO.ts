@@ -0,0 +1,196 @@
+import * as assert from 'assert'
+import { pipe } from '../src/function'
+import * as I from '../src/IO'
+import { monoidString } from '../src/Monoid'
+import * as R from '../src/Reader'
+import * as _ from '../src/ReaderIO'
+import { semigroupString } from '../src/Semigroup'
+
+describe('ReaderIO', () => {
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(pipe(_.of(1), _.map(double))({})(), 2)
+  })
+
+  it('ap', () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(pipe(_.of(double), _.ap(_.of(1)))({})(), 2)
+  })
+
+  it('apFirst', () => {
+    assert.deepStrictEqual(pipe(_.of('a'), _.apFirst(_.of('b')))({})(), 'a')
+  })
+
+  it('apSecond', () => {
+    assert.deepStrictEqual(pipe(_.of('a'), _.apSecond(_.of('b')))({})(), 'b')
+  })
+
+  it('chain', () => {
+    const f = (s: string): _.ReaderIO<unknown, number> => _.of(s.length)
+    assert.deepStrictEqual(pipe(_.of('foo'), _.chain(f))({})(), 3)
+  })
+
+  it('chainFirst', () => {
+    const f = (s: string): _.ReaderIO<unknown, number> => _.of(s.length)
+    assert.deepStrictEqual(pipe(_.of('foo'), _.chainFirst(f))({})(), 'foo')
+  })
+
+  it('flatten', () => {
+    assert.deepStrictEqual(pipe(_.of(_.of('a')), _.flatten)({})(), 'a')
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('fromIO', () => {
+    assert.deepStrictEqual(_.fromIO(I.of(1))({})(), 1)
+  })
+
+  it('fromReader', () => {
+    assert.deepStrictEqual(_.fromReader(R.asks((s: string) => s.length))('foo')(), 3)
+  })
+
+  it('ask', () => {
+    assert.deepStrictEqual(_.ask<number>()(1)(), 1)
+  })
+
+  it('asks', () => {
+    assert.deepStrictEqual(_.asks((s: string) => s.length)('foo')(), 3)
+  })
+
+  it('asksReaderIO', () => {
+    const f = (n: number) => _.of(n + 1)
+    assert.deepStrictEqual(_.asksReaderIO(f)(1)(), 2)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('local', () => {
+    const len = (s: string): number => s.length
+    assert.deepStrictEqual(
+      pipe(
+        _.asks((n: number) => n + 1),
+        _.local(len)
+      )('aaa')(),
+      4
+    )
+  })
+
+  it('chainIOK', () => {
+    const f = (s: string) => I.of(s.length)
+    assert.deepStrictEqual(pipe(_.of('a'), _.chainIOK(f))(undefined)(), 1)
+  })
+
+  it('fromIOK', () => {
+    const f = _.fromIOK((s: string) => I.of(s.length))
+    assert.deepStrictEqual(pipe(_.of('a'), _.chain(f))({})(), 1)
+  })
+
+  it('chainReaderK', () => {
+    const f = (n: number): R.Reader<number, number> => (r) => n + r
+    assert.deepStrictEqual(pipe(_.of(1), _.chainReaderK(f))(2)(), 3)
+  })
+
+  it('chainReaderKW', () => {
+    const f = (s: string): R.Reader<{ readonly b: number }, number> => (r) => s.length + r.b
+    assert.deepStrictEqual(
+      pipe(
+        _.asks((r: { readonly a: string }) => r.a),
+        _.chainReaderKW(f)
+      )({ a: 'aa', b: 1 })(),
+      3
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('Functor', () => {
+    assert.deepStrictEqual(_.Functor.map(_.of(1), (n) => n + 1)({})(), 2)
+  })
+
+  it('Applicative', () => {
+    assert.deepStrictEqual(
+      _.Applicative.ap(
+        _.of((n: number) => n + 1),
+        _.of(1)
+      )({})(),
+      2
+    )
+  })
+
+  it('Monad', () => {
+    assert.deepStrictEqual(_.Monad.chain(_.of(1), (n) => _.of(n + 1))({})(), 2)
+  })
+
+  it('MonadIO', () => {
+    assert.deepStrictEqual(_.MonadIO.fromIO(I.of(1))({})(), 1)
+  })
+
+  it('getSemigroup', () => {
+    const S = _.getSemigroup(semigroupString)
+    assert.deepStrictEqual(S.concat(_.of('a'), _.of('b'))({})(), 'ab')
+  })
+
+  it('getMonoid', () => {
+    const M = _.getMonoid(monoidString)
+    assert.deepStrictEqual(M.concat(_.of('a'), M.empty)({})(), 'a')
+    assert.deepStrictEqual(M.concat(M.empty, _.of('b'))({})(), 'b')
+  })
+
+  // -------------------------------------------------------------------------------------
+  // do notation
+  // -------------------------------------------------------------------------------------
+
+  it('do notation', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.of(1),
+        _.bindTo('a'),
+        _.bind('b', () => _.of('b')),
+        _.bindW('c', () => _.asks((r: { readonly c: boolean }) => r.c))
+      )({ c: true })(),
+      { a: 1, b: 'b', c: true }
+    )
+  })
+
+  it('apS', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.Do,
+        _.apS('a', _.of(1)),
+        _.apSW(
+          'b',
+          _.asks((r: string) => r)
+        )
+      )('b')(),
+      { a: 1, b: 'b' }
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // array utils
+  // -------------------------------------------------------------------------------------
+
+  it('sequenceArray', () => {
+    assert.deepStrictEqual(pipe([_.of(1), _.asks((n: number) => n)], _.sequenceArray)(2)(), [1, 2])
+  })
+
+  it('traverseArrayWithIndex', () => {
+    assert.deepStrictEqual(
+      pipe(
+        ['a', 'b'],
+        _.traverseArrayWithIndex((index, s) => _.asks((r: string) => s + index + r))
+      )('!')(),
+      ['a0!', 'b1!']
+    )
+  })
+})
@@ -4,6 +4,7 @@ import * as I from '../src/IO'
 import { monoidString } from '../src/Monoid'
 import * as R from '../src/Reader'
 import * as A from '../src/Array'
+import * as RIO from '../src/ReaderIO'
 import * as _ from '../src/ReaderTask'
 import { semigroupString } from '../src/Semigroup'
 import * as T from '../src/Task'
@@ -75,6 +76,15 @@ describe('ReaderTask', () => {
     assert.deepStrictEqual(await _.fromReader(R.of(1))({})(), 1)
   })
 
+  it('asksReaderTask', async () => {
+    const f = (n: number) => _.of(n + 1)
+    assert.deepStrictEqual(await _.asksReaderTask(f)(1)(), 2)
+  })
+
+  it('fromReaderIO', async () => {
+    assert.deepStrictEqual(await _.fromReaderIO(RIO.asks((s: string) => s.length))('foo')(), 3)
+  })
+
   // -------------------------------------------------------------------------------------
   // combinators
   // -------------------------------------------------------------------------------------
@@ -110,6 +120,32 @@ describe('ReaderTask', () => {
     assert.deepStrictEqual(await pipe(_.of('a'), _.chain(f))({})(), 1)
   })
 
+  it('chainReaderK', async () => {
+    const f = (n: number): R.Reader<number, number> => (r) => n + r
+    assert.deepStrictEqual(await pipe(_.of(1), _.chainReaderK(f))(2)(), 3)
+  })
+
+  it('chainReaderKW', async () => {
+    const f = (s: string): R.Reader<{ readonly b: number }, number> => (r) => s.length + r.b
+    assert.deepStrictEqual(
+      await pipe(
+        _.asks((r: { readonly a: string }) => r.a),
+        _.chainReaderKW(f)
+      )({ a: 'aa', b: 1 })(),
+      3
+    )
+  })
+
+  it('chainReaderIOK', async () => {
+    const f = (n: number): RIO.ReaderIO<number, number> => (r) => I.of(n + r)
+    assert.deepStrictEqual(await pipe(_.of(1), _.chainReaderIOK(f))(2)(), 3)
+  })
+
+  it('chainReaderTaskK', async () => {
+    const f = (n: number): _.ReaderTask<number, number> => (r) => T.of(n + r)
+    assert.deepStrictEqual(await pipe(_.of(1), _.chainReaderTaskK(f))(2)(), 3)
+  })
+
   // -------------------------------------------------------------------------------------
   // instances
   // -------------------------------------------------------------------------------------
@@ -173,5 +209,29 @@ describe('ReaderTask', () => {
         [0, 1, 2]
       )
     })
+
+    it('sequenceSeqArray', async () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<number> = []
+      const append = (n: number): _.ReaderTask<number, number> => (r) =>
+        T.delay(n % 2 === 0 ? 50 : 100)(
+          T.fromIO(() => {
+            log.push(n + r)
+            return n
+          })
+        )
+      assert.deepStrictEqual(await pipe([append(1), append(2)], _.sequenceSeqArray)(10)(), [1, 2])
+      assert.deepStrictEqual(log, [11, 12])
+    })
+
+    it('traverseSeqArrayWithIndex', async () => {
+      assert.deepStrictEqual(
+        await pipe(
+          ['a', 'b'],
+          _.traverseSeqArrayWithIndex((index, s) => _.asks((r: string) => s + index + r))
+        )('!')(),
+        ['a0!', 'b1!']
+      )
+    })
   })
 })
@@ -1,6 +1,7 @@
 import * as assert from 'assert'
 import { sequenceT } from '../src/Apply'
 import * as A from '../src/Array'
+import * as C from '../src/Console'
 import * as E from '../src/Either'
 import { pipe } from '../src/function'
 import * as I from '../src/IO'
@@ -10,6 +11,7 @@ import { none, some } from '../src/Option'
 import * as R from '../src/Reader'
 import * as RE from '../src/ReaderEither'
 import * as RT from '../src/ReaderTask'
+import * as RP from '../src/RetryPolicy'
 import * as _ from '../src/ReaderTaskEither'
 import { semigroupString, semigroupSum } from '../src/Semigroup'
 import * as T from '../src/Task'
@@ -260,6 +262,30 @@ describe('ReaderTaskEither', () => {
     })
   })
 
+  describe('timeoutTo', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    const timeoutTo = _.timeoutTo(10, () => 'timeout')
+
+    it('should return the result if the computation completes in time', async () => {
+      const e = timeoutTo(_.rightTask(T.delay(5)(T.of(1))))({})()
+      jest.advanceTimersByTime(5)
+      assert.deepStrictEqual(await e, E.right(1))
+    })
+
+    it('should fail if the computation does not complete in time', async () => {
+      const e = timeoutTo(_.rightTask(T.never))({})()
+      jest.advanceTimersByTime(10)
+      assert.deepStrictEqual(await e, E.left('timeout'))
+    })
+  })
+
   it('swap', async () => {
     assert.deepStrictEqual(await _.swap(_.right(1))({})(), E.left(1))
     assert.deepStrictEqual(await _.swap(_.left('a'))({})(), E.right('a'))
@@ -303,6 +329,33 @@ describe('ReaderTaskEither', () => {
     assert.deepStrictEqual(await AV.alt(_.left('a'), () => _.left('b'))(null)(), E.left('ab'))
   })
 
+  it('retrying', async () => {
+    const action = (status: RP.RetryStatus) =>
+      status.iterNumber < 2 ? _.left('error') : _.asks((n: number) => n + status.iterNumber)
+    assert.deepStrictEqual(await _.retrying(RP.limitRetries(5), action, (_, e) => E.isLeft(e))(1)(), E.right(3))
+  })
+
+  it('recovering', async () => {
+    const action = (status: RP.RetryStatus) =>
+      status.iterNumber < 2 ? _.left(status.iterNumber) : _.asks((n: number) => n + status.iterNumber)
+    assert.deepStrictEqual(await _.recovering(RP.limitRetries(5), action, (_, e) => e > 0)(1)(), E.left(0))
+    assert.deepStrictEqual(await _.recovering(RP.limitRetries(5), action, () => true)(1)(), E.right(3))
+  })
+
+  it('logged', async () => {
+    const { sink, records } = C.newMemorySink()
+    const env = { logger: pipe(C.makeLogger(sink), C.withFields({ requestId: 1 })), n: 1 }
+    const program = pipe(
+      _.asks((r: typeof env) => r.n + 1),
+      _.logged((r) => r.logger, 'program')
+    )
+    assert.deepStrictEqual(await program(env)(), E.right(2))
+    assert.deepStrictEqual(records(), [
+      { level: 'debug', message: 'program: started', fields: { requestId: 1 } },
+      { level: 'info', message: 'program: succeeded', fields: { requestId: 1 } }
+    ])
+  })
+
   describe('bracket', () => {
     // tslint:disable-next-line: readonly-array
     let log: Array<string> = []
@@ -524,5 +577,23 @@ describe('ReaderTaskEither', () => {
         E.left('Error')
       )
     })
+
+    it('traverseArrayPar', async () => {
+      const arr = A.range(0, 10)
+      const f = (n: number) => _.asks((r: number) => n + r)
+      assert.deepStrictEqual(await pipe(arr, _.traverseArrayPar(3)(f))(0)(), E.right(arr))
+      assert.deepStrictEqual(
+        await pipe(
+          arr,
+          _.traverseArrayPar(3)((n) => (n > 5 ? _.left('error') : _.right(n)))
+        )(0)(),
+        E.left('error')
+      )
+    })
+
+    it('sequenceArrayPar', async () => {
+      const arr = A.range(0, 10)
+      assert.deepStrictEqual(await pipe(arr, A.map(_.of), _.sequenceArrayPar(2))(undefined)(), E.right(arr))
+    })
   })
 })
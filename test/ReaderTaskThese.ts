@@ -0,0 +1,304 @@
+import * as assert from 'assert'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+import * as I from '../src/IO'
+import { monoidString, monoidSum } from '../src/Monoid'
+import * as O from '../src/Option'
+import * as RA from '../src/ReadonlyArray'
+import * as RT from '../src/ReaderTask'
+import * as _ from '../src/ReaderTaskThese'
+import { semigroupString } from '../src/Semigroup'
+import * as T from '../src/Task'
+import * as TT from '../src/TaskThese'
+import * as TH from '../src/These'
+
+describe('ReaderTaskThese', () => {
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', async () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(await pipe(_.right(1), _.map(double))({})(), TH.right(2))
+  })
+
+  it('bimap', async () => {
+    const f = (e: string) => e + e
+    const g = (a: number) => a + 1
+    assert.deepStrictEqual(await pipe(_.both('a', 1), _.bimap(f, g))({})(), TH.both('aa', 2))
+  })
+
+  it('mapLeft', async () => {
+    const f = (e: string) => e + e
+    assert.deepStrictEqual(await pipe(_.left('a'), _.mapLeft(f))({})(), TH.left('aa'))
+  })
+
+  it('chain', async () => {
+    const f = (n: number) => (n > 1 ? _.asks((r: number) => n * r) : _.left('b'))
+    const chain = _.chain(semigroupString)
+    assert.deepStrictEqual(await pipe(_.right(2), chain(f))(3)(), TH.right(6))
+    assert.deepStrictEqual(await pipe(_.both('a', 1), chain(f))(3)(), TH.left('ab'))
+  })
+
+  it('chainW', async () => {
+    const f = (n: number): _.ReaderTaskThese<{ readonly b: number }, string, number> => (r) => TT.both('b', n + r.b)
+    const ma: _.ReaderTaskThese<{ readonly a: number }, string, number> = (r) => TT.both('a', r.a)
+    assert.deepStrictEqual(await pipe(ma, _.chainW(semigroupString)(f))({ a: 1, b: 2 })(), TH.both('ab', 3))
+  })
+
+  it('chainFirst', async () => {
+    const chainFirst = _.chainFirst(semigroupString)
+    assert.deepStrictEqual(
+      await pipe(
+        _.both('a', 1),
+        chainFirst(() => _.both('b', 2))
+      )({})(),
+      TH.both('ab', 1)
+    )
+  })
+
+  it('fromTheseK', async () => {
+    const f = _.fromTheseK((s: string) => TH.both('a', s.length))
+    assert.deepStrictEqual(await f('foo')({})(), TH.both('a', 3))
+  })
+
+  it('chainTheseK', async () => {
+    const chainTheseK = _.chainTheseK(semigroupString)
+    assert.deepStrictEqual(
+      await pipe(
+        _.both('a', 1),
+        chainTheseK((n) => TH.both('b', n + 1))
+      )({})(),
+      TH.both('ab', 2)
+    )
+  })
+
+  it('chainTaskTheseK', async () => {
+    const chainTaskTheseK = _.chainTaskTheseK(semigroupString)
+    assert.deepStrictEqual(
+      await pipe(
+        _.both('a', 1),
+        chainTaskTheseK((n) => TT.both('b', n + 1))
+      )({})(),
+      TH.both('ab', 2)
+    )
+  })
+
+  it('fromTaskTheseK', async () => {
+    const f = _.fromTaskTheseK((s: string) => TT.both('a', s.length))
+    assert.deepStrictEqual(await f('foo')({})(), TH.both('a', 3))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('getSemigroup', async () => {
+    const S = _.getSemigroup(monoidString, monoidSum)
+    assert.deepStrictEqual(await S.concat(_.right(1), _.both('a', 2))({})(), TH.both('a', 3))
+  })
+
+  it('Bifunctor', async () => {
+    const f = (e: string) => e + e
+    const g = (a: number) => a + 1
+    assert.deepStrictEqual(await _.Bifunctor.bimap(_.both('a', 1), f, g)({})(), TH.both('aa', 2))
+    assert.deepStrictEqual(await _.Bifunctor.mapLeft(_.left('a'), f)({})(), TH.left('aa'))
+  })
+
+  it('getApplicative', async () => {
+    const A = _.getApplicative(T.ApplicativeSeq, semigroupString)
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(await A.ap(_.both('a', double), _.both('b', 1))({})(), TH.both('ab', 2))
+  })
+
+  describe('getMonad', () => {
+    const M = _.getMonad(semigroupString)
+
+    it('map', async () => {
+      assert.deepStrictEqual(await M.map(_.both('a', 1), (n) => n * 2)({})(), TH.both('a', 2))
+    })
+
+    it('ap', async () => {
+      assert.deepStrictEqual(
+        await M.ap(
+          _.right((n: number) => n * 2),
+          _.right(1)
+        )({})(),
+        TH.right(2)
+      )
+    })
+
+    it('chain', async () => {
+      assert.deepStrictEqual(await M.chain(_.both('a', 1), (n) => _.both('b', n * 2))({})(), TH.both('ab', 2))
+    })
+
+    it('fromIO', async () => {
+      assert.deepStrictEqual(await M.fromIO(I.of(1))({})(), TH.right(1))
+    })
+
+    it('fromTask', async () => {
+      assert.deepStrictEqual(await M.fromTask(T.of(1))({})(), TH.right(1))
+    })
+
+    it('throwError', async () => {
+      assert.deepStrictEqual(await M.throwError('a')({})(), TH.left('a'))
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('leftTask', async () => {
+    assert.deepStrictEqual(await _.leftTask(T.of('a'))({})(), TH.left('a'))
+  })
+
+  it('leftIO', async () => {
+    assert.deepStrictEqual(await _.leftIO(I.of('a'))({})(), TH.left('a'))
+  })
+
+  it('rightReader', async () => {
+    assert.deepStrictEqual(await _.rightReader((n: number) => n + 1)(1)(), TH.right(2))
+  })
+
+  it('leftReader', async () => {
+    assert.deepStrictEqual(await _.leftReader((n: number) => n + 1)(1)(), TH.left(2))
+  })
+
+  it('rightReaderTask', async () => {
+    assert.deepStrictEqual(await _.rightReaderTask(RT.asks((n: number) => n + 1))(1)(), TH.right(2))
+  })
+
+  it('leftReaderTask', async () => {
+    assert.deepStrictEqual(await _.leftReaderTask(RT.asks((n: number) => n + 1))(1)(), TH.left(2))
+  })
+
+  it('ask', async () => {
+    assert.deepStrictEqual(await _.ask<number>()(1)(), TH.right(1))
+  })
+
+  it('fromEither', async () => {
+    assert.deepStrictEqual(await _.fromEither(E.left('a'))({})(), TH.left('a'))
+  })
+
+  it('fromIOThese', async () => {
+    assert.deepStrictEqual(await _.fromIOThese(() => TH.both('a', 1))({})(), TH.both('a', 1))
+  })
+
+  it('fromReaderThese', async () => {
+    assert.deepStrictEqual(await _.fromReaderThese((n: number) => TH.both('a', n))(1)(), TH.both('a', 1))
+  })
+
+  it('fromOption', async () => {
+    assert.deepStrictEqual(await _.fromOption(() => 'a')(O.none)({})(), TH.left('a'))
+    assert.deepStrictEqual(await _.fromOption(() => 'a')(O.some(1))({})(), TH.right(1))
+  })
+
+  it('fromPredicate', async () => {
+    const f = _.fromPredicate(
+      (n: number) => n > 0,
+      () => 'a'
+    )
+    assert.deepStrictEqual(await f(1)({})(), TH.right(1))
+    assert.deepStrictEqual(await f(-1)({})(), TH.left('a'))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  it('fold', async () => {
+    const f = _.fold(
+      (e) => RT.of(`left ${e}`),
+      (a) => RT.of(`right ${a}`),
+      (e, a) => RT.of(`both ${e} ${a}`)
+    )
+    assert.deepStrictEqual(await pipe(_.right(1), f)({})(), 'right 1')
+    assert.deepStrictEqual(await pipe(_.left('a'), f)({})(), 'left a')
+    assert.deepStrictEqual(await pipe(_.both('a', 1), f)({})(), 'both a 1')
+  })
+
+  it('swap', async () => {
+    assert.deepStrictEqual(await _.swap(_.both('a', 1))({})(), TH.both(1, 'a'))
+  })
+
+  it('toTuple', async () => {
+    const f = _.toTuple(
+      () => 'b',
+      () => 2
+    )
+    assert.deepStrictEqual(await f(_.left('a'))({})(), ['a', 2])
+    assert.deepStrictEqual(await f(_.right(1))({})(), ['b', 1])
+    assert.deepStrictEqual(await f(_.both('a', 1))({})(), ['a', 1])
+  })
+
+  it('local', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.asks((n: number) => n + 1),
+        _.local((s: string) => s.length)
+      )('foo')(),
+      TH.right(4)
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // do notation
+  // -------------------------------------------------------------------------------------
+
+  it('do notation', async () => {
+    const bind = _.bind(semigroupString)
+    assert.deepStrictEqual(
+      await pipe(
+        _.Do,
+        bind('a', () => _.both('a', 1)),
+        bind('b', ({ a }) => _.both('b', a + 1))
+      )({})(),
+      TH.both('ab', { a: 1, b: 2 })
+    )
+    assert.deepStrictEqual(await pipe(_.right(1), _.bindTo('a'))({})(), TH.right({ a: 1 }))
+  })
+
+  it('apS', async () => {
+    const apS = _.apS(semigroupString)
+    assert.deepStrictEqual(
+      await pipe(_.both('a', 1), _.bindTo('a'), apS('b', _.both('b', 'b')))({})(),
+      TH.both('ab', { a: 1, b: 'b' })
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // array utils
+  // -------------------------------------------------------------------------------------
+
+  describe('array utils', () => {
+    const f = (n: number): _.ReaderTaskThese<number, string, number> => (r) =>
+      n > r ? TT.right(n) : n === r ? TT.both('zero ', n) : TT.left('negative ')
+
+    it('traverseArray', async () => {
+      const traverse = _.traverseArray(semigroupString)(f)
+      assert.deepStrictEqual(await pipe([1, 0, 2], traverse)(0)(), TH.both('zero ', [1, 0, 2]))
+      assert.deepStrictEqual(await pipe([1, 0, 2], traverse)(1)(), TH.left('zero negative '))
+    })
+
+    it('sequenceArray', async () => {
+      assert.deepStrictEqual(
+        await pipe([1, 0, 2], RA.map(f), _.sequenceArray(semigroupString))(0)(),
+        TH.both('zero ', [1, 0, 2])
+      )
+    })
+
+    it('traverseSeqArray', async () => {
+      const traverse = _.traverseSeqArray(semigroupString)(f)
+      assert.deepStrictEqual(await pipe([1, 0, 2], traverse)(0)(), TH.both('zero ', [1, 0, 2]))
+      assert.deepStrictEqual(await pipe([1, 0, 2], traverse)(1)(), TH.left('zero negative '))
+    })
+
+    it('sequenceSeqArray', async () => {
+      assert.deepStrictEqual(
+        await pipe([1, 0, 2], RA.map(f), _.sequenceSeqArray(semigroupString))(1)(),
+        TH.left('zero negative ')
+      )
+    })
+  })
+})
@@ -0,0 +1,221 @@
+import * as assert from 'assert'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+import * as I from '../src/IO'
+import * as R from '../src/Reader'
+import * as RTE from '../src/ReaderTaskEither'
+import * as _ from '../src/ReaderTaskWriter'
+import * as T from '../src/Task'
+import * as TW from '../src/TaskWriter'
+
+interface Env {
+  readonly user: string
+}
+
+const env: Env = { user: 'alice' }
+
+describe('ReaderTaskWriter', () => {
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', async () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(await pipe(_.of(1), _.map(double))({})(), [2, []])
+  })
+
+  it('ap', async () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(
+      await pipe(
+        _.tell('a'),
+        _.map(() => double),
+        _.ap(
+          pipe(
+            _.tell('b'),
+            _.map(() => 1)
+          )
+        )
+      )({})(),
+      [2, ['a', 'b']]
+    )
+  })
+
+  it('apFirst', async () => {
+    assert.deepStrictEqual(await pipe(_.of<unknown, string, string>('a'), _.apFirst(_.tell('b')))({})(), ['a', ['b']])
+  })
+
+  it('apSecond', async () => {
+    assert.deepStrictEqual(await pipe(_.tell('a'), _.apSecond(_.of('b')))({})(), ['b', ['a']])
+  })
+
+  it('chain', async () => {
+    const f = (s: string): _.ReaderTaskWriter<Env, string, number> =>
+      pipe(
+        _.tell(s),
+        _.map(() => s.length)
+      )
+    assert.deepStrictEqual(
+      await pipe(
+        _.asks((r: Env) => r.user),
+        _.chain(f)
+      )(env)(),
+      [5, ['alice']]
+    )
+  })
+
+  it('chainW', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.tell<unknown, string>('a'),
+        _.chainW(() => _.tell(1))
+      )({})(),
+      [undefined, ['a', 1]]
+    )
+  })
+
+  it('chainFirst', async () => {
+    assert.deepStrictEqual(await pipe(_.of<unknown, string, string>('foo'), _.chainFirst(_.tell))({})(), [
+      'foo',
+      ['foo']
+    ])
+  })
+
+  it('flatten', async () => {
+    assert.deepStrictEqual(
+      await pipe(_.of<unknown, string, _.ReaderTaskWriter<unknown, string, number>>(_.of(1)), _.flatten)({})(),
+      [1, []]
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('Functor', async () => {
+    assert.deepStrictEqual(await _.Functor.map(_.of(1), (n) => n + 1)({})(), [2, []])
+  })
+
+  it('ApplicativePar', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const a = _.fromTask<unknown, string, number>(T.delay(10)(T.fromIO(() => log.push('a'))))
+    const b = _.fromTask<unknown, string, number>(T.fromIO(() => log.push('b')))
+    await _.ApplicativePar.ap(
+      _.ApplicativePar.map(a, () => (n: number) => n),
+      b
+    )({})()
+    assert.deepStrictEqual(log, ['b', 'a'])
+  })
+
+  it('ApplicativeSeq', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const a = _.fromTask<unknown, string, number>(T.delay(10)(T.fromIO(() => log.push('a'))))
+    const b = _.fromTask<unknown, string, number>(T.fromIO(() => log.push('b')))
+    await _.ApplicativeSeq.ap(
+      _.ApplicativeSeq.map(a, () => (n: number) => n),
+      b
+    )({})()
+    assert.deepStrictEqual(log, ['a', 'b'])
+  })
+
+  it('Monad', async () => {
+    assert.deepStrictEqual(await _.Monad.chain(_.of(1), (n) => _.of(n + 1))({})(), [2, []])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('fromTaskWriter', async () => {
+    assert.deepStrictEqual(await _.fromTaskWriter(TW.tell('a'))({})(), [undefined, ['a']])
+  })
+
+  it('fromReader', async () => {
+    assert.deepStrictEqual(await _.fromReader(R.asks((r: Env) => r.user))(env)(), ['alice', []])
+  })
+
+  it('fromIO', async () => {
+    assert.deepStrictEqual(await _.fromIO(I.of(1))({})(), [1, []])
+  })
+
+  it('fromReaderTaskEither', async () => {
+    assert.deepStrictEqual(await _.fromReaderTaskEither(RTE.asks((r: Env) => r.user))(env)(), [E.right('alice'), []])
+  })
+
+  it('ask', async () => {
+    assert.deepStrictEqual(await _.ask<Env>()(env)(), [env, []])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  it('toReaderTaskEither', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.tell('a'),
+        _.toReaderTaskEither,
+        RTE.map(([, ws]) => ws.length)
+      )({})(),
+      E.right(1)
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('local', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.asks((r: Env) => r.user),
+        _.local((user: string) => ({ user }))
+      )('bob')(),
+      ['bob', []]
+    )
+  })
+
+  it('listen', async () => {
+    assert.deepStrictEqual(await pipe(_.tell('a'), _.listen)({})(), [[undefined, ['a']], ['a']])
+  })
+
+  it('censor', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.tell('a'),
+        _.censor((ws) => ws.map((w) => w.toUpperCase()))
+      )({})(),
+      [undefined, ['A']]
+    )
+  })
+
+  it('chainTaskK', async () => {
+    const f = (s: string) => T.of(s.length)
+    assert.deepStrictEqual(await pipe(_.of<unknown, string, string>('a'), _.chainTaskK(f))({})(), [1, []])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // do notation
+  // -------------------------------------------------------------------------------------
+
+  it('do notation', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.of<Env, string, number>(1),
+        _.bindTo('a'),
+        _.bind('b', () => _.asks((r: Env) => r.user)),
+        _.bindW('c', () => _.tell(1))
+      )(env)(),
+      [{ a: 1, b: 'alice', c: undefined }, [1]]
+    )
+  })
+
+  it('apS', async () => {
+    assert.deepStrictEqual(await pipe(_.Do, _.apS('a', _.of(1)), _.apSW('b', _.tell('b')))({})(), [
+      { a: 1, b: undefined },
+      ['b']
+    ])
+  })
+})
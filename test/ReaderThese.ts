@@ -0,0 +1,248 @@
+import * as assert from 'assert'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+import { monoidString, monoidSum } from '../src/Monoid'
+import * as O from '../src/Option'
+import * as R from '../src/Reader'
+import * as _ from '../src/ReaderThese'
+import { semigroupString } from '../src/Semigroup'
+import * as TH from '../src/These'
+
+describe('ReaderThese', () => {
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(pipe(_.right(1), _.map(double))({}), TH.right(2))
+  })
+
+  it('bimap', () => {
+    const f = (e: string) => e + e
+    const g = (a: number) => a + 1
+    assert.deepStrictEqual(pipe(_.both('a', 1), _.bimap(f, g))({}), TH.both('aa', 2))
+  })
+
+  it('mapLeft', () => {
+    const f = (e: string) => e + e
+    assert.deepStrictEqual(pipe(_.left('a'), _.mapLeft(f))({}), TH.left('aa'))
+  })
+
+  it('chain', () => {
+    const f = (n: number) => (n > 1 ? _.asks((r: number) => n * r) : _.left('b'))
+    const chain = _.chain(semigroupString)
+    assert.deepStrictEqual(pipe(_.right(2), chain(f))(3), TH.right(6))
+    assert.deepStrictEqual(pipe(_.both('a', 1), chain(f))(3), TH.left('ab'))
+  })
+
+  it('chainW', () => {
+    const f = (n: number): _.ReaderThese<{ readonly b: number }, string, number> => (r) => TH.both('b', n + r.b)
+    const ma: _.ReaderThese<{ readonly a: number }, string, number> = (r) => TH.both('a', r.a)
+    assert.deepStrictEqual(pipe(ma, _.chainW(semigroupString)(f))({ a: 1, b: 2 }), TH.both('ab', 3))
+  })
+
+  it('chainFirst', () => {
+    const chainFirst = _.chainFirst(semigroupString)
+    assert.deepStrictEqual(
+      pipe(
+        _.both('a', 1),
+        chainFirst(() => _.both('b', 2))
+      )({}),
+      TH.both('ab', 1)
+    )
+  })
+
+  it('fromTheseK', () => {
+    const f = _.fromTheseK((s: string) => TH.both('a', s.length))
+    assert.deepStrictEqual(f('foo')({}), TH.both('a', 3))
+  })
+
+  it('chainTheseK', () => {
+    const chainTheseK = _.chainTheseK(semigroupString)
+    assert.deepStrictEqual(
+      pipe(
+        _.both('a', 1),
+        chainTheseK((n) => TH.both('b', n + 1))
+      )({}),
+      TH.both('ab', 2)
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('getSemigroup', () => {
+    const S = _.getSemigroup(monoidString, monoidSum)
+    assert.deepStrictEqual(S.concat(_.right(1), _.both('a', 2))({}), TH.both('a', 3))
+  })
+
+  it('Bifunctor', () => {
+    const f = (e: string) => e + e
+    const g = (a: number) => a + 1
+    assert.deepStrictEqual(_.Bifunctor.bimap(_.both('a', 1), f, g)({}), TH.both('aa', 2))
+    assert.deepStrictEqual(_.Bifunctor.mapLeft(_.left('a'), f)({}), TH.left('aa'))
+  })
+
+  it('getApplicative', () => {
+    const A = _.getApplicative(semigroupString)
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(A.ap(_.both('a', double), _.both('b', 1))({}), TH.both('ab', 2))
+  })
+
+  describe('getMonad', () => {
+    const M = _.getMonad(semigroupString)
+
+    it('map', () => {
+      assert.deepStrictEqual(M.map(_.both('a', 1), (n) => n * 2)({}), TH.both('a', 2))
+    })
+
+    it('ap', () => {
+      assert.deepStrictEqual(
+        M.ap(
+          _.right((n: number) => n * 2),
+          _.right(1)
+        )({}),
+        TH.right(2)
+      )
+    })
+
+    it('chain', () => {
+      assert.deepStrictEqual(M.chain(_.both('a', 1), (n) => _.both('b', n * 2))({}), TH.both('ab', 2))
+    })
+
+    it('throwError', () => {
+      assert.deepStrictEqual(M.throwError('a')({}), TH.left('a'))
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('rightReader', () => {
+    assert.deepStrictEqual(_.rightReader((n: number) => n + 1)(1), TH.right(2))
+  })
+
+  it('leftReader', () => {
+    assert.deepStrictEqual(_.leftReader((n: number) => n + 1)(1), TH.left(2))
+  })
+
+  it('ask', () => {
+    assert.deepStrictEqual(_.ask<number>()(1), TH.right(1))
+  })
+
+  it('asks', () => {
+    assert.deepStrictEqual(_.asks((s: string) => s.length)('foo'), TH.right(3))
+  })
+
+  it('fromThese', () => {
+    assert.deepStrictEqual(_.fromThese(TH.both('a', 1))({}), TH.both('a', 1))
+  })
+
+  it('fromEither', () => {
+    assert.deepStrictEqual(_.fromEither(E.left('a'))({}), TH.left('a'))
+  })
+
+  it('fromReaderEither', () => {
+    assert.deepStrictEqual(_.fromReaderEither((n: number) => E.right(n))(1), TH.right(1))
+  })
+
+  it('fromOption', () => {
+    assert.deepStrictEqual(_.fromOption(() => 'a')(O.none)({}), TH.left('a'))
+    assert.deepStrictEqual(_.fromOption(() => 'a')(O.some(1))({}), TH.right(1))
+  })
+
+  it('fromPredicate', () => {
+    const f = _.fromPredicate(
+      (n: number) => n > 0,
+      () => 'a'
+    )
+    assert.deepStrictEqual(f(1)({}), TH.right(1))
+    assert.deepStrictEqual(f(-1)({}), TH.left('a'))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  it('fold', () => {
+    const f = _.fold(
+      (e) => R.of(`left ${e}`),
+      (a) => R.of(`right ${a}`),
+      (e, a) => R.of(`both ${e} ${a}`)
+    )
+    assert.deepStrictEqual(pipe(_.right(1), f)({}), 'right 1')
+    assert.deepStrictEqual(pipe(_.left('a'), f)({}), 'left a')
+    assert.deepStrictEqual(pipe(_.both('a', 1), f)({}), 'both a 1')
+  })
+
+  it('swap', () => {
+    assert.deepStrictEqual(_.swap(_.both('a', 1))({}), TH.both(1, 'a'))
+  })
+
+  it('toTuple', () => {
+    const f = _.toTuple(
+      () => 'b',
+      () => 2
+    )
+    assert.deepStrictEqual(f(_.left('a'))({}), ['a', 2])
+    assert.deepStrictEqual(f(_.right(1))({}), ['b', 1])
+    assert.deepStrictEqual(f(_.both('a', 1))({}), ['a', 1])
+  })
+
+  it('local', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.asks((n: number) => n + 1),
+        _.local((s: string) => s.length)
+      )('foo'),
+      TH.right(4)
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // do notation
+  // -------------------------------------------------------------------------------------
+
+  it('do notation', () => {
+    const bind = _.bind(semigroupString)
+    assert.deepStrictEqual(
+      pipe(
+        _.Do,
+        bind('a', () => _.both('a', 1)),
+        bind('b', ({ a }) => _.both('b', a + 1))
+      )({}),
+      TH.both('ab', { a: 1, b: 2 })
+    )
+    assert.deepStrictEqual(pipe(_.right(1), _.bindTo('a'))({}), TH.right({ a: 1 }))
+  })
+
+  it('apS', () => {
+    const apS = _.apS(semigroupString)
+    assert.deepStrictEqual(
+      pipe(_.both('a', 1), _.bindTo('a'), apS('b', _.both('b', 'b')))({}),
+      TH.both('ab', { a: 1, b: 'b' })
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // array utils
+  // -------------------------------------------------------------------------------------
+
+  describe('array utils', () => {
+    const f = (n: number): _.ReaderThese<number, string, number> => (r) =>
+      n > r ? TH.right(n) : n === r ? TH.both('zero ', n) : TH.left('negative ')
+
+    it('traverseArray', () => {
+      const traverse = _.traverseArray(semigroupString)(f)
+      assert.deepStrictEqual(pipe([1, 0, 2], traverse)(0), TH.both('zero ', [1, 0, 2]))
+      assert.deepStrictEqual(pipe([1, 0, 2], traverse)(1), TH.left('zero negative '))
+    })
+
+    it('sequenceArray', () => {
+      assert.deepStrictEqual(_.sequenceArray(semigroupString)([_.right(1), _.both('a', 2)])({}), TH.both('a', [1, 2]))
+    })
+  })
+})
@@ -0,0 +1,269 @@
+import * as assert from 'assert'
+import { pipe } from '../src/function'
+import { monoidString, monoidSum } from '../src/Monoid'
+import * as _ from '../src/ReaderWriterState'
+
+interface Env {
+  readonly step: number
+}
+
+const run = _.run(monoidString, { step: 1 }, 0)
+
+const logged = (n: number): _.ReaderWriterState<unknown, string, number, number> =>
+  pipe(
+    _.tell<unknown, string, number>(`${n}`),
+    _.chain(() => _.of(n))
+  )
+
+const double = (n: number): number => n * 2
+
+describe('ReaderWriterState', () => {
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('ask', () => {
+    assert.deepStrictEqual(pipe(_.ask<Env, string, number>(), run), [{ step: 1 }, 0, ''])
+  })
+
+  it('asks', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.asks<Env, string, number, number>((env) => env.step),
+        run
+      ),
+      [1, 0, '']
+    )
+  })
+
+  it('get', () => {
+    assert.deepStrictEqual(pipe(_.get<Env, string, number>(), run), [0, 0, ''])
+  })
+
+  it('gets', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.gets<Env, string, number, number>((n) => n + 1),
+        run
+      ),
+      [1, 0, '']
+    )
+  })
+
+  it('put', () => {
+    assert.deepStrictEqual(pipe(_.put<Env, string, number>(2), run), [undefined, 2, ''])
+  })
+
+  it('modify', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.modify<Env, string, number>((n) => n + 1),
+        run
+      ),
+      [undefined, 1, '']
+    )
+  })
+
+  it('tell', () => {
+    assert.deepStrictEqual(pipe(_.tell<Env, string, number>('a'), run), [undefined, 0, 'a'])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('local', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.asks<Env, string, number, number>((env) => env.step),
+        _.local((n: number) => ({ step: n * 2 })),
+        _.run(monoidString, 1, 0)
+      ),
+      [2, 0, '']
+    )
+  })
+
+  it('listen', () => {
+    assert.deepStrictEqual(pipe(_.tell<Env, string, number>('a'), _.listen, run), [[undefined, 'a'], 0, 'a'])
+  })
+
+  it('censor', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.tell<Env, string, number>('a'),
+        _.censor((w) => w.toUpperCase()),
+        run
+      ),
+      [undefined, 0, 'A']
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', () => {
+    assert.deepStrictEqual(pipe(logged(1), _.map(double), run), [2, 0, '1'])
+  })
+
+  it('ap', () => {
+    assert.deepStrictEqual(
+      pipe(
+        logged(1),
+        _.map(() => double),
+        _.ap(logged(2)),
+        run
+      ),
+      [4, 0, '12']
+    )
+  })
+
+  it('apW', () => {
+    const fab: _.ReaderWriterState<
+      { readonly a: number },
+      string,
+      number,
+      (n: number) => number
+    > = _.asks(({ a }) => (n: number) => n + a)
+    const fa: _.ReaderWriterState<{ readonly b: number }, string, number, number> = _.asks(({ b }) => b)
+    assert.deepStrictEqual(pipe(fab, _.apW(fa), _.run(monoidString, { a: 1, b: 2 }, 0)), [3, 0, ''])
+  })
+
+  it('apFirst', () => {
+    assert.deepStrictEqual(pipe(logged(1), _.apFirst(logged(2)), run), [1, 0, '12'])
+  })
+
+  it('apSecond', () => {
+    assert.deepStrictEqual(pipe(logged(1), _.apSecond(logged(2)), run), [2, 0, '12'])
+  })
+
+  it('of', () => {
+    assert.deepStrictEqual(pipe(_.of<number, Env, string, number>(1), run), [1, 0, ''])
+  })
+
+  it('chain', () => {
+    assert.deepStrictEqual(
+      pipe(
+        logged(1),
+        _.chain((n) => logged(n + 1)),
+        run
+      ),
+      [2, 0, '12']
+    )
+  })
+
+  it('chainW', () => {
+    const f = (n: number): _.ReaderWriterState<{ readonly b: number }, string, number, number> =>
+      _.asks(({ b }) => n + b)
+    assert.deepStrictEqual(
+      pipe(
+        _.asks<{ readonly a: number }, string, number, number>(({ a }) => a),
+        _.chainW(f),
+        _.run(monoidString, { a: 1, b: 2 }, 0)
+      ),
+      [3, 0, '']
+    )
+  })
+
+  it('chainFirst', () => {
+    assert.deepStrictEqual(
+      pipe(
+        logged(1),
+        _.chainFirst((n) => logged(n + 1)),
+        run
+      ),
+      [1, 0, '12']
+    )
+  })
+
+  it('flatten', () => {
+    assert.deepStrictEqual(pipe(logged(1), _.map(logged), _.flatten, run), [1, 0, '11'])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('Functor', () => {
+    assert.deepStrictEqual(pipe(_.Functor.map(logged(1), double), run), [2, 0, '1'])
+  })
+
+  it('Applicative', () => {
+    assert.deepStrictEqual(pipe(_.Applicative.ap(_.Applicative.of(double), logged(1)), run), [2, 0, '1'])
+    assert.deepStrictEqual(pipe(_.Applicative.map(logged(1), double), run), [2, 0, '1'])
+  })
+
+  it('Monad', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.Monad.chain(logged(1), (n) => logged(n + 1)),
+        run
+      ),
+      [2, 0, '12']
+    )
+    assert.deepStrictEqual(
+      pipe(
+        _.Monad.ap(
+          _.Monad.map(logged(1), () => double),
+          logged(2)
+        ),
+        run
+      ),
+      [4, 0, '12']
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // do notation
+  // -------------------------------------------------------------------------------------
+
+  it('do notation', () => {
+    assert.deepStrictEqual(
+      pipe(
+        logged(1),
+        _.bindTo('a'),
+        _.bind('b', ({ a }) => logged(a + 1)),
+        _.bindW('c', () => _.asks(({ step }: Env) => step)),
+        run
+      ),
+      [{ a: 1, b: 2, c: 1 }, 0, '12']
+    )
+  })
+
+  it('apS', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.Do,
+        _.apS('a', logged(1)),
+        _.apS('b', logged(2)),
+        _.apSW(
+          'c',
+          _.asks(({ step }: Env) => step)
+        ),
+        run
+      ),
+      [{ a: 1, b: 2, c: 1 }, 0, '12']
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // utils
+  // -------------------------------------------------------------------------------------
+
+  it('run / evaluate / execute', () => {
+    // counts the steps taken
+    const step: _.ReaderWriterState<Env, number, number, number> = pipe(
+      _.ask<Env, number, number>(),
+      _.chain(({ step }) => _.modify((n: number) => n + step)),
+      _.chain(() => _.tell(1)),
+      _.chain(() => _.get())
+    )
+    const program = pipe(
+      step,
+      _.chain(() => step)
+    )
+    assert.deepStrictEqual(pipe(program, _.run(monoidSum, { step: 2 }, 1)), [5, 5, 2])
+    assert.deepStrictEqual(pipe(program, _.evaluate(monoidSum, { step: 2 }, 1)), 5)
+    assert.deepStrictEqual(pipe(program, _.execute(monoidSum, { step: 2 }, 10)), 14)
+  })
+})
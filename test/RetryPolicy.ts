@@ -0,0 +1,103 @@
+import * as assert from 'assert'
+import * as O from '../src/Option'
+import * as _ from '../src/RetryPolicy'
+
+const status = (iterNumber: number): _.RetryStatus => ({ ..._.defaultRetryStatus, iterNumber })
+
+describe('RetryPolicy', () => {
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('limitRetries', () => {
+    const policy = _.limitRetries(2)
+    assert.deepStrictEqual(policy(status(0)), O.some(0))
+    assert.deepStrictEqual(policy(status(1)), O.some(0))
+    assert.deepStrictEqual(policy(status(2)), O.none)
+  })
+
+  it('constantDelay', () => {
+    const policy = _.constantDelay(10)
+    assert.deepStrictEqual(policy(status(0)), O.some(10))
+    assert.deepStrictEqual(policy(status(5)), O.some(10))
+  })
+
+  it('exponentialBackoff', () => {
+    const policy = _.exponentialBackoff(10)
+    assert.deepStrictEqual(policy(status(0)), O.some(10))
+    assert.deepStrictEqual(policy(status(1)), O.some(20))
+    assert.deepStrictEqual(policy(status(3)), O.some(80))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('capDelay', () => {
+    const policy = _.capDelay(50, _.exponentialBackoff(10))
+    assert.deepStrictEqual(policy(status(1)), O.some(20))
+    assert.deepStrictEqual(policy(status(3)), O.some(50))
+    assert.deepStrictEqual(_.capDelay(50, _.limitRetries(0))(status(0)), O.none)
+  })
+
+  it('jittered', () => {
+    const policy = _.jittered(_.constantDelay(10))
+    for (let i = 0; i < 10; i++) {
+      const delay = policy(status(i))
+      assert.deepStrictEqual(O.isSome(delay) && delay.value >= 0 && delay.value <= 10, true)
+    }
+    assert.deepStrictEqual(_.jittered(_.limitRetries(0))(status(0)), O.none)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  describe('monoidRetryPolicyAll', () => {
+    const M = _.monoidRetryPolicyAll
+
+    it('concat', () => {
+      const policy = M.concat(_.constantDelay(10), _.limitRetries(1))
+      assert.deepStrictEqual(policy(status(0)), O.some(10))
+      assert.deepStrictEqual(policy(status(1)), O.none)
+      assert.deepStrictEqual(M.concat(_.limitRetries(1), _.constantDelay(10))(status(1)), O.none)
+    })
+
+    it('empty', () => {
+      const policy = _.constantDelay(10)
+      assert.deepStrictEqual(M.concat(policy, M.empty)(status(0)), O.some(10))
+      assert.deepStrictEqual(M.concat(M.empty, policy)(status(0)), O.some(10))
+    })
+  })
+
+  describe('monoidRetryPolicyAny', () => {
+    const M = _.monoidRetryPolicyAny
+
+    it('concat', () => {
+      const policy = M.concat(_.constantDelay(10), _.limitRetries(1))
+      assert.deepStrictEqual(policy(status(0)), O.some(0))
+      assert.deepStrictEqual(policy(status(1)), O.some(10))
+      assert.deepStrictEqual(M.concat(_.limitRetries(1), _.constantDelay(10))(status(1)), O.some(10))
+      assert.deepStrictEqual(M.concat(_.limitRetries(1), _.limitRetries(1))(status(1)), O.none)
+    })
+
+    it('empty', () => {
+      const policy = _.constantDelay(10)
+      assert.deepStrictEqual(M.concat(policy, M.empty)(status(0)), O.some(10))
+      assert.deepStrictEqual(M.concat(M.empty, policy)(status(0)), O.some(10))
+    })
+  })
+
+  // -------------------------------------------------------------------------------------
+  // utils
+  // -------------------------------------------------------------------------------------
+
+  it('applyPolicy', () => {
+    const s1 = _.applyPolicy(_.exponentialBackoff(10), _.defaultRetryStatus)
+    assert.deepStrictEqual(s1, { iterNumber: 1, cumulativeDelay: 10, previousDelay: O.some(10) })
+    const s2 = _.applyPolicy(_.exponentialBackoff(10), s1)
+    assert.deepStrictEqual(s2, { iterNumber: 2, cumulativeDelay: 30, previousDelay: O.some(20) })
+    const s3 = _.applyPolicy(_.limitRetries(2), s2)
+    assert.deepStrictEqual(s3, { iterNumber: 3, cumulativeDelay: 30, previousDelay: O.none })
+  })
+})
@@ -0,0 +1,136 @@
+import * as assert from 'assert'
+import { pipe } from '../src/function'
+import * as I from '../src/IO'
+import { newSemaphore, Semaphore } from '../src/Semaphore'
+import * as T from '../src/Task'
+import * as TE from '../src/TaskEither'
+import * as E from '../src/Either'
+
+describe('Semaphore', () => {
+  it('available', () => {
+    const semaphore = new Semaphore(2)
+    assert.deepStrictEqual(semaphore.available(), 2)
+  })
+
+  it('acquire / release', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const semaphore = new Semaphore(2)
+    await semaphore.acquire(2)()
+    assert.deepStrictEqual(semaphore.available(), 0)
+    const fa = semaphore
+      .acquire(1)()
+      .then(() => log.push('a'))
+    const fb = semaphore
+      .acquire(1)()
+      .then(() => log.push('b'))
+    await T.delay(1)(T.of(undefined))()
+    assert.deepStrictEqual(log, [])
+    semaphore.release(1)()
+    await fa
+    assert.deepStrictEqual(log, ['a'])
+    semaphore.release(1)()
+    await fb
+    assert.deepStrictEqual(log, ['a', 'b'])
+    assert.deepStrictEqual(semaphore.available(), 0)
+  })
+
+  it('should grant the permits in FIFO order', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const semaphore = new Semaphore(2)
+    await semaphore.acquire(2)()
+    const fa = semaphore
+      .acquire(2)()
+      .then(() => log.push('a'))
+    const fb = semaphore
+      .acquire(1)()
+      .then(() => log.push('b'))
+    semaphore.release(1)()
+    await T.delay(1)(T.of(undefined))()
+    assert.deepStrictEqual(log, [])
+    semaphore.release(1)()
+    await fa
+    semaphore.release(2)()
+    await fb
+    assert.deepStrictEqual(log, ['a', 'b'])
+  })
+
+  it('should reject invalid numbers of permits', () => {
+    const semaphore = new Semaphore(2)
+    assert.throws(() => semaphore.acquire(3), RangeError)
+    assert.throws(() => semaphore.acquire(-3), RangeError)
+    assert.throws(() => semaphore.acquire(0.5), RangeError)
+    assert.throws(() => semaphore.acquire(NaN), RangeError)
+    assert.throws(() => semaphore.release(-1), RangeError)
+    assert.throws(() => semaphore.release(0.5), RangeError)
+    assert.throws(() => semaphore.withPermits(3), RangeError)
+    assert.throws(() => new Semaphore(-1), RangeError)
+    assert.throws(() => new Semaphore(1.5), RangeError)
+    assert.deepStrictEqual(semaphore.available(), 2)
+  })
+
+  it('should not grant permits on an empty semaphore', async () => {
+    const semaphore = new Semaphore(0)
+    assert.throws(() => semaphore.acquire(1), RangeError)
+    await semaphore.acquire(0)()
+    assert.deepStrictEqual(semaphore.available(), 0)
+  })
+
+  it('should not exceed the total permits on release', () => {
+    const semaphore = new Semaphore(2)
+    semaphore.release(3)()
+    assert.deepStrictEqual(semaphore.available(), 2)
+  })
+
+  describe('withPermits', () => {
+    it('should limit the number of concurrent tasks', async () => {
+      const semaphore = new Semaphore(2)
+      let running = 0
+      let maxRunning = 0
+      const task: T.Task<number> = () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        return T.delay(1)(T.fromIO(() => running--))()
+      }
+      await T.sequenceArray([1, 2, 3, 4, 5].map(() => semaphore.withPermits(1)(task)))()
+      assert.deepStrictEqual(maxRunning, 2)
+      assert.deepStrictEqual(semaphore.available(), 2)
+    })
+
+    it('should work with TaskEither', async () => {
+      const semaphore = new Semaphore(1)
+      assert.deepStrictEqual(await semaphore.withPermits(1)(TE.left('a'))(), E.left('a'))
+      assert.deepStrictEqual(semaphore.available(), 1)
+    })
+
+    it('should release the permits if the task is rejected', async () => {
+      const semaphore = new Semaphore(1)
+      try {
+        await semaphore.withPermits(1)(() => Promise.reject('error'))()
+      } catch (e) {
+        assert.deepStrictEqual(e, 'error')
+      }
+      assert.deepStrictEqual(semaphore.available(), 1)
+    })
+  })
+
+  it('newSemaphore', () => {
+    assert.deepStrictEqual(
+      pipe(
+        newSemaphore(3),
+        I.chain((semaphore) => semaphore.available)
+      )(),
+      3
+    )
+  })
+
+  it('pipe', async () => {
+    const semaphore = new Semaphore(1)
+    assert.deepStrictEqual(await pipe(T.of(1), semaphore.withPermits(1))(), 1)
+    await pipe(1, semaphore.acquire)()
+    assert.deepStrictEqual(semaphore.available(), 0)
+    pipe(1, semaphore.release)()
+    assert.deepStrictEqual(semaphore.available(), 1)
+  })
+})
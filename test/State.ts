@@ -1,4 +1,5 @@
 import * as assert from 'assert'
+import * as E from '../src/Either'
 import * as RA from '../src/ReadonlyArray'
 import { pipe, tuple } from '../src/function'
 import * as _ from '../src/State'
@@ -77,6 +78,71 @@ describe('State', () => {
     assert.deepStrictEqual(_.gets(double)(1), [2, 1])
   })
 
+  it('ChainRec', () => {
+    // sums the numbers from 1 to n in the state
+    const sum = (n: number) =>
+      _.ChainRec.chainRec(n, (i) => (s: number) =>
+        tuple(i === 0 ? E.right<number, string>('done') : E.left<number, string>(i - 1), s + i)
+      )
+    assert.deepStrictEqual(sum(3)(0), ['done', 6])
+    assert.deepStrictEqual(pipe(sum(100000), _.execute(0)), 5000050000)
+  })
+
+  describe('stack safety', () => {
+    const n = 100000
+    const increment = _.modify((s: number) => s + 1)
+
+    it('left-nested chain', () => {
+      let p: _.State<number, void> = increment
+      for (let i = 1; i < n; i++) {
+        p = pipe(
+          p,
+          _.chain(() => increment)
+        )
+      }
+      assert.deepStrictEqual(pipe(p, _.execute(0)), n)
+      assert.deepStrictEqual(p(0), [undefined, n])
+    })
+
+    it('recursive chain', () => {
+      const loop = (i: number): _.State<number, string> =>
+        i === 0
+          ? _.of('done')
+          : pipe(
+              increment,
+              _.chain(() => loop(i - 1))
+            )
+      assert.deepStrictEqual(pipe(loop(n), _.evaluate(0)), 'done')
+      assert.deepStrictEqual(pipe(loop(n), _.execute(0)), n)
+    })
+
+    it('map and ap', () => {
+      let p: _.State<number, number> = _.gets((s: number) => s)
+      for (let i = 0; i < n; i++) {
+        p = pipe(
+          p,
+          _.map((a) => a + 1),
+          _.apFirst(increment)
+        )
+      }
+      assert.deepStrictEqual(p(0), [n, n])
+    })
+
+    it('Monad instance', () => {
+      let p: _.State<number, number> = _.of(0)
+      for (let i = 0; i < n; i++) {
+        p = _.Monad.chain(
+          _.Monad.ap(
+            _.Monad.map(p, (a) => (b: number) => a + b),
+            _.gets((s: number) => s)
+          ),
+          (a) => _.Monad.of(a)
+        )
+      }
+      assert.deepStrictEqual(pipe(p, _.evaluate(1)), n)
+    })
+  })
+
   it('do notation', () => {
     assert.deepStrictEqual(
       pipe(
@@ -312,6 +312,24 @@ describe('StateReaderTaskEither', () => {
     assert.deepStrictEqual(await _.gets(double)(1)({})(), E.right([2, 1]))
   })
 
+  it('ChainRec', async () => {
+    // sums the numbers from 1 to n in the state, failing past the limit
+    const sum = (n: number) =>
+      _.ChainRec.chainRec(n, (i) =>
+        pipe(
+          _.modify((s: number) => s + i),
+          _.chain(() => _.rightReader((limit: number) => limit)),
+          _.chain((limit) =>
+            i > limit
+              ? _.left('too big')
+              : _.right<number, number, string, E.Either<number, string>>(i === 0 ? E.right('done') : E.left(i - 1))
+          )
+        )
+      )
+    assert.deepStrictEqual(await sum(10000)(0)(10000)(), E.right(['done', 50005000]))
+    assert.deepStrictEqual(await sum(3)(0)(2)(), E.left('too big'))
+  })
+
   it('do notation', async () => {
     assert.deepStrictEqual(
       await pipe(
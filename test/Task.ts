@@ -1,6 +1,7 @@
 import * as assert from 'assert'
 import * as I from '../src/IO'
 import { monoidString } from '../src/Monoid'
+import * as O from '../src/Option'
 import { pipe } from '../src/function'
 import * as _ from '../src/Task'
 import * as RA from '../src/ReadonlyArray'
@@ -118,6 +119,38 @@ describe('Task', () => {
   // combinators
   // -------------------------------------------------------------------------------------
 
+  describe('timeout', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should return some if the task completes in time', async () => {
+      const fa = _.timeout(10)(delay(5, 1))()
+      jest.advanceTimersByTime(5)
+      assert.deepStrictEqual(await fa, O.some(1))
+    })
+
+    it('should clear the timer if the task completes in time', async () => {
+      const setTimeoutSpy = jest.spyOn(global, 'setTimeout')
+      const clearTimeoutSpy = jest.spyOn(global, 'clearTimeout')
+      assert.deepStrictEqual(await _.timeout(10)(_.of(1))(), O.some(1))
+      assert.deepStrictEqual(setTimeoutSpy.mock.calls.length, 1)
+      assert.deepStrictEqual(clearTimeoutSpy.mock.calls.length, 1)
+      setTimeoutSpy.mockRestore()
+      clearTimeoutSpy.mockRestore()
+    })
+
+    it('should return none if the task does not complete in time', async () => {
+      const fa = _.timeout(10)(_.never)()
+      jest.advanceTimersByTime(10)
+      assert.deepStrictEqual(await fa, O.none)
+    })
+  })
+
   it('chainIOK', async () => {
     const f = (s: string) => I.of(s.length)
     assert.deepStrictEqual(await pipe(_.of('a'), _.chainIOK(f))(), 1)
@@ -180,5 +213,57 @@ describe('Task', () => {
         arr
       )
     })
+
+    describe('traverseArrayPar', () => {
+      it('should preserve the order of the results', async () => {
+        const arr = RA.range(0, 10)
+        const f = (n: number) => delay(n % 3, n)
+        assert.deepStrictEqual(await pipe(arr, _.traverseArrayPar(3)(f))(), arr)
+        assert.deepStrictEqual(await pipe([], _.traverseArrayPar(3)(f))(), [])
+      })
+
+      it('should run at most concurrency tasks at the same time', async () => {
+        let running = 0
+        let maxRunning = 0
+        const f = (n: number): _.Task<number> => () => {
+          running++
+          maxRunning = Math.max(maxRunning, running)
+          return delay(1, n)().then((n) => {
+            running--
+            return n
+          })
+        }
+        await pipe(RA.range(0, 10), _.traverseArrayPar(3)(f))()
+        assert.deepStrictEqual(maxRunning, 3)
+        maxRunning = 0
+        await pipe(RA.range(0, 10), _.traverseArrayPar(0)(f))()
+        assert.deepStrictEqual(maxRunning, 1)
+        maxRunning = 0
+        assert.deepStrictEqual(await pipe(RA.range(0, 10), _.traverseArrayPar(NaN)(f))(), RA.range(0, 10))
+        assert.deepStrictEqual(maxRunning, 1)
+        maxRunning = 0
+        await pipe(RA.range(0, 10), _.traverseArrayPar(2.5)(f))()
+        assert.deepStrictEqual(maxRunning, 2)
+        maxRunning = 0
+        await pipe(RA.range(0, 10), _.traverseArrayPar(Infinity)(f))()
+        assert.deepStrictEqual(maxRunning, 11)
+      })
+    })
+
+    it('sequenceArrayPar', async () => {
+      const arr = RA.range(0, 10)
+      assert.deepStrictEqual(await pipe(arr, RA.map(_.of), _.sequenceArrayPar(2))(), arr)
+    })
+
+    it('traverseArrayWithIndexPar', async () => {
+      const arr = RA.replicate(3, 'a')
+      assert.deepStrictEqual(
+        await pipe(
+          arr,
+          _.traverseArrayWithIndexPar(2)((index, s) => _.of(s + index))
+        )(),
+        ['a0', 'a1', 'a2']
+      )
+    })
   })
 })
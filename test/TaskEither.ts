@@ -1,6 +1,7 @@
 import * as assert from 'assert'
 import { sequenceT } from '../src/Apply'
 import * as A from '../src/Array'
+import * as C from '../src/Console'
 import * as E from '../src/Either'
 import { pipe } from '../src/function'
 import * as I from '../src/IO'
@@ -8,6 +9,7 @@ import * as IE from '../src/IOEither'
 import { monoidString } from '../src/Monoid'
 import { none, some } from '../src/Option'
 import { pipeable } from '../src/pipeable'
+import * as RP from '../src/RetryPolicy'
 import { semigroupString, semigroupSum } from '../src/Semigroup'
 import * as T from '../src/Task'
 import * as _ from '../src/TaskEither'
@@ -231,6 +233,62 @@ describe('TaskEither', () => {
     assert.deepStrictEqual(await taskApi(), E.right('ok'))
   })
 
+  describe('retrying', () => {
+    it('should retry according to the policy while check returns true', async () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<RP.RetryStatus> = []
+      const action = (status: RP.RetryStatus) => {
+        log.push(status)
+        return status.iterNumber < 2 ? _.left('error') : _.right(status.iterNumber)
+      }
+      const e = await _.retrying(RP.constantDelay(1), action, (_, e) => E.isLeft(e))()
+      assert.deepStrictEqual(e, E.right(2))
+      assert.deepStrictEqual(log, [
+        { iterNumber: 0, cumulativeDelay: 0, previousDelay: none },
+        { iterNumber: 1, cumulativeDelay: 1, previousDelay: some(1) },
+        { iterNumber: 2, cumulativeDelay: 2, previousDelay: some(1) }
+      ])
+    })
+
+    it('should stop when the policy gives up', async () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<number> = []
+      const action = (status: RP.RetryStatus) => {
+        log.push(status.iterNumber)
+        return _.left(status.iterNumber)
+      }
+      const e = await _.retrying(RP.limitRetries(2), action, () => true)()
+      assert.deepStrictEqual(e, E.left(2))
+      assert.deepStrictEqual(log, [0, 1, 2])
+    })
+  })
+
+  it('recovering', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<number> = []
+    const action = (status: RP.RetryStatus) => {
+      log.push(status.iterNumber)
+      return status.iterNumber < 3 ? _.left(status.iterNumber) : _.right('ok')
+    }
+    const e = await _.recovering(RP.limitRetries(5), action, (_, e) => e < 1)()
+    assert.deepStrictEqual(e, E.left(1))
+    assert.deepStrictEqual(log, [0, 1])
+    assert.deepStrictEqual(await _.recovering(RP.limitRetries(5), action, () => true)(), E.right('ok'))
+  })
+
+  it('logged', async () => {
+    const { sink, records } = C.newMemorySink()
+    const logger = C.makeLogger(sink)
+    assert.deepStrictEqual(await _.logged(logger, 'a')(_.right(1))(), E.right(1))
+    assert.deepStrictEqual(await _.logged(logger, 'b')(_.left('error'))(), E.left('error'))
+    assert.deepStrictEqual(records(), [
+      { level: 'debug', message: 'a: started', fields: {} },
+      { level: 'info', message: 'a: succeeded', fields: {} },
+      { level: 'debug', message: 'b: started', fields: {} },
+      { level: 'error', message: 'b: failed', fields: { error: 'error' } }
+    ])
+  })
+
   describe('bracket', () => {
     // tslint:disable-next-line: readonly-array
     let log: Array<string> = []
@@ -308,6 +366,32 @@ describe('TaskEither', () => {
     )
   })
 
+  describe('timeoutTo', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    const timeoutTo = _.timeoutTo(10, () => 'timeout')
+
+    it('should return the result if the task completes in time', async () => {
+      const e1 = timeoutTo(T.delay(5)(_.right(1)))()
+      const e2 = timeoutTo(T.delay(5)(_.left('a')))()
+      jest.advanceTimersByTime(5)
+      assert.deepStrictEqual(await e1, E.right(1))
+      assert.deepStrictEqual(await e2, E.left('a'))
+    })
+
+    it('should fail if the task does not complete in time', async () => {
+      const e = timeoutTo(T.delay(20)(_.right(1)))()
+      jest.advanceTimersByTime(10)
+      assert.deepStrictEqual(await e, E.left('timeout'))
+    })
+  })
+
   it('orElse', async () => {
     assert.deepStrictEqual(
       await pipe(
@@ -507,5 +591,51 @@ describe('TaskEither', () => {
         E.left('a')
       )
     })
+
+    describe('traverseArrayPar', () => {
+      it('should preserve the order of the results', async () => {
+        const arr = A.range(0, 10)
+        const f = (n: number) => T.delay(n % 3)(_.right(n))
+        assert.deepStrictEqual(await pipe(arr, _.traverseArrayPar(3)(f))(), E.right(arr))
+      })
+
+      it('should not start the remaining tasks after the first left', async () => {
+        // tslint:disable-next-line: readonly-array
+        const log: Array<number> = []
+        const f = (n: number) =>
+          pipe(
+            T.delay(1)(T.fromIO(() => log.push(n))),
+            T.map(() => (n === 2 ? E.left(`error ${n}`) : E.right(n)))
+          )
+        assert.deepStrictEqual(await pipe(A.range(0, 10), _.traverseArrayPar(2)(f))(), E.left('error 2'))
+        assert.deepStrictEqual(log, [0, 1, 2, 3])
+      })
+
+      it('should return the first left', async () => {
+        const f = (n: number) => T.delay(n)(_.left(`error ${n}`))
+        assert.deepStrictEqual(await pipe([2, 1], _.traverseArrayPar(2)(f))(), E.left('error 1'))
+      })
+
+      it('should handle a NaN concurrency', async () => {
+        const arr = A.range(0, 10)
+        assert.deepStrictEqual(await pipe(arr, _.traverseArrayPar(NaN)(_.right))(), E.right(arr))
+      })
+    })
+
+    it('traverseArrayWithIndexPar', async () => {
+      assert.deepStrictEqual(
+        await pipe(
+          ['a', 'b'],
+          _.traverseArrayWithIndexPar(2)((i, s) => _.right(s + i))
+        )(),
+        E.right(['a0', 'b1'])
+      )
+    })
+
+    it('sequenceArrayPar', async () => {
+      const arr = A.range(0, 10)
+      assert.deepStrictEqual(await pipe(arr, A.map(_.of), _.sequenceArrayPar(2))(), E.right(arr))
+      assert.deepStrictEqual(await pipe([], _.sequenceArrayPar(2))(), E.right([]))
+    })
   })
 })
@@ -0,0 +1,298 @@
+import * as assert from 'assert'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+import * as I from '../src/IO'
+import * as IO from '../src/IOOption'
+import * as O from '../src/Option'
+import * as T from '../src/Task'
+import * as TE from '../src/TaskEither'
+import * as _ from '../src/TaskOption'
+
+describe('TaskOption', () => {
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', async () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(await pipe(_.some(1), _.map(double))(), O.some(2))
+    assert.deepStrictEqual(await pipe(_.none, _.map(double))(), O.none)
+  })
+
+  it('ap', async () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(await pipe(_.some(double), _.ap(_.some(1)))(), O.some(2))
+    assert.deepStrictEqual(await pipe(_.some(double), _.ap(_.none))(), O.none)
+    assert.deepStrictEqual(await pipe(_.none, _.ap(_.some(1)))(), O.none)
+  })
+
+  it('apFirst', async () => {
+    assert.deepStrictEqual(await pipe(_.some('a'), _.apFirst(_.some('b')))(), O.some('a'))
+  })
+
+  it('apSecond', async () => {
+    assert.deepStrictEqual(await pipe(_.some('a'), _.apSecond(_.some('b')))(), O.some('b'))
+  })
+
+  it('chain', async () => {
+    const f = (n: number) => (n > 0 ? _.some(n * 2) : _.none)
+    assert.deepStrictEqual(await pipe(_.some(1), _.chain(f))(), O.some(2))
+    assert.deepStrictEqual(await pipe(_.some(-1), _.chain(f))(), O.none)
+    assert.deepStrictEqual(await pipe(_.none, _.chain(f))(), O.none)
+  })
+
+  it('chainFirst', async () => {
+    const f = (n: number) => (n > 0 ? _.some(n * 2) : _.none)
+    assert.deepStrictEqual(await pipe(_.some(1), _.chainFirst(f))(), O.some(1))
+    assert.deepStrictEqual(await pipe(_.some(-1), _.chainFirst(f))(), O.none)
+  })
+
+  it('flatten', async () => {
+    assert.deepStrictEqual(await pipe(_.some(_.some(1)), _.flatten)(), O.some(1))
+  })
+
+  it('alt', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.some(1),
+        _.alt(() => _.some(2))
+      )(),
+      O.some(1)
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        _.none,
+        _.alt(() => _.some(2))
+      )(),
+      O.some(2)
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        _.none,
+        _.altW(() => _.some('a'))
+      )(),
+      O.some('a')
+    )
+  })
+
+  it('zero', async () => {
+    assert.deepStrictEqual(await _.zero()(), O.none)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('Functor', async () => {
+    assert.deepStrictEqual(await _.Functor.map(_.some(1), (n) => n + 1)(), O.some(2))
+  })
+
+  it('ApplicativePar', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const a = _.someTask(T.delay(10)(T.fromIO(() => log.push('a'))))
+    const b = _.someTask(T.fromIO(() => log.push('b')))
+    assert.deepStrictEqual(
+      await _.ApplicativePar.ap(
+        _.ApplicativePar.map(a, (x) => (y: number) => x + y),
+        b
+      )(),
+      O.some(3)
+    )
+    assert.deepStrictEqual(log, ['b', 'a'])
+  })
+
+  it('ApplicativeSeq', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const a = _.someTask(T.delay(10)(T.fromIO(() => log.push('a'))))
+    const b = _.someTask(T.fromIO(() => log.push('b')))
+    assert.deepStrictEqual(
+      await _.ApplicativeSeq.ap(
+        _.ApplicativeSeq.map(a, (x) => (y: number) => x + y),
+        b
+      )(),
+      O.some(3)
+    )
+    assert.deepStrictEqual(log, ['a', 'b'])
+  })
+
+  it('Monad', async () => {
+    assert.deepStrictEqual(await _.Monad.chain(_.some(1), (n) => _.some(n + 1))(), O.some(2))
+  })
+
+  it('Alternative', async () => {
+    assert.deepStrictEqual(await _.Alternative.alt(_.Alternative.zero<number>(), () => _.some(1))(), O.some(1))
+  })
+
+  it('MonadTask', async () => {
+    assert.deepStrictEqual(await _.MonadTask.fromIO(I.of(1))(), O.some(1))
+    assert.deepStrictEqual(await _.MonadTask.fromTask(T.of(1))(), O.some(1))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('fromNullable', async () => {
+    assert.deepStrictEqual(await _.fromNullable(1)(), O.some(1))
+    assert.deepStrictEqual(await _.fromNullable(null)(), O.none)
+    assert.deepStrictEqual(await _.fromNullable(undefined)(), O.none)
+  })
+
+  it('fromPredicate', async () => {
+    const p = (n: number): boolean => n > 2
+    const f = _.fromPredicate(p)
+    assert.deepStrictEqual(await f(1)(), O.none)
+    assert.deepStrictEqual(await f(3)(), O.some(3))
+  })
+
+  it('fromEither', async () => {
+    assert.deepStrictEqual(await _.fromEither(E.right(1))(), O.some(1))
+    assert.deepStrictEqual(await _.fromEither(E.left('a'))(), O.none)
+  })
+
+  it('fromTaskEither', async () => {
+    assert.deepStrictEqual(await _.fromTaskEither(TE.right(1))(), O.some(1))
+    assert.deepStrictEqual(await _.fromTaskEither(TE.left('a'))(), O.none)
+  })
+
+  it('fromIOOption', async () => {
+    assert.deepStrictEqual(await _.fromIOOption(IO.some(1))(), O.some(1))
+    assert.deepStrictEqual(await _.fromIOOption(IO.none)(), O.none)
+  })
+
+  it('tryCatch', async () => {
+    assert.deepStrictEqual(await _.tryCatch(() => Promise.resolve(1))(), O.some(1))
+    assert.deepStrictEqual(await _.tryCatch(() => Promise.reject(undefined))(), O.none)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  it('fold', async () => {
+    const f = _.fold(
+      () => T.of('none'),
+      (n: number) => T.of(`some(${n})`)
+    )
+    assert.deepStrictEqual(await f(_.some(1))(), 'some(1)')
+    assert.deepStrictEqual(await f(_.none)(), 'none')
+  })
+
+  it('getOrElse', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.some(1),
+        _.getOrElse(() => T.of(2))
+      )(),
+      1
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        _.none,
+        _.getOrElse(() => T.of(2))
+      )(),
+      2
+    )
+  })
+
+  it('toUndefined', async () => {
+    assert.deepStrictEqual(await _.toUndefined(_.some(1))(), 1)
+    assert.deepStrictEqual(await _.toUndefined(_.none)(), undefined)
+  })
+
+  it('toNullable', async () => {
+    assert.deepStrictEqual(await _.toNullable(_.some(1))(), 1)
+    assert.deepStrictEqual(await _.toNullable(_.none)(), null)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('tryCatchK', async () => {
+    const f = _.tryCatchK((n: number) => (n > 0 ? Promise.resolve(n) : Promise.reject(undefined)))
+    assert.deepStrictEqual(await f(1)(), O.some(1))
+    assert.deepStrictEqual(await f(-1)(), O.none)
+  })
+
+  it('chainNullableK', async () => {
+    const f = _.chainNullableK((n: number) => (n > 0 ? n : null))
+    assert.deepStrictEqual(await f(_.some(1))(), O.some(1))
+    assert.deepStrictEqual(await f(_.some(-1))(), O.none)
+  })
+
+  it('chainOptionK', async () => {
+    const f = _.chainOptionK((n: number) => (n > 0 ? O.some(n) : O.none))
+    assert.deepStrictEqual(await f(_.some(1))(), O.some(1))
+    assert.deepStrictEqual(await f(_.some(-1))(), O.none)
+  })
+
+  it('chainIOK', async () => {
+    const f = (s: string) => I.of(s.length)
+    assert.deepStrictEqual(await pipe(_.some('a'), _.chainIOK(f))(), O.some(1))
+  })
+
+  it('chainTaskK', async () => {
+    const f = (s: string) => T.of(s.length)
+    assert.deepStrictEqual(await pipe(_.some('a'), _.chainTaskK(f))(), O.some(1))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // do notation
+  // -------------------------------------------------------------------------------------
+
+  it('do notation', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.some(1),
+        _.bindTo('a'),
+        _.bind('b', () => _.some('b'))
+      )(),
+      O.some({ a: 1, b: 'b' })
+    )
+  })
+
+  it('apS', async () => {
+    assert.deepStrictEqual(await pipe(_.Do, _.apS('a', _.some(1)), _.apS('b', _.some('b')))(), O.some({ a: 1, b: 'b' }))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // array utils
+  // -------------------------------------------------------------------------------------
+
+  it('sequenceArray', async () => {
+    assert.deepStrictEqual(await pipe([_.some(1), _.some(2)], _.sequenceArray)(), O.some([1, 2]))
+    assert.deepStrictEqual(await pipe([_.some(1), _.none], _.sequenceArray)(), O.none)
+  })
+
+  it('traverseArrayWithIndex', async () => {
+    const f = _.traverseArrayWithIndex((i, s: string) => (s.length > 0 ? _.some(s + i) : _.none))
+    assert.deepStrictEqual(await pipe(['a', 'b'], f)(), O.some(['a0', 'b1']))
+    assert.deepStrictEqual(await pipe(['a', ''], f)(), O.none)
+  })
+
+  it('sequenceSeqArray', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<number> = []
+    const append = (n: number): _.TaskOption<number> =>
+      _.someTask(
+        T.delay(n % 2 === 0 ? 50 : 100)(
+          T.fromIO(() => {
+            log.push(n)
+            return n
+          })
+        )
+      )
+    assert.deepStrictEqual(await pipe([append(1), append(2)], _.sequenceSeqArray)(), O.some([1, 2]))
+    assert.deepStrictEqual(await pipe([_.none, append(3)], _.sequenceSeqArray)(), O.none)
+    assert.deepStrictEqual(log, [1, 2])
+  })
+
+  it('traverseSeqArray', async () => {
+    const f = _.traverseSeqArray((s: string) => (s.length > 0 ? _.some(s.length) : _.none))
+    assert.deepStrictEqual(await pipe(['a', 'bb'], f)(), O.some([1, 2]))
+    assert.deepStrictEqual(await pipe(['', 'a'], f)(), O.none)
+  })
+})
@@ -0,0 +1,108 @@
+import * as assert from 'assert'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+import * as RA from '../src/ReadonlyArray'
+import * as RTE from '../src/ReaderTaskEither'
+import * as T from '../src/Task'
+import { newTaskRef, TaskRef } from '../src/TaskRef'
+
+describe('TaskRef', () => {
+  it('read', async () => {
+    const ref = new TaskRef(1)
+    assert.deepStrictEqual(await ref.read(), 1)
+  })
+
+  it('write', async () => {
+    const ref = new TaskRef(1)
+    assert.deepStrictEqual(
+      await pipe(
+        ref.write(2),
+        T.chain(() => ref.read)
+      )(),
+      2
+    )
+  })
+
+  it('modify', async () => {
+    const double = (n: number): number => n * 2
+    const ref = new TaskRef(1)
+    assert.deepStrictEqual(
+      await pipe(
+        ref.modify(double),
+        T.chain(() => ref.read)
+      )(),
+      2
+    )
+  })
+
+  it('getAndUpdate', async () => {
+    const ref = new TaskRef(1)
+    assert.deepStrictEqual(await ref.getAndUpdate((n) => n + 1)(), 1)
+    assert.deepStrictEqual(await ref.read(), 2)
+  })
+
+  it('updateAndGet', async () => {
+    const ref = new TaskRef(1)
+    assert.deepStrictEqual(await ref.updateAndGet((n) => n + 1)(), 2)
+    assert.deepStrictEqual(await ref.read(), 2)
+  })
+
+  describe('modifyTask', () => {
+    it('should keep interleaved updates consistent', async () => {
+      const ref = new TaskRef(0)
+      const increment = ref.modifyTask((n) => T.delay(n % 2)(T.of(n + 1)))
+      const double = ref.modify((n) => n * 2)
+      await T.sequenceArray(RA.replicate(10, increment))()
+      assert.deepStrictEqual(await ref.read(), 10)
+      await T.sequenceArray([increment, double, increment, double])()
+      assert.deepStrictEqual(await ref.read(), 46)
+    })
+
+    it('should lose writes without serialization', async () => {
+      // this is what happens when reading and writing with separate effects
+      const ref = new TaskRef(0)
+      const increment = pipe(
+        ref.read,
+        T.chain((n) => T.delay(1)(ref.write(n + 1)))
+      )
+      await T.sequenceArray(RA.replicate(10, increment))()
+      assert.deepStrictEqual(await ref.read(), 1)
+    })
+  })
+
+  it('newTaskRef', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        newTaskRef(1),
+        T.chain((ref) => ref.read)
+      )(),
+      1
+    )
+  })
+
+  it('ReaderTaskEither', async () => {
+    const program = pipe(
+      RTE.rightTask<number, never, TaskRef<number>>(newTaskRef(1)),
+      RTE.chainFirst((ref) =>
+        pipe(
+          RTE.ask<number>(),
+          RTE.chain((r) => RTE.rightTask(ref.modify((n) => n + r)))
+        )
+      ),
+      RTE.chain((ref) => RTE.rightTask(ref.read))
+    )
+    assert.deepStrictEqual(await program(2)(), E.right(3))
+  })
+
+  it('pipe', async () => {
+    const ref = new TaskRef(1)
+    await pipe(2, ref.write)()
+    assert.deepStrictEqual(await ref.read(), 2)
+    await pipe(() => 3, ref.modify)()
+    assert.deepStrictEqual(await ref.read(), 3)
+    assert.deepStrictEqual(await pipe((n: number) => n + 1, ref.getAndUpdate)(), 3)
+    assert.deepStrictEqual(await pipe((n: number) => n + 1, ref.updateAndGet)(), 5)
+    await pipe((n: number) => T.of(n + 1), ref.modifyTask)()
+    assert.deepStrictEqual(await ref.read(), 6)
+  })
+})
@@ -1,12 +1,16 @@
 import * as assert from 'assert'
+import * as A from '../src/Array'
+import * as E from '../src/Either'
 import * as IO from '../src/IO'
 import { monoidString, monoidSum } from '../src/Monoid'
+import * as O from '../src/Option'
+import * as RA from '../src/ReadonlyArray'
 import { pipe } from '../src/function'
 import * as T from '../src/Task'
 import * as _ from '../src/TaskThese'
 import * as TH from '../src/These'
 import { assertSeq, assertPar } from './util'
-import { semigroupString } from '../src/Semigroup'
+import { Semigroup, semigroupString } from '../src/Semigroup'
 
 describe('TaskThese', () => {
   // -------------------------------------------------------------------------------------
@@ -150,4 +154,165 @@ describe('TaskThese', () => {
     assert.deepStrictEqual(await f(_.left('a'))(), ['a', 2])
     assert.deepStrictEqual(await f(_.both('a', 1))(), ['a', 1])
   })
+
+  it('fromThese', async () => {
+    assert.deepStrictEqual(await _.fromThese(TH.both('a', 1))(), TH.both('a', 1))
+  })
+
+  it('fromEither', async () => {
+    assert.deepStrictEqual(await _.fromEither(E.left('a'))(), TH.left('a'))
+    assert.deepStrictEqual(await _.fromEither(E.right(1))(), TH.right(1))
+  })
+
+  it('fromIOThese', async () => {
+    assert.deepStrictEqual(await _.fromIOThese(() => TH.both('a', 1))(), TH.both('a', 1))
+  })
+
+  it('fromOption', async () => {
+    assert.deepStrictEqual(await _.fromOption(() => 'a')(O.none)(), TH.left('a'))
+    assert.deepStrictEqual(await _.fromOption(() => 'a')(O.some(1))(), TH.right(1))
+  })
+
+  it('fromPredicate', async () => {
+    const f = _.fromPredicate(
+      (n: number) => n > 0,
+      () => 'a'
+    )
+    assert.deepStrictEqual(await f(1)(), TH.right(1))
+    assert.deepStrictEqual(await f(-1)(), TH.left('a'))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('chain', async () => {
+    const f = (n: number) => (n > 2 ? _.both('c', n * 3) : n > 1 ? _.right(n * 2) : _.left('b'))
+    const chain = _.chain(semigroupString)
+    assert.deepStrictEqual(await pipe(_.right(1), chain(f))(), TH.left('b'))
+    assert.deepStrictEqual(await pipe(_.left('a'), chain(f))(), TH.left('a'))
+    assert.deepStrictEqual(await pipe(_.both('a', 2), chain(f))(), TH.both('a', 4))
+    assert.deepStrictEqual(await pipe(_.both('a', 3), chain(f))(), TH.both('ac', 9))
+  })
+
+  it('chainW', async () => {
+    type Warning = 'slow' | 'deprecated'
+    const S: Semigroup<ReadonlyArray<Warning>> = RA.getMonoid<Warning>()
+    const slow: _.TaskThese<ReadonlyArray<'slow'>, number> = _.both(['slow'], 1)
+    const deprecated = (n: number): _.TaskThese<ReadonlyArray<'deprecated'>, number> => _.both(['deprecated'], n + 1)
+    assert.deepStrictEqual(await pipe(slow, _.chainW(S)(deprecated))(), TH.both(['slow', 'deprecated'], 2))
+  })
+
+  it('chainFirst', async () => {
+    const chainFirst = _.chainFirst(semigroupString)
+    assert.deepStrictEqual(
+      await pipe(
+        _.both('a', 1),
+        chainFirst(() => _.both('b', 2))
+      )(),
+      TH.both('ab', 1)
+    )
+  })
+
+  it('chainTheseK', async () => {
+    const chainTheseK = _.chainTheseK(semigroupString)
+    assert.deepStrictEqual(
+      await pipe(
+        _.both('a', 1),
+        chainTheseK((n) => TH.both('b', n + 1))
+      )(),
+      TH.both('ab', 2)
+    )
+  })
+
+  it('chainIOTheseK', async () => {
+    const chainIOTheseK = _.chainIOTheseK(semigroupString)
+    assert.deepStrictEqual(
+      await pipe(
+        _.both('a', 1),
+        chainIOTheseK((n) => () => TH.left(`b${n}`))
+      )(),
+      TH.left('ab1')
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // do notation
+  // -------------------------------------------------------------------------------------
+
+  it('do notation', async () => {
+    const bind = _.bind(semigroupString)
+    assert.deepStrictEqual(
+      await pipe(
+        _.right(1),
+        _.bindTo('a'),
+        bind('b', () => _.both('b', 'b'))
+      )(),
+      TH.both('b', { a: 1, b: 'b' })
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        _.Do,
+        bind('a', () => _.both('a', 1)),
+        bind('b', ({ a }) => _.both('b', a + 1))
+      )(),
+      TH.both('ab', { a: 1, b: 2 })
+    )
+  })
+
+  it('apS', async () => {
+    const apS = _.apS(semigroupString)
+    assert.deepStrictEqual(
+      await pipe(_.both('a', 1), _.bindTo('a'), apS('b', _.both('b', 'b')))(),
+      TH.both('ab', { a: 1, b: 'b' })
+    )
+  })
+
+  // -------------------------------------------------------------------------------------
+  // array utils
+  // -------------------------------------------------------------------------------------
+
+  describe('array utils', () => {
+    const f = (n: number) => (n > 0 ? _.right(n) : n === 0 ? _.both('zero ', n) : _.left('negative '))
+
+    it('traverseArray', async () => {
+      const traverse = _.traverseArray(semigroupString)(f)
+      assert.deepStrictEqual(await pipe([1, 0, 2, 0], traverse)(), TH.both('zero zero ', [1, 0, 2, 0]))
+      assert.deepStrictEqual(await pipe([0, -1, -2], traverse)(), TH.left('zero negative '))
+    })
+
+    it('sequenceArray', async () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<number> = []
+      const g = (n: number) =>
+        pipe(
+          _.rightIO(() => log.push(n)),
+          _.chain(semigroupString)(() => f(n))
+        )
+      assert.deepStrictEqual(await pipe([1, -1, 2], A.map(g), _.sequenceArray(semigroupString))(), TH.left('negative '))
+      assert.deepStrictEqual(log, [1, -1, 2])
+    })
+
+    it('traverseSeqArray', async () => {
+      const traverse = _.traverseSeqArray(semigroupString)(f)
+      assert.deepStrictEqual(await pipe([], traverse)(), TH.right([]))
+      assert.deepStrictEqual(await pipe([1, 0, 2, 0], traverse)(), TH.both('zero zero ', [1, 0, 2, 0]))
+      assert.deepStrictEqual(await pipe([0, -1, -2], traverse)(), TH.left('zero negative '))
+    })
+
+    it('sequenceSeqArray', async () => {
+      // tslint:disable-next-line: readonly-array
+      const log: Array<number> = []
+      const g = (n: number) =>
+        pipe(
+          _.rightIO(() => log.push(n)),
+          _.chain(semigroupString)(() => f(n))
+        )
+      assert.deepStrictEqual(
+        await pipe([1, -1, 2], A.map(g), _.sequenceSeqArray(semigroupString))(),
+        TH.left('negative ')
+      )
+      assert.deepStrictEqual(log, [1, -1])
+    })
+  })
 })
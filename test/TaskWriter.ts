@@ -0,0 +1,187 @@
+import * as assert from 'assert'
+import * as E from '../src/Either'
+import { pipe } from '../src/function'
+import * as I from '../src/IO'
+import * as T from '../src/Task'
+import * as TE from '../src/TaskEither'
+import * as _ from '../src/TaskWriter'
+
+describe('TaskWriter', () => {
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', async () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(await pipe(_.of(1), _.map(double))(), [2, []])
+  })
+
+  it('ap', async () => {
+    const double = (n: number): number => n * 2
+    assert.deepStrictEqual(
+      await pipe(
+        _.tell('a'),
+        _.map(() => double),
+        _.ap(
+          pipe(
+            _.tell('b'),
+            _.map(() => 1)
+          )
+        )
+      )(),
+      [2, ['a', 'b']]
+    )
+  })
+
+  it('apFirst', async () => {
+    assert.deepStrictEqual(await pipe(_.of<string, string>('a'), _.apFirst(_.tell('b')))(), ['a', ['b']])
+  })
+
+  it('apSecond', async () => {
+    assert.deepStrictEqual(await pipe(_.tell('a'), _.apSecond(_.of('b')))(), ['b', ['a']])
+  })
+
+  it('chain', async () => {
+    const f = (s: string): _.TaskWriter<string, number> =>
+      pipe(
+        _.tell(s),
+        _.map(() => s.length)
+      )
+    assert.deepStrictEqual(
+      await pipe(
+        _.tell('a'),
+        _.chain(() => f('foo'))
+      )(),
+      [3, ['a', 'foo']]
+    )
+  })
+
+  it('chainFirst', async () => {
+    assert.deepStrictEqual(await pipe(_.of<string, string>('foo'), _.chainFirst(_.tell))(), ['foo', ['foo']])
+  })
+
+  it('flatten', async () => {
+    assert.deepStrictEqual(await pipe(_.of<string, _.TaskWriter<string, number>>(_.of(1)), _.flatten)(), [1, []])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('Functor', async () => {
+    assert.deepStrictEqual(await _.Functor.map(_.of(1), (n) => n + 1)(), [2, []])
+  })
+
+  it('ApplicativePar', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const a = pipe(
+      T.delay(10)(T.fromIO(() => log.push('a'))),
+      _.fromTask,
+      _.chainFirst(() => _.tell('a'))
+    )
+    const b = pipe(
+      T.fromIO(() => log.push('b')),
+      _.fromTask,
+      _.chainFirst(() => _.tell('b'))
+    )
+    const [, ws] = await _.ApplicativePar.ap(
+      _.ApplicativePar.map(a, () => (n: number) => n),
+      b
+    )()
+    assert.deepStrictEqual(log, ['b', 'a'])
+    // the events are ordered by their position in the computation, not by completion time
+    assert.deepStrictEqual(ws, ['a', 'b'])
+  })
+
+  it('ApplicativeSeq', async () => {
+    // tslint:disable-next-line: readonly-array
+    const log: Array<string> = []
+    const a = _.fromTask<string, number>(T.delay(10)(T.fromIO(() => log.push('a'))))
+    const b = _.fromTask<string, number>(T.fromIO(() => log.push('b')))
+    await _.ApplicativeSeq.ap(
+      _.ApplicativeSeq.map(a, () => (n: number) => n),
+      b
+    )()
+    assert.deepStrictEqual(log, ['a', 'b'])
+  })
+
+  it('Monad', async () => {
+    assert.deepStrictEqual(await _.Monad.chain(_.of(1), (n) => _.of(n + 1))(), [2, []])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('fromIO', async () => {
+    assert.deepStrictEqual(await _.fromIO(I.of(1))(), [1, []])
+  })
+
+  it('fromTaskEither', async () => {
+    assert.deepStrictEqual(await _.fromTaskEither(TE.left('e'))(), [E.left('e'), []])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  it('toTaskEither', async () => {
+    assert.deepStrictEqual(await pipe(_.tell('a'), _.toTaskEither)(), E.right([undefined, ['a']]))
+  })
+
+  it('evaluate', async () => {
+    assert.deepStrictEqual(await pipe(_.tell('a'), _.apSecond(_.of(1)), _.evaluate)(), 1)
+  })
+
+  it('execute', async () => {
+    assert.deepStrictEqual(await pipe(_.tell('a'), _.apSecond(_.of(1)), _.execute)(), ['a'])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('listen', async () => {
+    assert.deepStrictEqual(await pipe(_.tell('a'), _.listen)(), [[undefined, ['a']], ['a']])
+  })
+
+  it('censor', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.tell('a'),
+        _.apFirst(_.tell('b')),
+        _.censor((ws) => ws.filter((w) => w !== 'a'))
+      )(),
+      [undefined, ['b']]
+    )
+  })
+
+  it('chainTaskK', async () => {
+    const f = (s: string) => T.of(s.length)
+    assert.deepStrictEqual(await pipe(_.of<string, string>('a'), _.chainTaskK(f))(), [1, []])
+  })
+
+  // -------------------------------------------------------------------------------------
+  // do notation
+  // -------------------------------------------------------------------------------------
+
+  it('do notation', async () => {
+    assert.deepStrictEqual(
+      await pipe(
+        _.of<string, number>(1),
+        _.bindTo('a'),
+        _.bind('b', () => _.tell('b')),
+        _.bindW('c', () => _.tell(1))
+      )(),
+      [{ a: 1, b: undefined, c: undefined }, ['b', 1]]
+    )
+  })
+
+  it('apS', async () => {
+    assert.deepStrictEqual(await pipe(_.Do, _.apS('a', _.of(1)), _.apSW('b', _.tell('b')))(), [
+      { a: 1, b: undefined },
+      ['b']
+    ])
+  })
+})
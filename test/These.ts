@@ -235,4 +235,89 @@ describe('These', () => {
     assert.deepStrictEqual(_.swap(_.right('a')), _.left('a'))
     assert.deepStrictEqual(_.swap(_.both('a', 1)), _.both(1, 'a'))
   })
+
+  it('fromOption', () => {
+    assert.deepStrictEqual(_.fromOption(() => 'a')(O.none), _.left('a'))
+    assert.deepStrictEqual(_.fromOption(() => 'a')(O.some(1)), _.right(1))
+  })
+
+  it('fromPredicate', () => {
+    const f = _.fromPredicate(
+      (n: number) => n > 0,
+      (n) => `${n} is not positive`
+    )
+    assert.deepStrictEqual(f(1), _.right(1))
+    assert.deepStrictEqual(f(-1), _.left('-1 is not positive'))
+  })
+
+  it('chain', () => {
+    const f = (n: number) => (n > 2 ? _.both('c', n * 3) : n > 1 ? _.right(n * 2) : _.left('b'))
+    const chain = _.chain(semigroupString)
+    assert.deepStrictEqual(pipe(_.right(1), chain(f)), _.left('b'))
+    assert.deepStrictEqual(pipe(_.right(2), chain(f)), _.right(4))
+    assert.deepStrictEqual(pipe(_.left('a'), chain(f)), _.left('a'))
+    assert.deepStrictEqual(pipe(_.both('a', 1), chain(f)), _.left('ab'))
+    assert.deepStrictEqual(pipe(_.both('a', 2), chain(f)), _.both('a', 4))
+    assert.deepStrictEqual(pipe(_.both('a', 3), chain(f)), _.both('ac', 9))
+  })
+
+  it('chainFirst', () => {
+    const f = (n: number) => (n > 1 ? _.both('b', n * 2) : _.left('c'))
+    const chainFirst = _.chainFirst(semigroupString)
+    assert.deepStrictEqual(pipe(_.both('a', 2), chainFirst(f)), _.both('ab', 2))
+    assert.deepStrictEqual(pipe(_.right(1), chainFirst(f)), _.left('c'))
+  })
+
+  it('do notation', () => {
+    const bind = _.bind(semigroupString)
+    assert.deepStrictEqual(
+      pipe(
+        _.right(1),
+        _.bindTo('a'),
+        bind('b', () => _.both('b', 'b'))
+      ),
+      _.both('b', { a: 1, b: 'b' })
+    )
+    assert.deepStrictEqual(
+      pipe(
+        _.Do,
+        bind('a', () => _.both('a', 1)),
+        bind('b', () => _.left('b'))
+      ),
+      _.left('ab')
+    )
+  })
+
+  it('apS', () => {
+    const apS = _.apS(semigroupString)
+    assert.deepStrictEqual(
+      pipe(_.both('a', 1), _.bindTo('a'), apS('b', _.both('b', 'b'))),
+      _.both('ab', { a: 1, b: 'b' })
+    )
+    assert.deepStrictEqual(pipe(_.left('a'), _.bindTo('a'), apS('b', _.left('b'))), _.left('ab'))
+  })
+
+  describe('array utils', () => {
+    const f = (n: number) => (n > 0 ? _.right(n) : n === 0 ? _.both('zero ', n) : _.left('negative'))
+
+    it('traverseArray', () => {
+      const traverse = _.traverseArray(semigroupString)(f)
+      assert.deepStrictEqual(pipe([], traverse), _.right([]))
+      assert.deepStrictEqual(pipe([1, 2], traverse), _.right([1, 2]))
+      assert.deepStrictEqual(pipe([1, 0, 2, 0], traverse), _.both('zero zero ', [1, 0, 2, 0]))
+      assert.deepStrictEqual(pipe([-1, 0], traverse), _.left('negative'))
+      assert.deepStrictEqual(pipe([0, -1, 2], traverse), _.left('zero negative'))
+    })
+
+    it('traverseArrayWithIndex', () => {
+      const traverse = _.traverseArrayWithIndex(semigroupString)((i, n: number) => f(n - i))
+      assert.deepStrictEqual(pipe([1, 1, 3], traverse), _.both('zero ', [1, 0, 1]))
+    })
+
+    it('sequenceArray', () => {
+      const sequence = _.sequenceArray(semigroupString)
+      assert.deepStrictEqual(sequence([_.right(1), _.both('a', 2)]), _.both('a', [1, 2]))
+      assert.deepStrictEqual(sequence([_.both('a', 1), _.left('b'), _.left('c')]), _.left('ab'))
+    })
+  })
 })
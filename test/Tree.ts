@@ -3,6 +3,7 @@ import * as Eq from '../src/Eq'
 import { identity, pipe } from '../src/function'
 import * as I from '../src/Identity'
 import * as O from '../src/Option'
+import * as RA from '../src/ReadonlyArray'
 import { monoidString } from '../src/Monoid'
 import { showString } from '../src/Show'
 import * as _ from '../src/Tree'
@@ -199,6 +200,266 @@ describe('Tree', () => {
     )
   })
 
+  describe('traversals', () => {
+    const t = _.make(1, [_.make(2, [_.make(4), _.make(5)]), _.make(3, [_.make(6)])])
+
+    it('breadthFirst', () => {
+      assert.deepStrictEqual(_.breadthFirst(t), [1, 2, 3, 4, 5, 6])
+      assert.deepStrictEqual(_.breadthFirst(_.make(1)), [1])
+    })
+
+    it('postOrder', () => {
+      assert.deepStrictEqual(_.postOrder(t), [4, 5, 2, 6, 3, 1])
+      assert.deepStrictEqual(_.postOrder(_.make(1)), [1])
+    })
+
+    it('levels', () => {
+      assert.deepStrictEqual(_.levels(t), [[1], [2, 3], [4, 5, 6]])
+      assert.deepStrictEqual(_.levels(_.make(1)), [[1]])
+    })
+
+    it('height', () => {
+      assert.deepStrictEqual(_.height(t), 2)
+      assert.deepStrictEqual(_.height(_.make(1)), 0)
+    })
+
+    it('flattenWithDepth', () => {
+      assert.deepStrictEqual(_.flattenWithDepth(t), [
+        [0, 1],
+        [1, 2],
+        [2, 4],
+        [2, 5],
+        [1, 3],
+        [2, 6]
+      ])
+    })
+
+    it('findFirst', () => {
+      assert.deepStrictEqual(_.findFirst((n: number) => n > 3)(t), O.some(4))
+      assert.deepStrictEqual(_.findFirst((n: number) => n > 6)(t), O.none)
+      const isString = (u: string | number): u is string => typeof u === 'string'
+      const x: O.Option<string> = _.findFirst(isString)(
+        _.make<string | number>(1, [_.make('a')])
+      )
+      assert.deepStrictEqual(x, O.some('a'))
+    })
+
+    it('findPath', () => {
+      assert.deepStrictEqual(_.findPath((n: number) => n === 1)(t), O.some([]))
+      assert.deepStrictEqual(_.findPath((n: number) => n === 5)(t), O.some([0, 1]))
+      assert.deepStrictEqual(_.findPath((n: number) => n === 6)(t), O.some([1, 0]))
+      assert.deepStrictEqual(_.findPath((n: number) => n === 7)(t), O.none)
+    })
+
+    it('valuesAlong', () => {
+      assert.deepStrictEqual(_.valuesAlong([])(t), O.some([1]))
+      assert.deepStrictEqual(_.valuesAlong([1, 0])(t), O.some([1, 3, 6]))
+      assert.deepStrictEqual(_.valuesAlong([1, 1])(t), O.none)
+      assert.deepStrictEqual(_.valuesAlong([-1])(t), O.none)
+      assert.deepStrictEqual(_.valuesAlong([0.5])(t), O.none)
+    })
+
+    it('lookup', () => {
+      assert.deepStrictEqual(_.lookup([])(t), O.some(t))
+      assert.deepStrictEqual(_.lookup([0])(t), O.some(_.make(2, [_.make(4), _.make(5)])))
+      assert.deepStrictEqual(_.lookup([0, 2])(t), O.none)
+      assert.deepStrictEqual(_.lookup([-1])(t), O.none)
+      assert.deepStrictEqual(_.lookup([0.5])(t), O.none)
+      assert.deepStrictEqual(_.lookup([0.5, 0])(t), O.none)
+    })
+
+    it('filter', () => {
+      assert.deepStrictEqual(_.filter((n: number) => n !== 2)(t), O.some(_.make(1, [_.make(3, [_.make(6)])])))
+      assert.deepStrictEqual(_.filter((n: number) => n !== 1)(t), O.none)
+      const isString = (u: string | number): u is string => typeof u === 'string'
+      const x: O.Option<_.Tree<string>> = _.filter(isString)(
+        _.make<string | number>('a', [_.make(1), _.make('b')])
+      )
+      assert.deepStrictEqual(x, O.some(_.make('a', [_.make('b')])))
+    })
+
+    it('mapWithIndex', () => {
+      assert.deepStrictEqual(
+        pipe(
+          _.make('a', [_.make('b', [_.make('c')]), _.make('d')]),
+          _.mapWithIndex((path, s) => `${s}${path.join('')}`)
+        ),
+        _.make('a', [_.make('b0', [_.make('c00')]), _.make('d1')])
+      )
+    })
+
+    it('reduceWithIndex', () => {
+      assert.deepStrictEqual(
+        pipe(
+          _.make('a', [_.make('b', [_.make('c')]), _.make('d')]),
+          _.reduceWithIndex('', (path, b, a) => b + a + path.join(''))
+        ),
+        'ab0c00d1'
+      )
+    })
+
+    it('foldMapWithIndex', () => {
+      assert.deepStrictEqual(
+        pipe(
+          _.make('a', [_.make('b', [_.make('c')]), _.make('d')]),
+          _.foldMapWithIndex(monoidString)((path, a) => a + path.join(''))
+        ),
+        'ab0c00d1'
+      )
+    })
+
+    it('reduceRightWithIndex', () => {
+      assert.deepStrictEqual(
+        pipe(
+          _.make('a', [_.make('b', [_.make('c')]), _.make('d')]),
+          _.reduceRightWithIndex('', (path, a, b) => b + a + path.join(''))
+        ),
+        'd1c00b0a'
+      )
+    })
+  })
+
+  describe('stack safety', () => {
+    const depth = 100000
+    // a tree where each node has a leaf and a deeper node as children
+    const deep = _.unfoldTree(0, (n) => [n, n >= 0 && n < depth ? [-1, n + 1] : []])
+
+    it('unfoldTree', () => {
+      assert.deepStrictEqual(deep.value, 0)
+      assert.deepStrictEqual(deep.forest[1].forest[0], _.make(-1))
+      assert.deepStrictEqual(
+        _.unfoldForest([depth - 1, depth], (n) => [n, n < depth ? [n + 1] : []]),
+        [_.make(depth - 1, [_.make(depth)]), _.make(depth)]
+      )
+    })
+
+    it('fold', () => {
+      const size = _.fold((_: number, bs: ReadonlyArray<number>) => bs.reduce((acc, b) => acc + b, 1))
+      assert.deepStrictEqual(size(deep), 2 * depth + 1)
+    })
+
+    it('reduce', () => {
+      assert.deepStrictEqual(
+        pipe(
+          deep,
+          _.reduce(0, (b, a) => (a > b ? a : b))
+        ),
+        depth
+      )
+    })
+
+    it('reduceRight', () => {
+      assert.deepStrictEqual(
+        pipe(
+          deep,
+          _.reduceRight(-2, (a, b) => (b === -2 ? a : b))
+        ),
+        depth
+      )
+    })
+
+    it('breadthFirst', () => {
+      assert.deepStrictEqual(_.breadthFirst(deep).length, 2 * depth + 1)
+    })
+
+    it('postOrder', () => {
+      assert.deepStrictEqual(_.postOrder(deep)[depth], depth)
+    })
+
+    it('levels', () => {
+      assert.deepStrictEqual(_.levels(deep).length, depth + 1)
+    })
+
+    it('height', () => {
+      assert.deepStrictEqual(_.height(deep), depth)
+    })
+
+    it('flattenWithDepth', () => {
+      assert.deepStrictEqual(_.flattenWithDepth(deep)[2 * depth], [depth, depth])
+    })
+
+    it('findFirst', () => {
+      assert.deepStrictEqual(_.findFirst((n: number) => n === depth)(deep), O.some(depth))
+    })
+
+    it('findPath', () => {
+      const path = _.findPath((n: number) => n === depth)(deep)
+      assert.deepStrictEqual(
+        pipe(
+          path,
+          O.map((as) => as.length)
+        ),
+        O.some(depth)
+      )
+      assert.deepStrictEqual(
+        pipe(
+          path,
+          O.chain((p) => _.lookup(p)(deep))
+        ),
+        O.some(_.make(depth))
+      )
+    })
+
+    it('valuesAlong', () => {
+      const path = RA.replicate(depth, 1)
+      assert.deepStrictEqual(
+        pipe(
+          deep,
+          _.valuesAlong(path),
+          O.map((as) => as.length)
+        ),
+        O.some(depth + 1)
+      )
+    })
+
+    it('filter', () => {
+      assert.deepStrictEqual(
+        pipe(
+          deep,
+          _.filter((n: number) => n >= 0),
+          O.map(_.height)
+        ),
+        O.some(depth)
+      )
+    })
+
+    describe('with index', () => {
+      // every node receives its own copy of its path, so the work is quadratic in the depth: keep the chain shorter
+      const chain = _.unfoldTree(0, (n) => [n, n < 10000 ? [n + 1] : []])
+
+      it('mapWithIndex', () => {
+        assert.deepStrictEqual(
+          pipe(
+            chain,
+            _.mapWithIndex((path) => path.length),
+            _.reduce(0, (b, a) => (a > b ? a : b))
+          ),
+          10000
+        )
+      })
+
+      it('reduceWithIndex', () => {
+        assert.deepStrictEqual(
+          pipe(
+            chain,
+            _.reduceWithIndex(0, (path, b) => (path.length > b ? path.length : b))
+          ),
+          10000
+        )
+      })
+
+      it('reduceRightWithIndex', () => {
+        assert.deepStrictEqual(
+          pipe(
+            chain,
+            _.reduceRightWithIndex(0, (path, _, b) => (path.length > b ? path.length : b))
+          ),
+          10000
+        )
+      })
+    })
+  })
+
   it('do notation', () => {
     assert.deepStrictEqual(
       pipe(
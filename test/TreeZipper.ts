@@ -0,0 +1,116 @@
+import * as assert from 'assert'
+import { flow, pipe } from '../src/function'
+import * as O from '../src/Option'
+import { make } from '../src/Tree'
+import * as _ from '../src/TreeZipper'
+
+describe('TreeZipper', () => {
+  const tree = make(1, [make(2, [make(4)]), make(3)])
+
+  it('fromTree', () => {
+    assert.deepStrictEqual(_.fromTree(tree), { focus: tree, lefts: [], rights: [], parents: [] })
+  })
+
+  it('extract', () => {
+    assert.deepStrictEqual(_.extract(_.fromTree(tree)), 1)
+  })
+
+  it('isRoot', () => {
+    const z = _.fromTree(tree)
+    assert.deepStrictEqual(_.isRoot(z), true)
+    assert.deepStrictEqual(pipe(z, _.down, O.map(_.isRoot)), O.some(false))
+  })
+
+  it('isLeaf', () => {
+    const z = _.fromTree(tree)
+    assert.deepStrictEqual(_.isLeaf(z), false)
+    assert.deepStrictEqual(pipe(z, _.downAt(1), O.map(_.isLeaf)), O.some(true))
+  })
+
+  it('down', () => {
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.down, O.map(_.extract)), O.some(2))
+    assert.deepStrictEqual(pipe(_.fromTree(make(1)), _.down), O.none)
+  })
+
+  it('downAt', () => {
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.downAt(1), O.map(_.extract)), O.some(3))
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.downAt(2)), O.none)
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.downAt(-1)), O.none)
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.downAt(0.5)), O.none)
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.downAt(NaN)), O.none)
+  })
+
+  it('up', () => {
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.up), O.none)
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.down, O.chain(_.down), O.chain(_.up), O.map(_.extract)), O.some(2))
+  })
+
+  it('left', () => {
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.down, O.chain(_.left)), O.none)
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.downAt(1), O.chain(_.left), O.map(_.extract)), O.some(2))
+  })
+
+  it('right', () => {
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.downAt(1), O.chain(_.right)), O.none)
+    assert.deepStrictEqual(pipe(_.fromTree(tree), _.down, O.chain(_.right), O.map(_.extract)), O.some(3))
+  })
+
+  it('root', () => {
+    const z = _.fromTree(tree)
+    assert.deepStrictEqual(pipe(z, _.down, O.chain(_.down), O.map(_.root)), O.some(z))
+  })
+
+  it('modify', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.fromTree(tree),
+        _.down,
+        O.chain(_.down),
+        O.map(
+          flow(
+            _.modify((n) => n * 10),
+            _.toTree
+          )
+        )
+      ),
+      O.some(make(1, [make(2, [make(40)]), make(3)]))
+    )
+  })
+
+  it('update', () => {
+    assert.deepStrictEqual(
+      pipe(_.fromTree(tree), _.downAt(1), O.map(flow(_.update(30), _.toTree))),
+      O.some(make(1, [make(2, [make(4)]), make(30)]))
+    )
+  })
+
+  it('modifyTree', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.fromTree(tree),
+        _.down,
+        O.map(
+          flow(
+            _.modifyTree(() => make(5)),
+            _.toTree
+          )
+        )
+      ),
+      O.some(make(1, [make(5), make(3)]))
+    )
+  })
+
+  it('insertChild', () => {
+    assert.deepStrictEqual(
+      pipe(_.fromTree(tree), _.downAt(1), O.map(flow(_.insertChild(make(6)), _.toTree))),
+      O.some(make(1, [make(2, [make(4)]), make(3, [make(6)])]))
+    )
+  })
+
+  it('toTree', () => {
+    assert.deepStrictEqual(
+      pipe(_.fromTree(tree), _.down, O.chain(_.right), O.chain(_.left), O.chain(_.down), O.map(_.toTree)),
+      O.some(tree)
+    )
+  })
+})
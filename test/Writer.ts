@@ -1,6 +1,7 @@
 import * as assert from 'assert'
+import * as E from '../src/Either'
 import { pipe, tuple } from '../src/function'
-import { monoidString } from '../src/Monoid'
+import { monoidString, monoidSum } from '../src/Monoid'
 import * as _ from '../src/Writer'
 
 describe('Writer', () => {
@@ -89,4 +90,23 @@ describe('Writer', () => {
       assert.deepStrictEqual(M.chain(fa, f)(), [2, 'ab'])
     })
   })
+
+  describe('getChainRec', () => {
+    const M = _.getChainRec(monoidSum)
+
+    it('map', () => {
+      assert.deepStrictEqual(
+        M.map(
+          () => tuple(1, 2),
+          (n) => n * 2
+        )(),
+        [2, 2]
+      )
+    })
+
+    it('chainRec', () => {
+      const fa = M.chainRec(0, (n) => () => [n < 100000 ? E.left(n + 1) : E.right('done'), 1])
+      assert.deepStrictEqual(fa(), ['done', 100001])
+    })
+  })
 })
@@ -0,0 +1,332 @@
+import * as assert from 'assert'
+import * as fc from 'fast-check'
+import { identity, pipe } from '../src/function'
+import { eqNumber } from '../src/Eq'
+import { monoidString, monoidSum } from '../src/Monoid'
+import * as O from '../src/Option'
+import { showString } from '../src/Show'
+import * as _ from '../src/Zipper'
+
+const len = (z: _.Zipper<number>): number => _.length(z)
+
+const zipper: fc.Arbitrary<_.Zipper<number>> = fc
+  .tuple(fc.array(fc.integer()), fc.integer(), fc.array(fc.integer()))
+  .map(([lefts, focus, rights]) => _.make(lefts, focus, rights))
+
+describe('Zipper', () => {
+  // -------------------------------------------------------------------------------------
+  // pipeables
+  // -------------------------------------------------------------------------------------
+
+  it('map', () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(pipe(_.make([1, 2], 3, [4]), _.map(double)), _.make([2, 4], 6, [8]))
+  })
+
+  it('mapWithIndex', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.make(['a', 'b'], 'c', ['d']),
+        _.mapWithIndex((i, s) => `${s}${i}`)
+      ),
+      _.make(['a0', 'b1'], 'c2', ['d3'])
+    )
+  })
+
+  it('ap', () => {
+    const double = (n: number) => n * 2
+    const inc = (n: number) => n + 1
+    assert.deepStrictEqual(pipe(_.make([double], inc, []), _.ap(_.make([1], 2, [3]))), _.make([2, 4, 6, 2], 3, [4]))
+    // identity
+    fc.assert(
+      fc.property(zipper, (z) => {
+        assert.deepStrictEqual(
+          pipe(
+            _.of((n: number) => n),
+            _.ap(z)
+          ),
+          z
+        )
+      })
+    )
+    // composition
+    const compose = (f: (n: number) => number) => (g: (n: number) => number) => (n: number) => f(g(n))
+    const fs = _.make([double], inc, [])
+    const gs = _.make([], inc, [double, double])
+    const z = _.make([1], 2, [3])
+    assert.deepStrictEqual(pipe(fs, _.map(compose), _.ap(gs), _.ap(z)), pipe(fs, _.ap(pipe(gs, _.ap(z)))))
+  })
+
+  it('extract', () => {
+    assert.deepStrictEqual(_.extract(_.make([1], 2, [3])), 2)
+  })
+
+  it('extend', () => {
+    assert.deepStrictEqual(pipe(_.make([1], 2, [3, 4]), _.extend(len)), _.make([4], 4, [4, 4]))
+    assert.deepStrictEqual(pipe(_.make([1], 2, [3, 4]), _.extend(_.focusIndex)), _.make([0], 1, [2, 3]))
+  })
+
+  it('duplicate', () => {
+    assert.deepStrictEqual(
+      _.duplicate(_.make([1], 2, [3])),
+      _.make([_.make([], 1, [2, 3])], _.make([1], 2, [3]), [_.make([1, 2], 3, [])])
+    )
+  })
+
+  it('reduce', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.make(['a'], 'b', ['c']),
+        _.reduce('', (b, a) => b + a)
+      ),
+      'abc'
+    )
+  })
+
+  it('foldMap', () => {
+    assert.deepStrictEqual(pipe(_.make(['a'], 'b', ['c']), _.foldMap(monoidString)(identity)), 'abc')
+  })
+
+  it('reduceRight', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.make(['a'], 'b', ['c']),
+        _.reduceRight('', (a, b) => b + a)
+      ),
+      'cba'
+    )
+  })
+
+  it('traverse', () => {
+    const traverse = _.traverse(O.Applicative)
+    assert.deepStrictEqual(
+      pipe(
+        _.make([1], 2, [3]),
+        traverse((n) => (n > 0 ? O.some(n) : O.none))
+      ),
+      O.some(_.make([1], 2, [3]))
+    )
+    assert.deepStrictEqual(
+      pipe(
+        _.make([1], 2, [-3]),
+        traverse((n) => (n > 0 ? O.some(n) : O.none))
+      ),
+      O.none
+    )
+  })
+
+  it('sequence', () => {
+    const sequence = _.sequence(O.Applicative)
+    assert.deepStrictEqual(sequence(_.make([O.some(1)], O.some(2), [O.some(3)])), O.some(_.make([1], 2, [3])))
+    assert.deepStrictEqual(sequence(_.make([O.some(1)], O.none, [O.some(3)])), O.none)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // instances
+  // -------------------------------------------------------------------------------------
+
+  it('getShow', () => {
+    const S = _.getShow(showString)
+    assert.deepStrictEqual(S.show(_.make(['a'], 'b', [])), `Zipper(["a"], "b", [])`)
+  })
+
+  it('getEq', () => {
+    const E = _.getEq(eqNumber)
+    assert.deepStrictEqual(E.equals(_.make([1], 2, [3]), _.make([1], 2, [3])), true)
+    assert.deepStrictEqual(E.equals(_.make([1], 2, [3]), _.make([1, 2], 3, [])), false)
+    assert.deepStrictEqual(E.equals(_.make([1], 2, [3]), _.make([1], 2, [4])), false)
+    assert.deepStrictEqual(E.equals(_.make([1], 2, [3]), _.make([1], 3, [3])), false)
+  })
+
+  it('getMonoid', () => {
+    const M = _.getMonoid(monoidSum)
+    assert.deepStrictEqual(M.concat(_.make([1], 2, []), _.make([], 10, [20])), _.make([11, 21], 12, [22]))
+    fc.assert(
+      fc.property(zipper, (z) => {
+        assert.deepStrictEqual(M.concat(z, M.empty), z)
+        assert.deepStrictEqual(M.concat(M.empty, z), z)
+      })
+    )
+  })
+
+  it('Functor', () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(_.Functor.map(_.make([1], 2, [3]), double), _.make([2], 4, [6]))
+  })
+
+  it('FunctorWithIndex', () => {
+    assert.deepStrictEqual(
+      _.FunctorWithIndex.mapWithIndex(_.make([1], 2, [3]), (i, n) => i + n),
+      _.make([1], 3, [5])
+    )
+  })
+
+  it('Applicative', () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(_.Applicative.ap(_.Applicative.of(double), _.make([1], 2, [3])), _.make([2], 4, [6]))
+  })
+
+  it('Foldable', () => {
+    const z = _.make(['a'], 'b', ['c'])
+    assert.deepStrictEqual(
+      _.Foldable.reduce(z, '', (b, a) => b + a),
+      'abc'
+    )
+    assert.deepStrictEqual(_.Foldable.foldMap(monoidString)(z, identity), 'abc')
+    assert.deepStrictEqual(
+      _.Foldable.reduceRight(z, '', (a, b) => b + a),
+      'cba'
+    )
+  })
+
+  it('Traversable', () => {
+    assert.deepStrictEqual(
+      _.Traversable.traverse(O.Applicative)(_.make([1], 2, [3]), (n) => (n > 0 ? O.some(n) : O.none)),
+      O.some(_.make([1], 2, [3]))
+    )
+  })
+
+  it('Comonad', () => {
+    assert.deepStrictEqual(_.Comonad.extend(_.make([1], 2, [3, 4]), len), _.make([4], 4, [4, 4]))
+    assert.deepStrictEqual(_.Comonad.extract(_.make([1], 2, [3])), 2)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // constructors
+  // -------------------------------------------------------------------------------------
+
+  it('fromArray', () => {
+    assert.deepStrictEqual(_.fromArray([]), O.none)
+    assert.deepStrictEqual(_.fromArray([1, 2, 3]), O.some(_.make([], 1, [2, 3])))
+    assert.deepStrictEqual(_.fromArray([1, 2, 3], 2), O.some(_.make([1, 2], 3, [])))
+    assert.deepStrictEqual(_.fromArray([1, 2, 3], 3), O.none)
+    assert.deepStrictEqual(_.fromArray([1, 2, 3], -1), O.none)
+    assert.deepStrictEqual(_.fromArray([1, 2, 3], 0.5), O.none)
+    assert.deepStrictEqual(_.fromArray([1, 2, 3], NaN), O.none)
+  })
+
+  it('fromNonEmptyArray', () => {
+    assert.deepStrictEqual(_.fromNonEmptyArray([1, 2, 3]), _.make([], 1, [2, 3]))
+  })
+
+  it('of', () => {
+    assert.deepStrictEqual(_.of(1), _.make([], 1, []))
+  })
+
+  // -------------------------------------------------------------------------------------
+  // destructors
+  // -------------------------------------------------------------------------------------
+
+  it('toReadonlyArray', () => {
+    assert.deepStrictEqual(_.toReadonlyArray(_.make([1], 2, [3])), [1, 2, 3])
+  })
+
+  it('length', () => {
+    assert.deepStrictEqual(_.length(_.make([1], 2, [3])), 3)
+  })
+
+  it('focusIndex', () => {
+    assert.deepStrictEqual(_.focusIndex(_.make([1], 2, [3])), 1)
+  })
+
+  // -------------------------------------------------------------------------------------
+  // combinators
+  // -------------------------------------------------------------------------------------
+
+  it('update', () => {
+    assert.deepStrictEqual(pipe(_.make([1], 2, [3]), _.update(4)), _.make([1], 4, [3]))
+  })
+
+  it('modify', () => {
+    assert.deepStrictEqual(
+      pipe(
+        _.make([1], 2, [3]),
+        _.modify((n) => n * 2)
+      ),
+      _.make([1], 4, [3])
+    )
+  })
+
+  it('move', () => {
+    const z = _.make([1], 2, [3])
+    assert.deepStrictEqual(
+      pipe(
+        z,
+        _.move(() => 2)
+      ),
+      O.some(_.make([1, 2], 3, []))
+    )
+    assert.deepStrictEqual(
+      pipe(
+        z,
+        _.move(() => 3)
+      ),
+      O.none
+    )
+    assert.deepStrictEqual(
+      pipe(
+        z,
+        _.move(() => -1)
+      ),
+      O.none
+    )
+    assert.deepStrictEqual(
+      pipe(
+        z,
+        _.move(() => NaN)
+      ),
+      O.none
+    )
+    assert.deepStrictEqual(
+      pipe(
+        z,
+        _.move((n) => n + 0.5)
+      ),
+      O.none
+    )
+  })
+
+  it('up', () => {
+    assert.deepStrictEqual(_.up(_.make([1], 2, [3])), O.some(_.make([], 1, [2, 3])))
+    assert.deepStrictEqual(_.up(_.make([1, 2], 3, [])), O.some(_.make([1], 2, [3])))
+    assert.deepStrictEqual(_.up(_.make([], 1, [2, 3])), O.none)
+  })
+
+  it('down', () => {
+    assert.deepStrictEqual(_.down(_.make([1], 2, [3])), O.some(_.make([1, 2], 3, [])))
+    assert.deepStrictEqual(_.down(_.make([], 1, [2, 3])), O.some(_.make([1], 2, [3])))
+    assert.deepStrictEqual(_.down(_.make([1, 2], 3, [])), O.none)
+  })
+
+  it('start', () => {
+    assert.deepStrictEqual(_.start(_.make([1, 2], 3, [4])), _.make([], 1, [2, 3, 4]))
+    const z = _.make([], 1, [2])
+    assert.strictEqual(_.start(z), z)
+  })
+
+  it('end', () => {
+    assert.deepStrictEqual(_.end(_.make([1], 2, [3, 4])), _.make([1, 2, 3], 4, []))
+    const z = _.make([1], 2, [])
+    assert.strictEqual(_.end(z), z)
+  })
+
+  it('insertLeft', () => {
+    assert.deepStrictEqual(pipe(_.make([1], 2, [3]), _.insertLeft(4)), _.make([1], 4, [2, 3]))
+  })
+
+  it('insertRight', () => {
+    assert.deepStrictEqual(pipe(_.make([1], 2, [3]), _.insertRight(4)), _.make([1, 2], 4, [3]))
+  })
+
+  it('deleteLeft', () => {
+    assert.deepStrictEqual(_.deleteLeft(_.make([1], 2, [3])), O.some(_.make([], 1, [3])))
+    assert.deepStrictEqual(_.deleteLeft(_.make([], 1, [2, 3])), O.some(_.make([], 2, [3])))
+    assert.deepStrictEqual(_.deleteLeft(_.make([], 1, [])), O.none)
+  })
+
+  it('deleteRight', () => {
+    assert.deepStrictEqual(_.deleteRight(_.make([1], 2, [3])), O.some(_.make([1], 3, [])))
+    assert.deepStrictEqual(_.deleteRight(_.make([1, 2], 3, [])), O.some(_.make([1], 2, [])))
+    assert.deepStrictEqual(_.deleteRight(_.make([], 1, [])), O.none)
+  })
+})
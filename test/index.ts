@@ -9,9 +9,15 @@ const getExportName = (name: string): string => {
   if (name === 'IOEither') {
     return 'ioEither'
   }
+  if (name === 'IOOption') {
+    return 'ioOption'
+  }
   if (name === 'IORef') {
     return 'ioRef'
   }
+  if (name === 'IOThese') {
+    return 'ioThese'
+  }
   if (name === 'TaskEither') {
     return 'taskEither'
   }